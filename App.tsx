@@ -6,12 +6,18 @@ import { Dashboard } from './components/Dashboard';
 import { ImportView } from './components/ImportView';
 import { CleanupView } from './components/CleanupView';
 import { MassiveEditView } from './components/MassiveEditView';
+import { ImportHistoryView } from './components/ImportHistoryView';
+import { TrashView } from './components/TrashView';
+import { BackupView } from './components/BackupView';
 import { HelpModal } from './components/HelpModal';
 import { SettingsModal } from './components/SettingsModal';
 import readmeContent from './README.md?raw';
+import type { ImportBatch } from './lib/importHistory';
 
 export default function App() {
-  const [page, setPage] = useState<'dashboard' | 'import' | 'cleanup' | 'massive-edit'>('dashboard');
+  const [page, setPage] = useState<'dashboard' | 'import' | 'cleanup' | 'massive-edit' | 'history' | 'trash' | 'backup'>('dashboard');
+  // Importazione scelta dalla cronologia da risincronizzare nella pagina di importazione
+  const [resyncBatch, setResyncBatch] = useState<ImportBatch | null>(null);
   const [isThemeCustomizerOpen, setThemeCustomizerOpen] = useState(false);
   const [isHelpOpen, setHelpOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -33,14 +39,29 @@ export default function App() {
     loadMetadata();
   }, []);
 
+  useEffect(() => {
+    if (page !== 'import') setResyncBatch(null);
+  }, [page]);
+
+  const handleResync = (batch: ImportBatch) => {
+    setResyncBatch(batch);
+    setPage('import');
+  };
+
   const renderPage = () => {
     switch (page) {
       case 'import':
-        return <ImportView setPage={setPage} />;
+        return <ImportView setPage={setPage} resyncBatch={resyncBatch} />;
       case 'cleanup':
         return <CleanupView setPage={setPage} />;
       case 'massive-edit':
         return <MassiveEditView setPage={setPage} />;
+      case 'history':
+        return <ImportHistoryView setPage={setPage} onResync={handleResync} />;
+      case 'trash':
+        return <TrashView setPage={setPage} />;
+      case 'backup':
+        return <BackupView setPage={setPage} />;
       case 'dashboard':
       default:
         return <Dashboard setPage={setPage} />;
@@ -0,0 +1,114 @@
+import React from 'react';
+import type { FilterParams } from '../services/geminiService';
+import type { Weekday } from '../lib/types';
+import { weekdays } from '../lib/recurrence';
+import { responseStatusOptions, recurrenceOptions, eventTypeOptions, hasAdvancedFilters } from '../lib/eventFilters';
+import { ChevronDownIcon, ChevronUpIcon } from './Icons';
+
+interface AdvancedFiltersProps {
+    value: FilterParams;
+    onChange: (filters: FilterParams) => void;
+    isOpen: boolean;
+    onToggle: () => void;
+    // Classi dei campi, per adattarsi allo stile della sezione che li ospita
+    inputClassName: string;
+}
+
+const labelClasses = 'block mb-1 text-sm font-medium text-muted-foreground';
+
+// Sezione espandibile con i filtri su partecipanti, risposta, ricorrenza, durata, giorni, date di creazione e modifica
+// e tipo di evento. Chiusa, indica comunque se qualcuno di questi filtri è attivo.
+export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({ value, onChange, isOpen, onToggle, inputClassName }) => {
+    const update = (changes: Partial<FilterParams>) => onChange({ ...value, ...changes });
+
+    const toggleWeekday = (day: Weekday) => {
+        update({ weekdays: value.weekdays.includes(day) ? value.weekdays.filter(d => d !== day) : [...value.weekdays, day] });
+    };
+
+    const parseMinutes = (input: string) => Math.max(0, parseInt(input, 10) || 0);
+
+    return (
+        <div className="space-y-4">
+            <button
+                onClick={onToggle}
+                className="flex items-center space-x-1 text-sm font-medium text-primary hover:underline"
+                aria-expanded={isOpen}
+            >
+                {isOpen ? <ChevronUpIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />}
+                <span>Filtri avanzati{!isOpen && hasAdvancedFilters(value) ? ' (attivi)' : ''}</span>
+            </button>
+            {isOpen && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div className="sm:col-span-2">
+                        <label htmlFor="exclude-filter" className={labelClasses}>Escludi termini</label>
+                        <input type="text" id="exclude-filter" placeholder="Separati da virgola, es. 'annullato, Mario'" value={value.exclude} onChange={e => update({ exclude: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="attendee-filter" className={labelClasses}>Partecipante</label>
+                        <input type="text" id="attendee-filter" placeholder="Email o nome" value={value.attendee} onChange={e => update({ attendee: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="organizer-filter" className={labelClasses}>Organizzatore</label>
+                        <input type="text" id="organizer-filter" placeholder="Email o nome" value={value.organizer} onChange={e => update({ organizer: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="response-filter" className={labelClasses}>La mia risposta</label>
+                        <select id="response-filter" value={value.responseStatus} onChange={e => update({ responseStatus: e.target.value as FilterParams['responseStatus'] })} className={inputClassName}>
+                            {responseStatusOptions.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="recurrence-filter" className={labelClasses}>Ricorrenza</label>
+                        <select id="recurrence-filter" value={value.recurrence} onChange={e => update({ recurrence: e.target.value as FilterParams['recurrence'] })} className={inputClassName}>
+                            {recurrenceOptions.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="event-type-filter" className={labelClasses}>Tipo di evento</label>
+                        <select id="event-type-filter" value={value.eventType} onChange={e => update({ eventType: e.target.value as FilterParams['eventType'] })} className={inputClassName}>
+                            {eventTypeOptions.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <span className={labelClasses}>Durata (minuti)</span>
+                        <div className="flex gap-2">
+                            <input type="number" min={0} placeholder="Min" aria-label="Durata minima in minuti" value={value.minDuration || ''} onChange={e => update({ minDuration: parseMinutes(e.target.value) })} className={inputClassName} />
+                            <input type="number" min={0} placeholder="Max" aria-label="Durata massima in minuti" value={value.maxDuration || ''} onChange={e => update({ maxDuration: parseMinutes(e.target.value) })} className={inputClassName} />
+                        </div>
+                    </div>
+                    <div className="sm:col-span-2 lg:col-span-4">
+                        <span className={labelClasses}>Giorni della settimana</span>
+                        <div className="flex flex-wrap gap-1" role="group" aria-label="Giorni della settimana">
+                            {weekdays.map(day => (
+                                <button
+                                    key={day.id}
+                                    onClick={() => toggleWeekday(day.id)}
+                                    aria-pressed={value.weekdays.includes(day.id)}
+                                    className={`py-1.5 px-3 rounded-md text-sm font-semibold transition-colors border border-border ${value.weekdays.includes(day.id) ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground hover:bg-muted'}`}
+                                >
+                                    {day.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="created-after" className={labelClasses}>Creati dal</label>
+                        <input type="date" id="created-after" value={value.createdAfter} onChange={e => update({ createdAfter: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="created-before" className={labelClasses}>Creati fino al</label>
+                        <input type="date" id="created-before" value={value.createdBefore} onChange={e => update({ createdBefore: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="updated-after" className={labelClasses}>Modificati dal</label>
+                        <input type="date" id="updated-after" value={value.updatedAfter} onChange={e => update({ updatedAfter: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="updated-before" className={labelClasses}>Modificati fino al</label>
+                        <input type="date" id="updated-before" value={value.updatedBefore} onChange={e => update({ updatedBefore: e.target.value })} className={inputClassName} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
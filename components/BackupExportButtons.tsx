@@ -0,0 +1,53 @@
+import React from 'react';
+import { createBackup, generateBackupFile, getBackupFileName } from '../lib/backup';
+import type { BackupEvent, BackupFileFormat } from '../lib/backup';
+import { useGoogleSession } from '../contexts/GoogleSessionContext';
+import { DownloadIcon } from './Icons';
+
+interface BackupExportButtonsProps {
+    events: BackupEvent[];
+    // Intervallo di date richiesto, se il backup copre un intero calendario
+    range?: { from: string; to: string };
+    disabled?: boolean;
+}
+
+const mimeTypes: Record<BackupFileFormat, string> = {
+    json: 'application/json;charset=utf-8;',
+    ics: 'text/calendar;charset=utf-8;',
+};
+
+// Pulsanti "Esporta backup" che scaricano gli eventi indicati in JSON o in .ics, con tutti i campi di Google
+export const BackupExportButtons: React.FC<BackupExportButtonsProps> = ({ events, range, disabled = false }) => {
+    const { user, calendars } = useGoogleSession();
+
+    const handleDownload = (format: BackupFileFormat) => {
+        const backup = createBackup(user?.email || '', calendars, events, range);
+        const blob = new Blob([generateBackupFile(backup, format)], { type: mimeTypes[format] });
+        const link = document.createElement('a');
+        const url = URL.createObjectURL(blob);
+        link.setAttribute('href', url);
+        link.setAttribute('download', getBackupFileName(backup, format));
+        link.style.visibility = 'hidden';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="flex items-center gap-2" title={`Scarica una copia dei ${events.length} eventi prima di modificarli o eliminarli`}>
+            <span className="text-sm text-muted-foreground">Esporta backup</span>
+            {(['json', 'ics'] as const).map(format => (
+                <button
+                    key={format}
+                    onClick={() => handleDownload(format)}
+                    disabled={disabled || events.length === 0}
+                    className="flex items-center space-x-1 text-sm bg-secondary hover:bg-muted disabled:opacity-50 text-secondary-foreground font-semibold py-2 px-3 rounded-md transition-colors"
+                >
+                    <DownloadIcon className="h-4 w-4" />
+                    <span>{format === 'json' ? 'JSON' : '.ics'}</span>
+                </button>
+            ))}
+        </div>
+    );
+};
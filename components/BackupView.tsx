@@ -0,0 +1,338 @@
+import React, { useState, useEffect, useRef } from 'react';
+import * as gcal from '../services/googleCalendarService';
+import { parseBackupFile, getBackupDateRange } from '../lib/backup';
+import type { BackupEvent, LoadedBackup } from '../lib/backup';
+import { addDays, toDDMMYYYY, toLocalDateAndTime } from '../lib/dateUtils';
+import { Loader } from './Loader';
+import { GoogleIcon, ArrowLeftIcon, XIcon, UploadCloudIcon, RefreshCwIcon, SearchIcon } from './Icons';
+import { useGoogleSession } from '../contexts/GoogleSessionContext';
+import { GoogleAccountBar } from './GoogleAccountBar';
+import { BackupExportButtons } from './BackupExportButtons';
+
+interface BackupError { title: string; message: string; }
+interface BackupViewProps {
+    setPage: (page: 'dashboard') => void;
+}
+
+const inputClasses = 'bg-input border border-border text-foreground text-sm rounded-lg focus:ring-ring focus:border-primary block w-full p-2.5';
+const labelClasses = 'block mb-1 text-sm font-medium text-muted-foreground';
+
+const formatEventStart = (event: BackupEvent): string => {
+    return event.start.dateTime
+        ? new Date(event.start.dateTime).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })
+        : toDDMMYYYY(event.start.date || '');
+};
+
+export const BackupView: React.FC<BackupViewProps> = ({ setPage }) => {
+    const { status, error: sessionError, user, calendars, signIn } = useGoogleSession();
+    const [error, setError] = useState<BackupError | null>(null);
+
+    // Backup di un intero calendario in un intervallo di date
+    const today = toLocalDateAndTime(new Date()).date;
+    const [exportCalendarId, setExportCalendarId] = useState('');
+    const [exportRange, setExportRange] = useState({ from: today, to: addDays(today, 365) });
+    const [exportEvents, setExportEvents] = useState<BackupEvent[] | null>(null);
+    const [loadedCount, setLoadedCount] = useState<number | null>(null);
+
+    // Ripristino da un file di backup
+    const [backupFile, setBackupFile] = useState<{ name: string; backup: LoadedBackup } | null>(null);
+    const [restoreCalendarId, setRestoreCalendarId] = useState('');
+    const [restoring, setRestoring] = useState<{ current: number; total: number } | null>(null);
+    const [restoreSummary, setRestoreSummary] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const writableCalendars = calendars.filter(c => c.accessRole === 'owner' || c.accessRole === 'writer');
+    const getCalendarName = (calendarId: string) => calendars.find(c => c.id === calendarId)?.summary
+        || backupFile?.backup.calendars.find(c => c.id === calendarId)?.summary
+        || calendarId;
+
+    // Calendario principale come proposta iniziale per il backup, anche dopo un cambio di account
+    useEffect(() => {
+        if (!calendars.some(c => c.id === exportCalendarId)) {
+            setExportCalendarId((calendars.find(c => c.primary) || calendars[0])?.id || '');
+            setExportEvents(null);
+        }
+    }, [calendars, exportCalendarId]);
+
+    const handleLoadExportEvents = async () => {
+        if (!exportRange.from || !exportRange.to || exportRange.to < exportRange.from) {
+            setError({ title: 'Intervallo Non Valido', message: 'Indica una data di inizio e una data di fine successiva.' });
+            return;
+        }
+        setError(null);
+        setExportEvents(null);
+        setLoadedCount(0);
+        try {
+            const timeMin = new Date(`${exportRange.from}T00:00:00`).toISOString();
+            const timeMax = new Date(`${addDays(exportRange.to, 1)}T00:00:00`).toISOString();
+            const items = await gcal.listEvents(exportCalendarId, timeMin, timeMax, { onProgress: setLoadedCount });
+            setExportEvents(items.map(event => ({ ...event, calendarId: exportCalendarId })));
+        } catch (err: any) {
+            setError({ title: gcal.getErrorTitle(err, 'Errore nel Caricamento degli Eventi'), message: err.message });
+        } finally {
+            setLoadedCount(null);
+        }
+    };
+
+    const handleBackupFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        setRestoreSummary(null);
+        try {
+            const backup = parseBackupFile(await file.text());
+            setBackupFile({ name: file.name, backup });
+            // Se gli eventi provengono da un solo calendario modificabile, lo si propone come destinazione
+            const sourceIds = new Set(backup.events.map(event => event.calendarId));
+            const [sourceId] = Array.from(sourceIds);
+            setRestoreCalendarId(sourceIds.size === 1 && writableCalendars.some(c => c.id === sourceId) ? sourceId : '');
+        } catch (err: any) {
+            setBackupFile(null);
+            setError({ title: 'Backup Non Valido', message: err.message });
+        }
+    };
+
+    const handleRestore = async () => {
+        if (!backupFile || !restoreCalendarId) return;
+        const { events } = backupFile.backup;
+        const inPlaceCount = events.filter(event => event.calendarId === restoreCalendarId).length;
+        const copyCount = events.length - inPlaceCount;
+        const details = [
+            inPlaceCount > 0 && `${inPlaceCount} provengono da questo calendario: quelli ancora presenti torneranno alla versione del backup, quelli eliminati verranno ripristinati.`,
+            copyCount > 0 && `${copyCount} verranno creati come nuovi eventi.`,
+        ].filter(Boolean).join(' ');
+        if (!window.confirm(`Ripristinare ${events.length} eventi in "${getCalendarName(restoreCalendarId)}"? ${details}`)) {
+            return;
+        }
+
+        setError(null);
+        setRestoreSummary(null);
+        setRestoring({ current: 0, total: events.length });
+        const results = await gcal.restoreBackupEvents(events, restoreCalendarId, {
+            onProgress: (current, total) => setRestoring({ current, total }),
+        });
+        const failed = results.filter(result => !result.ok);
+        if (failed.length > 0) {
+            setError({
+                title: 'Ripristino Parziale',
+                message: `${failed.length} eventi su ${events.length} non sono stati ripristinati. ${gcal.describeBatchFailures(failed)}`
+            });
+        }
+        if (failed.length < events.length) {
+            setRestoreSummary(`${events.length - failed.length} eventi ripristinati in "${getCalendarName(restoreCalendarId)}".`);
+        }
+        setRestoring(null);
+    };
+
+    if (status === 'initial' || status === 'authenticating') {
+        return (
+            <div className="text-center p-8 bg-card rounded-lg border border-border">
+                <h2 className="text-2xl font-bold mb-3">Backup Calendario</h2>
+                <p className="text-muted-foreground mb-6 max-w-xl mx-auto">
+                    Connettiti a Google per salvare una copia degli eventi di un calendario prima di pulirlo o modificarlo, o per ripristinare un backup.
+                </p>
+                {sessionError && <p className="text-sm text-destructive mb-6">{sessionError.title}: {sessionError.message}</p>}
+                <div className="flex justify-center items-center space-x-4">
+                    <button
+                        onClick={() => setPage('dashboard')}
+                        className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-3 px-6 rounded-full inline-flex items-center space-x-3 transition-all duration-300"
+                    >
+                        <ArrowLeftIcon className="h-5 w-5"/> <span>Indietro</span>
+                    </button>
+                    <button
+                        onClick={signIn}
+                        disabled={status === 'authenticating'}
+                        className="bg-primary hover:bg-primary/90 disabled:bg-muted text-primary-foreground font-bold py-3 px-6 rounded-full inline-flex items-center space-x-3 transition-all duration-300"
+                    >
+                        {status === 'authenticating' ? <Loader className="h-5 w-5"/> : <GoogleIcon className="h-5 w-5" />}
+                        <span>Connetti Google Calendar</span>
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (status === 'loading') {
+        return <div className="text-center p-8"><Loader /><p className="mt-4 text-muted-foreground">Caricamento dati...</p></div>;
+    }
+
+    if (status === 'error' && sessionError) {
+        return (
+            <div className="text-center p-8 bg-destructive/10 border border-destructive/30 rounded-lg">
+                <h3 className="font-bold text-lg text-destructive-foreground/90">{sessionError.title}</h3>
+                <p className="text-sm mt-2 text-destructive-foreground/80">{sessionError.message}</p>
+                <div className="mt-6 flex justify-center items-center space-x-4">
+                    <button onClick={() => setPage('dashboard')} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-2 px-6 rounded-full">
+                        Torna alla Dashboard
+                    </button>
+                    <button onClick={signIn} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-6 rounded-full">
+                        Riprova Accesso
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    const loadedBackup = backupFile?.backup;
+    const backupRange = loadedBackup ? getBackupDateRange(loadedBackup.events) : null;
+    const isLoadingExport = loadedCount !== null;
+
+    return (
+        <div className="animate-fade-in space-y-6">
+            <div className="max-w-4xl mx-auto">
+                <GoogleAccountBar />
+            </div>
+
+            {/* Inline Error Display */}
+            {error && (
+                <div className="max-w-4xl mx-auto bg-destructive/10 border border-destructive/30 text-destructive-foreground px-4 py-3 rounded-lg relative flex justify-between items-start" role="alert">
+                    <div>
+                        <strong className="font-bold">{error.title}: </strong>
+                        <span className="block sm:inline">{error.message}</span>
+                    </div>
+                    <button onClick={() => setError(null)} className="ml-4 p-1 rounded hover:bg-destructive/20 transition-colors">
+                        <XIcon className="h-5 w-5" />
+                    </button>
+                </div>
+            )}
+
+            {/* Esportazione di un calendario */}
+            <div className="max-w-4xl mx-auto bg-card p-6 rounded-lg border border-border space-y-4">
+                <div>
+                    <h2 className="text-lg font-bold text-foreground">Esporta backup</h2>
+                    <p className="text-sm text-muted-foreground">
+                        Salva sul tuo dispositivo gli eventi di un calendario in un intervallo di date, con tutti i dati di Google Calendar.
+                        Puoi esportare anche i soli risultati di una ricerca da Pulisci Calendario o da Modifica Massiva.
+                    </p>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                        <label htmlFor="backup-calendar" className={labelClasses}>Calendario</label>
+                        <select
+                            id="backup-calendar"
+                            value={exportCalendarId}
+                            onChange={e => { setExportCalendarId(e.target.value); setExportEvents(null); }}
+                            disabled={isLoadingExport}
+                            className={inputClasses}
+                        >
+                            {calendars.map(cal => <option key={cal.id} value={cal.id}>{cal.summary}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="backup-from" className={labelClasses}>Dal</label>
+                        <input type="date" id="backup-from" value={exportRange.from} onChange={e => { setExportRange(r => ({ ...r, from: e.target.value })); setExportEvents(null); }} disabled={isLoadingExport} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="backup-to" className={labelClasses}>Al</label>
+                        <input type="date" id="backup-to" value={exportRange.to} onChange={e => { setExportRange(r => ({ ...r, to: e.target.value })); setExportEvents(null); }} disabled={isLoadingExport} className={inputClasses} />
+                    </div>
+                </div>
+                <div className="flex flex-wrap justify-between items-center gap-3">
+                    <button
+                        onClick={handleLoadExportEvents}
+                        disabled={!exportCalendarId || isLoadingExport}
+                        className="bg-primary hover:bg-primary/90 disabled:bg-muted text-primary-foreground font-bold py-2 px-4 rounded-lg inline-flex items-center space-x-2 transition-colors"
+                    >
+                        {isLoadingExport ? <Loader className="h-5 w-5" /> : <SearchIcon className="h-5 w-5" />}
+                        <span>{isLoadingExport ? `Caricamento (${loadedCount} eventi)...` : 'Carica eventi'}</span>
+                    </button>
+                    {exportEvents && (
+                        <div className="flex flex-wrap items-center gap-3">
+                            <span className="text-sm text-foreground">{exportEvents.length} eventi pronti.</span>
+                            <BackupExportButtons events={exportEvents} range={exportRange} />
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Ripristino da file */}
+            <div className="max-w-4xl mx-auto bg-card p-6 rounded-lg border border-border space-y-4">
+                <div className="flex flex-wrap justify-between items-start gap-3">
+                    <div>
+                        <h2 className="text-lg font-bold text-foreground">Ripristina da backup</h2>
+                        <p className="text-sm text-muted-foreground">
+                            Carica un backup JSON o .ics esportato da ForMa e ripristina i suoi eventi nel calendario scelto.
+                        </p>
+                    </div>
+                    <input type="file" ref={fileInputRef} onChange={handleBackupFileChange} accept=".json,.ics,application/json,text/calendar" className="hidden" />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={restoring !== null}
+                        className="flex items-center space-x-2 text-sm bg-secondary hover:bg-muted disabled:opacity-50 text-secondary-foreground font-semibold py-2 px-3 rounded-md transition-colors"
+                    >
+                        <UploadCloudIcon className="h-4 w-4" />
+                        <span>Scegli file</span>
+                    </button>
+                </div>
+
+                {restoreSummary && (
+                    <p className="text-sm text-foreground bg-secondary/50 border border-border px-4 py-3 rounded-lg">{restoreSummary}</p>
+                )}
+
+                {backupFile && loadedBackup && (
+                    <div className="space-y-4">
+                        <div className="text-sm text-muted-foreground space-y-1">
+                            <p>
+                                <span className="font-semibold text-foreground">{backupFile.name}</span>
+                                {' · '}{loadedBackup.events.length} eventi
+                                {backupRange && ` dal ${toDDMMYYYY(backupRange.from)} al ${toDDMMYYYY(backupRange.to)}`}
+                            </p>
+                            {loadedBackup.createdAt && (
+                                <p>
+                                    Creato il {new Date(loadedBackup.createdAt).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}
+                                    {loadedBackup.account && ` da ${loadedBackup.account}`}
+                                </p>
+                            )}
+                            {loadedBackup.account && user && loadedBackup.account !== user.email && (
+                                <p>Il backup proviene da un altro account: gli eventi dei calendari non condivisi verranno creati come nuovi eventi.</p>
+                            )}
+                        </div>
+
+                        <ul className="max-h-60 overflow-y-auto border border-border rounded-lg divide-y divide-border text-xs text-muted-foreground">
+                            {loadedBackup.events.map(event => (
+                                <li key={`${event.calendarId}/${event.id}`} className="flex justify-between gap-4 px-3 py-2">
+                                    <span className="truncate">
+                                        <span className="text-foreground">{event.summary || '(senza titolo)'}</span> · {formatEventStart(event)}
+                                        {event.recurringEventId && ' · occorrenza di un evento ricorrente'}
+                                    </span>
+                                    <span className="flex-shrink-0">{getCalendarName(event.calendarId)}</span>
+                                </li>
+                            ))}
+                        </ul>
+
+                        <div className="flex flex-wrap items-end gap-3">
+                            <div className="flex-grow">
+                                <label htmlFor="restore-calendar" className={labelClasses}>Ripristina nel calendario</label>
+                                <select
+                                    id="restore-calendar"
+                                    value={restoreCalendarId}
+                                    onChange={e => setRestoreCalendarId(e.target.value)}
+                                    disabled={restoring !== null}
+                                    className={inputClasses}
+                                >
+                                    <option value="">Scegli un calendario...</option>
+                                    {writableCalendars.map(cal => <option key={cal.id} value={cal.id}>{cal.summary}</option>)}
+                                </select>
+                            </div>
+                            <button
+                                onClick={handleRestore}
+                                disabled={!restoreCalendarId || restoring !== null}
+                                className="bg-primary hover:bg-primary/90 disabled:bg-muted text-primary-foreground font-bold py-2.5 px-4 rounded-lg inline-flex items-center space-x-2 transition-colors"
+                            >
+                                {restoring ? <Loader className="h-5 w-5" /> : <RefreshCwIcon className="h-5 w-5" />}
+                                <span>
+                                    {restoring ? `Ripristino (${restoring.current}/${restoring.total})...` : `Ripristina ${loadedBackup.events.length} eventi`}
+                                </span>
+                            </button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Nel calendario d'origine gli eventi tornano alla versione del backup; in un altro calendario ne vengono create copie.
+                            Le occorrenze di un evento ricorrente ricreate da zero diventano eventi singoli.
+                        </p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,20 +1,32 @@
-import React, { useState } from 'react';
-import type { ValidatedEvent, EventObject } from '../lib/types';
+import React, { useState, useMemo } from 'react';
+import type { ValidatedEvent, EventObject, EventTextField, EventReminder, ReminderMethod } from '../lib/types';
 import { validateEvent } from '../lib/validation';
 import { toYYYYMMDD } from '../lib/dateUtils';
-import { SparklesIcon, XIcon, ClockIcon } from './Icons';
+import { reminderMethods, resolveReminders, MAX_REMINDERS } from '../lib/reminders';
+import { isTimeShiftActive, shiftEventObject } from '../lib/timeShift';
+import type { TimeShift } from '../lib/timeShift';
+import { useSettings } from '../contexts/SettingsContext';
+import { SparklesIcon, XIcon, ClockIcon, BellIcon, CalendarIcon } from './Icons';
+import { TimeShiftEditor } from './TimeShiftEditor';
+import { EventColorSelect } from './EventColorSelect';
 
 interface BulkActionsProps {
+    events: ValidatedEvent[];
     selectedIds: Set<number>;
     setEvents: React.Dispatch<React.SetStateAction<ValidatedEvent[]>>;
     onClearSelection: () => void;
 }
 
-type UpdatableFields = Partial<Omit<EventObject, 'id' | 'subject'>>;
+type UpdatableFields = Partial<Pick<EventObject, Exclude<EventTextField, 'subject'>>>;
 
-export const BulkActions: React.FC<BulkActionsProps> = ({ selectedIds, setEvents, onClearSelection }) => {
+export const BulkActions: React.FC<BulkActionsProps> = ({ events, selectedIds, setEvents, onClearSelection }) => {
+    const { defaultReminder, defaultTimeZone } = useSettings();
     const [updates, setUpdates] = useState<UpdatableFields>({});
     const [duration, setDuration] = useState('');
+    const [reminderMethod, setReminderMethod] = useState<ReminderMethod>('popup');
+    const [reminderMinutes, setReminderMinutes] = useState('');
+    const [shift, setShift] = useState<TimeShift | null>(null);
+    const [colorId, setColorId] = useState('');
 
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const { name, value } = e.target;
@@ -57,7 +69,8 @@ export const BulkActions: React.FC<BulkActionsProps> = ({ selectedIds, setEvents
 
         setEvents(prevEvents => {
             return prevEvents.map(event => {
-                if (selectedIds.has(event.id)) {
+                // La durata in minuti non si applica agli eventi di un'intera giornata
+                if (selectedIds.has(event.id) && !event.allDay) {
                     try {
                         const startDateTime = new Date(`${toYYYYMMDD(event.startDate)}T${event.startTime}`);
                         if (isNaN(startDateTime.getTime())) return event; // Skip if start date is invalid
@@ -86,8 +99,56 @@ export const BulkActions: React.FC<BulkActionsProps> = ({ selectedIds, setEvents
         onClearSelection();
     };
     
+    // Sposta gli eventi selezionati mantenendone la durata; quelli senza date valide restano invariati
+    const handleApplyShift = () => {
+        if (!isTimeShiftActive(shift)) return;
+        setEvents(prevEvents => prevEvents.map(event => {
+            if (!selectedIds.has(event.id)) return event;
+            const shifted = shiftEventObject(event, shift, defaultTimeZone);
+            return shifted ? validateEvent(shifted) : event;
+        }));
+        setShift(null);
+        onClearSelection();
+    };
+
+    // Senza un colore scelto gli eventi tornano al colore del calendario
+    const handleApplyColor = () => {
+        setEvents(prevEvents => prevEvents.map(event => {
+            if (!selectedIds.has(event.id)) return event;
+            return validateEvent({ ...event, colorId: colorId || undefined });
+        }));
+        onClearSelection();
+    };
+
+    // 'replace' sostituisce i promemoria esistenti, 'add' ne aggiunge uno, 'none' li rimuove tutti
+    const handleApplyReminders = (mode: 'replace' | 'add' | 'none') => {
+        const reminder: EventReminder = { method: reminderMethod, minutes: parseInt(reminderMinutes, 10) };
+        setEvents(prevEvents => prevEvents.map(event => {
+            if (!selectedIds.has(event.id)) return event;
+            let reminders: EventReminder[] = [];
+            if (mode === 'replace') {
+                reminders = [reminder];
+            } else if (mode === 'add') {
+                // Parte dai promemoria effettivi (anche quello predefinito), evita i duplicati e rispetta il limite di Google Calendar
+                const current = resolveReminders(event, defaultReminder);
+                const exists = current.some(r => r.method === reminder.method && r.minutes === reminder.minutes);
+                reminders = exists || current.length >= MAX_REMINDERS ? current : [...current, reminder];
+            }
+            return validateEvent({ ...event, reminders });
+        }));
+        setReminderMinutes('');
+        onClearSelection();
+    };
+
     const canApplyFields = Object.keys(updates).length > 0;
+    const canApplyReminder = parseInt(reminderMinutes, 10) >= 0;
     const canApplyDuration = parseInt(duration, 10) > 0;
+    const canApplyShift = isTimeShiftActive(shift);
+    // Eventi ricorrenti selezionati che lo spostamento lascerebbe invariati perché la ripetizione non si può spostare
+    const unshiftedRecurringCount = useMemo(() => {
+        if (!isTimeShiftActive(shift)) return 0;
+        return events.filter(event => selectedIds.has(event.id) && event.recurrence && !shiftEventObject(event, shift, defaultTimeZone)).length;
+    }, [events, selectedIds, shift, defaultTimeZone]);
 
     return (
         <div className="mb-4 p-4 bg-card border border-border rounded-lg animate-fade-in-down">
@@ -100,7 +161,7 @@ export const BulkActions: React.FC<BulkActionsProps> = ({ selectedIds, setEvents
                 </button>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                 {/* Location */}
                 <div className="lg:col-span-1">
                     <label htmlFor="bulk-location" className="block mb-1 text-sm font-medium text-muted-foreground">Luogo</label>
@@ -126,6 +187,20 @@ export const BulkActions: React.FC<BulkActionsProps> = ({ selectedIds, setEvents
                         className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2.5"
                         placeholder="Imposta nuova descrizione"
                     />
+                </div>
+                {/* Time Zone */}
+                <div className="lg:col-span-1">
+                    <label htmlFor="bulk-timeZone" className="block mb-1 text-sm font-medium text-muted-foreground">Fuso Orario</label>
+                    <input
+                        type="text"
+                        id="bulk-timeZone"
+                        name="timeZone"
+                        value={updates.timeZone || ''}
+                        onChange={handleInputChange}
+                        list="time-zone-options"
+                        className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2.5"
+                        placeholder="Es. America/New_York"
+                    />
                 </div>
                  {/* Start Date/Time */}
                 <div className="grid grid-cols-2 gap-2">
@@ -176,6 +251,93 @@ export const BulkActions: React.FC<BulkActionsProps> = ({ selectedIds, setEvents
                             <span>Applica</span>
                         </button>
                     </div>
+                    <div className="flex items-end gap-2">
+                        <div>
+                            <label htmlFor="bulk-shift" className="block mb-1 text-sm font-medium text-muted-foreground">Sposta</label>
+                            <TimeShiftEditor
+                                id="bulk-shift"
+                                value={shift}
+                                onChange={setShift}
+                                inputClassName="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-32 p-2.5"
+                            />
+                        </div>
+                        <button
+                            onClick={handleApplyShift}
+                            disabled={!canApplyShift}
+                            className="flex items-center space-x-2 bg-secondary hover:bg-muted disabled:bg-muted/50 disabled:text-muted-foreground disabled:cursor-not-allowed text-secondary-foreground font-semibold py-2.5 px-4 rounded-md transition-colors"
+                            title="Sposta inizio e fine mantenendo la durata, insieme alla ripetizione. Gli spostamenti in minuti non si applicano agli eventi di un'intera giornata"
+                        >
+                            <CalendarIcon className="h-5 w-5" />
+                            <span>Sposta</span>
+                        </button>
+                    </div>
+                    <div className="flex items-end gap-2">
+                        <div>
+                            <label htmlFor="bulk-color" className="block mb-1 text-sm font-medium text-muted-foreground">Colore</label>
+                            <EventColorSelect
+                                id="bulk-color"
+                                value={colorId}
+                                onChange={setColorId}
+                                emptyLabel="Del calendario"
+                                className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-40 p-2.5"
+                            />
+                        </div>
+                        <button
+                            onClick={handleApplyColor}
+                            className="bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-2.5 px-4 rounded-md transition-colors"
+                            title="Imposta il colore degli eventi selezionati"
+                        >
+                            Applica
+                        </button>
+                    </div>
+                    <div className="flex items-end gap-2">
+                        <div>
+                            <label htmlFor="bulk-reminder-method" className="block mb-1 text-sm font-medium text-muted-foreground">Promemoria</label>
+                            <div className="flex gap-2">
+                                <select
+                                    id="bulk-reminder-method"
+                                    value={reminderMethod}
+                                    onChange={(e) => setReminderMethod(e.target.value as ReminderMethod)}
+                                    className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-32 p-2.5"
+                                >
+                                    {reminderMethods.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                </select>
+                                <input
+                                    type="number"
+                                    value={reminderMinutes}
+                                    onChange={(e) => setReminderMinutes(e.target.value)}
+                                    className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-28 p-2.5"
+                                    placeholder="Minuti prima"
+                                    min="0"
+                                    aria-label="Minuti di anticipo del promemoria"
+                                />
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => handleApplyReminders('replace')}
+                            disabled={!canApplyReminder}
+                            className="flex items-center space-x-2 bg-secondary hover:bg-muted disabled:bg-muted/50 disabled:text-muted-foreground disabled:cursor-not-allowed text-secondary-foreground font-semibold py-2.5 px-4 rounded-md transition-colors"
+                            title="Sostituisce i promemoria degli eventi selezionati"
+                        >
+                            <BellIcon className="h-5 w-5" />
+                            <span>Imposta</span>
+                        </button>
+                        <button
+                            onClick={() => handleApplyReminders('add')}
+                            disabled={!canApplyReminder}
+                            className="bg-secondary hover:bg-muted disabled:bg-muted/50 disabled:text-muted-foreground disabled:cursor-not-allowed text-secondary-foreground font-semibold py-2.5 px-4 rounded-md transition-colors"
+                            title="Aggiunge il promemoria a quelli esistenti"
+                        >
+                            Aggiungi
+                        </button>
+                        <button
+                            onClick={() => handleApplyReminders('none')}
+                            className="bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-2.5 px-4 rounded-md transition-colors"
+                            title="Rimuove tutti i promemoria, compreso quello predefinito"
+                        >
+                            Nessuno
+                        </button>
+                    </div>
                 </div>
                 
                 <button
@@ -187,6 +349,13 @@ export const BulkActions: React.FC<BulkActionsProps> = ({ selectedIds, setEvents
                     <span>Applica Modifiche Campi</span>
                 </button>
             </div>
+            {unshiftedRecurringCount > 0 && (
+                <p className="mt-4 text-sm text-destructive bg-destructive/10 border border-destructive/30 rounded-md p-3">
+                    {unshiftedRecurringCount === 1 ? '1 evento ricorrente non verrà spostato' : `${unshiftedRecurringCount} eventi ricorrenti non verranno spostati`}:
+                    le ripetizioni mensili, annuali e quelle ogni N settimane con giorni indicati non si possono spostare mantenendo le stesse occorrenze.
+                    Modifica data e ripetizione dal singolo evento.
+                </p>
+            )}
         </div>
     );
 };
\ No newline at end of file
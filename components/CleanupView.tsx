@@ -1,35 +1,80 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import * as gcal from '../services/googleCalendarService';
 import { Loader } from './Loader';
-import { GoogleIcon, SearchIcon, Trash2Icon, SparklesIcon, CalendarIcon, ChevronsUpDownIcon, ArrowLeftIcon, XIcon } from './Icons';
+import { GoogleIcon, SearchIcon, Trash2Icon, SparklesIcon, CalendarIcon, ChevronsUpDownIcon, ArrowLeftIcon, XIcon, DownloadIcon, UploadCloudIcon, RepeatIcon } from './Icons';
 import { parseFilterFromQuery, FilterParams } from '../services/geminiService';
+import { getImportTag } from '../lib/importHistory';
+import { createTrashBatch, saveTrashBatch, deleteTrashBatch, purgeExpiredTrash, getPendingEvents, markRestored } from '../lib/trash';
+import type { TrashBatch } from '../lib/trash';
+import { useGoogleSession } from '../contexts/GoogleSessionContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { GoogleAccountBar } from './GoogleAccountBar';
+import { EventColorSelect, ColorSwatch } from './EventColorSelect';
+import { findEventColor } from '../lib/colors';
+import { findDuplicateGroups, chooseEventToKeep, proposeDuplicateDeletions, keepStrategyLabels } from '../lib/duplicates';
+import type { KeepStrategy } from '../lib/duplicates';
+import {
+    emptyCleanupCriteria, describeCleanupRule, loadCleanupRules, saveCleanupRules,
+    serializeCleanupRules, parseCleanupRules, mergeCleanupRules,
+} from '../lib/cleanupRules';
+import type { CleanupCriteria, CleanupRule } from '../lib/cleanupRules';
+import { emptyFilterParams, hasAdvancedFilters, getFilterError, buildEventMatcher } from '../lib/eventFilters';
+import { AdvancedFilters } from './AdvancedFilters';
+import { BackupExportButtons } from './BackupExportButtons';
+import {
+    groupBySeries, getSeriesKey, getOriginalStart, getEarliestInstance, getStartInstant, startsSeries,
+    truncateRecurrence, seriesScopeLabels,
+} from '../lib/recurringSeries';
+import type { SeriesScope } from '../lib/recurringSeries';
 
-type GCalState = 'initial' | 'authenticating' | 'authenticated' | 'loading' | 'error';
 interface GCalError { title: string; message: string; }
-interface Calendar { id: string; summary: string; primary?: boolean; }
 interface CleanupViewProps {
-    setPage: (page: 'dashboard' | 'import' | 'cleanup') => void;
+    setPage: (page: 'dashboard' | 'import' | 'cleanup' | 'trash') => void;
 }
 interface EventWithCalendarId extends gcal.GCalEvent {
     calendarId: string;
 }
+// Operazione di eliminazione: `event` è la risorsa salvata nel cestino (l'evento principale per le operazioni
+// su una serie), `covers` gli id degli eventi dei risultati che l'operazione rimuove
+interface DeletionTarget {
+    event: EventWithCalendarId;
+    operation: gcal.BatchOperation;
+    covers: string[];
+}
 
 export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
-    const [gcalState, setGCalState] = useState<GCalState>('initial');
+    const { status, error: sessionError, user, calendars, eventColors, signIn } = useGoogleSession();
+    const { trashRetentionDays } = useSettings();
     const [error, setError] = useState<GCalError | null>(null);
-    const [user, setUser] = useState<{ email: string } | null>(null);
-    const [calendars, setCalendars] = useState<Calendar[]>([]);
     const [selectedCalendarIds, setSelectedCalendarIds] = useState<Set<string>>(new Set());
     const [isCalendarDropdownOpen, setCalendarDropdownOpen] = useState(false);
     const [events, setEvents] = useState<EventWithCalendarId[]>([]);
     const [selectedEventIds, setSelectedEventIds] = useState<Set<string>>(new Set());
     const [isDeleting, setIsDeleting] = useState(false);
     const [deletionProgress, setDeletionProgress] = useState<{ current: number; total: number } | null>(null);
+    // Ultima eliminazione salvata nel cestino, che si può annullare subito
+    const [lastDeletion, setLastDeletion] = useState<TrashBatch | null>(null);
+    const [isUndoing, setIsUndoing] = useState(false);
     const [aiQuery, setAiQuery] = useState('');
-    // FIX: Added 'startTime' to match the updated FilterParams interface in geminiService.ts
-    const [manualFilters, setManualFilters] = useState<FilterParams>({ startDate: '', endDate: '', startTime: '', text: '', location: '' });
+    const [manualFilters, setManualFilters] = useState<FilterParams>(emptyFilterParams);
+    const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
+    // Criteri aggiuntivi (colore ed età degli eventi), salvati nelle regole insieme ai filtri
+    const [criteria, setCriteria] = useState<CleanupCriteria>(emptyCleanupCriteria);
+    const [rules, setRules] = useState<CleanupRule[]>(loadCleanupRules);
+    const [ruleName, setRuleName] = useState('');
+    // Regola che ha prodotto i risultati mostrati (null per una ricerca manuale)
+    const [activeRuleName, setActiveRuleName] = useState<string | null>(null);
+    const rulesFileInputRef = useRef<HTMLInputElement>(null);
+    // 'duplicates': i risultati vengono raggruppati in copie dello stesso evento e si propone quali eliminare
+    const [mode, setMode] = useState<'search' | 'duplicates'>('search');
+    const [keepStrategy, setKeepStrategy] = useState<KeepStrategy>('oldest');
+    // Portata dell'eliminazione per ogni serie ricorrente dei risultati (chiave di getSeriesKey; predefinita 'instance')
+    const [seriesScopes, setSeriesScopes] = useState<Record<string, SeriesScope>>({});
     const [isSearching, setIsSearching] = useState(false);
     const [searchPerformed, setSearchPerformed] = useState(false);
+    // Eventi caricati finora durante la ricerca (null quando non si sta caricando) e controller per annullarla
+    const [loadedCount, setLoadedCount] = useState<number | null>(null);
+    const searchAbortRef = useRef<AbortController | null>(null);
     
     const calendarDropdownRef = useRef<HTMLDivElement>(null);
 
@@ -43,63 +88,25 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
-    const handleGapiLoad = useCallback(async () => {
-        try {
-            await gcal.initGapiClient();
-        } catch (err: any) {
-            setError({ title: 'Errore di Inizializzazione', message: err.message });
-            setGCalState('error');
-        }
-    }, []);
-
+    // Con un nuovo account (o dopo l'uscita) i risultati precedenti non sono più validi
     useEffect(() => {
-        const script = document.createElement('script');
-        script.src = 'https://apis.google.com/js/api.js';
-        script.onload = () => (window as any).gapi.load('client', handleGapiLoad);
-        script.async = true;
-        document.body.appendChild(script);
-        return () => { document.body.removeChild(script); };
-    }, [handleGapiLoad]);
-
-    const fetchInitialData = useCallback(async () => {
-        try {
-            const userInfoResponse = await gcal.getUserProfile();
-            if (!userInfoResponse?.result?.email) throw new Error("Profilo utente non trovato.");
-            setUser(userInfoResponse.result);
-            
-            const calendarList = await gcal.listCalendars();
-            setCalendars(calendarList);
-            const primaryCalendar = calendarList.find((c: Calendar) => c.primary) || calendarList[0];
-            if (primaryCalendar) {
-                setSelectedCalendarIds(new Set([primaryCalendar.id]));
-            }
-            setGCalState('authenticated');
-        } catch (err: any) {
-            setError({ title: 'Errore nel Caricamento Dati', message: err.message });
-            setGCalState('error');
-        }
-    }, []);
-    
-    const handleTokenResponse = useCallback(async (tokenResponse: any) => {
-        if (tokenResponse.error) {
-            setError({ title: "Autenticazione Fallita", message: tokenResponse.error_description || "L'utente ha annullato l'accesso."});
-            setGCalState('initial');
-            return;
-        }
-        if (tokenResponse.access_token) {
-            (window as any).gapi.client.setToken(tokenResponse);
-            setGCalState('loading');
-            await fetchInitialData();
-        }
-    }, [fetchInitialData]);
+        setEvents([]);
+        setSelectedEventIds(new Set());
+        setSearchPerformed(false);
+        setLastDeletion(null);
+    }, [user?.email]);
 
-    const handleAuth = () => {
-        setGCalState('authenticating');
-        setError(null);
-        gcal.handleAuthClick((token) => handleTokenResponse(token));
-    };
+    // Mantiene i calendari selezionati ancora presenti; se non ne resta nessuno seleziona il principale
+    useEffect(() => {
+        setSelectedCalendarIds(prev => {
+            const kept = new Set([...prev].filter(id => calendars.some(c => c.id === id)));
+            if (kept.size > 0) return kept;
+            const primaryCalendar = calendars.find(c => c.primary) || calendars[0];
+            return new Set(primaryCalendar ? [primaryCalendar.id] : []);
+        });
+    }, [calendars]);
 
-    const fetchEventsFromSelectedCalendars = async (timeMin: string, timeMax: string): Promise<EventWithCalendarId[] | null> => {
+    const fetchEventsFromSelectedCalendars = async (timeMin: string, timeMax: string, signal: AbortSignal): Promise<EventWithCalendarId[] | null> => {
         if (selectedCalendarIds.size === 0) {
             setError({ title: 'Nessun Calendario Selezionato', message: 'Per favore, seleziona almeno un calendario.' });
             return null;
@@ -107,7 +114,11 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
         
         const allEvents: EventWithCalendarId[] = [];
         for (const calId of selectedCalendarIds) {
-            const eventsFromCal = await gcal.listEvents(calId, timeMin, timeMax);
+            const loadedBefore = allEvents.length;
+            const eventsFromCal = await gcal.listEvents(calId, timeMin, timeMax, {
+                signal,
+                onProgress: loaded => setLoadedCount(loadedBefore + loaded),
+            });
             const eventsWithCalId = eventsFromCal.map(e => ({...e, calendarId: calId}));
             allEvents.push(...eventsWithCalId);
         }
@@ -117,14 +128,23 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
     };
     
     // Core search logic that takes specific filters as arguments
-    const executeSearch = async (filters: FilterParams) => {
+    const executeSearch = async (filters: FilterParams, searchCriteria: CleanupCriteria = criteria) => {
         if (selectedCalendarIds.size === 0) return;
+        const filterError = getFilterError(filters);
+        if (filterError) {
+            setError({ title: 'Filtri Non Validi', message: filterError });
+            return;
+        }
         
         setIsSearching(true);
         setError(null);
         setEvents([]);
         setSelectedEventIds(new Set());
+        setSeriesScopes({});
         setSearchPerformed(false);
+        setLoadedCount(0);
+        const abortController = new AbortController();
+        searchAbortRef.current = abortController;
         
         try {
             // Helper to get local date ISO string properly
@@ -136,46 +156,50 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
                 ? new Date(`${filters.startDate}T00:00:00`).toISOString() 
                 : new Date(new Date().setFullYear(new Date().getFullYear() - 5)).toISOString();
             
-            const timeMax = filters.endDate 
+            let timeMax = filters.endDate 
                 ? new Date(`${filters.endDate}T23:59:59.999`).toISOString()
                 : new Date(new Date().setFullYear(new Date().getFullYear() + 5)).toISOString();
 
-            let fetchedEvents = await fetchEventsFromSelectedCalendars(timeMin, timeMax);
+            // "Più vecchi di N giorni": solo eventi iniziati prima di N giorni fa
+            if (searchCriteria.olderThanDays > 0) {
+                const limit = new Date(Date.now() - searchCriteria.olderThanDays * 24 * 60 * 60 * 1000).toISOString();
+                if (limit < timeMax) timeMax = limit;
+            }
+            if (timeMax <= timeMin) {
+                setEvents([]);
+                return;
+            }
+
+            let fetchedEvents = await fetchEventsFromSelectedCalendars(timeMin, timeMax, abortController.signal);
             
             if (fetchedEvents) {
-                const textFilter = filters.text.toLowerCase();
-                const locationFilter = filters.location.toLowerCase();
-                // FIX: Implemented startTime filtering to match FilterParams usage
-                const startTimeFilter = filters.startTime;
-                
-                const filtered = fetchedEvents.filter(event => {
-                    const textMatch = !textFilter || (event.summary?.toLowerCase().includes(textFilter) || event.description?.toLowerCase().includes(textFilter));
-                    const locationMatch = !locationFilter || event.location?.toLowerCase().includes(locationFilter);
-                    
-                    let startTimeMatch = true;
-                    if (startTimeFilter) {
-                        const eventDateTime = event.start.dateTime || event.start.date || '';
-                        if (eventDateTime) {
-                            const eventDateObj = new Date(eventDateTime);
-                            const eventTimeStr = eventDateObj.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit', hour12: false });
-                            startTimeMatch = eventTimeStr.includes(startTimeFilter);
-                        } else {
-                            startTimeMatch = false;
-                        }
-                    }
-
-                    return textMatch && locationMatch && startTimeMatch;
-                });
+                const matchesFilters = buildEventMatcher(filters);
+                const filtered = fetchedEvents.filter(event =>
+                    matchesFilters(event) && (!searchCriteria.colorId || event.colorId === searchCriteria.colorId)
+                );
                 setEvents(filtered);
+                if (mode === 'duplicates') {
+                    setSelectedEventIds(proposeDuplicateDeletions(findDuplicateGroups(filtered), keepStrategy));
+                }
             }
         } catch (err: any) {
-            setError({ title: 'Errore durante la ricerca', message: err.message });
+            if (err.name === 'AbortError') {
+                setError({ title: 'Ricerca Annullata', message: 'Il caricamento degli eventi è stato interrotto. Avvia una nuova ricerca per vedere i risultati.' });
+            } else {
+                setError({ title: gcal.getErrorTitle(err, 'Errore durante la ricerca'), message: err.message });
+            }
         } finally {
             setIsSearching(false);
             setSearchPerformed(true);
+            setLoadedCount(null);
+            searchAbortRef.current = null;
         }
     };
 
+    const handleCancelSearch = () => {
+        searchAbortRef.current?.abort();
+    };
+
     // Triggered by AI button
     const handleAiAutoFill = async () => {
         if (!aiQuery.trim()) return;
@@ -185,6 +209,8 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
             const result = await parseFilterFromQuery(aiQuery);
             // Update UI with the AI interpreted filters
             setManualFilters(result);
+            if (hasAdvancedFilters(result)) setShowAdvancedFilters(true);
+            setActiveRuleName(null);
             // Execute search immediately with these results
             await executeSearch(result);
         } catch (err: any) {
@@ -196,9 +222,64 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
     
     // Triggered by manual "Cerca Eventi" button
     const handleManualSearchBtn = () => {
+        setActiveRuleName(null);
         executeSearch(manualFilters);
     };
 
+    const updateRules = (updated: CleanupRule[]) => {
+        setRules(updated);
+        saveCleanupRules(updated);
+    };
+
+    // Salva filtri e criteri correnti; una regola con lo stesso nome viene sovrascritta
+    const handleSaveRule = () => {
+        const name = ruleName.trim();
+        if (!name) return;
+        updateRules(mergeCleanupRules(rules, [{ name, filters: manualFilters, criteria }]));
+        setRuleName('');
+    };
+
+    // Compila i filtri con quelli della regola e avvia la ricerca: i risultati mostrano quanti eventi
+    // corrispondono prima di selezionarli ed eliminarli
+    const handleRunRule = (rule: CleanupRule) => {
+        setManualFilters(rule.filters);
+        if (hasAdvancedFilters(rule.filters)) setShowAdvancedFilters(true);
+        setCriteria(rule.criteria);
+        setActiveRuleName(rule.name);
+        executeSearch(rule.filters, rule.criteria);
+    };
+
+    const handleDeleteRule = (name: string) => {
+        if (!window.confirm(`Eliminare la regola "${name}"?`)) return;
+        updateRules(rules.filter(rule => rule.name !== name));
+    };
+
+    const handleExportRules = () => {
+        const blob = new Blob([serializeCleanupRules(rules)], { type: 'application/json;charset=utf-8;' });
+        const link = document.createElement('a');
+        const url = URL.createObjectURL(blob);
+        link.setAttribute('href', url);
+        link.setAttribute('download', 'regole-pulizia.json');
+        link.style.visibility = 'hidden';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImportRules = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Azzera il campo così lo stesso file si può reimportare
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseCleanupRules(await file.text());
+            updateRules(mergeCleanupRules(rules, imported));
+        } catch (err: any) {
+            setError({ title: 'Importazione Regole Fallita', message: err.message });
+        }
+    };
+
     const handleSelect = (eventId: string) => {
         setSelectedEventIds(prev => {
             const newSet = new Set(prev);
@@ -216,51 +297,142 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
         }
     };
     
+    const duplicateGroups = useMemo(() => (mode === 'duplicates' ? findDuplicateGroups(events) : []), [mode, events]);
+    const seriesGroups = useMemo(() => (mode === 'search' ? groupBySeries(events) : []), [mode, events]);
+
+    const getSeriesScope = (seriesKey: string | null): SeriesScope => (seriesKey && seriesScopes[seriesKey]) || 'instance';
+
+    // Seleziona o deseleziona tutte le occorrenze di una serie
+    const handleSelectSeries = (seriesEvents: EventWithCalendarId[]) => {
+        setSelectedEventIds(prev => {
+            const next = new Set(prev);
+            const allSelected = seriesEvents.every(event => prev.has(event.id));
+            seriesEvents.forEach(event => (allSelected ? next.delete(event.id) : next.add(event.id)));
+            return next;
+        });
+    };
+
+    // Traduce la selezione in operazioni: le occorrenze si eliminano una per una, mentre "tutta la serie" elimina
+    // l'evento principale e "questa e le successive" ne interrompe la ricorrenza prima della prima occorrenza selezionata
+    const buildDeletionTargets = async (selected: EventWithCalendarId[]): Promise<DeletionTarget[]> => {
+        const targets: DeletionTarget[] = [];
+        for (const group of groupBySeries(selected)) {
+            const scope = getSeriesScope(group.seriesKey);
+            if (scope === 'instance') {
+                group.events.forEach(event => targets.push({
+                    event, operation: { kind: 'delete', calendarId: event.calendarId, eventId: event.id }, covers: [event.id],
+                }));
+                continue;
+            }
+            const { calendarId, recurringEventId } = group.events[0];
+            const master = { ...(await gcal.getEvent(calendarId, recurringEventId!)), calendarId };
+            const seriesEvents = events.filter(event => getSeriesKey(event) === group.seriesKey);
+            const cutoff = getOriginalStart(getEarliestInstance(group.events));
+            if (scope === 'following' && !startsSeries(master, cutoff)) {
+                const cutoffInstant = getStartInstant(cutoff);
+                targets.push({
+                    event: master,
+                    operation: { kind: 'patch', calendarId, eventId: master.id, resource: { recurrence: truncateRecurrence(master.recurrence || [], cutoff) } },
+                    covers: seriesEvents.filter(event => getStartInstant(getOriginalStart(event)) >= cutoffInstant).map(event => event.id),
+                });
+            } else {
+                targets.push({
+                    event: master,
+                    operation: { kind: 'delete', calendarId, eventId: master.id },
+                    covers: seriesEvents.map(event => event.id),
+                });
+            }
+        }
+        return targets;
+    };
+
+    // Testo della conferma, con il dettaglio delle operazioni sulle serie
+    const describeDeletion = (selected: EventWithCalendarId[]): string => {
+        const groups = groupBySeries(selected);
+        const instances = groups.filter(group => getSeriesScope(group.seriesKey) === 'instance').reduce((sum, group) => sum + group.events.length, 0);
+        const wholeSeries = groups.filter(group => getSeriesScope(group.seriesKey) === 'series').length;
+        const followingSeries = groups.filter(group => getSeriesScope(group.seriesKey) === 'following').length;
+        const parts = [`${instances} eventi`];
+        if (wholeSeries > 0) parts.push(`${wholeSeries} serie ricorrenti per intero`);
+        if (followingSeries > 0) parts.push(`${followingSeries} serie ricorrenti dalla prima occorrenza selezionata in poi`);
+        return parts.join(', ');
+    };
+
+    const handleModeChange = (nextMode: 'search' | 'duplicates') => {
+        setMode(nextMode);
+        setEvents([]);
+        setSelectedEventIds(new Set());
+        setSearchPerformed(false);
+    };
+
+    // Cambiando criterio si ricalcola la proposta per tutti i gruppi
+    const handleKeepStrategyChange = (strategy: KeepStrategy) => {
+        setKeepStrategy(strategy);
+        setSelectedEventIds(proposeDuplicateDeletions(duplicateGroups, strategy));
+    };
+
+    // Conserva l'evento indicato e seleziona per l'eliminazione le altre copie del gruppo
+    const handleKeepEvent = (groupEvents: EventWithCalendarId[], keepId: string) => {
+        setSelectedEventIds(prev => {
+            const next = new Set(prev);
+            groupEvents.forEach(event => {
+                if (event.id === keepId) next.delete(event.id);
+                else next.add(event.id);
+            });
+            return next;
+        });
+    };
+
     const handleDeleteSelected = async () => {
-        const totalToDelete = selectedEventIds.size;
-        if (totalToDelete === 0 || !window.confirm(`Sei sicuro di voler eliminare ${totalToDelete} eventi? Questa azione è irreversibile.`)) {
+        const selected = events.filter(e => selectedEventIds.has(e.id));
+        if (selected.length === 0 || !window.confirm(`Sei sicuro di voler eliminare ${describeDeletion(selected)}? Potrai ripristinarli dal cestino.`)) {
             return;
         }
 
+        let targets: DeletionTarget[];
+        try {
+            targets = await buildDeletionTargets(selected);
+        } catch (err: any) {
+            setError({ title: gcal.getErrorTitle(err, 'Errore durante la lettura della serie'), message: err.message });
+            return;
+        }
+        const totalToDelete = targets.length;
+        const eventsToDelete = targets.map(target => target.event);
+        // Le risorse complete vengono salvate prima di eliminare, così l'eliminazione si può annullare.
+        // Per una serie interrotta si salva l'evento principale con la ricorrenza originale, che il ripristino riporta.
+        const trashBatch = createTrashBatch(user?.email || '', eventsToDelete);
+        if (!(await saveTrashBatch(trashBatch))
+            && !window.confirm("Non è stato possibile salvare gli eventi nel cestino: dopo l'eliminazione non potranno essere ripristinati. Continuare comunque?")) {
+            return;
+        }
+        purgeExpiredTrash(trashRetentionDays);
+
         setIsDeleting(true);
         setDeletionProgress({ current: 0, total: totalToDelete });
         setError(null);
+        setLastDeletion(null);
 
-        const eventsToDelete = events.filter(e => selectedEventIds.has(e.id));
-        const BATCH_SIZE = 10;
         const failedDeletions: any[] = [];
         const successfulIds = new Set<string>();
-
-        // Helper to wait
-        const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+        const removedIds = new Set<string>();
 
         try {
-            for (let i = 0; i < eventsToDelete.length; i += BATCH_SIZE) {
-                const batch = eventsToDelete.slice(i, i + BATCH_SIZE);
-                
-                // Execute batch in parallel and wait for all to settle
-                const results = await Promise.allSettled(
-                    batch.map(e => gcal.deleteEvent(e.calendarId, e.id))
-                );
+            // Le eliminazioni vengono inviate in richieste batch da 50
+            const results = await gcal.executeBatch(
+                targets.map(target => target.operation),
+                { onProgress: (current, total) => setDeletionProgress({ current, total }) }
+            );
 
-                results.forEach((result, index) => {
-                    const event = batch[index];
-                    if (result.status === 'fulfilled') {
-                        successfulIds.add(event.id);
-                    } else {
-                        console.error(`Failed to delete event ${event.id}:`, result.reason);
-                        failedDeletions.push({ event, error: result.reason });
-                    }
-                });
-
-                // Update progress
-                setDeletionProgress({ current: Math.min(i + BATCH_SIZE, totalToDelete), total: totalToDelete });
-
-                // Add delay if not the last batch to be gentle with the API
-                if (i + BATCH_SIZE < eventsToDelete.length) {
-                    await delay(500); // 500ms delay between batches
+            results.forEach((result, index) => {
+                const target = targets[index];
+                if (result.ok) {
+                    successfulIds.add(target.event.id);
+                    target.covers.forEach(id => removedIds.add(id));
+                } else {
+                    console.error(`Failed to delete event ${target.event.id}:`, result.error);
+                    failedDeletions.push({ target, error: result.error, result });
                 }
-            }
+            });
         } catch (e: any) {
             console.error("Critical error during batch deletion:", e);
              setError({ 
@@ -269,16 +441,25 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
             });
         } finally {
             // Update the events list to remove successful deletions
-            setEvents(prev => prev.filter(e => !successfulIds.has(e.id)));
+            setEvents(prev => prev.filter(e => !removedIds.has(e.id)));
+
+            // Nel cestino restano solo gli eventi effettivamente eliminati
+            const deletedBatch = { ...trashBatch, events: eventsToDelete.filter(e => successfulIds.has(e.id)) };
+            if (deletedBatch.events.length === 0) {
+                await deleteTrashBatch(trashBatch.id);
+            } else {
+                if (deletedBatch.events.length < eventsToDelete.length) await saveTrashBatch(deletedBatch);
+                setLastDeletion(deletedBatch);
+            }
             
             if (failedDeletions.length > 0) {
                 console.error("Summary of failed deletions:", failedDeletions);
                 setError({ 
                     title: 'Eliminazione Parziale', 
-                    message: `${failedDeletions.length} eventi su ${totalToDelete} non sono stati eliminati. Potresti aver raggiunto il limite di richieste API o gli eventi potrebbero essere stati spostati.` 
+                    message: `${failedDeletions.length} eventi su ${totalToDelete} non sono stati eliminati. ${gcal.describeBatchFailures(failedDeletions.map(f => f.result))}` 
                 });
                 // Update selection to only contain failed items so user can try again easily
-                setSelectedEventIds(new Set(failedDeletions.map(f => f.event.id)));
+                setSelectedEventIds(new Set(failedDeletions.flatMap(f => f.target.covers)));
             } else {
                 setSelectedEventIds(new Set());
             }
@@ -289,13 +470,75 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
     };
 
 
-    if (gcalState === 'initial' || gcalState === 'authenticating') {
+    const handleUndoDeletion = async () => {
+        if (!lastDeletion) return;
+        const pending = getPendingEvents(lastDeletion);
+        setIsUndoing(true);
+        setError(null);
+
+        const results = await gcal.restoreEvents(pending);
+        const restored = pending.filter((_, index) => results[index].ok);
+        const updated = markRestored(lastDeletion, restored.map(e => e.id));
+        await saveTrashBatch(updated);
+
+        // Gli eventi ricreati da zero hanno un nuovo id: si mostra quello restituito dall'API
+        const restoredEvents = restored.map(event => {
+            const result = results[pending.indexOf(event)].result;
+            return result ? { ...result, calendarId: event.calendarId } : event;
+        });
+        // Una serie ripristinata va mostrata come occorrenze, quindi si ripete la ricerca
+        const restoresSeries = restored.some(event => event.recurrence?.length);
+        if (!restoresSeries) {
+            setEvents(prev => [...prev, ...restoredEvents].sort((a, b) =>
+                (a.start.dateTime || a.start.date || '').localeCompare(b.start.dateTime || b.start.date || '')));
+        }
+
+        const failed = results.filter(result => !result.ok);
+        if (failed.length > 0) {
+            setError({
+                title: 'Ripristino Parziale',
+                message: `${failed.length} eventi su ${pending.length} non sono stati ripristinati. ${gcal.describeBatchFailures(failed)} Puoi riprovare dal cestino.`
+            });
+        }
+        setLastDeletion(null);
+        setIsUndoing(false);
+        if (restoresSeries) executeSearch(manualFilters);
+    };
+
+    // Riga di un evento nei risultati della ricerca
+    const renderEventRow = (event: EventWithCalendarId) => (
+        <div key={event.id} className="grid grid-cols-[auto,2fr,1fr,1fr] gap-4 px-4 py-3 border-t border-border items-center hover:bg-accent transition-colors text-sm">
+            <input 
+                type="checkbox"
+                checked={selectedEventIds.has(event.id)}
+                onChange={() => handleSelect(event.id)}
+                className="w-4 h-4 text-primary bg-secondary border-border rounded focus:ring-ring"
+                aria-label={`Seleziona evento ${event.summary}`}
+            />
+            <div className="flex items-center gap-2 min-w-0">
+                {event.colorId && <ColorSwatch background={findEventColor(eventColors, event.colorId)?.background} className="h-3 w-3" />}
+                <p className="font-semibold text-foreground truncate" title={event.summary}>{event.summary}</p>
+                {getImportTag(event) && (
+                    <span className="flex-shrink-0 text-[10px] font-semibold uppercase bg-primary/10 text-primary px-1.5 py-0.5 rounded" title={`Importato con ForMa da "${getImportTag(event)?.sourceFile}"`}>
+                        ForMa
+                    </span>
+                )}
+            </div>
+            <div className="text-muted-foreground">
+                {new Date(event.start.dateTime || event.start.date || '').toLocaleString('it-IT', {day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit'})}
+            </div>
+            <div className="text-muted-foreground truncate" title={event.location || 'N/D'}>{event.location || 'N/D'}</div>
+        </div>
+    );
+
+    if (status === 'initial' || status === 'authenticating') {
         return (
             <div className="text-center p-8 bg-card rounded-lg border border-border">
                 <h2 className="text-2xl font-bold mb-3">Pulisci il tuo Calendario</h2>
                 <p className="text-muted-foreground mb-6 max-w-xl mx-auto">
                     Connettiti a Google per trovare e rimuovere eventi superflui usando filtri o l'intelligenza artificiale.
                 </p>
+                {sessionError && <p className="text-sm text-destructive mb-6">{sessionError.title}: {sessionError.message}</p>}
                 <div className="flex justify-center items-center space-x-4">
                      <button
                         onClick={() => setPage('dashboard')}
@@ -304,11 +547,11 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
                        <ArrowLeftIcon className="h-5 w-5"/> <span>Indietro</span>
                     </button>
                     <button
-                        onClick={handleAuth}
-                        disabled={gcalState === 'authenticating'}
+                        onClick={signIn}
+                        disabled={status === 'authenticating'}
                         className="bg-primary hover:bg-primary/90 disabled:bg-muted text-primary-foreground font-bold py-3 px-6 rounded-full inline-flex items-center space-x-3 transition-all duration-300"
                     >
-                        {gcalState === 'authenticating' ? <Loader className="h-5 w-5"/> : <GoogleIcon className="h-5 w-5" />}
+                        {status === 'authenticating' ? <Loader className="h-5 w-5"/> : <GoogleIcon className="h-5 w-5" />}
                         <span>Connetti Google Calendar</span>
                     </button>
                 </div>
@@ -316,20 +559,20 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
         );
     }
     
-    if (gcalState === 'loading') {
+    if (status === 'loading') {
         return <div className="text-center p-8"><Loader /><p className="mt-4 text-muted-foreground">Caricamento dati...</p></div>;
     }
 
-    if (gcalState === 'error' && error) {
+    if (status === 'error' && sessionError) {
          return (
              <div className="text-center p-8 bg-destructive/10 border border-destructive/30 rounded-lg">
-                <h3 className="font-bold text-lg text-destructive-foreground/90">{error.title}</h3>
-                <p className="text-sm mt-2 text-destructive-foreground/80">{error.message}</p>
+                <h3 className="font-bold text-lg text-destructive-foreground/90">{sessionError.title}</h3>
+                <p className="text-sm mt-2 text-destructive-foreground/80">{sessionError.message}</p>
                 <div className="mt-6 flex justify-center items-center space-x-4">
                     <button onClick={() => setPage('dashboard')} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-2 px-6 rounded-full">
                          Torna alla Dashboard
                     </button>
-                    <button onClick={handleAuth} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-6 rounded-full">
+                    <button onClick={signIn} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-6 rounded-full">
                          Riprova Accesso
                     </button>
                 </div>
@@ -348,12 +591,40 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
 
     return (
         <div className="animate-fade-in space-y-6">
-            <div className="text-center">
-                 <p className="text-muted-foreground">Accesso effettuato come <span className="font-semibold text-foreground">{user?.email}</span></p>
+            <div className="max-w-4xl mx-auto flex flex-wrap justify-between items-center gap-3">
+                <GoogleAccountBar />
+                <button
+                    onClick={() => setPage('trash')}
+                    className="flex items-center space-x-2 text-sm bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-2 px-3 rounded-md transition-colors"
+                    title="Eventi eliminati che puoi ripristinare"
+                >
+                    <Trash2Icon className="h-4 w-4" />
+                    <span>Cestino</span>
+                </button>
             </div>
+
+            {/* Annullamento dell'ultima eliminazione */}
+            {lastDeletion && (
+                <div className="max-w-4xl mx-auto bg-secondary/50 border border-border px-4 py-3 rounded-lg flex flex-wrap justify-between items-center gap-3 text-sm">
+                    <span className="text-foreground">{lastDeletion.events.length} eventi eliminati e salvati nel cestino.</span>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handleUndoDeletion}
+                            disabled={isUndoing}
+                            className="flex items-center space-x-2 bg-primary hover:bg-primary/90 disabled:bg-muted text-primary-foreground font-semibold py-1.5 px-3 rounded-md transition-colors"
+                        >
+                            {isUndoing && <Loader className="h-4 w-4" />}
+                            <span>Annulla eliminazione</span>
+                        </button>
+                        <button onClick={() => setLastDeletion(null)} disabled={isUndoing} className="p-1 rounded hover:bg-muted transition-colors" aria-label="Chiudi">
+                            <XIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                </div>
+            )}
             
             {/* Inline Error Display */}
-            {error && gcalState !== 'error' && (
+            {error && (
                 <div className="max-w-4xl mx-auto bg-destructive/10 border border-destructive/30 text-destructive-foreground px-4 py-3 rounded-lg relative flex justify-between items-start" role="alert">
                     <div>
                         <strong className="font-bold">{error.title}: </strong>
@@ -418,6 +689,76 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
                 </div>
             </div>
 
+            {/* Regole salvate */}
+            <div className="max-w-4xl mx-auto bg-card p-4 rounded-lg border border-border space-y-3">
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                    <h3 className="font-semibold text-foreground">Regole Salvate</h3>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => rulesFileInputRef.current?.click()}
+                            className="flex items-center space-x-2 bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-1.5 px-3 rounded-md text-sm transition-colors"
+                        >
+                            <UploadCloudIcon className="h-4 w-4" />
+                            <span>Importa JSON</span>
+                        </button>
+                        <button
+                            onClick={handleExportRules}
+                            disabled={rules.length === 0}
+                            className="flex items-center space-x-2 bg-secondary hover:bg-muted disabled:opacity-50 text-secondary-foreground font-semibold py-1.5 px-3 rounded-md text-sm transition-colors"
+                        >
+                            <DownloadIcon className="h-4 w-4" />
+                            <span>Esporta JSON</span>
+                        </button>
+                        <input ref={rulesFileInputRef} type="file" accept=".json,application/json" onChange={handleImportRules} className="hidden" />
+                    </div>
+                </div>
+                {rules.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Nessuna regola salvata. Compila i filtri qui sotto e salvali come regola per rieseguirli con un clic.</p>
+                ) : (
+                    <ul className="divide-y divide-border">
+                        {rules.map(rule => (
+                            <li key={rule.name} className="flex items-center justify-between gap-3 py-2">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-foreground truncate">{rule.name}</p>
+                                    <p className="text-xs text-muted-foreground truncate">{describeCleanupRule(rule)}</p>
+                                </div>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    <button
+                                        onClick={() => handleRunRule(rule)}
+                                        disabled={isSearching}
+                                        className="flex items-center space-x-2 bg-primary hover:bg-primary/90 disabled:bg-muted text-primary-foreground font-semibold py-1.5 px-3 rounded-md text-sm transition-colors"
+                                    >
+                                        <SearchIcon className="h-4 w-4" />
+                                        <span>Esegui</span>
+                                    </button>
+                                    <button onClick={() => handleDeleteRule(rule.name)} className="p-1 rounded hover:bg-muted transition-colors" aria-label={`Elimina la regola ${rule.name}`}>
+                                        <XIcon className="h-4 w-4" />
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={ruleName}
+                        onChange={e => setRuleName(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && handleSaveRule()}
+                        placeholder="Nome della regola (es. 'Inviti rifiutati dell'anno scorso')"
+                        aria-label="Nome della regola"
+                        className="bg-input border border-border text-foreground text-sm rounded-lg focus:ring-ring focus:border-primary block w-full p-2.5"
+                    />
+                    <button
+                        onClick={handleSaveRule}
+                        disabled={!ruleName.trim()}
+                        className="bg-secondary hover:bg-muted disabled:opacity-50 text-secondary-foreground font-semibold py-2 px-4 rounded-lg text-sm whitespace-nowrap transition-colors border border-border"
+                    >
+                        Salva filtri come regola
+                    </button>
+                </div>
+            </div>
+
             {/* Manual Filters */}
             <div className="max-w-4xl mx-auto bg-card p-4 rounded-lg border border-border space-y-4 shadow-sm">
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
@@ -442,22 +783,98 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
                          <label htmlFor="location-filter" className="block mb-1 text-sm font-medium text-muted-foreground">Luogo</label>
                         <input type="text" id="location-filter" placeholder="Es. 'Ufficio'" value={manualFilters.location} onChange={e => setManualFilters(f => ({...f, location: e.target.value}))} className="bg-input border border-border text-foreground text-sm rounded-lg focus:ring-ring focus:border-primary block w-full p-2.5"/>
                     </div>
+                    <div>
+                        <label htmlFor="color-filter" className="block mb-1 text-sm font-medium text-muted-foreground">Colore</label>
+                        <EventColorSelect
+                            id="color-filter"
+                            value={criteria.colorId}
+                            onChange={colorId => setCriteria(c => ({ ...c, colorId }))}
+                            emptyLabel="Tutti i colori"
+                            className="bg-input border border-border text-foreground text-sm rounded-lg focus:ring-ring focus:border-primary block w-full p-2.5"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="older-than-filter" className="block mb-1 text-sm font-medium text-muted-foreground">Più vecchi di (giorni)</label>
+                        <input
+                            type="number"
+                            id="older-than-filter"
+                            min={0}
+                            placeholder="Es. 365"
+                            value={criteria.olderThanDays || ''}
+                            onChange={e => setCriteria(c => ({ ...c, olderThanDays: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                            className="bg-input border border-border text-foreground text-sm rounded-lg focus:ring-ring focus:border-primary block w-full p-2.5"
+                        />
+                    </div>
                 </div>
-                 <div className="text-right pt-2 border-t border-border mt-2">
+                <AdvancedFilters
+                    value={manualFilters}
+                    onChange={setManualFilters}
+                    isOpen={showAdvancedFilters}
+                    onToggle={() => setShowAdvancedFilters(open => !open)}
+                    inputClassName="bg-input border border-border text-foreground text-sm rounded-lg focus:ring-ring focus:border-primary block w-full p-2.5"
+                />
+                 <div className="flex flex-wrap justify-between items-center gap-3 pt-2 border-t border-border mt-2">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <div className="inline-flex rounded-lg border border-border overflow-hidden text-sm" role="group" aria-label="Modalità di ricerca">
+                            <button
+                                onClick={() => handleModeChange('search')}
+                                className={`py-2 px-3 font-semibold transition-colors ${mode === 'search' ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground hover:bg-muted'}`}
+                            >
+                                Cerca eventi
+                            </button>
+                            <button
+                                onClick={() => handleModeChange('duplicates')}
+                                className={`py-2 px-3 font-semibold transition-colors ${mode === 'duplicates' ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground hover:bg-muted'}`}
+                            >
+                                Trova duplicati
+                            </button>
+                        </div>
+                        {mode === 'duplicates' && (
+                            <div className="flex items-center gap-2">
+                                <label htmlFor="keep-strategy" className="text-sm text-muted-foreground">Conserva</label>
+                                <select
+                                    id="keep-strategy"
+                                    value={keepStrategy}
+                                    onChange={e => handleKeepStrategyChange(e.target.value as KeepStrategy)}
+                                    className="bg-input border border-border text-foreground text-sm rounded-lg focus:ring-ring focus:border-primary p-2"
+                                >
+                                    {(Object.keys(keepStrategyLabels) as KeepStrategy[]).map(strategy => (
+                                        <option key={strategy} value={strategy}>{keepStrategyLabels[strategy]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                    </div>
                      <button onClick={handleManualSearchBtn} disabled={isSearching} className="bg-secondary hover:bg-muted disabled:bg-muted text-secondary-foreground font-bold py-2 px-6 rounded-lg inline-flex items-center space-x-2 transition-colors border border-border">
                         {isSearching ? <Loader className="h-5 w-5"/> : <SearchIcon className="h-5 w-5" />}
-                        <span>Cerca con questi Filtri</span>
+                        <span>{mode === 'duplicates' ? 'Trova Duplicati' : 'Cerca con questi Filtri'}</span>
                     </button>
                 </div>
             </div>
 
             {/* Results */}
             <div className="max-w-4xl mx-auto">
-                {isSearching && <div className="text-center py-4"><Loader /><p className="mt-2 text-muted-foreground">Ricerca in corso...</p></div>}
+                {isSearching && (
+                    <div className="text-center py-4">
+                        <Loader />
+                        <p className="mt-2 text-muted-foreground">
+                            {loadedCount !== null ? `Ricerca in corso... caricati ${loadedCount} eventi` : 'Ricerca in corso...'}
+                        </p>
+                        {loadedCount !== null && (
+                            <button onClick={handleCancelSearch} className="mt-3 bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-1.5 px-4 rounded-md text-sm transition-colors">
+                                Annulla
+                            </button>
+                        )}
+                    </div>
+                )}
                 
                 {searchPerformed && !isSearching && events.length === 0 && (
                      <div className="text-center p-6 bg-card rounded-lg border border-border">
-                        <p className="text-muted-foreground">Nessun evento trovato nei calendari selezionati con i filtri attuali.</p>
+                        <p className="text-muted-foreground">
+                            {activeRuleName
+                                ? `Nessun evento corrisponde alla regola "${activeRuleName}" nei calendari selezionati.`
+                                : 'Nessun evento trovato nei calendari selezionati con i filtri attuali.'}
+                        </p>
                         <p className="text-xs text-muted-foreground mt-1">Verifica le date e le parole chiave sopra.</p>
                     </div>
                 )}
@@ -466,23 +883,86 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
                     <div className="animate-fade-in">
                         <div className="flex justify-between items-center mb-4">
                             <p className="text-sm text-muted-foreground">
-                                Trovati {events.length} eventi. {selectedEventIds.size} selezionati.
+                                {activeRuleName && <span className="font-semibold text-foreground">Regola "{activeRuleName}": </span>}
+                                {mode === 'duplicates'
+                                    ? `Trovati ${duplicateGroups.length} gruppi di duplicati tra ${events.length} eventi. ${selectedEventIds.size} copie da eliminare.`
+                                    : `Trovati ${events.length} eventi. ${selectedEventIds.size} selezionati.`}
                             </p>
-                            <button 
-                                onClick={handleDeleteSelected}
-                                disabled={selectedEventIds.size === 0 || isDeleting}
-                                className="bg-destructive hover:bg-destructive/90 disabled:bg-muted text-destructive-foreground font-bold py-2 px-4 rounded-lg inline-flex items-center space-x-2 transition-colors"
-                            >
-                                {isDeleting ? <Loader className="h-5 w-5" /> : <Trash2Icon className="h-5 w-5" />}
-                                <span>
-                                    {isDeleting && deletionProgress 
-                                        ? `Eliminazione (${deletionProgress.current}/${deletionProgress.total})...`
-                                        : `Elimina ${selectedEventIds.size} Eventi`
-                                    }
-                                </span>
-                            </button>
+                            <div className="flex flex-wrap items-center justify-end gap-3">
+                                <BackupExportButtons events={events} disabled={isDeleting} />
+                                <button 
+                                    onClick={handleDeleteSelected}
+                                    disabled={selectedEventIds.size === 0 || isDeleting}
+                                    className="bg-destructive hover:bg-destructive/90 disabled:bg-muted text-destructive-foreground font-bold py-2 px-4 rounded-lg inline-flex items-center space-x-2 transition-colors"
+                                >
+                                    {isDeleting ? <Loader className="h-5 w-5" /> : <Trash2Icon className="h-5 w-5" />}
+                                    <span>
+                                        {isDeleting && deletionProgress 
+                                            ? `Eliminazione (${deletionProgress.current}/${deletionProgress.total})...`
+                                            : `Elimina ${selectedEventIds.size} Eventi`
+                                        }
+                                    </span>
+                                </button>
+                            </div>
                         </div>
                         
+                        {mode === 'duplicates' ? (
+                            duplicateGroups.length === 0 ? (
+                                <div className="text-center p-6 bg-card rounded-lg border border-border">
+                                    <p className="text-muted-foreground">Nessun duplicato trovato tra gli eventi cercati.</p>
+                                </div>
+                            ) : (
+                                <div className="max-h-[60vh] overflow-y-auto space-y-3">
+                                    {duplicateGroups.map(group => {
+                                        const proposed = chooseEventToKeep(group, keepStrategy);
+                                        return (
+                                            <div key={group.id} className="bg-card border border-border rounded-lg overflow-hidden">
+                                                <div className="px-4 py-2 bg-secondary text-xs font-medium text-muted-foreground uppercase">
+                                                    {group.events.length} copie · {new Date(group.events[0].start.dateTime || group.events[0].start.date || '').toLocaleString('it-IT', {day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit'})}
+                                                </div>
+                                                {group.events.map(event => {
+                                                    const isKept = !selectedEventIds.has(event.id);
+                                                    return (
+                                                        <div key={event.id} className={`grid grid-cols-[auto,2fr,1fr,auto] gap-4 px-4 py-3 border-t border-border items-center text-sm ${isKept ? '' : 'opacity-60'}`}>
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={!isKept}
+                                                                onChange={() => handleSelect(event.id)}
+                                                                className="w-4 h-4 text-primary bg-secondary border-border rounded focus:ring-ring"
+                                                                aria-label={`Elimina la copia ${event.summary}`}
+                                                            />
+                                                            <div className="min-w-0">
+                                                                <p className={`font-semibold text-foreground truncate ${isKept ? '' : 'line-through'}`} title={event.summary}>{event.summary}</p>
+                                                                <p className="text-xs text-muted-foreground truncate">
+                                                                    {calendars.find(c => c.id === event.calendarId)?.summary || event.calendarId}
+                                                                    {event.location && ` · ${event.location}`}
+                                                                    {event.attendees?.length ? ` · ${event.attendees.length} partecipanti` : ''}
+                                                                    {event.description?.trim() ? ` · descrizione di ${event.description.trim().length} caratteri` : ' · senza descrizione'}
+                                                                </p>
+                                                            </div>
+                                                            <div className="text-xs text-muted-foreground">
+                                                                {event.created ? `Creato il ${new Date(event.created).toLocaleDateString('it-IT')}` : ''}
+                                                            </div>
+                                                            <div className="flex items-center gap-2 justify-end">
+                                                                {event === proposed && (
+                                                                    <span className="text-[10px] font-semibold uppercase bg-primary/10 text-primary px-1.5 py-0.5 rounded">Consigliata</span>
+                                                                )}
+                                                                <button
+                                                                    onClick={() => handleKeepEvent(group.events, event.id)}
+                                                                    className="text-xs bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-1 px-2 rounded-md transition-colors"
+                                                                >
+                                                                    Conserva solo questa
+                                                                </button>
+                                                            </div>
+                                                        </div>
+                                                    );
+                                                })}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )
+                        ) : (
                         <div className="bg-card border border-border rounded-lg overflow-hidden">
                             <div className="grid grid-cols-[auto,2fr,1fr,1fr] gap-4 px-4 py-2 bg-secondary text-xs font-medium text-muted-foreground uppercase items-center">
                                 <input 
@@ -498,24 +978,42 @@ export const CleanupView: React.FC<CleanupViewProps> = ({ setPage }) => {
                             </div>
 
                             <div className="max-h-[60vh] overflow-y-auto">
-                                {events.map(event => (
-                                    <div key={event.id} className="grid grid-cols-[auto,2fr,1fr,1fr] gap-4 px-4 py-3 border-t border-border items-center hover:bg-accent transition-colors text-sm">
-                                        <input 
-                                            type="checkbox"
-                                            checked={selectedEventIds.has(event.id)}
-                                            onChange={() => handleSelect(event.id)}
-                                            className="w-4 h-4 text-primary bg-secondary border-border rounded focus:ring-ring"
-                                            aria-label={`Seleziona evento ${event.summary}`}
-                                        />
-                                        <p className="font-semibold text-foreground truncate" title={event.summary}>{event.summary}</p>
-                                        <div className="text-muted-foreground">
-                                            {new Date(event.start.dateTime || event.start.date || '').toLocaleString('it-IT', {day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit'})}
+                                {seriesGroups.map(group => {
+                                    if (!group.seriesKey) return renderEventRow(group.events[0]);
+                                    const seriesKey = group.seriesKey;
+                                    const selectedCount = group.events.filter(event => selectedEventIds.has(event.id)).length;
+                                    return (
+                                        <div key={seriesKey} className="border-t border-border">
+                                            <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-2 bg-secondary/50 text-xs text-muted-foreground">
+                                                <label className="flex items-center gap-3 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedCount === group.events.length}
+                                                        onChange={() => handleSelectSeries(group.events)}
+                                                        className="w-4 h-4 text-primary bg-secondary border-border rounded focus:ring-ring"
+                                                        aria-label={`Seleziona tutte le occorrenze di ${group.events[0].summary}`}
+                                                    />
+                                                    <RepeatIcon className="h-4 w-4" />
+                                                    <span className="font-medium uppercase">Serie ricorrente · {group.events.length} occorrenze trovate · {selectedCount} selezionate</span>
+                                                </label>
+                                                <select
+                                                    value={getSeriesScope(seriesKey)}
+                                                    onChange={e => setSeriesScopes(prev => ({ ...prev, [seriesKey]: e.target.value as SeriesScope }))}
+                                                    className="bg-input border border-border text-foreground text-xs rounded-md focus:ring-ring focus:border-primary p-1.5"
+                                                    aria-label="Cosa eliminare della serie"
+                                                >
+                                                    {(Object.keys(seriesScopeLabels) as SeriesScope[]).map(scope => (
+                                                        <option key={scope} value={scope}>{seriesScopeLabels[scope]}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                            {group.events.map(renderEventRow)}
                                         </div>
-                                        <div className="text-muted-foreground truncate" title={event.location || 'N/D'}>{event.location || 'N/D'}</div>
-                                    </div>
-                                ))}
+                                    );
+                                })}
                             </div>
                         </div>
+                        )}
                     </div>
                 )}
             </div>
@@ -0,0 +1,269 @@
+import React, { useState, useMemo } from 'react';
+import {
+    mappableFields, dateFormats, detectHeaderRow, guessMapping, detectDateFormat, applyColumnMapping,
+    presetFromConfig, mappingFromPreset, loadMappingPresets, saveMappingPresets,
+} from '../lib/columnMapping';
+import type { ColumnMapping, ColumnMappingConfig, DateFormat, MappableField, MappingPreset } from '../lib/columnMapping';
+import type { SpreadsheetSheet } from '../lib/spreadsheet';
+import { toDDMMYYYY } from '../lib/dateUtils';
+import { ArrowLeftIcon, SparklesIcon, Trash2Icon } from './Icons';
+
+interface ColumnMappingWizardProps {
+    fileName: string;
+    // Fogli selezionati: la mappatura si configura su uno di essi e viene applicata a tutti
+    sheets: SpreadsheetSheet[];
+    onConfirm: (config: ColumnMappingConfig, useAiForAmbiguous: boolean) => void;
+    onCancel: () => void;
+}
+
+const columnLetter = (index: number): string => {
+    let letter = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    }
+    return letter;
+};
+
+const selectClasses = "bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2.5";
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ fileName, sheets, onConfirm, onCancel }) => {
+    const [previewSheetIndex, setPreviewSheetIndex] = useState(0);
+    const rows = sheets[previewSheetIndex]?.rows || [];
+    const columnCount = useMemo(() => rows.reduce((max, row) => Math.max(max, row.length), 0), [rows]);
+    const initialHeaderRow = useMemo(() => detectHeaderRow(rows), [rows]);
+
+    const getHeaders = (headerRowIndex: number) =>
+        Array.from({ length: columnCount }, (_, i) => (headerRowIndex >= 0 ? rows[headerRowIndex]?.[i]?.trim() || '' : ''));
+
+    const detectFormats = (mapping: ColumnMapping, headerRowIndex: number): ColumnMappingConfig['dateFormats'] => {
+        const columnValues = (field: MappableField) =>
+            mapping[field] === -1 ? [] : rows.slice(headerRowIndex + 1).map(row => row[mapping[field]] || '');
+        return { startDate: detectDateFormat(columnValues('startDate')), endDate: detectDateFormat(columnValues('endDate')) };
+    };
+
+    const [config, setConfig] = useState<ColumnMappingConfig>(() => {
+        const mapping = guessMapping(getHeaders(initialHeaderRow));
+        return { headerRowIndex: initialHeaderRow, mapping, dateFormats: detectFormats(mapping, initialHeaderRow) };
+    });
+    const [presets, setPresets] = useState<MappingPreset[]>(loadMappingPresets);
+    const [presetName, setPresetName] = useState('');
+    const [useAiForAmbiguous, setUseAiForAmbiguous] = useState(true);
+
+    const headers = getHeaders(config.headerRowIndex);
+    const result = useMemo(() => applyColumnMapping(rows, config), [rows, config]);
+    const totals = useMemo(() => sheets.reduce((acc, sheet) => {
+        const sheetResult = applyColumnMapping(sheet.rows, config);
+        return { events: acc.events + sheetResult.events.length, ambiguous: acc.ambiguous + sheetResult.ambiguousRows.length };
+    }, { events: 0, ambiguous: 0 }), [sheets, config]);
+    const canConfirm = config.mapping.subject !== -1 && config.mapping.startDate !== -1;
+    const dataRowCount = totals.events + totals.ambiguous;
+
+    const handleHeaderRowChange = (headerRowIndex: number) => {
+        const mapping = guessMapping(getHeaders(headerRowIndex));
+        setConfig({ headerRowIndex, mapping, dateFormats: detectFormats(mapping, headerRowIndex) });
+    };
+
+    const handleMappingChange = (field: MappableField, columnIndex: number) => {
+        setConfig(prev => {
+            const mapping = { ...prev.mapping, [field]: columnIndex };
+            const dateFormats = field === 'startDate' || field === 'endDate'
+                ? { ...prev.dateFormats, [field]: detectFormats(mapping, prev.headerRowIndex)[field] }
+                : prev.dateFormats;
+            return { ...prev, mapping, dateFormats };
+        });
+    };
+
+    const handleDateFormatChange = (field: 'startDate' | 'endDate', format: DateFormat) => {
+        setConfig(prev => ({ ...prev, dateFormats: { ...prev.dateFormats, [field]: format } }));
+    };
+
+    const handleApplyPreset = (name: string) => {
+        const preset = presets.find(p => p.name === name);
+        if (!preset) return;
+        setConfig(prev => ({ ...prev, mapping: mappingFromPreset(preset, headers), dateFormats: preset.dateFormats }));
+    };
+
+    const handleSavePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        const updated = [...presets.filter(p => p.name !== name), presetFromConfig(name, headers, config)];
+        setPresets(updated);
+        saveMappingPresets(updated);
+        setPresetName('');
+    };
+
+    const handleDeletePreset = (name: string) => {
+        const updated = presets.filter(p => p.name !== name);
+        setPresets(updated);
+        saveMappingPresets(updated);
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto animate-fade-in space-y-6">
+            <div>
+                <h2 className="text-xl font-bold text-foreground">Mappa le colonne di <span className="text-primary">{fileName}</span></h2>
+                <p className="text-muted-foreground mt-1 text-sm">
+                    Indica quale colonna corrisponde a ciascun campo. Le righe riconosciute vengono convertite direttamente, senza usare l'IA.
+                </p>
+            </div>
+
+            {/* Preset */}
+            <div className="p-4 bg-card border border-border rounded-lg">
+                <h3 className="font-semibold text-foreground mb-3">Preset di Mappatura</h3>
+                <div className="flex flex-wrap items-end gap-3">
+                    {presets.length > 0 && (
+                        <div className="flex-grow min-w-[200px]">
+                            <label htmlFor="mapping-preset" className="block mb-1 text-sm font-medium text-muted-foreground">Applica un preset salvato</label>
+                            <select id="mapping-preset" value="" onChange={(e) => handleApplyPreset(e.target.value)} className={selectClasses}>
+                                <option value="" disabled>Seleziona...</option>
+                                {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <div className="flex-grow min-w-[200px]">
+                        <label htmlFor="preset-name" className="block mb-1 text-sm font-medium text-muted-foreground">Salva la mappatura corrente</label>
+                        <input
+                            type="text"
+                            id="preset-name"
+                            value={presetName}
+                            onChange={(e) => setPresetName(e.target.value)}
+                            placeholder="Es. 'Orario scolastico'"
+                            className={selectClasses}
+                        />
+                    </div>
+                    <button
+                        onClick={handleSavePreset}
+                        disabled={!presetName.trim() || !canConfirm}
+                        className="bg-secondary hover:bg-muted disabled:bg-muted/50 disabled:text-muted-foreground disabled:cursor-not-allowed text-secondary-foreground font-semibold py-2.5 px-4 rounded-md transition-colors"
+                    >
+                        Salva Preset
+                    </button>
+                </div>
+                {presets.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                        {presets.map(p => (
+                            <span key={p.name} className="inline-flex items-center space-x-1 bg-secondary/50 text-xs text-foreground rounded-full pl-3 pr-1 py-1">
+                                <span>{p.name}</span>
+                                <button onClick={() => handleDeletePreset(p.name)} title="Elimina preset" className="p-1 rounded-full hover:bg-muted">
+                                    <Trash2Icon className="h-3 w-3 text-muted-foreground" />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Mapping */}
+            <div className="p-4 bg-card border border-border rounded-lg">
+                <div className="mb-4 flex flex-wrap gap-4">
+                    {sheets.length > 1 && (
+                        <div className="w-full max-w-xs">
+                            <label htmlFor="preview-sheet" className="block mb-1 text-sm font-medium text-muted-foreground">Foglio di riferimento</label>
+                            <select id="preview-sheet" value={previewSheetIndex} onChange={(e) => setPreviewSheetIndex(Number(e.target.value))} className={selectClasses}>
+                                {sheets.map((sheet, i) => <option key={sheet.name} value={i}>{sheet.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <div className="w-full max-w-xs">
+                        <label htmlFor="header-row" className="block mb-1 text-sm font-medium text-muted-foreground">Riga di intestazione</label>
+                        <select id="header-row" value={config.headerRowIndex} onChange={(e) => handleHeaderRowChange(Number(e.target.value))} className={selectClasses}>
+                            <option value={-1}>Nessuna (solo dati)</option>
+                            {rows.slice(0, 10).map((_, i) => <option key={i} value={i}>Riga {i + 1}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    {mappableFields.map(field => (
+                        <div key={field.key}>
+                            <label htmlFor={`map-${field.key}`} className="block mb-1 text-sm font-medium text-muted-foreground">
+                                {field.label}{field.required && <span className="text-destructive"> *</span>}
+                            </label>
+                            <select
+                                id={`map-${field.key}`}
+                                value={config.mapping[field.key]}
+                                onChange={(e) => handleMappingChange(field.key, Number(e.target.value))}
+                                className={selectClasses}
+                            >
+                                <option value={-1}>— Non mappato —</option>
+                                {headers.map((header, i) => (
+                                    <option key={i} value={i}>{columnLetter(i)}{header ? ` – ${header}` : ''}</option>
+                                ))}
+                            </select>
+                            {(field.key === 'startDate' || field.key === 'endDate') && config.mapping[field.key] !== -1 && (
+                                <select
+                                    value={config.dateFormats[field.key]}
+                                    onChange={(e) => handleDateFormatChange(field.key as 'startDate' | 'endDate', e.target.value as DateFormat)}
+                                    className={`${selectClasses} mt-2`}
+                                    aria-label={`Formato della colonna ${field.label}`}
+                                >
+                                    {dateFormats.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                                </select>
+                            )}
+                        </div>
+                    ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-4">
+                    Se mancano, la data di fine coincide con quella di inizio, l'ora di inizio è le 09:00 e la durata è di un'ora.
+                </p>
+            </div>
+
+            {/* Preview */}
+            {canConfirm && (
+                <div className="p-4 bg-card border border-border rounded-lg">
+                    <p className="text-sm text-foreground">
+                        <span className="font-semibold text-green-400">{totals.events}</span> righe riconosciute su {dataRowCount}
+                        {sheets.length > 1 && ` in ${sheets.length} fogli`}.
+                        {totals.ambiguous > 0 && (
+                            <span className="text-yellow-400"> {totals.ambiguous} righe ambigue.</span>
+                        )}
+                    </p>
+                    {result.events.length > 0 && (
+                        <div className="overflow-x-auto mt-3">
+                            <table className="w-full text-xs text-left text-foreground">
+                                <thead className="text-muted-foreground uppercase bg-secondary">
+                                    <tr>{mappableFields.map(f => <th key={f.key} className="px-3 py-2 whitespace-nowrap">{f.label}</th>)}</tr>
+                                </thead>
+                                <tbody>
+                                    {result.events.slice(0, 5).map((event, i) => (
+                                        <tr key={i} className="border-b border-border">
+                                            {mappableFields.map(f => (
+                                                <td key={f.key} className="px-3 py-2 truncate max-w-[200px]">
+                                                    {f.key === 'startDate' || f.key === 'endDate' ? toDDMMYYYY(event[f.key]) : event[f.key]}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    {totals.ambiguous > 0 && (
+                        <label className="flex items-center space-x-2 mt-4 text-sm text-foreground cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={useAiForAmbiguous}
+                                onChange={(e) => setUseAiForAmbiguous(e.target.checked)}
+                                className="w-4 h-4 text-primary bg-secondary border-border rounded focus:ring-ring"
+                            />
+                            <SparklesIcon className="h-4 w-4 text-yellow-400" />
+                            <span>Invia le righe ambigue all'IA (altrimenti verranno ignorate)</span>
+                        </label>
+                    )}
+                </div>
+            )}
+
+            <div className="flex justify-center items-center space-x-4">
+                <button onClick={onCancel} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-3 px-8 rounded-full inline-flex items-center space-x-3 transition-all">
+                    <ArrowLeftIcon className="h-5 w-5" /> <span>Indietro</span>
+                </button>
+                <button
+                    onClick={() => onConfirm(config, useAiForAmbiguous)}
+                    disabled={!canConfirm || dataRowCount === 0}
+                    className="bg-primary hover:bg-primary/90 disabled:bg-muted disabled:text-muted-foreground text-primary-foreground font-bold py-3 px-10 rounded-full shadow-lg shadow-primary/20 transform hover:scale-105 transition-all"
+                >
+                    Elabora Anteprima
+                </button>
+            </div>
+        </div>
+    );
+};
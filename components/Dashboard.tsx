@@ -1,8 +1,8 @@
 import React from 'react';
-import { CalendarPlusIcon, Trash2Icon, PencilLineIcon, ArrowRightIcon } from './Icons';
+import { CalendarPlusIcon, Trash2Icon, PencilLineIcon, ArrowRightIcon, ClockIcon, ArchiveIcon } from './Icons';
 
 interface DashboardProps {
-    setPage: (page: 'import' | 'cleanup' | 'massive-edit') => void;
+    setPage: (page: 'import' | 'cleanup' | 'massive-edit' | 'history' | 'backup') => void;
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ setPage }) => {
@@ -17,7 +17,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ setPage }) => {
                 </p>
             </div>
 
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8 max-w-7xl mx-auto">
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-8 max-w-7xl mx-auto">
                 {/* Card Importa Eventi */}
                 <div 
                     className="group relative bg-card p-8 rounded-2xl border border-border hover:border-primary/50 hover:shadow-2xl hover:shadow-primary/10 transition-all duration-300 transform hover:-translate-y-2 flex flex-col"
@@ -89,7 +89,55 @@ export const Dashboard: React.FC<DashboardProps> = ({ setPage }) => {
                         <ArrowRightIcon className="w-4 h-4 transition-transform duration-300 group-hover/btn:translate-x-1" />
                     </button>
                 </div>
+
+                {/* Card Cronologia Importazioni */}
+                <div 
+                    className="group relative bg-card p-8 rounded-2xl border border-border hover:border-emerald-500/50 hover:shadow-2xl hover:shadow-emerald-500/10 transition-all duration-300 transform hover:-translate-y-2 flex flex-col"
+                >
+                    <div className="mb-6">
+                        <div className="w-14 h-14 bg-emerald-500/10 text-emerald-500 rounded-xl flex items-center justify-center">
+                            <ClockIcon className="w-7 h-7" />
+                        </div>
+                    </div>
+                    <h3 className="text-xl font-semibold text-card-foreground mb-3">
+                        Cronologia Importazioni
+                    </h3>
+                    <p className="text-muted-foreground mb-8 flex-grow">
+                        Rivedi gli eventi importati con ForMa, annulla un'importazione in un click o risincronizzala con la versione aggiornata del file.
+                    </p>
+                    <button 
+                        onClick={() => setPage('history')}
+                        className="mt-auto inline-flex items-center justify-center space-x-2 text-emerald-500 font-bold group/btn"
+                    >
+                        <span>Vedi cronologia</span>
+                        <ArrowRightIcon className="w-4 h-4 transition-transform duration-300 group-hover/btn:translate-x-1" />
+                    </button>
+                </div>
+
+                {/* Card Backup */}
+                <div 
+                    className="group relative bg-card p-8 rounded-2xl border border-border hover:border-amber-500/50 hover:shadow-2xl hover:shadow-amber-500/10 transition-all duration-300 transform hover:-translate-y-2 flex flex-col"
+                >
+                    <div className="mb-6">
+                        <div className="w-14 h-14 bg-amber-500/10 text-amber-500 rounded-xl flex items-center justify-center">
+                            <ArchiveIcon className="w-7 h-7" />
+                        </div>
+                    </div>
+                    <h3 className="text-xl font-semibold text-card-foreground mb-3">
+                        Backup Calendario
+                    </h3>
+                    <p className="text-muted-foreground mb-8 flex-grow">
+                        Salva una copia completa degli eventi prima di pulire o modificare un calendario condiviso e ripristinala quando serve.
+                    </p>
+                    <button 
+                        onClick={() => setPage('backup')}
+                        className="mt-auto inline-flex items-center justify-center space-x-2 text-amber-500 font-bold group/btn"
+                    >
+                        <span>Gestisci backup</span>
+                        <ArrowRightIcon className="w-4 h-4 transition-transform duration-300 group-hover/btn:translate-x-1" />
+                    </button>
+                </div>
             </div>
         </div>
     );
-};
\ No newline at end of file
+};
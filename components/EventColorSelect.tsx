@@ -0,0 +1,46 @@
+import React from 'react';
+import { findEventColor } from '../lib/colors';
+import { useGoogleSession } from '../contexts/GoogleSessionContext';
+
+interface EventColorSelectProps {
+    id?: string;
+    // Id del colore; stringa vuota per l'opzione `emptyLabel`
+    value: string;
+    onChange: (colorId: string) => void;
+    // Etichetta dell'opzione senza colore (es. "Colore del calendario" o "Invariato")
+    emptyLabel: string;
+    className: string;
+    ariaLabel?: string;
+    hasError?: boolean;
+}
+
+// Campione del colore di un evento; tratteggiato se l'evento usa il colore del calendario
+export const ColorSwatch: React.FC<{ background?: string; className?: string }> = ({ background, className = 'h-4 w-4' }) => (
+    <span
+        className={`inline-block flex-shrink-0 rounded-full ${background ? '' : 'border border-dashed border-muted-foreground'} ${className}`}
+        style={background ? { backgroundColor: background } : undefined}
+        aria-hidden="true"
+    />
+);
+
+// Menu a tendina della tavolozza di Google Calendar, con il campione del colore scelto
+export const EventColorSelect: React.FC<EventColorSelectProps> = ({ id, value, onChange, emptyLabel, className, ariaLabel, hasError }) => {
+    const { eventColors } = useGoogleSession();
+    const selected = findEventColor(eventColors, value);
+
+    return (
+        <div className="flex items-center gap-2">
+            <ColorSwatch background={selected?.background} />
+            <select
+                id={id}
+                value={value}
+                onChange={e => onChange(e.target.value)}
+                className={`${className} ${hasError ? 'border-destructive/50' : ''}`}
+                aria-label={ariaLabel}
+            >
+                <option value="">{emptyLabel}</option>
+                {eventColors.map(color => <option key={color.id} value={color.id}>{color.name}</option>)}
+            </select>
+        </div>
+    );
+};
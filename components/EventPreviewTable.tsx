@@ -1,11 +1,21 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import type { ValidatedEvent, EventObject, ValidationErrors } from '../lib/types';
+import type { ValidatedEvent, EventObject, EventPerson, EventRecurrence, EventReminder, EventTextField, ValidationErrors } from '../lib/types';
 import { validateEvent } from '../lib/validation';
-import { Trash2Icon, SparklesIcon, ChevronsUpDownIcon, ChevronUpIcon, ChevronDownIcon, CalendarPlusIcon } from './Icons';
+import { Trash2Icon, SparklesIcon, ChevronsUpDownIcon, ChevronUpIcon, ChevronDownIcon, CalendarPlusIcon, RepeatIcon, BellIcon } from './Icons';
 import { BulkActions } from './BulkActions';
 import { suggestCorrection } from '../services/geminiService';
 import { Loader } from './Loader';
-import { toYYYYMMDD } from '../lib/dateUtils';
+import { toYYYYMMDD, toDDMMYYYY, addDays } from '../lib/dateUtils';
+import { describeRecurrence } from '../lib/recurrence';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { RemindersEditor } from './RemindersEditor';
+import { describeReminders } from '../lib/reminders';
+import { formatPerson } from '../lib/attendees';
+import { PersonChipsInput } from './PersonChipsInput';
+import { getTimeZoneOptions } from '../lib/timezone';
+import { useSettings } from '../contexts/SettingsContext';
+import { defaultEventColors, findEventColor } from '../lib/colors';
+import { EventColorSelect } from './EventColorSelect';
 
 interface EventPreviewTableProps {
   events: ValidatedEvent[];
@@ -14,35 +24,97 @@ interface EventPreviewTableProps {
   setSelectedEvents: React.Dispatch<React.SetStateAction<Set<number>>>;
 }
 
-const tableHeaders: { key: keyof Omit<EventObject, 'id'>; label: string }[] = [
+// Colonne della tabella: i campi testuali sono modificabili in linea, la ricorrenza tramite il suo editor
+type ColumnKey = EventTextField | 'allDay' | 'recurrence' | 'reminders' | 'attendees' | 'organizer' | 'colorId' | 'sourceSheet';
+
+const tableHeaders: { key: ColumnKey; label: string }[] = [
     { key: 'subject', label: 'Oggetto' },
     { key: 'startDate', label: 'Data Inizio' },
     { key: 'startTime', label: 'Ora Inizio' },
     { key: 'endDate', label: 'Data Fine' },
     { key: 'endTime', label: 'Ora Fine' },
+    { key: 'timeZone', label: 'Fuso Orario' },
     { key: 'location', label: 'Luogo' },
     { key: 'description', label: 'Descrizione' },
+    { key: 'organizer', label: 'Organizzatore' },
+    { key: 'attendees', label: 'Partecipanti' },
+    { key: 'allDay', label: 'Tutto il giorno' },
+    { key: 'recurrence', label: 'Ripetizione' },
+    { key: 'reminders', label: 'Promemoria' },
+    { key: 'colorId', label: 'Colore' },
 ];
 
+// Colonna di sola lettura mostrata quando gli eventi provengono da più fogli di una cartella di lavoro
+const sheetHeader: { key: ColumnKey; label: string } = { key: 'sourceSheet', label: 'Foglio' };
+
+// Valore testuale di una colonna, usato per filtro e ordinamento
+const getColumnValue = (event: EventObject, key: ColumnKey, defaultReminder: EventReminder | null): string => {
+    if (key === 'allDay') return event.allDay ? 'sì' : 'no';
+    if (key === 'recurrence') return event.recurrence ? describeRecurrence(event.recurrence) : '';
+    if (key === 'reminders') return describeReminders(event, defaultReminder);
+    if (key === 'attendees') return (event.attendees || []).map(formatPerson).join(', ');
+    if (key === 'organizer') return event.organizer ? formatPerson(event.organizer) : '';
+    if (key === 'colorId') return findEventColor(defaultEventColors, event.colorId)?.name || '';
+    return event[key] ?? '';
+};
+
 const FilterPanel: React.FC<{
-    filters: Partial<Record<keyof Omit<EventObject, 'id'>, string>>;
-    onFilterChange: (field: keyof Omit<EventObject, 'id'>, value: string) => void;
-}> = ({ filters, onFilterChange }) => (
+    headers: typeof tableHeaders;
+    sheetNames: string[];
+    filters: Partial<Record<ColumnKey, string>>;
+    onFilterChange: (field: ColumnKey, value: string) => void;
+}> = ({ headers, sheetNames, filters, onFilterChange }) => (
     <div className="mb-4 p-4 bg-card border border-border rounded-lg">
         <h3 className="font-semibold text-foreground mb-3">Filtra Eventi</h3>
-        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
-            {tableHeaders.map(header => (
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+            {headers.map(header => (
                 <div key={`filter-${header.key}`}>
                     <label htmlFor={`filter-${header.key}`} className="sr-only">{header.label}</label>
-                    <input
-                        type="text"
-                        id={`filter-${header.key}`}
-                        placeholder={`${header.label}...`}
-                        value={filters[header.key] || ''}
-                        onChange={(e) => onFilterChange(header.key, e.target.value)}
-                        className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2"
-                        aria-label={`Filtra per ${header.label}`}
-                    />
+                    {header.key === 'allDay' ? (
+                        <select
+                            id={`filter-${header.key}`}
+                            value={filters[header.key] || ''}
+                            onChange={(e) => onFilterChange(header.key, e.target.value)}
+                            className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2"
+                            aria-label={`Filtra per ${header.label}`}
+                        >
+                            <option value="">Tutti gli eventi</option>
+                            <option value="sì">Tutto il giorno</option>
+                            <option value="no">Con orario</option>
+                        </select>
+                    ) : header.key === 'colorId' ? (
+                        <select
+                            id={`filter-${header.key}`}
+                            value={filters[header.key] || ''}
+                            onChange={(e) => onFilterChange(header.key, e.target.value)}
+                            className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2"
+                            aria-label={`Filtra per ${header.label}`}
+                        >
+                            <option value="">Tutti i colori</option>
+                            {defaultEventColors.map(color => <option key={color.id} value={color.name}>{color.name}</option>)}
+                        </select>
+                    ) : header.key === 'sourceSheet' ? (
+                        <select
+                            id={`filter-${header.key}`}
+                            value={filters[header.key] || ''}
+                            onChange={(e) => onFilterChange(header.key, e.target.value)}
+                            className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2"
+                            aria-label={`Filtra per ${header.label}`}
+                        >
+                            <option value="">Tutti i fogli</option>
+                            {sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                    ) : (
+                        <input
+                            type="text"
+                            id={`filter-${header.key}`}
+                            placeholder={`${header.label}...`}
+                            value={filters[header.key] || ''}
+                            onChange={(e) => onFilterChange(header.key, e.target.value)}
+                            className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2"
+                            aria-label={`Filtra per ${header.label}`}
+                        />
+                    )}
                 </div>
             ))}
         </div>
@@ -50,12 +122,22 @@ const FilterPanel: React.FC<{
 );
 
 export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, setEvents, selectedEvents, setSelectedEvents }) => {
-    const [filters, setFilters] = useState<Partial<Record<keyof Omit<EventObject, 'id'>, string>>>({});
-    const [correctingField, setCorrectingField] = useState<{ eventId: number; field: keyof Omit<EventObject, 'id'> } | null>(null);
-    const [sortConfig, setSortConfig] = useState<{ key: keyof Omit<EventObject, 'id'> | null; direction: 'ascending' | 'descending' }>({ key: null, direction: 'ascending' });
+    const { defaultTimeZone, defaultReminder } = useSettings();
+    const timeZoneOptions = useMemo(() => getTimeZoneOptions(), []);
+    const [filters, setFilters] = useState<Partial<Record<ColumnKey, string>>>({});
+    const [correctingField, setCorrectingField] = useState<{ eventId: number; field: EventTextField } | null>(null);
+    const [sortConfig, setSortConfig] = useState<{ key: ColumnKey | null; direction: 'ascending' | 'descending' }>({ key: null, direction: 'ascending' });
+    // Evento e campo aperti in un editor modale (ricorrenza o promemoria)
+    const [editing, setEditing] = useState<{ eventId: number; field: 'recurrence' | 'reminders' } | null>(null);
     const selectAllCheckboxRef = useRef<HTMLInputElement>(null);
 
-    const handleFieldChange = (id: number, field: keyof EventObject, value: string) => {
+    const sheetNames = useMemo(
+        () => Array.from(new Set(events.map(e => e.sourceSheet).filter((name): name is string => !!name))),
+        [events]
+    );
+    const headers = sheetNames.length > 0 ? [...tableHeaders, sheetHeader] : tableHeaders;
+
+    const handleFieldChange = (id: number, field: EventTextField, value: string) => {
         setEvents(prevEvents => {
             const newEvents = prevEvents.map(event => {
                 if (event.id === id) {
@@ -68,6 +150,63 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
         });
     };
 
+    const handleRecurrenceChange = (id: number, recurrence: EventRecurrence | undefined) => {
+        setEvents(prevEvents => prevEvents.map(event => {
+            if (event.id !== id) return event;
+            return validateEvent({ ...event, recurrence });
+        }));
+        setEditing(null);
+    };
+
+    const handlePeopleChange = (id: number, field: 'attendees' | 'organizer', people: EventPerson[]) => {
+        setEvents(prevEvents => prevEvents.map(event => {
+            if (event.id !== id) return event;
+            const value = field === 'organizer' ? people[0] : people.length > 0 ? people : undefined;
+            return validateEvent({ ...event, [field]: value });
+        }));
+    };
+
+    const handleColorChange = (id: number, colorId: string) => {
+        setEvents(prevEvents => prevEvents.map(event => {
+            if (event.id !== id) return event;
+            return validateEvent({ ...event, colorId: colorId || undefined });
+        }));
+    };
+
+    const handleRemindersChange = (id: number, reminders: EventReminder[] | undefined) => {
+        setEvents(prevEvents => prevEvents.map(event => {
+            if (event.id !== id) return event;
+            return validateEvent({ ...event, reminders });
+        }));
+        setEditing(null);
+    };
+
+    // Passando a "tutto il giorno" la data di fine diventa esclusiva (e viceversa); gli orari tornano ai valori predefiniti
+    const handleAllDayChange = (id: number, allDay: boolean) => {
+        setEvents(prevEvents => prevEvents.map(event => {
+            if (event.id !== id) return event;
+            const startDate = toYYYYMMDD(event.startDate);
+            const endDate = toYYYYMMDD(event.endDate);
+            const hasValidDates = /^\d{4}-\d{2}-\d{2}$/.test(startDate) && /^\d{4}-\d{2}-\d{2}$/.test(endDate);
+            if (allDay) {
+                return validateEvent({
+                    ...event,
+                    allDay: true,
+                    startTime: '',
+                    endTime: '',
+                    endDate: hasValidDates ? toDDMMYYYY(addDays(endDate > startDate ? endDate : startDate, 1)) : event.endDate,
+                });
+            }
+            return validateEvent({
+                ...event,
+                allDay: undefined,
+                startTime: '09:00',
+                endTime: '10:00',
+                endDate: hasValidDates ? toDDMMYYYY(addDays(endDate, -1)) : event.endDate,
+            });
+        }));
+    };
+
     const handleDeleteRow = (id: number) => {
         setEvents(prevEvents => prevEvents.filter(event => event.id !== id));
         setSelectedEvents(prev => {
@@ -115,10 +254,11 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
 
         // Filtering
         processableEvents = processableEvents.filter(event => {
-            return (Object.entries(filters) as [keyof Omit<EventObject, 'id'>, string][]).every(([key, value]) => {
+            return (Object.entries(filters) as [ColumnKey, string][]).every(([key, value]) => {
                 const filterValue = value.toLowerCase();
                 if (!filterValue) return true;
-                const eventValue = String(event[key] ?? '').toLowerCase();
+                if (key === 'sourceSheet' || key === 'allDay' || key === 'colorId') return getColumnValue(event, key, defaultReminder) === value;
+                const eventValue = getColumnValue(event, key, defaultReminder).toLowerCase();
                 return eventValue.includes(filterValue);
             });
         });
@@ -126,16 +266,16 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
         // Sorting
         if (sortConfig.key) {
             processableEvents.sort((a, b) => {
-                const aValue = a[sortConfig.key!] ?? '';
-                const bValue = b[sortConfig.key!] ?? '';
+                const aValue = getColumnValue(a, sortConfig.key!, defaultReminder);
+                const bValue = getColumnValue(b, sortConfig.key!, defaultReminder);
                 let comparison = 0;
 
                 if (sortConfig.key === 'startDate' || sortConfig.key === 'endDate') {
-                    const dateA = aValue ? toYYYYMMDD(aValue as string) : '';
-                    const dateB = bValue ? toYYYYMMDD(bValue as string) : '';
+                    const dateA = aValue ? toYYYYMMDD(aValue) : '';
+                    const dateB = bValue ? toYYYYMMDD(bValue) : '';
                     comparison = dateA.localeCompare(dateB);
                 } else {
-                    comparison = String(aValue).localeCompare(String(bValue));
+                    comparison = aValue.localeCompare(bValue);
                 }
 
                 return sortConfig.direction === 'ascending' ? comparison : -comparison;
@@ -143,7 +283,7 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
         }
         
         return processableEvents;
-    }, [events, filters, sortConfig]);
+    }, [events, filters, sortConfig, defaultReminder]);
 
     const handleSelectAll = () => {
         const filteredIds = new Set(sortedAndFilteredEvents.map(e => e.id));
@@ -160,7 +300,7 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
         });
     };
 
-    const handleSuggestCorrection = async (event: ValidatedEvent, field: keyof Omit<EventObject, 'id'>) => {
+    const handleSuggestCorrection = async (event: ValidatedEvent, field: EventTextField) => {
         setCorrectingField({ eventId: event.id, field });
         try {
             const suggestion = await suggestCorrection(event, field);
@@ -174,7 +314,7 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
         }
     };
 
-    const handleSort = (key: keyof Omit<EventObject, 'id'>) => {
+    const handleSort = (key: ColumnKey) => {
         let direction: 'ascending' | 'descending' = 'ascending';
         if (sortConfig.key === key && sortConfig.direction === 'ascending') {
             direction = 'descending';
@@ -201,15 +341,19 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
     }
     
     const areAllFilteredSelected = sortedAndFilteredEvents.length > 0 && sortedAndFilteredEvents.every(e => selectedEvents.has(e.id));
+    const editingEvent = editing ? events.find(e => e.id === editing.eventId) : undefined;
     
     return (
         <>
              <FilterPanel 
+                headers={headers}
+                sheetNames={sheetNames}
                 filters={filters} 
                 onFilterChange={(field, value) => setFilters(prev => ({...prev, [field]: value}))} 
             />
             {selectedEvents.size > 0 && (
                 <BulkActions
+                    events={events}
                     selectedIds={selectedEvents}
                     setEvents={setEvents}
                     onClearSelection={() => setSelectedEvents(new Set())}
@@ -238,7 +382,7 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
                                     aria-label="Seleziona tutti gli eventi visibili"
                                 />
                             </th>
-                            {tableHeaders.map(header => (
+                            {headers.map(header => (
                                 <th key={header.key} scope="col" className="px-4 py-3 whitespace-nowrap cursor-pointer group hover:bg-accent transition-colors" onClick={() => handleSort(header.key)}>
                                     <div className="flex items-center space-x-1">
                                         <span>{header.label}</span>
@@ -258,7 +402,7 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
                     <tbody>
                         {sortedAndFilteredEvents.length === 0 ? (
                             <tr>
-                                <td colSpan={tableHeaders.length + 2} className="text-center py-10 text-muted-foreground">
+                                <td colSpan={headers.length + 2} className="text-center py-10 text-muted-foreground">
                                     Nessun evento corrisponde ai criteri di ricerca.
                                 </td>
                             </tr>
@@ -277,10 +421,97 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
                                                 aria-label={`Seleziona l'evento ${event.subject}`}
                                             />
                                         </td>
-                                        {tableHeaders.map(({ key, label }) => {
+                                        {headers.map(({ key, label }) => {
+                                            if (key === 'sourceSheet') {
+                                                return (
+                                                    <td key={key} className="px-4 py-2 align-middle whitespace-nowrap text-muted-foreground">
+                                                        {event.sourceSheet || '—'}
+                                                    </td>
+                                                );
+                                            }
+                                            if (key === 'allDay') {
+                                                return (
+                                                    <td key={key} className="px-4 py-2 align-middle text-center">
+                                                        <input
+                                                            type="checkbox"
+                                                            className="w-4 h-4 text-primary bg-secondary border-border rounded focus:ring-ring focus:outline-none"
+                                                            checked={!!event.allDay}
+                                                            onChange={(e) => handleAllDayChange(event.id, e.target.checked)}
+                                                            aria-label={`Evento di un'intera giornata: ${event.subject}`}
+                                                        />
+                                                    </td>
+                                                );
+                                            }
+                                            if (key === 'recurrence') {
+                                                return (
+                                                    <td key={key} className="px-2 py-2 align-top">
+                                                        <button
+                                                            onClick={() => setEditing({ eventId: event.id, field: 'recurrence' })}
+                                                            className={`flex items-center space-x-2 text-left bg-input border text-sm rounded-md w-full p-2.5 transition-colors hover:bg-accent
+                                                                ${event.errors.recurrence ? 'border-destructive/50' : 'border-border'}
+                                                                ${event.recurrence ? 'text-foreground' : 'text-muted-foreground'}`}
+                                                            title={event.errors.recurrence || 'Modifica ripetizione'}
+                                                        >
+                                                            <RepeatIcon className="h-4 w-4 flex-shrink-0" />
+                                                            <span className="truncate">{describeRecurrence(event.recurrence)}</span>
+                                                        </button>
+                                                        {event.errors.recurrence && <p className="text-destructive text-xs mt-1 px-1">{event.errors.recurrence}</p>}
+                                                    </td>
+                                                );
+                                            }
+                                            if (key === 'attendees' || key === 'organizer') {
+                                                const people = key === 'organizer' ? (event.organizer ? [event.organizer] : []) : event.attendees || [];
+                                                return (
+                                                    <td key={key} className="px-2 py-2 align-top min-w-[14rem]">
+                                                        <PersonChipsInput
+                                                            people={people}
+                                                            onChange={(updated) => handlePeopleChange(event.id, key, updated)}
+                                                            max={key === 'organizer' ? 1 : undefined}
+                                                            placeholder="Nome <email>"
+                                                            ariaLabel={label}
+                                                            hasError={!!event.errors[key]}
+                                                        />
+                                                        {event.errors[key] && <p className="text-destructive text-xs mt-1 px-1">{event.errors[key]}</p>}
+                                                    </td>
+                                                );
+                                            }
+                                            if (key === 'colorId') {
+                                                return (
+                                                    <td key={key} className="px-2 py-2 align-top min-w-[11rem]">
+                                                        <EventColorSelect
+                                                            value={event.colorId || ''}
+                                                            onChange={(colorId) => handleColorChange(event.id, colorId)}
+                                                            emptyLabel="Calendario"
+                                                            className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2.5"
+                                                            ariaLabel={`Colore dell'evento ${event.subject}`}
+                                                            hasError={!!event.errors.colorId}
+                                                        />
+                                                        {event.errors.colorId && <p className="text-destructive text-xs mt-1 px-1">{event.errors.colorId}</p>}
+                                                    </td>
+                                                );
+                                            }
+                                            if (key === 'reminders') {
+                                                return (
+                                                    <td key={key} className="px-2 py-2 align-top">
+                                                        <button
+                                                            onClick={() => setEditing({ eventId: event.id, field: 'reminders' })}
+                                                            className={`flex items-center space-x-2 text-left bg-input border text-sm rounded-md w-full p-2.5 transition-colors hover:bg-accent
+                                                                ${event.errors.reminders ? 'border-destructive/50' : 'border-border'}
+                                                                ${event.reminders ? 'text-foreground' : 'text-muted-foreground'}`}
+                                                            title={event.errors.reminders || 'Modifica promemoria'}
+                                                        >
+                                                            <BellIcon className="h-4 w-4 flex-shrink-0" />
+                                                            <span className="truncate">{describeReminders(event, defaultReminder)}</span>
+                                                        </button>
+                                                        {event.errors.reminders && <p className="text-destructive text-xs mt-1 px-1">{event.errors.reminders}</p>}
+                                                    </td>
+                                                );
+                                            }
                                             const error = event.errors[key as keyof ValidationErrors];
                                             const isInvalid = !!error;
                                             const isCorrecting = correctingField?.eventId === event.id && correctingField?.field === key;
+                                            // Gli eventi di un'intera giornata non hanno orari né fuso orario
+                                            const isTimeOfAllDay = event.allDay && (key === 'startTime' || key === 'endTime' || key === 'timeZone');
                                             return (
                                                 <td key={key} className="px-2 py-2 align-top">
                                                     <div className="relative">
@@ -288,13 +519,16 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
                                                             type="text"
                                                             value={event[key] || ''}
                                                             onChange={(e) => handleFieldChange(event.id, key, e.target.value)}
-                                                            className={`bg-input border text-foreground text-sm rounded-md block w-full p-2.5 transition-colors duration-200
+                                                            disabled={isTimeOfAllDay}
+                                                            placeholder={isTimeOfAllDay ? 'Tutto il giorno' : key === 'timeZone' ? defaultTimeZone : undefined}
+                                                            list={key === 'timeZone' ? 'time-zone-options' : undefined}
+                                                            className={`bg-input border text-foreground text-sm rounded-md block w-full p-2.5 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed
                                                                 ${isInvalid 
                                                                     ? 'border-destructive/50 focus:ring-destructive focus:border-destructive pr-8' 
                                                                     : 'border-border focus:ring-ring focus:border-primary'}`
                                                             }
                                                             aria-label={label}
-                                                            title={error}
+                                                            title={error || (event.allDay && key === 'endDate' ? 'Data di fine esclusa: giorno successivo all\'ultimo giorno dell\'evento' : undefined)}
                                                         />
                                                         {isInvalid && (
                                                             <div className="absolute inset-y-0 right-0 flex items-center pr-2">
@@ -328,7 +562,27 @@ export const EventPreviewTable: React.FC<EventPreviewTableProps> = ({ events, se
                         )}
                     </tbody>
                 </table>
+                <datalist id="time-zone-options">
+                    {timeZoneOptions.map(zone => <option key={zone} value={zone} />)}
+                </datalist>
             </div>
+            {editingEvent && editing?.field === 'recurrence' && (
+                <RecurrenceEditor
+                    eventSubject={editingEvent.subject}
+                    recurrence={editingEvent.recurrence}
+                    onSave={(recurrence) => handleRecurrenceChange(editingEvent.id, recurrence)}
+                    onClose={() => setEditing(null)}
+                />
+            )}
+            {editingEvent && editing?.field === 'reminders' && (
+                <RemindersEditor
+                    eventSubject={editingEvent.subject}
+                    reminders={editingEvent.reminders}
+                    defaultReminder={defaultReminder}
+                    onSave={(reminders) => handleRemindersChange(editingEvent.id, reminders)}
+                    onClose={() => setEditing(null)}
+                />
+            )}
         </>
     );
 };
\ No newline at end of file
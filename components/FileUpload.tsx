@@ -101,7 +101,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, di
 
   // Aggiornati i formati accettati per riflettere i tipi supportati in `geminiService.ts`
   // I file DOC/DOCX/PPT/PPTX non sono supportati direttamente come input binario né come testo affidabile da `File.text()`
-  const acceptedFormats = ".txt, .csv, .xls, .xlsx, .pdf, .png, .jpg, .jpeg, .webp";
+  // I file .ics vengono letti localmente da `parseIcsContent` in `lib/ics.ts`
+  const acceptedFormats = ".txt, .csv, .xls, .xlsx, .ics, .pdf, .png, .jpg, .jpeg, .webp";
 
   // Nuova vista per lo stato di caricamento
   if (isProcessing) {
@@ -184,7 +185,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, di
         <p className="font-semibold text-foreground/90">
           <span className="text-primary">Clicca per caricare</span> o trascina e rilascia
         </p>
-        <p className="text-xs text-muted-foreground">Supporta: TXT, CSV, XLS, XLSX, PDF, Immagini...</p>
+        <p className="text-xs text-muted-foreground">Supporta: TXT, CSV, XLS, XLSX, ICS, PDF, Immagini...</p>
       </div>
     </div>
   );
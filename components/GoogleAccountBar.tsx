@@ -0,0 +1,39 @@
+import React from 'react';
+import { useGoogleSession } from '../contexts/GoogleSessionContext';
+import { RefreshCwIcon, LogOutIcon } from './Icons';
+
+// Account Google collegato, con i comandi per cambiarlo o scollegarlo (condivisi da tutte le sezioni)
+export const GoogleAccountBar: React.FC<{ className?: string }> = ({ className = 'justify-center' }) => {
+    const { user, error, switchAccount, signOut, clearError } = useGoogleSession();
+
+    return (
+        <div className={`flex flex-wrap items-center gap-3 ${className}`}>
+            {/* Es. un cambio account non riuscito: si resta collegati con l'account attuale */}
+            {error && (
+                <p className="w-full text-sm text-destructive text-center">
+                    {error.title}: {error.message}
+                    <button onClick={clearError} className="ml-2 underline hover:text-destructive/80">Chiudi</button>
+                </p>
+            )}
+            <p className="text-muted-foreground">Accesso effettuato come <span className="font-semibold text-foreground">{user?.email}</span></p>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={switchAccount}
+                    className="flex items-center space-x-2 text-sm bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-2 px-3 rounded-md transition-colors"
+                    title="Cambia account Google"
+                >
+                    <RefreshCwIcon className="h-4 w-4" />
+                    <span className="hidden sm:inline">Cambia Account</span>
+                </button>
+                <button
+                    onClick={signOut}
+                    className="flex items-center space-x-2 text-sm bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-2 px-3 rounded-md transition-colors"
+                    title="Scollega l'account Google"
+                >
+                    <LogOutIcon className="h-4 w-4" />
+                    <span className="hidden sm:inline">Esci</span>
+                </button>
+            </div>
+        </div>
+    );
+};
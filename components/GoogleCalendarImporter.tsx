@@ -1,197 +1,116 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect } from 'react';
 import type { ValidatedEvent } from '../lib/types';
 import { generateCsvContent } from '../lib/csv';
 // FIX: Corrected import syntax from `=>` to `from`.
 import { generateIcsContent } from '../lib/ics';
 import * as gcal from '../services/googleCalendarService';
-import { DownloadIcon, CheckCircleIcon, GoogleIcon, CalendarPlusIcon, CalendarDaysIcon, JsonIcon, RefreshCwIcon, ChevronDownIcon } from './Icons';
+import { DownloadIcon, CheckCircleIcon, GoogleIcon, CalendarPlusIcon, CalendarDaysIcon, JsonIcon, ChevronDownIcon } from './Icons';
 import { Loader } from './Loader';
 import { toDDMMYYYY } from '../lib/dateUtils'; // Importa la funzione di formattazione della data
+import { describeRecurrence } from '../lib/recurrence';
+import { checkDuplicate, getEventsSpan, duplicateStatusLabels, defaultDuplicateAction } from '../lib/duplicates';
+import type { DuplicateCheck, DuplicateAction, DuplicateStatus } from '../lib/duplicates';
+import { createImportTag, checkAgainstBatch, matchBatchEvents, belongsToBatch } from '../lib/importHistory';
+import type { ImportBatch } from '../lib/importHistory';
+import { useSettings } from '../contexts/SettingsContext';
+import { useGoogleSession } from '../contexts/GoogleSessionContext';
+import { GoogleAccountBar } from './GoogleAccountBar';
 
 interface GoogleCalendarImporterProps {
     events: ValidatedEvent[];
     onReset: () => void;
+    // Nome del file (o dei file) da cui provengono gli eventi, salvato negli eventi importati
+    sourceFile: string;
+    // Importazione precedente da risincronizzare, scelta dalla cronologia delle importazioni
+    resyncBatch?: ImportBatch | null;
 }
 
-declare var window: any;
-
 type View = 'choice' | 'csv' | 'gcal' | 'ics';
-type GCalState = 'initial' | 'authenticating' | 'authenticated' | 'importing' | 'complete' | 'error';
-
-interface Calendar {
-    id: string;
-    summary: string;
-    primary?: boolean;
-    timeZone?: string;
-}
-
-interface GCalError {
-    title: string;
-    message: string;
-}
+// Fasi dell'importazione una volta effettuato l'accesso (l'autenticazione è gestita da GoogleSessionContext)
+type GCalState = 'ready' | 'checking' | 'importing' | 'complete';
 
 interface ImportResult {
     successCount: number;
+    updatedCount: number;
+    skippedCount: number;
     failures: { event: ValidatedEvent; error: string }[];
 }
 
-
-export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({ events, onReset }) => {
+const duplicateStatusClasses: Record<DuplicateStatus, string> = {
+    new: 'bg-green-500/20 text-green-400',
+    exact: 'bg-destructive/20 text-destructive',
+    probable: 'bg-yellow-500/20 text-yellow-400',
+    conflict: 'bg-orange-500/20 text-orange-400',
+    unchanged: 'bg-muted text-muted-foreground',
+    changed: 'bg-blue-500/20 text-blue-400',
+};
+
+// Descrive brevemente un evento già presente nel calendario (titolo e inizio)
+const describeExistingEvent = (event: gcal.GCalEvent): string => {
+    const start = event.start.dateTime
+        ? new Date(event.start.dateTime).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })
+        : toDDMMYYYY(event.start.date || '');
+    return `"${event.summary || '(senza titolo)'}" del ${start}`;
+};
+
+export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({ events, onReset, sourceFile, resyncBatch }) => {
+    const { defaultTimeZone, defaultReminder } = useSettings();
     const [view, setView] = useState<View>('choice');
-    const [gcalState, setGCalState] = useState<GCalState>('initial');
-    const [gcalError, setGCalError] = useState<GCalError | null>(null);
+    const [sendUpdates, setSendUpdates] = useState<gcal.SendUpdates>('none');
+    const hasAttendees = events.some(e => e.attendees && e.attendees.length > 0);
+    const { status: sessionStatus, error: sessionError, calendars, signIn, trySilentSignIn } = useGoogleSession();
+    const [gcalState, setGCalState] = useState<GCalState>('ready');
     
-    const [calendars, setCalendars] = useState<Calendar[]>([]);
     // `selectedCalendarId` non viene più utilizzato per un default globale, ma ancora per inizializzare `selectedCalendarForBulkAssign`.
     // Rimosso `selectedCalendarId` in quanto non più usato.
     const [eventCalendarMappings, setEventCalendarMappings] = useState<Record<number, string>>({}); // Mapping for individual events
     const [importProgress, setImportProgress] = useState(0);
-    const [user, setUser] = useState<{ email: string } | null>(null);
     const [importResult, setImportResult] = useState<ImportResult | null>(null);
 
     // Nuovi stati per la selezione multipla e l'assegnazione in blocco
     const [selectedEventsForBulkAssignment, setSelectedEventsForBulkAssignment] = useState<Set<number>>(new Set());
     const [selectedCalendarForBulkAssign, setSelectedCalendarForBulkAssign] = useState('');
 
+    // Esito del controllo dei duplicati per evento (null finché il controllo non è stato eseguito)
+    const [duplicateChecks, setDuplicateChecks] = useState<Record<number, DuplicateCheck> | null>(null);
+    const [duplicateActions, setDuplicateActions] = useState<Record<number, DuplicateAction>>({});
+    const [duplicateCheckError, setDuplicateCheckError] = useState<string | null>(null);
 
-    const handleGapiLoad = useCallback(async () => {
-        try {
-            await gcal.initGapiClient();
-        } catch (error: any) {
-            console.error("GAPI Init Error:", error);
-            setGCalState('error');
-            setGCalError({
-                title: 'Errore di Inizializzazione',
-                message: `Impossibile caricare i componenti principali di Google. Controlla la tua connessione e riprova. Dettagli: ${error.message}`
-            });
-        }
-    }, []);
+    // Importazioni precedenti dello stesso file, che l'utente può scegliere di risincronizzare
+    const [previousBatches, setPreviousBatches] = useState<ImportBatch[]>(resyncBatch ? [resyncBatch] : []);
+    const [selectedBatchId, setSelectedBatchId] = useState<string>(resyncBatch?.batchId || '');
+    const selectedBatch = previousBatches.find(batch => batch.batchId === selectedBatchId) || null;
 
-    useEffect(() => {
-        const script = document.createElement('script');
-        script.src = 'https://apis.google.com/js/api.js';
-        script.onload = () => window.gapi.load('client', handleGapiLoad);
-        script.async = true;
-        script.defer = true;
-        document.body.appendChild(script);
-
-        return () => {
-            if (document.body.contains(script)) {
-                 document.body.removeChild(script);
-            }
-        };
-    }, [handleGapiLoad]);
-    
-    const fetchCalendars = useCallback(async () => {
-        try {
-            const calendarList = await gcal.listCalendars();
-            setCalendars(calendarList);
-            const primaryCalendar = calendarList.find((c: Calendar) => c.primary) || calendarList[0];
-            if (primaryCalendar) {
-                // `selectedCalendarId` non è più usato, impostiamo direttamente `selectedCalendarForBulkAssign`
-                setSelectedCalendarForBulkAssign(primaryCalendar.id); 
-                setEventCalendarMappings({}); 
-            }
-        } catch (error: any) {
-            console.error('Error fetching calendars:', error);
-            setGCalState('error');
-            setGCalError({
-                title: 'Impossibile Caricare i Calendari',
-                message: `Non è stato possibile recuperare i tuoi calendari da Google. ${error.message}. Prova ad accedere di nuovo.`
-            });
-        }
-    }, []); 
-
-    const handleTokenResponse = useCallback(async (tokenResponse: any, isSilent: boolean) => {
-        setGCalError(null); 
-
-        if (tokenResponse.error) {
-            let title = "Errore di Autenticazione";
-            let message = "Si è verificato un errore sconosciuto durante l'autenticazione.";
-            
-            switch (tokenResponse.error) {
-                case 'popup_closed_by_user':
-                    title = "Autenticazione Annullata";
-                    message = "La finestra di accesso di Google è stata chiusa prima del completamento.";
-                    break;
-                case 'access_denied':
-                    title = "Permessi Negati";
-                    message = "L'applicazione richiede i permessi per accedere al tuo calendario. Se vedi un errore 'Accesso bloccato', potrebbe essere dovuto alla configurazione dell'app Google (es. l'app è in 'modalità test' e il tuo account non è un utente di test).";
-                    break;
-                default:
-                    message = tokenResponse.error_description || message;
-                    break;
-            }
-            
-            if (isSilent) {
-                setGCalState('initial');
-            } else {
-                setGCalError({ title, message });
-                setGCalState(tokenResponse.error === 'popup_closed_by_user' ? 'initial' : 'error');
-            }
-            return;
-        }
-
-        if (tokenResponse.access_token) {
-            window.gapi.client.setToken(tokenResponse);
-            
-            try {
-                const userInfoResponse = await gcal.getUserProfile();
-                if (userInfoResponse?.result?.email) {
-                    setUser(userInfoResponse.result);
-                    await fetchCalendars();
-                    setGCalState('authenticated');
-                } else {
-                    throw new Error("Profilo utente non trovato.");
-                }
-            } catch (error: any) {
-                 setGCalError({
-                    title: 'Errore nel Caricamento Dati',
-                    message: `Autenticazione riuscita, ma impossibile caricare i dati del tuo profilo. Dettagli: ${error.message}`
-                });
-                setGCalState('error');
-            }
-        } else {
-             if (isSilent) {
-                setGCalState('initial');
-             } else {
-                setGCalError({
-                    title: 'Autenticazione Fallita',
-                    message: "Nessun token di accesso ricevuto da Google. Riprova."
-                });
-                setGCalState('error');
-             }
-        }
-    }, [fetchCalendars]);
-
-    const handleAuth = async (promptType: 'consent' | 'select_account' | '' = 'consent') => {
-        setGCalState('authenticating');
-        setGCalError(null);
-        try {
-            await gcal.handleAuthClick((token) => handleTokenResponse(token, false), promptType);
-        } catch (error: any) {
-            console.error('Auth Click Setup Error:', error);
-            setGCalError({ title: 'Errore di Configurazione', message: error.message });
-            setGCalState('error');
-        }
-    };
 
+    // Entrando nell'importazione su Google si prova subito l'accesso silenzioso
     useEffect(() => {
-        if (view !== 'gcal' || gcalState !== 'initial') return;
+        if (view === 'gcal') trySilentSignIn();
+    }, [view, trySilentSignIn]);
 
-        setGCalState('authenticating');
-        
-        const trySilentLogin = async () => {
-            try {
-                await gcal.handleSilentAuth((token) => handleTokenResponse(token, true));
-            } catch (error: any) {
-                console.error("Silent Auth Setup Error:", error);
-                 setGCalError({ title: 'Errore di Configurazione', message: error.message });
-                 setGCalState('error');
-            }
-        };
-        setTimeout(trySilentLogin, 100);
-    }, [view, gcalState, handleTokenResponse]);
+    // A ogni accesso (o cambio di account) si riparte dal calendario principale
+    // e si cercano le importazioni precedenti dello stesso file nei calendari modificabili
+    useEffect(() => {
+        if (view !== 'gcal' || calendars.length === 0) return;
+        const primaryCalendar = calendars.find(c => c.primary) || calendars[0];
+        setSelectedCalendarForBulkAssign(primaryCalendar.id);
+        setEventCalendarMappings(resyncBatch ? Object.fromEntries(events.map(event => [event.id, resyncBatch.calendarIds[0]])) : {});
+        setPreviousBatches(resyncBatch ? [resyncBatch] : []);
+        setSelectedBatchId(resyncBatch?.batchId || '');
+        setDuplicateChecks(null);
+        setDuplicateActions({});
+        if (!sourceFile) return;
+
+        let cancelled = false;
+        const writableIds = calendars.filter(c => c.accessRole === 'owner' || c.accessRole === 'writer').map(c => c.id);
+        gcal.listImportBatches(writableIds, { sourceFile })
+            .then(batches => {
+                if (cancelled) return;
+                setPreviousBatches(prev => [...prev, ...batches.filter(batch => !prev.some(p => p.batchId === batch.batchId))]);
+            })
+            // La cronologia è facoltativa: se non è disponibile si procede con una nuova importazione
+            .catch(error => console.error('Error fetching previous imports:', error));
+        return () => { cancelled = true; };
+    }, [view, calendars, events, sourceFile, resyncBatch]);
 
     const handleDownloadCsv = () => {
         const csvContent = generateCsvContent(events);
@@ -209,7 +128,7 @@ export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({
     };
 
     const handleDownloadIcs = () => {
-        const icsContent = generateIcsContent(events);
+        const icsContent = generateIcsContent(events, { defaultTimeZone, defaultReminder });
         const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8;' });
         const link = document.createElement('a');
         const url = URL.createObjectURL(blob);
@@ -242,6 +161,8 @@ export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({
 
     const handleEventCalendarChange = (eventId: number, calendarId: string) => {
         setEventCalendarMappings(prev => ({ ...prev, [eventId]: calendarId }));
+        // Cambiando calendario il controllo dei duplicati non è più valido
+        setDuplicateChecks(null);
     };
 
     const handleToggleEventForBulkAssignment = (eventId: number) => {
@@ -275,70 +196,199 @@ export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({
             return newMappings;
         });
         setSelectedEventsForBulkAssignment(new Set()); 
+        setDuplicateChecks(null);
     };
-    
-    const handleImport = async () => {
+
+    // Scegliendo un'importazione da risincronizzare, gli eventi vanno negli stessi calendari di allora
+    const handleSelectBatch = (batchId: string) => {
+        setSelectedBatchId(batchId);
+        const batch = previousBatches.find(b => b.batchId === batchId);
+        if (batch) {
+            setEventCalendarMappings(Object.fromEntries(events.map(event => [event.id, batch.calendarIds[0]])));
+        }
+        setDuplicateChecks(null);
+    };
+
+    // Usa la mappatura specifica per l'evento, o il primo calendario se non è impostato
+    const getTargetCalendarId = (event: ValidatedEvent): string | undefined => eventCalendarMappings[event.id] || calendars[0]?.id;
+
+    // Recupera gli eventi esistenti nell'intervallo coperto dall'importazione, per ogni calendario di destinazione,
+    // e confronta con essi ogni evento da importare
+    const runDuplicateCheck = async (): Promise<Record<number, DuplicateCheck> | null> => {
+        setGCalState('checking');
+        setDuplicateCheckError(null);
+
+        const eventsByCalendar = new Map<string, ValidatedEvent[]>();
+        events.forEach(event => {
+            const calendarId = getTargetCalendarId(event);
+            if (!calendarId) return;
+            eventsByCalendar.set(calendarId, [...(eventsByCalendar.get(calendarId) || []), event]);
+        });
+
+        const checks: Record<number, DuplicateCheck> = {};
+        const batchMatches = selectedBatch ? matchBatchEvents(events, selectedBatch) : null;
+        try {
+            for (const [calendarId, calendarEvents] of eventsByCalendar) {
+                const span = getEventsSpan(calendarEvents, defaultTimeZone);
+                if (!span) continue;
+                const existing = await gcal.listEvents(calendarId, span.timeMin, span.timeMax);
+                calendarEvents.forEach(event => {
+                    // In una risincronizzazione si confronta prima con la copia importata in precedenza
+                    checks[event.id] = checkAgainstBatch(event, batchMatches?.get(event.id))
+                        || checkDuplicate(event, existing || [], defaultTimeZone);
+                });
+            }
+        } catch (error: any) {
+            console.error('Error checking duplicates:', error);
+            setDuplicateCheckError(`Impossibile verificare i duplicati: ${error.message}`);
+            setGCalState('ready');
+            return null;
+        }
+
+        const actions: Record<number, DuplicateAction> = {};
+        Object.entries(checks).forEach(([eventId, check]) => {
+            actions[Number(eventId)] = defaultDuplicateAction[check.status];
+        });
+        setDuplicateChecks(checks);
+        setDuplicateActions(actions);
+        setGCalState('ready');
+        return checks;
+    };
+
+    const handleDuplicateActionChange = (eventId: number, action: DuplicateAction) => {
+        setDuplicateActions(prev => ({ ...prev, [eventId]: action }));
+    };
+
+    const importEvents = async (checks: Record<number, DuplicateCheck>, actions: Record<number, DuplicateAction>) => {
         setGCalState('importing');
         setImportResult(null);
         
         let successCount = 0;
+        let updatedCount = 0;
+        let skippedCount = 0;
         const failures: { event: ValidatedEvent; error: string }[] = [];
-
-        for (let i = 0; i < events.length; i++) {
-            const event = events[i];
-            // Usa la mappatura specifica per l'evento, o il primo calendario se non è impostato
-            const targetCalendarId = eventCalendarMappings[event.id] || calendars[0]?.id;
-            const targetCalendar = calendars.find(c => c.id === targetCalendarId);
-            const targetTimeZone = targetCalendar?.timeZone;
-            
+        // Una risincronizzazione mantiene il tag dell'importazione originale, così da poterla annullare per intero
+        const importTag = selectedBatch
+            ? { batchId: selectedBatch.batchId, sourceFile: selectedBatch.sourceFile, importedAt: selectedBatch.importedAt }
+            : createImportTag(sourceFile);
+        const options = { timeZone: defaultTimeZone, defaultReminder, sendUpdates, importTag };
+
+        // Eventi saltati o senza calendario non generano richieste: gli altri vengono inviati in blocco
+        const pending: { event: ValidatedEvent; isUpdate: boolean }[] = [];
+        const operations: gcal.BatchOperation[] = [];
+        events.forEach(event => {
+            const targetCalendarId = getTargetCalendarId(event);
             if (!targetCalendarId) {
                 failures.push({ event, error: "Nessun calendario selezionato per questo evento." });
-                continue;
+                return;
             }
 
-            try {
-                const result = await gcal.insertEvent(targetCalendarId, event, targetTimeZone);
-                 if (result) {
-                    successCount++;
-                } else {
-                    throw new Error("L'API di Google non ha restituito un evento creato.");
-                }
-            } catch (error: any) {
-                console.error(`Failed to import event: ${event.subject}`, error);
-                const errorMessage = (error as any).result?.error?.message || (error as any).message || 'Errore sconosciuto';
-                failures.push({ event, error: errorMessage });
+            const action = actions[event.id] || 'force';
+            const { match, calendarId: matchCalendarId } = checks[event.id] || {};
+
+            if (action === 'skip') {
+                skippedCount++;
+            } else if (action === 'update' && match) {
+                // Un evento ricorrente aggiorna l'intera serie, non la singola occorrenza trovata
+                const targetEventId = event.recurrence && match.recurringEventId ? match.recurringEventId : match.id;
+                // Il tag va solo agli eventi di questa importazione: un evento preesistente aggiornato non ne fa parte
+                const updateOptions = belongsToBatch(match, importTag) ? options : { ...options, importTag: undefined };
+                const isOccurrence = targetEventId === match.id && !!match.recurringEventId;
+                operations.push(gcal.updateOperation(matchCalendarId || targetCalendarId, targetEventId, event, updateOptions, isOccurrence));
+                pending.push({ event, isUpdate: true });
+            } else {
+                operations.push(gcal.insertOperation(targetCalendarId, event, options));
+                pending.push({ event, isUpdate: false });
             }
-            setImportProgress(((i + 1) / events.length) * 100);
-        }
+        });
+
+        const alreadyHandled = events.length - operations.length;
+        const results = await gcal.executeBatch(operations, {
+            onProgress: (completed) => setImportProgress(((alreadyHandled + completed) / events.length) * 100),
+        });
+        results.forEach((result, index) => {
+            const { event, isUpdate } = pending[index];
+            if (!result.ok) {
+                console.error(`Failed to import event: ${event.subject}`, result.error);
+                failures.push({ event, error: result.error || 'Errore sconosciuto' });
+            } else if (isUpdate) {
+                updatedCount++;
+            } else {
+                successCount++;
+            }
+        });
+        setImportProgress(100);
 
-        setImportResult({ successCount, failures });
+        setImportResult({ successCount, updatedCount, skippedCount, failures });
         setGCalState('complete');
     };
+
+    const handleImport = async () => {
+        if (duplicateChecks) {
+            await importEvents(duplicateChecks, duplicateActions);
+            return;
+        }
+        // Prima importazione: si cercano i duplicati e, se ce ne sono, ci si ferma per far scegliere l'utente
+        const checks = await runDuplicateCheck();
+        if (!checks) return;
+        if (Object.values(checks).every(check => check.status === 'new')) {
+            await importEvents(checks, {});
+        }
+    };
     
     const resetGCalState = (goToChoice = false) => {
-        setGCalState('initial');
-        setGCalError(null);
+        setGCalState('ready');
         setImportResult(null);
         setImportProgress(0);
-        setUser(null);
-        setCalendars([]);
         // `selectedCalendarId` non è più usato
         setEventCalendarMappings({}); 
-        setSelectedEventsForBulkAssignment(new Set()); 
+        setSelectedEventsForBulkAssignment(new Set());
+        setDuplicateChecks(null);
+        setDuplicateActions({});
+        setDuplicateCheckError(null);
+        setPreviousBatches(resyncBatch ? [resyncBatch] : []);
+        setSelectedBatchId(resyncBatch?.batchId || ''); 
         setSelectedCalendarForBulkAssign(''); 
         if (goToChoice) {
             setView('choice');
         }
     }
 
-    const handleSwitchAccount = async () => {
-        resetGCalState(); 
-        await handleAuth('select_account');
-    };
-
     // Il pulsante di importazione è disabilitato se non ci sono eventi o se non ci sono calendari disponibili.
     const isImportButtonDisabled = events.length === 0 || calendars.length === 0;
 
+    const duplicateSummary: Record<DuplicateStatus, number> = { new: 0, exact: 0, probable: 0, conflict: 0, unchanged: 0, changed: 0 };
+    if (duplicateChecks) {
+        Object.values(duplicateChecks).forEach(check => duplicateSummary[check.status]++);
+    }
+    const eventsToWriteCount = events.filter(event => (duplicateActions[event.id] || 'force') !== 'skip').length;
+
+    // Stato del controllo dei duplicati per un evento, con la scelta dell'azione da eseguire
+    const DuplicateStatusRow: React.FC<{ eventId: number; check: DuplicateCheck; action: DuplicateAction }> = ({ eventId, check, action }) => (
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${duplicateStatusClasses[check.status]}`}>
+                {duplicateStatusLabels[check.status]}
+            </span>
+            {check.match && (
+                <a href={check.match.htmlLink} target="_blank" rel="noopener noreferrer" className="text-xs text-muted-foreground hover:text-primary underline truncate max-w-[16rem]">
+                    {check.status === 'conflict' ? 'Si sovrappone a ' : 'Esistente: '}{describeExistingEvent(check.match)}
+                </a>
+            )}
+            {check.status !== 'new' && (
+                <select
+                    value={action}
+                    onChange={(e) => handleDuplicateActionChange(eventId, e.target.value as DuplicateAction)}
+                    className="bg-input border border-border text-foreground text-xs rounded-md focus:ring-ring focus:border-primary p-1.5"
+                    aria-label="Azione per l'evento duplicato"
+                >
+                    <option value="skip">Salta</option>
+                    {check.status !== 'conflict' && <option value="update">{check.status === 'unchanged' || check.status === 'changed' ? 'Aggiorna' : 'Aggiorna esistente'}</option>}
+                    <option value="force">Importa comunque</option>
+                </select>
+            )}
+        </div>
+    );
+
     const CsvView = () => (
         <div className="animate-fade-in text-center">
             <CheckCircleIcon className="h-16 w-16 text-green-400 mx-auto mb-4" />
@@ -388,46 +438,97 @@ export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({
     );
 
     const GCalView = () => {
-        switch (gcalState) {
-            case 'initial':
-            case 'authenticating':
-                return (
-                    <div className="text-center">
-                        <Loader />
-                        <p className="text-muted-foreground mt-4 animate-pulse">In attesa dell'autenticazione Google...</p>
-                        {gcalState === 'initial' && 
-                            <p className="text-sm text-muted-foreground mt-2">Se la finestra di accesso non si apre, clicca qui sotto.</p>
-                        }
-                         <div className="mt-6 flex justify-center space-x-4">
-                            <button
-                                onClick={() => handleAuth()} 
-                                className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-full transition-colors"
-                            >
-                                Apri Finestra di Accesso Google
-                            </button>
-                             <button
-                                onClick={() => resetGCalState(true)}
-                                className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-2 px-6 rounded-full transition-colors"
-                            >
-                                Annulla
-                            </button>
-                        </div>
+        if (sessionStatus === 'initial' || sessionStatus === 'authenticating') {
+            return (
+                <div className="text-center">
+                    <Loader />
+                    <p className="text-muted-foreground mt-4 animate-pulse">In attesa dell'autenticazione Google...</p>
+                    {sessionStatus === 'initial' && 
+                        <p className="text-sm text-muted-foreground mt-2">Se la finestra di accesso non si apre, clicca qui sotto.</p>
+                    }
+                    {sessionError && <p className="text-sm text-destructive mt-2">{sessionError.title}: {sessionError.message}</p>}
+                     <div className="mt-6 flex justify-center space-x-4">
+                        <button
+                            onClick={signIn} 
+                            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-full transition-colors"
+                        >
+                            Apri Finestra di Accesso Google
+                        </button>
+                         <button
+                            onClick={() => resetGCalState(true)}
+                            className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-2 px-6 rounded-full transition-colors"
+                        >
+                            Annulla
+                        </button>
                     </div>
-                );
-            case 'authenticated':
+                </div>
+            );
+        }
+
+        if (sessionStatus === 'loading') {
+            return (
+                <div className="text-center">
+                    <Loader />
+                    <p className="text-muted-foreground mt-4 animate-pulse">Caricamento dei tuoi calendari...</p>
+                </div>
+            );
+        }
+
+        if (sessionStatus === 'error') {
+            return (
+                <div className="animate-fade-in text-center max-w-lg mx-auto">
+                    <div className="bg-destructive/10 border border-destructive/30 text-destructive-foreground/80 px-4 py-3 rounded-lg">
+                        <h3 className="font-bold text-lg">{sessionError?.title || 'Errore Sconosciuto'}</h3>
+                        <p className="text-sm mt-2">{sessionError?.message || 'Si è verificato un errore imprevisto.'}</p>
+                    </div>
+                     <div className="mt-8 flex justify-center space-x-4">
+                        <button
+                            onClick={signIn} 
+                            className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-6 rounded-full transition-colors"
+                        >
+                            Riprova Accesso
+                        </button>
+                         <button
+                            onClick={() => resetGCalState(true)}
+                            className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-2 px-6 rounded-full transition-colors"
+                        >
+                            Torna Indietro
+                        </button>
+                    </div>
+                </div>
+            );
+        }
+
+        switch (gcalState) {
+            case 'ready':
                 return (
                     <div className="max-w-2xl mx-auto animate-fade-in">
-                        <div className="flex justify-between items-center mb-4">
-                            <p className="text-muted-foreground">Accesso effettuato come <span className="font-semibold text-foreground">{user?.email}</span></p>
-                            <button
-                                onClick={handleSwitchAccount}
-                                className="flex items-center space-x-2 text-sm bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-2 px-3 rounded-md transition-colors"
-                                title="Cambia account Google"
-                            >
-                                <RefreshCwIcon className="h-4 w-4" />
-                                <span className="hidden sm:inline">Cambia Account Google</span>
-                            </button>
-                        </div>
+                        <GoogleAccountBar className="justify-between mb-4" />
+
+                        {/* Risincronizzazione di un'importazione precedente */}
+                        {previousBatches.length > 0 && (
+                            <div className="bg-secondary/30 border border-border p-4 rounded-lg mb-6">
+                                <label htmlFor="resync-batch-select" className="block mb-1 text-sm font-medium text-foreground">
+                                    Questo file è già stato importato
+                                </label>
+                                <p className="text-xs text-muted-foreground mb-2">
+                                    Risincronizzando, gli eventi modificati vengono aggiornati, quelli invariati saltati e quelli nuovi aggiunti alla stessa importazione.
+                                </p>
+                                <select
+                                    id="resync-batch-select"
+                                    value={selectedBatchId}
+                                    onChange={(e) => handleSelectBatch(e.target.value)}
+                                    className="bg-input border border-border text-foreground text-sm rounded-lg focus:ring-ring focus:border-primary block w-full p-2.5"
+                                >
+                                    <option value="">Nuova importazione</option>
+                                    {previousBatches.map(batch => (
+                                        <option key={batch.batchId} value={batch.batchId}>
+                                            Risincronizza l'importazione del {new Date(batch.importedAt).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })} ({batch.events.length} eventi)
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
 
                         {/* Event Specific Calendar Mapping */}
                         {events.length > 0 && calendars.length > 0 && (
@@ -495,10 +596,23 @@ export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({
                                             <div className="flex flex-col text-left">
                                                 <span className="font-semibold text-foreground">{event.subject}</span>
                                                 <span className="text-xs text-muted-foreground">
-                                                    {toDDMMYYYY(event.startDate)} {event.startTime} - {toDDMMYYYY(event.endDate)} {event.endTime}
+                                                    {event.allDay
+                                                        ? `${toDDMMYYYY(event.startDate)} - ${toDDMMYYYY(event.endDate)} (tutto il giorno, fine esclusa)`
+                                                        : `${toDDMMYYYY(event.startDate)} ${event.startTime} - ${toDDMMYYYY(event.endDate)} ${event.endTime} (${event.timeZone || defaultTimeZone})`}
                                                 </span>
+                                                {event.recurrence && <span className="text-xs text-muted-foreground">Ripetizione: {describeRecurrence(event.recurrence)}</span>}
                                                 {event.location && <span className="text-xs text-muted-foreground">Luogo: {event.location}</span>}
+                                                {event.attendees && event.attendees.length > 0 && (
+                                                    <span className="text-xs text-muted-foreground">Partecipanti: {event.attendees.map(p => p.name || p.email).join(', ')}</span>
+                                                )}
                                                 {event.description && <span className="text-xs text-muted-foreground line-clamp-2" title={event.description}>Descrizione: {event.description}</span>}
+                                                {duplicateChecks?.[event.id] && (
+                                                    <DuplicateStatusRow
+                                                        eventId={event.id}
+                                                        check={duplicateChecks[event.id]}
+                                                        action={duplicateActions[event.id] || 'force'}
+                                                    />
+                                                )}
                                             </div>
                                             
                                             {/* Selettore Calendario Individuale */}
@@ -526,15 +640,48 @@ export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({
                             </div>
                         )}
 
+                        {/* Inviti ai partecipanti */}
+                        {hasAttendees && (
+                            <div className="mt-6 flex flex-col sm:flex-row items-center justify-center gap-2">
+                                <label htmlFor="send-updates-select" className="text-sm font-medium text-muted-foreground">Invia inviti ai partecipanti:</label>
+                                <select
+                                    id="send-updates-select"
+                                    value={sendUpdates}
+                                    onChange={(e) => setSendUpdates(e.target.value as gcal.SendUpdates)}
+                                    className="bg-input border border-border text-foreground text-sm rounded-lg focus:ring-ring focus:border-primary block p-2.5"
+                                >
+                                    <option value="none">No, non inviare email</option>
+                                    <option value="all">Sì, a tutti i partecipanti</option>
+                                    <option value="externalOnly">Solo ai partecipanti esterni (non Google Calendar)</option>
+                                </select>
+                            </div>
+                        )}
+
+                        {/* Riepilogo del controllo dei duplicati */}
+                        {duplicateCheckError && (
+                            <div className="mt-6 bg-destructive/10 border border-destructive/30 text-destructive-foreground/80 px-4 py-3 rounded-lg text-sm">
+                                {duplicateCheckError}
+                            </div>
+                        )}
+                        {duplicateChecks && (
+                            <p className="mt-6 text-sm text-center text-muted-foreground">
+                                Trovati nel calendario: <span className="font-semibold text-foreground">{duplicateSummary.exact}</span> duplicati,{' '}
+                                <span className="font-semibold text-foreground">{duplicateSummary.probable}</span> probabili duplicati e{' '}
+                                <span className="font-semibold text-foreground">{duplicateSummary.conflict}</span> eventi con orario in conflitto.
+                                {selectedBatch && <> Rispetto all'importazione precedente: <span className="font-semibold text-foreground">{duplicateSummary.changed}</span> modificati e <span className="font-semibold text-foreground">{duplicateSummary.unchanged}</span> invariati.</>}
+                                {' '}Scegli per ciascuno se saltarlo, aggiornare l'evento esistente o importarlo comunque.
+                            </p>
+                        )}
+
                         {/* Import button */}
                         <div className="mt-8 flex justify-center space-x-4">
                             <button
                                 onClick={handleImport}
                                 className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-3 px-8 rounded-full shadow-lg shadow-primary/20 transform hover:scale-105 transition-all duration-300"
                                 disabled={isImportButtonDisabled}
-                                aria-label={`Importa ${events.length} eventi`}
+                                aria-label={`Importa ${eventsToWriteCount} eventi`}
                             >
-                                Importa {events.length} Eventi
+                                {duplicateChecks ? `Importa ${eventsToWriteCount} Eventi` : `Verifica Duplicati e Importa ${events.length} Eventi`}
                             </button>
                              <button
                                 onClick={() => resetGCalState(true)}
@@ -546,6 +693,13 @@ export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({
                         </div>
                     </div>
                 );
+            case 'checking':
+                return (
+                    <div className="text-center">
+                        <Loader />
+                        <p className="text-muted-foreground mt-4 animate-pulse">Ricerca di eventi già presenti nel calendario...</p>
+                    </div>
+                );
             case 'importing':
                  return (
                     <div className="text-center">
@@ -565,6 +719,11 @@ export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({
                         <p className="text-muted-foreground mt-2">
                             <span className="font-semibold text-green-400">{importResult?.successCount || 0}</span> eventi importati con successo.
                         </p>
+                        {importResult && (importResult.updatedCount > 0 || importResult.skippedCount > 0) && (
+                            <p className="text-sm text-muted-foreground mt-1">
+                                {importResult.updatedCount} eventi esistenti aggiornati, {importResult.skippedCount} duplicati saltati.
+                            </p>
+                        )}
                         {importResult && importResult.failures.length > 0 && (
                             <div className="mt-6 text-left bg-destructive/10 border border-destructive/30 rounded-lg p-4">
                                 <h4 className="font-semibold text-destructive-foreground/90 mb-2">
@@ -595,29 +754,6 @@ export const GoogleCalendarImporter: React.FC<GoogleCalendarImporterProps> = ({
                         </div>
                     </div>
                 );
-            case 'error':
-                 return (
-                    <div className="animate-fade-in text-center max-w-lg mx-auto">
-                        <div className="bg-destructive/10 border border-destructive/30 text-destructive-foreground/80 px-4 py-3 rounded-lg">
-                            <h3 className="font-bold text-lg">{gcalError?.title || 'Errore Sconosciuto'}</h3>
-                            <p className="text-sm mt-2">{gcalError?.message || 'Si è verificato un errore imprevisto.'}</p>
-                        </div>
-                         <div className="mt-8 flex justify-center space-x-4">
-                            <button
-                                onClick={() => handleAuth('consent')} 
-                                className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-6 rounded-full transition-colors"
-                            >
-                                Riprova Accesso
-                            </button>
-                             <button
-                                onClick={() => resetGCalState(true)}
-                                className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-2 px-6 rounded-full transition-colors"
-                            >
-                                Torna Indietro
-                            </button>
-                        </div>
-                    </div>
-                 );
         }
     };
 
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import * as gcal from '../services/googleCalendarService';
+import type { ImportBatch } from '../lib/importHistory';
+import { Loader } from './Loader';
+import { GoogleIcon, ArrowLeftIcon, RefreshCwIcon, Trash2Icon, XIcon, ClockIcon } from './Icons';
+import { useGoogleSession } from '../contexts/GoogleSessionContext';
+import type { GoogleCalendar } from '../contexts/GoogleSessionContext';
+import { GoogleAccountBar } from './GoogleAccountBar';
+
+interface GCalError { title: string; message: string; }
+interface ImportHistoryViewProps {
+    setPage: (page: 'dashboard' | 'import') => void;
+    onResync: (batch: ImportBatch) => void;
+}
+
+export const ImportHistoryView: React.FC<ImportHistoryViewProps> = ({ setPage, onResync }) => {
+    const { status, error: sessionError, calendars, signIn } = useGoogleSession();
+    const [error, setError] = useState<GCalError | null>(null);
+    const [batches, setBatches] = useState<ImportBatch[]>([]);
+    const [isLoadingBatches, setIsLoadingBatches] = useState(false);
+    const [rollback, setRollback] = useState<{ batchId: string; current: number; total: number } | null>(null);
+
+    // Solo nei calendari modificabili ForMa può aver inserito eventi
+    const loadBatches = useCallback(async (calendarList: GoogleCalendar[]) => {
+        setIsLoadingBatches(true);
+        setError(null);
+        try {
+            const writableIds = calendarList.filter(c => c.accessRole === 'owner' || c.accessRole === 'writer').map(c => c.id);
+            setBatches(await gcal.listImportBatches(writableIds));
+        } catch (err: any) {
+            setError({ title: gcal.getErrorTitle(err, 'Errore nel Caricamento della Cronologia'), message: err.message });
+        } finally {
+            setIsLoadingBatches(false);
+        }
+    }, []);
+
+    // La cronologia si ricarica a ogni accesso o cambio di account
+    useEffect(() => {
+        if (calendars.length > 0) {
+            loadBatches(calendars);
+        } else {
+            setBatches([]);
+        }
+    }, [calendars, loadBatches]);
+
+    const getCalendarName = (calendarId: string) => calendars.find(c => c.id === calendarId)?.summary || calendarId;
+
+    // Elimina tutti gli eventi dell'importazione; per gli eventi ricorrenti viene eliminata l'intera serie
+    const handleRollback = async (batch: ImportBatch) => {
+        if (!window.confirm(`Sei sicuro di voler annullare l'importazione di "${batch.sourceFile}"? Verranno eliminati ${batch.events.length} eventi. Questa azione è irreversibile.`)) {
+            return;
+        }
+
+        setError(null);
+        setRollback({ batchId: batch.batchId, current: 0, total: batch.events.length });
+        const failedIds = new Set<string>();
+
+        const results = await gcal.executeBatch(
+            batch.events.map(event => ({ kind: 'delete', calendarId: event.calendarId, eventId: event.id })),
+            { onProgress: (current, total) => setRollback({ batchId: batch.batchId, current, total }) }
+        );
+        results.forEach((result, index) => {
+            if (!result.ok) {
+                console.error(`Failed to delete event ${batch.events[index].id}:`, result.error);
+                failedIds.add(batch.events[index].id);
+            }
+        });
+
+        setBatches(prev => prev
+            .map(b => (b.batchId === batch.batchId ? { ...b, events: b.events.filter(e => failedIds.has(e.id)) } : b))
+            .filter(b => b.events.length > 0));
+        if (failedIds.size > 0) {
+            setError({
+                title: 'Annullamento Parziale',
+                message: `${failedIds.size} eventi su ${batch.events.length} non sono stati eliminati. ${gcal.describeBatchFailures(results.filter(r => !r.ok))} Puoi riprovare ad annullare l'importazione.`
+            });
+        }
+        setRollback(null);
+    };
+
+    if (status === 'initial' || status === 'authenticating') {
+        return (
+            <div className="text-center p-8 bg-card rounded-lg border border-border">
+                <h2 className="text-2xl font-bold mb-3">Cronologia Importazioni</h2>
+                <p className="text-muted-foreground mb-6 max-w-xl mx-auto">
+                    Connettiti a Google per vedere gli eventi importati con ForMa, annullare un'importazione o risincronizzarla con una versione aggiornata del file.
+                </p>
+                {sessionError && <p className="text-sm text-destructive mb-6">{sessionError.title}: {sessionError.message}</p>}
+                <div className="flex justify-center items-center space-x-4">
+                     <button
+                        onClick={() => setPage('dashboard')}
+                        className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-3 px-6 rounded-full inline-flex items-center space-x-3 transition-all duration-300"
+                    >
+                       <ArrowLeftIcon className="h-5 w-5"/> <span>Indietro</span>
+                    </button>
+                    <button
+                        onClick={signIn}
+                        disabled={status === 'authenticating'}
+                        className="bg-primary hover:bg-primary/90 disabled:bg-muted text-primary-foreground font-bold py-3 px-6 rounded-full inline-flex items-center space-x-3 transition-all duration-300"
+                    >
+                        {status === 'authenticating' ? <Loader className="h-5 w-5"/> : <GoogleIcon className="h-5 w-5" />}
+                        <span>Connetti Google Calendar</span>
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (status === 'loading') {
+        return <div className="text-center p-8"><Loader /><p className="mt-4 text-muted-foreground">Caricamento dati...</p></div>;
+    }
+
+    if (status === 'error' && sessionError) {
+         return (
+             <div className="text-center p-8 bg-destructive/10 border border-destructive/30 rounded-lg">
+                <h3 className="font-bold text-lg text-destructive-foreground/90">{sessionError.title}</h3>
+                <p className="text-sm mt-2 text-destructive-foreground/80">{sessionError.message}</p>
+                <div className="mt-6 flex justify-center items-center space-x-4">
+                    <button onClick={() => setPage('dashboard')} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-2 px-6 rounded-full">
+                         Torna alla Dashboard
+                    </button>
+                    <button onClick={signIn} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-6 rounded-full">
+                         Riprova Accesso
+                    </button>
+                </div>
+            </div>
+         );
+    }
+
+    return (
+        <div className="animate-fade-in space-y-6">
+            <div className="max-w-4xl mx-auto flex flex-wrap justify-between items-center gap-3">
+                 <GoogleAccountBar />
+                 <button
+                    onClick={() => loadBatches(calendars)}
+                    disabled={isLoadingBatches || rollback !== null}
+                    className="flex items-center space-x-2 text-sm bg-secondary hover:bg-muted disabled:opacity-50 text-secondary-foreground font-semibold py-2 px-3 rounded-md transition-colors"
+                >
+                    <RefreshCwIcon className="h-4 w-4" />
+                    <span>Aggiorna</span>
+                </button>
+            </div>
+
+            {/* Inline Error Display */}
+            {error && (
+                <div className="max-w-4xl mx-auto bg-destructive/10 border border-destructive/30 text-destructive-foreground px-4 py-3 rounded-lg relative flex justify-between items-start" role="alert">
+                    <div>
+                        <strong className="font-bold">{error.title}: </strong>
+                        <span className="block sm:inline">{error.message}</span>
+                    </div>
+                    <button onClick={() => setError(null)} className="ml-4 p-1 rounded hover:bg-destructive/20 transition-colors">
+                        <XIcon className="h-5 w-5" />
+                    </button>
+                </div>
+            )}
+
+            <div className="max-w-4xl mx-auto">
+                {isLoadingBatches && <div className="text-center py-4"><Loader /><p className="mt-2 text-muted-foreground">Ricerca delle importazioni...</p></div>}
+
+                {!isLoadingBatches && batches.length === 0 && (
+                    <div className="text-center p-6 bg-card rounded-lg border border-border">
+                        <ClockIcon className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+                        <p className="text-muted-foreground">Nessuna importazione trovata nei tuoi calendari.</p>
+                        <p className="text-xs text-muted-foreground mt-1">Compaiono qui gli eventi importati in Google Calendar con questa versione di ForMa.</p>
+                    </div>
+                )}
+
+                {!isLoadingBatches && batches.length > 0 && (
+                    <div className="bg-card border border-border rounded-lg overflow-hidden">
+                        <div className="grid grid-cols-[1fr,2fr,1fr,auto] gap-4 px-4 py-2 bg-secondary text-xs font-medium text-muted-foreground uppercase items-center">
+                            <div>Data</div>
+                            <div>Origine</div>
+                            <div>Calendari</div>
+                            <div className="text-right">Azioni</div>
+                        </div>
+                        <div className="max-h-[60vh] overflow-y-auto">
+                            {batches.map(batch => {
+                                const isRollingBack = rollback?.batchId === batch.batchId;
+                                return (
+                                    <div key={batch.batchId} className="grid grid-cols-[1fr,2fr,1fr,auto] gap-4 px-4 py-3 border-t border-border items-center hover:bg-accent transition-colors text-sm">
+                                        <div className="text-muted-foreground">
+                                            {batch.importedAt ? new Date(batch.importedAt).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' }) : 'N/D'}
+                                        </div>
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-foreground truncate" title={batch.sourceFile}>{batch.sourceFile || 'Origine sconosciuta'}</p>
+                                            <p className="text-xs text-muted-foreground">{batch.events.length} eventi</p>
+                                        </div>
+                                        <div className="text-muted-foreground truncate" title={batch.calendarIds.map(getCalendarName).join(', ')}>
+                                            {batch.calendarIds.map(getCalendarName).join(', ')}
+                                        </div>
+                                        <div className="flex justify-end space-x-2">
+                                            <button
+                                                onClick={() => onResync(batch)}
+                                                disabled={rollback !== null}
+                                                className="flex items-center space-x-1 bg-secondary hover:bg-muted disabled:opacity-50 text-secondary-foreground font-semibold py-1.5 px-3 rounded-md transition-colors"
+                                                title="Carica una versione aggiornata del file e aggiorna solo gli eventi modificati"
+                                            >
+                                                <RefreshCwIcon className="h-4 w-4" />
+                                                <span className="hidden sm:inline">Risincronizza</span>
+                                            </button>
+                                            <button
+                                                onClick={() => handleRollback(batch)}
+                                                disabled={rollback !== null}
+                                                className="flex items-center space-x-1 bg-destructive hover:bg-destructive/90 disabled:bg-muted text-destructive-foreground font-semibold py-1.5 px-3 rounded-md transition-colors"
+                                                title="Elimina tutti gli eventi di questa importazione"
+                                            >
+                                                {isRollingBack ? <Loader className="h-4 w-4" /> : <Trash2Icon className="h-4 w-4" />}
+                                                <span className="hidden sm:inline">
+                                                    {isRollingBack ? `${rollback?.current}/${rollback?.total}` : 'Annulla'}
+                                                </span>
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
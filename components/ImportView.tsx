@@ -1,41 +1,29 @@
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import * as XLSX from 'xlsx';
 import { FileUpload } from './FileUpload';
 import { Loader } from './Loader';
 import { extractEvents, ApiEventObject } from '../services/geminiService';
 import { EventPreviewTable } from './EventPreviewTable';
 import { validateEvents } from '../lib/validation';
+import { parseIcsContent } from '../lib/ics';
 import type { ValidatedEvent, EventObject } from '../lib/types';
+import type { ImportBatch } from '../lib/importHistory';
 import { GoogleCalendarImporter } from './GoogleCalendarImporter';
-import { toDDMMYYYY } from '../lib/dateUtils';
-import { ArrowLeftIcon, RefreshCwIcon } from './Icons';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import { SheetPicker, WorkbookSheets } from './SheetPicker';
+import { applyColumnMapping } from '../lib/columnMapping';
+import type { ColumnMappingConfig } from '../lib/columnMapping';
+import { isSpreadsheetFile, isWorkbookFile, readSheetNames, parseExcelToCsv, readSpreadsheetSheets, rowsToCsv } from '../lib/spreadsheet';
+import type { SpreadsheetSheet } from '../lib/spreadsheet';
+import { toDDMMYYYY, addDays } from '../lib/dateUtils';
+import { ArrowLeftIcon, RefreshCwIcon, TableIcon } from './Icons';
 
-type AppStep = 'upload' | 'preview' | 'result';
+type AppStep = 'upload' | 'mapping' | 'preview' | 'result';
 type InputMethod = 'file' | 'text';
 
 interface ImportViewProps {
     setPage: (page: 'dashboard' | 'import' | 'cleanup') => void;
-}
-
-async function parseExcelToCsv(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const data = event.target?.result;
-        if (!data) throw new Error("Failed to read file data.");
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        if (!sheetName) throw new Error("No sheets found in the Excel file.");
-        const worksheet = workbook.Sheets[sheetName];
-        resolve(XLSX.utils.sheet_to_csv(worksheet));
-      } catch (e) {
-        reject(e);
-      }
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsArrayBuffer(file);
-  });
+    // Importazione precedente da risincronizzare, scelta dalla cronologia
+    resyncBatch?: ImportBatch | null;
 }
 
 const loadingMessages = [
@@ -45,7 +33,7 @@ const loadingMessages = [
   "Quasi pronto, l'IA sta finalizzando l'elaborazione...",
 ];
 
-export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
+export const ImportView: React.FC<ImportViewProps> = ({ setPage, resyncBatch }) => {
   const [files, setFiles] = useState<File[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
@@ -55,6 +43,8 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
   const [inputMethod, setInputMethod] = useState<InputMethod>('file');
   const [pastedText, setPastedText] = useState<string>('');
   const [loadingMessage, setLoadingMessage] = useState<string>(loadingMessages[0]);
+  const [workbooks, setWorkbooks] = useState<WorkbookSheets[]>([]);
+  const [spreadsheetSheets, setSpreadsheetSheets] = useState<SpreadsheetSheet[]>([]);
 
   useEffect(() => {
     let intervalId: number | undefined;
@@ -69,6 +59,32 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
     return () => { if (intervalId) clearInterval(intervalId); };
   }, [isLoading]);
 
+  // Legge l'elenco dei fogli delle cartelle di lavoro caricate; di default è selezionato solo il primo
+  useEffect(() => {
+    let cancelled = false;
+    const workbookFiles = files.filter(isWorkbookFile);
+    Promise.all(workbookFiles.map(async (file) => {
+        const existing = workbooks.find(w => w.fileName === file.name);
+        if (existing) return existing;
+        try {
+            const sheetNames = await readSheetNames(file);
+            return { fileName: file.name, sheetNames, selected: sheetNames.slice(0, 1) };
+        } catch (err) {
+            console.error(`Impossibile leggere i fogli di ${file.name}`, err);
+            return null;
+        }
+    })).then(result => {
+        if (!cancelled) setWorkbooks(result.filter((w): w is WorkbookSheets => w !== null));
+    });
+    return () => { cancelled = true; };
+  }, [files]);
+
+  const handleSheetSelectionChange = (fileName: string, selected: string[]) => {
+    setWorkbooks(prev => prev.map(w => (w.fileName === fileName ? { ...w, selected } : w)));
+  };
+
+  const getSelectedSheets = (file: File) => workbooks.find(w => w.fileName === file.name)?.selected;
+
   const handleFilesChange = useCallback((selectedFiles: File[]) => {
     setFiles(selectedFiles);
      if (selectedFiles.length > 0) {
@@ -100,6 +116,86 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
     }
   };
 
+  const showPreview = (extractedEvents: ApiEventObject[]) => {
+      const eventsWithId: EventObject[] = extractedEvents.map((event, index) => ({
+         id: index,
+         subject: event.subject,
+         startDate: toDDMMYYYY(event.startDate),
+         startTime: event.allDay ? '' : event.startTime,
+         // Se l'IA restituisce la fine inclusa per un evento di un'intera giornata, la si rende esclusiva
+         endDate: toDDMMYYYY(event.allDay && event.endDate <= event.startDate ? addDays(event.startDate, 1) : event.endDate),
+         endTime: event.allDay ? '' : event.endTime,
+         description: event.description,
+         location: event.location,
+         timeZone: event.allDay ? undefined : event.timeZone || undefined,
+         allDay: event.allDay || undefined,
+         reminders: event.reminders,
+         // L'IA restituisce i nomi mancanti come stringhe vuote
+         attendees: event.attendees?.length ? event.attendees.map(p => ({ email: p.email, ...(p.name && { name: p.name }) })) : undefined,
+         organizer: event.organizer?.email ? { email: event.organizer.email, ...(event.organizer.name && { name: event.organizer.name }) } : undefined,
+         sourceSheet: event.sourceSheet,
+         // Letto dalla proprietà COLOR dei file .ics
+         colorId: event.colorId,
+         // Le date della ricorrenza arrivano in AAAA-MM-GG; i campi omessi dall'IA ricevono i valori predefiniti
+         recurrence: event.recurrence ? {
+             ...event.recurrence,
+             interval: event.recurrence.interval || 1,
+             byDay: event.recurrence.byDay || [],
+             count: event.recurrence.count || undefined,
+             until: event.recurrence.until ? toDDMMYYYY(event.recurrence.until) : undefined,
+             exceptions: (event.recurrence.exceptions || []).map(toDDMMYYYY),
+         } : undefined,
+      }));
+      setEvents(validateEvents(eventsWithId));
+      setSelectedEvents(new Set());
+      setStep('preview');
+      setIsLoading(false);
+      setError('');
+  };
+
+  const handleStartMapping = async () => {
+    try {
+        const sheets = await readSpreadsheetSheets(files[0], getSelectedSheets(files[0]));
+        if (sheets.every(sheet => sheet.rows.length === 0)) {
+            setError('Il file non contiene dati.');
+            return;
+        }
+        setSpreadsheetSheets(sheets);
+        setStep('mapping');
+    } catch (err: any) {
+        setError(err.message || 'Impossibile leggere il file.');
+    }
+  };
+
+  // La stessa mappatura viene applicata a tutti i fogli selezionati. Le righe mappate in modo deterministico
+  // vanno direttamente in anteprima; solo quelle ambigue passano dall'IA.
+  const handleMappingConfirm = async (config: ColumnMappingConfig, useAiForAmbiguous: boolean) => {
+    const tagSheets = isWorkbookFile(files[0]);
+    const results = spreadsheetSheets.map(sheet => ({
+        sourceSheet: tagSheets ? sheet.name : undefined,
+        ...applyColumnMapping(sheet.rows, config),
+    }));
+    const mappedEvents = results.flatMap(r => r.events.map(event => ({ ...event, sourceSheet: r.sourceSheet })));
+
+    if (!useAiForAmbiguous || results.every(r => r.ambiguousRows.length === 0)) {
+        showPreview(mappedEvents);
+        return;
+    }
+    setIsLoading(true);
+    setError('');
+    try {
+        const aiResults = await Promise.all(results.filter(r => r.ambiguousRows.length > 0).map(async (r) => {
+            const csvRows = r.headers.length > 0 ? [r.headers, ...r.ambiguousRows] : r.ambiguousRows;
+            const aiEvents = await extractEvents(rowsToCsv(csvRows));
+            return aiEvents.map(event => ({ ...event, sourceSheet: r.sourceSheet }));
+        }));
+        showPreview([...mappedEvents, ...aiResults.flat()]);
+    } catch (err: any) {
+        setError(err.message || "Errore durante l'elaborazione delle righe ambigue.");
+        setIsLoading(false);
+    }
+  };
+
   const handleProcess = async (retryAttempt = 0) => {
     if (retryAttempt === 0) {
         setIsLoading(true);
@@ -115,15 +211,22 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
                 setIsLoading(false);
                 return;
             }
-            const results = await Promise.all(files.map(async (file) => {
-                let processedInput: File | string;
+            const results = await Promise.all(files.map(async (file): Promise<ApiEventObject[]> => {
                 const fileExtension = file.name.split('.').pop()?.toLowerCase();
-                if (fileExtension === 'xlsx' || fileExtension === 'xls') {
-                    processedInput = await parseExcelToCsv(file);
-                } else {
-                    processedInput = file;
+                // I file iCalendar sono già strutturati: vengono letti direttamente, senza passare dall'IA
+                if (fileExtension === 'ics') {
+                    return parseIcsContent(await file.text());
                 }
-                return extractEvents(processedInput);
+                if (isWorkbookFile(file)) {
+                    // Ogni foglio selezionato viene elaborato separatamente e i suoi eventi ne riportano il nome
+                    const sheets = await parseExcelToCsv(file, getSelectedSheets(file));
+                    const sheetEvents = await Promise.all(sheets.map(async ({ sheetName, csv }) => {
+                        const sheetResult = await extractEvents(csv);
+                        return sheetResult.map(event => ({ ...event, sourceSheet: sheetName }));
+                    }));
+                    return sheetEvents.flat();
+                }
+                return extractEvents(file);
             }));
             extractedEvents = results.flat();
         } else {
@@ -132,24 +235,12 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
                 setIsLoading(false);
                 return;
             }
-            extractedEvents = await extractEvents(pastedText);
+            extractedEvents = pastedText.trim().toUpperCase().startsWith('BEGIN:VCALENDAR')
+                ? parseIcsContent(pastedText)
+                : await extractEvents(pastedText);
         }
       
-      const eventsWithId: EventObject[] = extractedEvents.map((event, index) => ({
-         id: index,
-         subject: event.subject,
-         startDate: toDDMMYYYY(event.startDate),
-         startTime: event.startTime,
-         endDate: toDDMMYYYY(event.endDate),
-         endTime: event.endTime,
-         description: event.description,
-         location: event.location,
-      }));
-      setEvents(validateEvents(eventsWithId));
-      setSelectedEvents(new Set());
-      setStep('preview');
-      setIsLoading(false);
-      setError('');
+      showPreview(extractedEvents);
     } catch (err: any) {
         if (err.message === 'API_KEY_MISSING') {
             setError("Chiave API mancante. Clicca su 'Seleziona Chiave API' nella schermata principale.");
@@ -181,7 +272,7 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
 
   const handleReset = (fullReset = true) => {
     if (fullReset) { setFiles([]); setPastedText(''); setInputMethod('file'); }
-    setError(''); setIsLoading(false); setStep('upload'); setEvents([]); setSelectedEvents(new Set());
+    setError(''); setIsLoading(false); setStep('upload'); setEvents([]); setSelectedEvents(new Set()); setSpreadsheetSheets([]);
   };
   
   const handleResetAndGoToDashboard = () => { handleReset(true); setPage('dashboard'); };
@@ -192,6 +283,9 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
     return events.some(e => selectedEvents.has(e.id) && !e.isValid);
   }, [events, selectedEvents]);
 
+  // Origine degli eventi salvata nelle importazioni in Google Calendar, per ritrovarle nella cronologia
+  const sourceFile = inputMethod === 'file' ? files.map(f => f.name).join(', ') : 'Testo incollato';
+
   const proceedButtonText = selectedEvents.size > 0 
     ? `Procedi con ${selectedEvents.size} Eventi Selezionati`
     : "Procedi con l'Importazione/Esportazione";
@@ -225,6 +319,8 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
     switch (step) {
       case 'upload':
         const canProcess = (inputMethod === 'file' && files.length > 0) || (inputMethod === 'text' && pastedText.trim());
+        const hasEmptySheetSelection = workbooks.some(w => w.selected.length === 0);
+        const canMapColumns = inputMethod === 'file' && files.length === 1 && isSpreadsheetFile(files[0]) && !hasEmptySheetSelection;
         const tabBaseClasses = "px-4 py-2 font-semibold transition-colors duration-200 focus:outline-none rounded-t-xl";
         const activeTabClasses = "bg-secondary text-secondary-foreground border-b-2 border-primary";
         const inactiveTabClasses = "bg-transparent text-muted-foreground hover:text-foreground hover:bg-accent/50";
@@ -232,6 +328,12 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
         return (
           <div className="max-w-4xl mx-auto">
             <h2 className="text-xl font-bold text-foreground mb-4">1. Fornisci i dati dei tuoi eventi</h2>
+            {resyncBatch && (
+              <div className="mb-6 bg-primary/10 border border-primary/30 text-foreground px-4 py-3 rounded-xl text-sm">
+                Stai risincronizzando l'importazione di <span className="font-semibold">{resyncBatch.sourceFile || 'origine sconosciuta'}</span> del{' '}
+                {new Date(resyncBatch.importedAt).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}: carica la versione aggiornata dei dati.
+              </div>
+            )}
             <div className="border-b border-border mb-6">
                 <div className="flex -mb-px space-x-2">
                     <button onClick={() => setInputMethod('file')} className={`${tabBaseClasses} ${inputMethod === 'file' ? activeTabClasses : inactiveTabClasses}`}>
@@ -244,7 +346,10 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
             </div>
             <div className="animate-fade-in">
               {inputMethod === 'file' ? (
-                <FileUpload onFilesChange={handleFilesChange} files={files} disabled={isLoading} />
+                <>
+                  <FileUpload onFilesChange={handleFilesChange} files={files} disabled={isLoading} />
+                  <SheetPicker workbooks={workbooks} onChange={handleSheetSelectionChange} disabled={isLoading} />
+                </>
               ) : (
                 <textarea
                     value={pastedText}
@@ -262,8 +367,13 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
                      <button onClick={() => setPage('dashboard')} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-3 px-8 rounded-full inline-flex items-center space-x-3 transition-all">
                        <ArrowLeftIcon className="h-5 w-5"/> <span>Indietro</span>
                     </button>
+                    {canMapColumns && (
+                        <button onClick={handleStartMapping} disabled={isLoading} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-3 px-8 rounded-full inline-flex items-center space-x-3 transition-all" title="Converti il foglio senza usare l'IA">
+                          <TableIcon className="h-5 w-5"/> <span>Mappa Colonne</span>
+                        </button>
+                    )}
                     {canProcess && (
-                        <button onClick={() => handleProcess()} disabled={isLoading} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-3 px-10 rounded-full shadow-lg shadow-primary/20 transform hover:scale-105 transition-all">
+                        <button onClick={() => handleProcess()} disabled={isLoading || (inputMethod === 'file' && hasEmptySheetSelection)} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-3 px-10 rounded-full shadow-lg shadow-primary/20 transform hover:scale-105 transition-all">
                           Elabora Anteprima
                         </button>
                     )}
@@ -271,6 +381,15 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
             </div>
           </div>
         );
+      case 'mapping':
+        return (
+          <ColumnMappingWizard
+            fileName={files[0]?.name || ''}
+            sheets={spreadsheetSheets}
+            onConfirm={handleMappingConfirm}
+            onCancel={() => setStep('upload')}
+          />
+        );
       case 'preview':
         return (
           <div className="animate-fade-in">
@@ -295,7 +414,7 @@ export const ImportView: React.FC<ImportViewProps> = ({ setPage }) => {
                   <ArrowLeftIcon className="h-4 w-4" /> <span>Torna alla modifica</span>
               </button>
             </div>
-            <GoogleCalendarImporter events={events} onReset={handleResetAndGoToDashboard} />
+            <GoogleCalendarImporter events={events} onReset={handleResetAndGoToDashboard} sourceFile={sourceFile} resyncBatch={resyncBatch} />
           </div>
         );
       default: return null;
@@ -1,24 +1,92 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import * as gcal from '../services/googleCalendarService';
 import { Loader } from './Loader';
-import { GoogleIcon, SearchIcon, PencilLineIcon, SparklesIcon, CalendarIcon, ChevronsUpDownIcon, ArrowLeftIcon, XIcon, ClockIcon, CheckCircleIcon } from './Icons';
+import { GoogleIcon, SearchIcon, PencilLineIcon, SparklesIcon, CalendarIcon, ChevronsUpDownIcon, ArrowLeftIcon, XIcon, ClockIcon, CheckCircleIcon, RepeatIcon } from './Icons';
 import { parseFilterFromQuery, FilterParams } from '../services/geminiService';
+import { buildEventPatch, isRecurringShiftRefused, diffEventPatch, buildRevertPatch, mergeEventPatch, hasBulkUpdates, emptyBulkUpdates, editableFieldLabels, loadLastEdit, saveLastEdit, textEditModeLabels, getTextEditError, templatePlaceholders } from '../lib/massiveEdit';
+import type { BulkUpdates, EditContext, EventPatch, FieldChange, EditJournal, EditSnapshot, TextEditMode, TextFieldEdit } from '../lib/massiveEdit';
+import { useGoogleSession } from '../contexts/GoogleSessionContext';
+import { GoogleAccountBar } from './GoogleAccountBar';
+import { TimeShiftEditor } from './TimeShiftEditor';
+import { EventColorSelect } from './EventColorSelect';
+import { getBrowserTimeZone } from '../lib/timezone';
+import { emptyFilterParams, hasAdvancedFilters, getFilterError, buildEventMatcher } from '../lib/eventFilters';
+import { AdvancedFilters } from './AdvancedFilters';
+import { BackupExportButtons } from './BackupExportButtons';
+import {
+    groupBySeries, getOriginalStart, getEarliestInstance, getStartInstant, startsSeries,
+    truncateRecurrence, continueRecurrence, buildSeriesContinuation, seriesScopeLabels,
+} from '../lib/recurringSeries';
+import type { SeriesScope } from '../lib/recurringSeries';
+import { buildRestoreResource } from '../lib/trash';
 
-type GCalState = 'initial' | 'authenticating' | 'authenticated' | 'loading' | 'error';
 interface GCalError { title: string; message: string; }
-interface Calendar { id: string; summary: string; primary?: boolean; }
 interface MassiveEditViewProps {
     setPage: (page: 'dashboard' | 'import' | 'cleanup' | 'massive-edit') => void;
 }
 interface EventWithCalendarId extends gcal.GCalEvent {
     calendarId: string;
 }
+// Modifica calcolata per un evento, mostrata nell'anteprima prima di essere applicata
+interface EditPreviewItem {
+    event: EventWithCalendarId;
+    patch: EventPatch;
+    changes: FieldChange[];
+    // Modifica di una serie ricorrente: `event` è l'evento principale o, per 'following', la nuova serie
+    // che prosegue dalla prima occorrenza selezionata
+    scope?: Exclude<SeriesScope, 'instance'>;
+    // Per 'following': la vecchia serie viene interrotta con `truncated` (ricorrenza originale in `original`)
+    split?: { masterId: string; original: string[]; truncated: string[] };
+    // Parte della modifica che non si può applicare alla serie
+    warning?: string;
+}
+
+// Campo di testo della modifica in blocco: modalità, testo da cercare (con eventuale regex) e testo da scrivere
+const TextEditInput: React.FC<{
+    label: string;
+    placeholder: string;
+    edit: TextFieldEdit;
+    onChange: (edit: TextFieldEdit) => void;
+}> = ({ label, placeholder, edit, onChange }) => {
+    const error = getTextEditError(edit);
+    return (
+        <div className="space-y-2">
+            <div className="flex justify-between items-center px-1">
+                <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{label}</label>
+                <select
+                    value={edit.mode}
+                    onChange={e => onChange({ ...edit, mode: e.target.value as TextEditMode })}
+                    className="bg-transparent text-xs text-indigo-400 font-medium focus:outline-none"
+                >
+                    {(Object.keys(textEditModeLabels) as TextEditMode[]).map(mode => (
+                        <option key={mode} value={mode}>{textEditModeLabels[mode]}</option>
+                    ))}
+                </select>
+            </div>
+            {edit.mode === 'replace' && (
+                <div className="flex space-x-2">
+                    <input type="text" placeholder="Trova..." value={edit.find} onChange={e => onChange({ ...edit, find: e.target.value })} className={`bg-input border text-sm rounded-xl p-3.5 w-full focus:ring-indigo-500 ${error ? 'border-destructive' : 'border-border'}`}/>
+                    <label className="flex items-center space-x-1.5 text-xs text-muted-foreground cursor-pointer" title="Interpreta il testo da cercare come espressione regolare">
+                        <input type="checkbox" checked={edit.regex} onChange={e => onChange({ ...edit, regex: e.target.checked })} className="h-4 w-4 rounded border-border bg-input text-indigo-600 focus:ring-indigo-500"/>
+                        <span>Regex</span>
+                    </label>
+                </div>
+            )}
+            <input
+                type="text"
+                placeholder={edit.mode === 'replace' ? 'Sostituisci con...' : placeholder}
+                value={edit.value}
+                onChange={e => onChange({ ...edit, value: e.target.value })}
+                className="bg-input border border-border text-sm rounded-xl p-3.5 w-full focus:ring-indigo-500"
+            />
+            {error && <p className="text-xs text-destructive px-1">{error}</p>}
+        </div>
+    );
+};
 
 export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) => {
-    const [gcalState, setGCalState] = useState<GCalState>('initial');
+    const { status, error: sessionError, user, calendars, signIn } = useGoogleSession();
     const [error, setError] = useState<GCalError | null>(null);
-    const [user, setUser] = useState<{ email: string } | null>(null);
-    const [calendars, setCalendars] = useState<Calendar[]>([]);
     const [selectedCalendarIds, setSelectedCalendarIds] = useState<Set<string>>(new Set());
     const [isCalendarDropdownOpen, setCalendarDropdownOpen] = useState(false);
     const [events, setEvents] = useState<EventWithCalendarId[]>([]);
@@ -26,18 +94,26 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
     const [isUpdating, setIsUpdating] = useState(false);
     const [updateProgress, setUpdateProgress] = useState<{ current: number; total: number } | null>(null);
     const [aiQuery, setAiQuery] = useState('');
-    const [manualFilters, setManualFilters] = useState<FilterParams>({ startDate: '', endDate: '', startTime: '', text: '', location: '' });
+    const [manualFilters, setManualFilters] = useState<FilterParams>(emptyFilterParams);
+    const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
     const [isSearching, setIsSearching] = useState(false);
     const [searchPerformed, setSearchPerformed] = useState(false);
+    // Eventi caricati finora durante la ricerca (null quando non si sta caricando) e controller per annullarla
+    const [loadedCount, setLoadedCount] = useState<number | null>(null);
+    const searchAbortRef = useRef<AbortController | null>(null);
     
-    const [bulkUpdates, setBulkUpdates] = useState({
-        summary: '',
-        location: '',
-        description: '',
-        startTime: '',
-        endTime: '',
-        duration: ''
-    });
+    const [bulkUpdates, setBulkUpdates] = useState<BulkUpdates>(emptyBulkUpdates);
+    // Anteprima delle modifiche (null finché non viene calcolata) ed eventi esclusi dall'utente
+    const [preview, setPreview] = useState<EditPreviewItem[] | null>(null);
+    const [isPreparingPreview, setIsPreparingPreview] = useState(false);
+    // Portata della modifica per ogni serie ricorrente dei risultati (chiave di getSeriesKey; predefinita 'instance')
+    const [seriesScopes, setSeriesScopes] = useState<Record<string, SeriesScope>>({});
+    const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+    // Ultima modifica applicata, annullabile con "Annulla modifica"
+    const [lastEdit, setLastEdit] = useState<EditJournal | null>(() => loadLastEdit());
+    const [isReverting, setIsReverting] = useState(false);
+    // Calendario di destinazione per "Sposta" e "Copia"
+    const [transferCalendarId, setTransferCalendarId] = useState('');
 
     const calendarDropdownRef = useRef<HTMLDivElement>(null);
 
@@ -51,70 +127,41 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
-    const handleGapiLoad = useCallback(async () => {
-        try {
-            await gcal.initGapiClient();
-        } catch (err: any) {
-            setError({ title: 'Errore di Inizializzazione', message: err.message });
-            setGCalState('error');
-        }
-    }, []);
-
+    // Con un nuovo account (o dopo l'uscita) i risultati precedenti non sono più validi
     useEffect(() => {
-        const script = document.createElement('script');
-        script.src = 'https://apis.google.com/js/api.js';
-        script.onload = () => (window as any).gapi.load('client', handleGapiLoad);
-        script.async = true;
-        document.body.appendChild(script);
-        return () => { document.body.removeChild(script); };
-    }, [handleGapiLoad]);
-
-    const fetchInitialData = useCallback(async () => {
-        try {
-            const userInfoResponse = await gcal.getUserProfile();
-            if (!userInfoResponse?.result?.email) throw new Error("Profilo utente non trovato.");
-            setUser(userInfoResponse.result);
-            
-            const calendarList = await gcal.listCalendars();
-            setCalendars(calendarList);
-            const primaryCalendar = calendarList.find((c: Calendar) => c.primary) || calendarList[0];
-            if (primaryCalendar) {
-                setSelectedCalendarIds(new Set([primaryCalendar.id]));
-            }
-            setGCalState('authenticated');
-        } catch (err: any) {
-            setError({ title: 'Errore nel Caricamento Dati', message: err.message });
-            setGCalState('error');
-        }
-    }, []);
-    
-    const handleTokenResponse = useCallback(async (tokenResponse: any) => {
-        if (tokenResponse.error) {
-            setError({ title: "Autenticazione Fallita", message: tokenResponse.error_description || "L'utente ha annullato l'accesso."});
-            setGCalState('initial');
-            return;
-        }
-        if (tokenResponse.access_token) {
-            (window as any).gapi.client.setToken(tokenResponse);
-            setGCalState('loading');
-            await fetchInitialData();
-        }
-    }, [fetchInitialData]);
+        setEvents([]);
+        setSelectedEventIds(new Set());
+        setSearchPerformed(false);
+        setPreview(null);
+    }, [user?.email]);
 
-    const handleAuth = () => {
-        setGCalState('authenticating');
-        setError(null);
-        gcal.handleAuthClick((token) => handleTokenResponse(token));
-    };
+    // Mantiene i calendari selezionati ancora presenti; se non ne resta nessuno seleziona il principale
+    useEffect(() => {
+        setSelectedCalendarIds(prev => {
+            const kept = new Set([...prev].filter(id => calendars.some(c => c.id === id)));
+            if (kept.size > 0) return kept;
+            const primaryCalendar = calendars.find(c => c.primary) || calendars[0];
+            return new Set(primaryCalendar ? [primaryCalendar.id] : []);
+        });
+    }, [calendars]);
 
     const executeSearch = async (filters: FilterParams) => {
         if (selectedCalendarIds.size === 0) return;
+        const filterError = getFilterError(filters);
+        if (filterError) {
+            setError({ title: 'Filtri Non Validi', message: filterError });
+            return;
+        }
         
         setIsSearching(true);
         setError(null);
         setEvents([]);
         setSelectedEventIds(new Set());
+        setSeriesScopes({});
         setSearchPerformed(false);
+        setLoadedCount(0);
+        const abortController = new AbortController();
+        searchAbortRef.current = abortController;
         
         try {
             const timeMin = filters.startDate 
@@ -127,47 +174,41 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
 
             const allEvents: EventWithCalendarId[] = [];
             for (const calId of selectedCalendarIds) {
-                const eventsFromCal = await gcal.listEvents(calId, timeMin, timeMax);
+                const loadedBefore = allEvents.length;
+                const eventsFromCal = await gcal.listEvents(calId, timeMin, timeMax, {
+                    signal: abortController.signal,
+                    onProgress: loaded => setLoadedCount(loadedBefore + loaded),
+                });
                 allEvents.push(...eventsFromCal.map(e => ({...e, calendarId: calId})));
             }
             
-            const textFilter = filters.text.toLowerCase();
-            const locationFilter = filters.location.toLowerCase();
-            const startTimeFilter = filters.startTime;
-            
-            const filtered = allEvents.filter(event => {
-                const textMatch = !textFilter || (event.summary?.toLowerCase().includes(textFilter) || event.description?.toLowerCase().includes(textFilter));
-                const locationMatch = !locationFilter || event.location?.toLowerCase().includes(locationFilter);
-                
-                let startTimeMatch = true;
-                if (startTimeFilter) {
-                    const eventDateTime = event.start.dateTime || event.start.date || '';
-                    if (eventDateTime) {
-                        const eventDateObj = new Date(eventDateTime);
-                        const eventTimeStr = eventDateObj.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit', hour12: false });
-                        startTimeMatch = eventTimeStr.includes(startTimeFilter);
-                    } else {
-                        startTimeMatch = false;
-                    }
-                }
-
-                return textMatch && locationMatch && startTimeMatch;
-            });
+            const filtered = allEvents.filter(buildEventMatcher(filters));
             setEvents(filtered);
         } catch (err: any) {
-            setError({ title: 'Errore durante la ricerca', message: err.message });
+            if (err.name === 'AbortError') {
+                setError({ title: 'Ricerca Annullata', message: 'Il caricamento degli eventi è stato interrotto. Avvia una nuova ricerca per vedere i risultati.' });
+            } else {
+                setError({ title: gcal.getErrorTitle(err, 'Errore durante la ricerca'), message: err.message });
+            }
         } finally {
             setIsSearching(false);
             setSearchPerformed(true);
+            setLoadedCount(null);
+            searchAbortRef.current = null;
         }
     };
 
+    const handleCancelSearch = () => {
+        searchAbortRef.current?.abort();
+    };
+
     const handleAiAutoFill = async () => {
         if (!aiQuery.trim()) return;
         setIsSearching(true);
         try {
             const result = await parseFilterFromQuery(aiQuery);
             setManualFilters(result);
+            if (hasAdvancedFilters(result)) setShowAdvancedFilters(true);
             await executeSearch(result);
         } catch (err: any) {
             setError({ title: "Errore Interpretazione IA", message: err.message });
@@ -175,96 +216,237 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
         }
     };
     
-    const handleUpdateSelected = async () => {
-        const totalToUpdate = selectedEventIds.size;
-        if (totalToUpdate === 0) return;
-        
-        const updatesAvailable = bulkUpdates.summary || bulkUpdates.location || bulkUpdates.description || bulkUpdates.startTime || bulkUpdates.endTime || bulkUpdates.duration;
-        if (!updatesAvailable) {
-            alert("Per favore, inserisci almeno una modifica da applicare.");
+    // Cambiando le modifiche o la selezione l'anteprima non è più valida
+    useEffect(() => {
+        setPreview(null);
+    }, [bulkUpdates, selectedEventIds, seriesScopes]);
+
+    // Prova a vuoto: calcola per ogni evento selezionato la patch e i campi che cambierebbero, senza inviare nulla
+    const getSeriesScope = (seriesKey: string | null): SeriesScope => (seriesKey && seriesScopes[seriesKey]) || 'instance';
+
+    const getEditContext = (event: EventWithCalendarId): EditContext => {
+        const calendar = calendars.find(c => c.id === event.calendarId);
+        return { calendarName: calendar?.summary || event.calendarId, timeZone: calendar?.timeZone || getBrowserTimeZone() };
+    };
+
+    const buildPreviewItem = (event: EventWithCalendarId): EditPreviewItem => {
+        const context = getEditContext(event);
+        const patch = buildEventPatch(event, bulkUpdates, context);
+        const warning = bulkUpdates.shift && isRecurringShiftRefused(event, bulkUpdates.shift, context)
+            ? 'La ripetizione di questa serie (mensile, annuale, ogni N settimane con giorni indicati o con regole particolari) non si può spostare mantenendo le stesse occorrenze: la serie non verrà spostata.'
+            : undefined;
+        return { event, patch, changes: diffEventPatch(event, patch), warning };
+    };
+
+    // Modifica delle occorrenze selezionate di una serie secondo la portata scelta: "tutta la serie" modifica l'evento
+    // principale; "questa e le successive" divide la serie e modifica la nuova serie che parte dalla prima occorrenza selezionata
+    const buildSeriesPreviewItem = async (instances: EventWithCalendarId[], scope: Exclude<SeriesScope, 'instance'>): Promise<EditPreviewItem> => {
+        const { calendarId, recurringEventId } = instances[0];
+        const master = { ...(await gcal.getEvent(calendarId, recurringEventId!)), calendarId };
+        const cutoff = getOriginalStart(getEarliestInstance(instances));
+        if (scope === 'series' || startsSeries(master, cutoff)) {
+            return { ...buildPreviewItem(master), scope: 'series' };
+        }
+        const original = master.recurrence || [];
+        const occurrencesBefore = original.some(line => /COUNT=/i.test(line))
+            ? await gcal.countInstancesBefore(calendarId, master.id, getStartInstant(cutoff))
+            : 0;
+        const continuation = { ...buildSeriesContinuation(master, cutoff, continueRecurrence(original, occurrencesBefore)), calendarId };
+        return {
+            ...buildPreviewItem(continuation),
+            scope: 'following',
+            split: { masterId: master.id, original, truncated: truncateRecurrence(original, cutoff) },
+        };
+    };
+
+    // Prova a vuoto: calcola per ogni evento selezionato la patch e i campi che cambierebbero, senza inviare nulla
+    const handlePreviewUpdates = async () => {
+        if (selectedEventIds.size === 0) return;
+        if (!hasBulkUpdates(bulkUpdates)) {
+            setError({ title: 'Nessuna Modifica', message: 'Per favore, inserisci almeno una modifica da applicare.' });
+            return;
+        }
+        const textError = [bulkUpdates.summary, bulkUpdates.location, bulkUpdates.description].map(getTextEditError).find(Boolean);
+        if (textError) {
+            setError({ title: 'Modifica Non Valida', message: textError });
             return;
         }
 
+        setIsPreparingPreview(true);
+        try {
+            const items: EditPreviewItem[] = [];
+            for (const group of groupBySeries(events.filter(e => selectedEventIds.has(e.id)))) {
+                const scope = getSeriesScope(group.seriesKey);
+                if (scope === 'instance') items.push(...group.events.map(buildPreviewItem));
+                else items.push(await buildSeriesPreviewItem(group.events, scope));
+            }
+            setError(null);
+            setPreview(items);
+            // Gli eventi che resterebbero invariati sono esclusi fin dall'inizio
+            setExcludedIds(new Set(items.filter(item => item.changes.length === 0).map(item => item.event.id)));
+        } catch (err: any) {
+            setError({ title: gcal.getErrorTitle(err, 'Errore durante la lettura della serie'), message: err.message });
+        } finally {
+            setIsPreparingPreview(false);
+        }
+    };
+
+    const handleToggleExcluded = (eventId: string) => {
+        setExcludedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(eventId)) next.delete(eventId);
+            else next.add(eventId);
+            return next;
+        });
+    };
+
+    const handleApplyPreview = async () => {
+        if (!preview) return;
+        const items = preview.filter(item => !excludedIds.has(item.event.id) && item.changes.length > 0);
+        if (items.length === 0) return;
+
         setIsUpdating(true);
-        setUpdateProgress({ current: 0, total: totalToUpdate });
+        setUpdateProgress({ current: 0, total: items.length });
         setError(null);
 
-        const selectedEvents = events.filter(e => selectedEventIds.has(e.id));
-        const BATCH_SIZE = 5;
-        const failedUpdates: any[] = [];
+        try {
+            // Le nuove serie delle serie divise vengono create per prime: la vecchia serie si interrompe solo se
+            // la nuova esiste, così nessuna occorrenza va persa
+            const splits = items.filter(item => item.split);
+            const inserted = splits.length > 0
+                ? await gcal.executeBatch(splits.map(({ event, patch }) => ({
+                    kind: 'insert', calendarId: event.calendarId, resource: mergeEventPatch(buildRestoreResource(event), patch),
+                })))
+                : [];
+            const insertResults = new Map(splits.map((item, index) => [item, inserted[index]]));
+            const applicable = items.filter(item => !item.split || insertResults.get(item)!.ok);
 
-        // Helper per formattare la data con il nuovo orario preservando la data originale
-        const applyTimeToDate = (originalDateTime: string, newTime: string) => {
-            const date = new Date(originalDateTime);
-            const [hours, minutes] = newTime.split(':').map(Number);
-            date.setHours(hours, minutes, 0, 0);
-            return date.toISOString();
-        };
+            // Le modifiche vengono inviate in richieste batch da 50
+            const results = await gcal.executeBatch(
+                applicable.map(({ event, patch, split }) => (split
+                    ? { kind: 'patch', calendarId: event.calendarId, eventId: split.masterId, resource: { recurrence: split.truncated } }
+                    : { kind: 'patch', calendarId: event.calendarId, eventId: event.id, resource: patch })),
+                { onProgress: (current, total) => setUpdateProgress({ current, total }) }
+            );
 
-        try {
-            for (let i = 0; i < selectedEvents.length; i += BATCH_SIZE) {
-                const batch = selectedEvents.slice(i, i + BATCH_SIZE);
-                
-                await Promise.allSettled(
-                    batch.map(async (event) => {
-                        const resource: any = {};
-                        if (bulkUpdates.summary) resource.summary = bulkUpdates.summary;
-                        if (bulkUpdates.location) resource.location = bulkUpdates.location;
-                        if (bulkUpdates.description) resource.description = bulkUpdates.description;
-                        
-                        const currentStart = event.start.dateTime || event.start.date || '';
-                        const currentEnd = event.end.dateTime || event.end.date || '';
-
-                        if (bulkUpdates.startTime) {
-                            resource.start = { dateTime: applyTimeToDate(currentStart, bulkUpdates.startTime) };
-                        }
-
-                        if (bulkUpdates.endTime) {
-                            resource.end = { dateTime: applyTimeToDate(currentEnd, bulkUpdates.endTime) };
-                        }
-                        
-                        if (bulkUpdates.duration) {
-                            const minutes = parseInt(bulkUpdates.duration);
-                            if (!isNaN(minutes)) {
-                                // Se startTime è stato cambiato in questo batch, usa quello come riferimento
-                                const startRef = bulkUpdates.startTime 
-                                    ? applyTimeToDate(currentStart, bulkUpdates.startTime)
-                                    : currentStart;
-                                
-                                const start = new Date(startRef);
-                                const newEnd = new Date(start.getTime() + minutes * 60000);
-                                resource.end = { dateTime: newEnd.toISOString() };
-                            }
-                        }
-
-                        try {
-                            await gcal.patchEvent(event.calendarId, event.id, resource);
-                        } catch (e: any) {
-                            failedUpdates.push({ event, error: e.message });
-                        }
-                    })
-                );
-
-                setUpdateProgress({ current: Math.min(i + BATCH_SIZE, totalToUpdate), total: totalToUpdate });
-                if (i + BATCH_SIZE < selectedEvents.length) await new Promise(r => setTimeout(r, 500));
+            // Se la vecchia serie non si è interrotta la nuova ne duplicherebbe le occorrenze: la si elimina subito
+            const untruncated = applicable.filter((item, index) => item.split && !results[index].ok);
+            const removed = untruncated.length > 0
+                ? await gcal.executeBatch(untruncated.map((item): gcal.BatchOperation => ({
+                    kind: 'delete', calendarId: item.event.calendarId, eventId: (insertResults.get(item)!.result as gcal.GCalEvent).id,
+                })))
+                : [];
+            const duplicated = untruncated.filter((_, index) => !removed[index].ok);
+
+            // Si conserva lo stato precedente solo degli eventi effettivamente modificati o creati
+            const snapshots: EditSnapshot[] = [];
+            applicable.forEach((item, index) => {
+                const { event, patch, split } = item;
+                if (split) {
+                    const created = insertResults.get(item)!.result as gcal.GCalEvent;
+                    if (results[index].ok || duplicated.includes(item)) {
+                        snapshots.push({ calendarId: event.calendarId, eventId: created.id, summary: created.summary, revert: {}, created: true });
+                    }
+                    if (results[index].ok) {
+                        snapshots.push({ calendarId: event.calendarId, eventId: split.masterId, summary: event.summary, revert: { recurrence: split.original } });
+                    }
+                } else if (results[index].ok) {
+                    snapshots.push({ calendarId: event.calendarId, eventId: event.id, summary: event.summary, revert: buildRevertPatch(event, patch) });
+                }
+            });
+            const journal = snapshots.length > 0 ? { appliedAt: new Date().toISOString(), account: user?.email || '', snapshots } : null;
+            saveLastEdit(journal);
+            setLastEdit(journal);
+
+            const failed = [...inserted, ...results].filter(result => !result.ok);
+            if (duplicated.length > 0) {
+                const names = duplicated.map(({ event }) => `"${event.summary || '(senza titolo)'}" dal ${new Date(getStartInstant(event.start)).toLocaleDateString('it-IT')}`).join(', ');
+                setError({
+                    title: 'Serie Duplicate',
+                    message: `Non è stato possibile interrompere né annullare la divisione delle serie ${names}: da quella data le occorrenze compaiono due volte, nella serie originale e nella nuova. Usa "Annulla modifica" per eliminare le nuove serie. ${gcal.describeBatchFailures(failed)}`,
+                });
+            } else if (failed.length > 0) {
+                setError({ 
+                    title: 'Modifica Parziale', 
+                    message: `${failed.length} eventi su ${items.length} non sono stati aggiornati. ${gcal.describeBatchFailures(failed)}` 
+                });
+            } else {
+                setBulkUpdates(emptyBulkUpdates);
+                setSelectedEventIds(new Set());
             }
+            setPreview(null);
+            executeSearch(manualFilters);
         } catch (e: any) {
             setError({ title: 'Errore Critico', message: "Errore durante l'aggiornamento in blocco." });
         } finally {
             setIsUpdating(false);
             setUpdateProgress(null);
-            
-            if (failedUpdates.length > 0) {
-                setError({ 
-                    title: 'Modifica Parziale', 
-                    message: `${failedUpdates.length} eventi su ${totalToUpdate} non sono stati aggiornati.` 
+        }
+    };
+
+    // Riporta tutti gli eventi dell'ultima modifica allo stato precedente
+    const handleRevertEdit = async () => {
+        if (!lastEdit) return;
+        setIsReverting(true);
+        setError(null);
+
+        const results = await gcal.executeBatch(lastEdit.snapshots.map((snapshot): gcal.BatchOperation => (snapshot.created
+            ? { kind: 'delete', calendarId: snapshot.calendarId, eventId: snapshot.eventId }
+            : { kind: 'patch', calendarId: snapshot.calendarId, eventId: snapshot.eventId, resource: snapshot.revert })));
+        // Gli eventi non ripristinati restano nell'istantanea, così si può riprovare
+        const remaining = lastEdit.snapshots.filter((_, index) => !results[index].ok);
+        const journal = remaining.length > 0 ? { ...lastEdit, snapshots: remaining } : null;
+        saveLastEdit(journal);
+        setLastEdit(journal);
+
+        if (remaining.length > 0) {
+            setError({
+                title: 'Annullamento Parziale',
+                message: `${remaining.length} eventi su ${results.length} non sono stati riportati allo stato precedente. ${gcal.describeBatchFailures(results.filter(r => !r.ok))}`
+            });
+        }
+        setIsReverting(false);
+        if (searchPerformed) executeSearch(manualFilters);
+    };
+
+    // Sposta (events.move) o copia gli eventi selezionati in un altro calendario
+    const handleTransfer = async (mode: 'move' | 'copy') => {
+        const destination = calendars.find(c => c.id === transferCalendarId);
+        if (!destination) return;
+        // Spostare un evento nel calendario in cui si trova già non ha effetto
+        const items = events.filter(e => selectedEventIds.has(e.id) && (mode === 'copy' || e.calendarId !== destination.id));
+        if (items.length === 0) {
+            setError({ title: 'Nessun Evento da Spostare', message: `Gli eventi selezionati si trovano già in "${destination.summary}".` });
+            return;
+        }
+        const action = mode === 'move' ? 'Spostare' : 'Copiare';
+        if (!window.confirm(`${action} ${items.length} eventi nel calendario "${destination.summary}"?`)) return;
+
+        setIsUpdating(true);
+        setUpdateProgress({ current: 0, total: items.length });
+        setError(null);
+
+        try {
+            const transfer = mode === 'move' ? gcal.moveEvents : gcal.copyEvents;
+            const results = await transfer(items, destination.id, {
+                onProgress: (current, total) => setUpdateProgress({ current, total })
+            });
+
+            const failed = results.filter(result => !result.ok);
+            if (failed.length > 0) {
+                setError({
+                    title: mode === 'move' ? 'Spostamento Parziale' : 'Copia Parziale',
+                    message: `${failed.length} eventi su ${items.length} non sono stati ${mode === 'move' ? 'spostati' : 'copiati'}. ${gcal.describeBatchFailures(failed)}`
                 });
             } else {
-                alert("Aggiornamento completato con successo!");
-                setBulkUpdates({ summary: '', location: '', description: '', startTime: '', endTime: '', duration: '' });
                 setSelectedEventIds(new Set());
-                executeSearch(manualFilters); 
             }
+            executeSearch(manualFilters);
+        } catch (e: any) {
+            setError({ title: 'Errore Critico', message: mode === 'move' ? "Errore durante lo spostamento in blocco." : "Errore durante la copia in blocco." });
+        } finally {
+            setIsUpdating(false);
+            setUpdateProgress(null);
         }
     };
 
@@ -273,19 +455,53 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
         else setSelectedEventIds(new Set(events.map(e => e.id)));
     };
 
-    if (gcalState === 'initial' || gcalState === 'authenticating') {
+    const handleSelectSeries = (seriesEvents: EventWithCalendarId[]) => {
+        setSelectedEventIds(prev => {
+            const next = new Set(prev);
+            const allSelected = seriesEvents.every(event => prev.has(event.id));
+            seriesEvents.forEach(event => (allSelected ? next.delete(event.id) : next.add(event.id)));
+            return next;
+        });
+    };
+
+    // Riga di un evento nei risultati della ricerca
+    const renderEventRow = (event: EventWithCalendarId) => (
+        <div key={event.id} className="grid grid-cols-[auto,2fr,1fr,1fr] gap-4 px-6 py-5 items-center hover:bg-accent/40 transition-colors text-sm group">
+            <input type="checkbox" checked={selectedEventIds.has(event.id)} onChange={() => {
+                const newSet = new Set(selectedEventIds);
+                if (newSet.has(event.id)) newSet.delete(event.id);
+                else newSet.add(event.id);
+                setSelectedEventIds(newSet);
+            }} className="w-5 h-5 text-indigo-500 bg-secondary border-border rounded focus:ring-indigo-500"/>
+            <div>
+                <p className="font-bold text-foreground group-hover:text-indigo-400 transition-colors">{event.summary}</p>
+                <p className="text-xs text-muted-foreground line-clamp-1 mt-0.5">{event.description || 'Nessuna descrizione'}</p>
+            </div>
+            <div className="text-muted-foreground font-medium">
+                {new Date(event.start.dateTime || event.start.date || '').toLocaleString('it-IT', {day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit'})}
+            </div>
+            <div className="text-muted-foreground italic truncate">{event.location || '—'}</div>
+        </div>
+    );
+
+    if (status === 'loading') {
+        return <div className="text-center p-8"><Loader /><p className="mt-4 text-muted-foreground">Caricamento dati...</p></div>;
+    }
+
+    if (status !== 'authenticated') {
         return (
             <div className="text-center p-8 bg-card rounded-2xl border border-border shadow-xl">
                 <h2 className="text-2xl font-bold mb-3">Modifica Massiva Eventi</h2>
                 <p className="text-muted-foreground mb-8 max-w-xl mx-auto">
                     Connettiti a Google per trovare e aggiornare contemporaneamente più eventi nel tuo calendario.
                 </p>
+                {sessionError && <p className="text-sm text-destructive mb-6">{sessionError.title}: {sessionError.message}</p>}
                 <div className="flex justify-center items-center space-x-4">
                      <button onClick={() => setPage('dashboard')} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-3 px-6 rounded-full inline-flex items-center space-x-3 transition-all">
                        <ArrowLeftIcon className="h-5 w-5"/> <span>Indietro</span>
                     </button>
-                    <button onClick={handleAuth} disabled={gcalState === 'authenticating'} className="bg-primary hover:bg-primary/90 disabled:bg-muted text-primary-foreground font-bold py-3 px-6 rounded-full inline-flex items-center space-x-3 transition-all">
-                        {gcalState === 'authenticating' ? <Loader className="h-5 w-5"/> : <GoogleIcon className="h-5 w-5" />}
+                    <button onClick={signIn} disabled={status === 'authenticating'} className="bg-primary hover:bg-primary/90 disabled:bg-muted text-primary-foreground font-bold py-3 px-6 rounded-full inline-flex items-center space-x-3 transition-all">
+                        {status === 'authenticating' ? <Loader className="h-5 w-5"/> : <GoogleIcon className="h-5 w-5" />}
                         <span>Connetti Google Calendar</span>
                     </button>
                 </div>
@@ -295,9 +511,7 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
 
     return (
         <div className="animate-fade-in space-y-6 max-w-5xl mx-auto">
-            <div className="text-center">
-                 <p className="text-muted-foreground">Accesso effettuato come <span className="font-semibold text-foreground">{user?.email}</span></p>
-            </div>
+            <GoogleAccountBar />
 
             {/* Error Message */}
             {error && (
@@ -312,6 +526,23 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
                 </div>
             )}
 
+            {/* Annullamento dell'ultima modifica in blocco */}
+            {lastEdit && lastEdit.account === user?.email && (
+                <div className="bg-indigo-500/5 border border-indigo-500/20 p-4 rounded-xl flex flex-wrap justify-between items-center gap-3 text-sm animate-fade-in">
+                    <span className="text-foreground">
+                        Ultima modifica: {lastEdit.snapshots.length} eventi aggiornati alle {new Date(lastEdit.appliedAt).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}.
+                    </span>
+                    <button
+                        onClick={handleRevertEdit}
+                        disabled={isReverting || isUpdating}
+                        className="bg-secondary hover:bg-muted disabled:opacity-50 text-secondary-foreground font-semibold py-2 px-4 rounded-xl inline-flex items-center space-x-2 transition-colors"
+                    >
+                        {isReverting && <Loader className="h-4 w-4" />}
+                        <span>Annulla modifica</span>
+                    </button>
+                </div>
+            )}
+
             {/* Calendar Selector */}
             <div className="max-w-4xl mx-auto" ref={calendarDropdownRef}>
                 <div className="relative">
@@ -361,10 +592,28 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
                         <input type="time" value={manualFilters.startTime} onChange={e => setManualFilters(f => ({...f, startTime: e.target.value}))} className="bg-input border border-border text-foreground text-sm rounded-xl p-3"/>
                     </div>
                     <div className="flex flex-col space-y-1 lg:col-span-2">
-                         <label className="text-xs text-muted-foreground ml-1">Testo / Luogo</label>
+                        <div className="flex justify-between items-center">
+                            <label className="text-xs text-muted-foreground ml-1">Testo / Luogo</label>
+                            <label className="flex items-center space-x-1.5 text-xs text-muted-foreground cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={manualFilters.textIsRegex}
+                                    onChange={e => setManualFilters(f => ({ ...f, textIsRegex: e.target.checked }))}
+                                    className="w-3.5 h-3.5 text-primary bg-secondary border-border rounded focus:ring-ring"
+                                />
+                                <span>Regex</span>
+                            </label>
+                        </div>
                         <input type="text" placeholder="Cerca..." value={manualFilters.text} onChange={e => setManualFilters(f => ({...f, text: e.target.value}))} className="bg-input border border-border text-foreground text-sm rounded-xl p-3"/>
                     </div>
                 </div>
+                <AdvancedFilters
+                    value={manualFilters}
+                    onChange={setManualFilters}
+                    isOpen={showAdvancedFilters}
+                    onToggle={() => setShowAdvancedFilters(open => !open)}
+                    inputClassName="bg-input border border-border text-foreground text-sm rounded-xl p-3 w-full"
+                />
                 <div className="text-right">
                     <button onClick={() => executeSearch(manualFilters)} disabled={isSearching} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-3 px-8 rounded-xl inline-flex items-center space-x-2 transition-all">
                         {isSearching ? <Loader className="h-5 w-5"/> : <SearchIcon className="h-5 w-5" />}
@@ -373,6 +622,17 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
                 </div>
             </div>
 
+            {/* Search Progress */}
+            {isSearching && loadedCount !== null && (
+                <div className="text-center py-4 animate-fade-in">
+                    <Loader />
+                    <p className="mt-2 text-muted-foreground">Ricerca in corso... caricati {loadedCount} eventi</p>
+                    <button onClick={handleCancelSearch} className="mt-3 bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-1.5 px-4 rounded-xl text-sm transition-colors">
+                        Annulla
+                    </button>
+                </div>
+            )}
+
             {/* Massive Edit Form */}
             {selectedEventIds.size > 0 && (
                 <div className="bg-indigo-500/5 border border-indigo-500/20 p-8 rounded-2xl shadow-2xl animate-fade-in-down">
@@ -384,17 +644,27 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
                         <button onClick={() => setSelectedEventIds(new Set())} className="p-2 hover:bg-indigo-500/10 rounded-full transition-colors"><XIcon className="h-6 w-6"/></button>
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                        <TextEditInput label="Oggetto" placeholder="Nuovo titolo..." edit={bulkUpdates.summary} onChange={summary => setBulkUpdates(b => ({...b, summary}))}/>
+                        <TextEditInput label="Luogo" placeholder="Nuovo luogo..." edit={bulkUpdates.location} onChange={location => setBulkUpdates(b => ({...b, location}))}/>
+                        <TextEditInput label="Descrizione" placeholder="Nuova descrizione..." edit={bulkUpdates.description} onChange={description => setBulkUpdates(b => ({...b, description}))}/>
                         <div className="space-y-2">
-                            <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider px-1">Oggetto</label>
-                            <input type="text" placeholder="Nuovo titolo..." value={bulkUpdates.summary} onChange={e => setBulkUpdates(b => ({...b, summary: e.target.value}))} className="bg-input border border-border text-sm rounded-xl p-3.5 w-full focus:ring-indigo-500"/>
+                            <label htmlFor="massive-color" className="text-xs font-medium text-muted-foreground uppercase tracking-wider px-1">Colore</label>
+                            <EventColorSelect
+                                id="massive-color"
+                                value={bulkUpdates.colorId}
+                                onChange={colorId => setBulkUpdates(b => ({...b, colorId}))}
+                                emptyLabel="Invariato"
+                                className="bg-input border border-border text-sm rounded-xl p-3.5 w-full focus:ring-indigo-500"
+                            />
                         </div>
                         <div className="space-y-2">
-                            <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider px-1">Luogo</label>
-                            <input type="text" placeholder="Nuovo luogo..." value={bulkUpdates.location} onChange={e => setBulkUpdates(b => ({...b, location: e.target.value}))} className="bg-input border border-border text-sm rounded-xl p-3.5 w-full focus:ring-indigo-500"/>
-                        </div>
-                        <div className="space-y-2">
-                            <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider px-1">Descrizione</label>
-                            <input type="text" placeholder="Nuova descrizione..." value={bulkUpdates.description} onChange={e => setBulkUpdates(b => ({...b, description: e.target.value}))} className="bg-input border border-border text-sm rounded-xl p-3.5 w-full focus:ring-indigo-500"/>
+                            <label htmlFor="massive-shift" className="text-xs font-medium text-muted-foreground uppercase tracking-wider px-1">Sposta di</label>
+                            <TimeShiftEditor
+                                id="massive-shift"
+                                value={bulkUpdates.shift}
+                                onChange={shift => setBulkUpdates(b => ({...b, shift}))}
+                                inputClassName="bg-input border border-border text-sm rounded-xl p-3.5 w-full focus:ring-indigo-500"
+                            />
                         </div>
                         <div className="space-y-2">
                             <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider px-1">Ora Inizio</label>
@@ -413,6 +683,13 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
                         </div>
                     </div>
                     
+                    <p className="mt-4 px-1 text-xs text-muted-foreground">
+                        Nei testi puoi usare i valori attuali di ogni evento: {templatePlaceholders.map(p => (
+                            <span key={p.key} title={p.description} className="font-mono text-indigo-400 mr-1.5">{`{${p.key}}`}</span>
+                        ))}
+                        — con una ricerca regex, <span className="font-mono text-indigo-400">$1</span>, <span className="font-mono text-indigo-400">$2</span>... inseriscono i gruppi catturati.
+                    </p>
+
                     {updateProgress && (
                         <div className="mt-6 w-full max-w-md mx-auto space-y-2">
                             <div className="flex justify-between text-xs text-indigo-400">
@@ -428,18 +705,125 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
                         </div>
                     )}
 
-                    <div className="mt-8 text-center">
-                        <button onClick={handleUpdateSelected} disabled={isUpdating} className="bg-indigo-500 hover:bg-indigo-600 text-white font-bold py-4 px-12 rounded-full shadow-2xl shadow-indigo-500/40 flex items-center justify-center space-x-3 mx-auto transition-all transform hover:scale-105 active:scale-95">
-                            {isUpdating ? <Loader className="h-5 w-5"/> : <PencilLineIcon className="h-5 w-5" />}
-                            <span>{isUpdating ? `Aggiornamento in corso...` : `Applica Modifiche`}</span>
-                        </button>
+                    {/* Anteprima: differenze campo per campo, con la possibilità di escludere singoli eventi */}
+                    {preview && (
+                        <div className="mt-8 bg-card border border-border rounded-2xl overflow-hidden animate-fade-in">
+                            <div className="px-6 py-4 bg-secondary/50 flex justify-between items-center">
+                                <h4 className="font-bold text-foreground">Anteprima delle Modifiche</h4>
+                                <span className="text-xs text-muted-foreground">
+                                    {preview.filter(item => !excludedIds.has(item.event.id)).length} di {preview.length} eventi verranno modificati
+                                </span>
+                            </div>
+                            <div className="max-h-[50vh] overflow-y-auto divide-y divide-border">
+                                {preview.map(({ event, changes, scope, warning }) => (
+                                    <div key={event.id} className={`grid grid-cols-[auto,1fr,2fr] gap-4 px-6 py-4 text-sm ${excludedIds.has(event.id) ? 'opacity-50' : ''}`}>
+                                        <input
+                                            type="checkbox"
+                                            checked={!excludedIds.has(event.id)}
+                                            disabled={changes.length === 0}
+                                            onChange={() => handleToggleExcluded(event.id)}
+                                            className="w-5 h-5 text-indigo-500 bg-secondary border-border rounded focus:ring-indigo-500"
+                                            aria-label={`Includi ${event.summary} nella modifica`}
+                                        />
+                                        <div>
+                                            <p className="font-bold text-foreground">{event.summary}</p>
+                                            {scope && (
+                                                <p className="flex items-center gap-1 text-xs text-indigo-400 mt-0.5">
+                                                    <RepeatIcon className="h-3.5 w-3.5" />
+                                                    <span>{scope === 'series' ? 'Tutta la serie' : 'Nuova serie dalla prima occorrenza selezionata'}</span>
+                                                </p>
+                                            )}
+                                            {warning && <p className="text-xs text-destructive mt-1">{warning}</p>}
+                                        </div>
+                                        {changes.length === 0 ? (
+                                            <p className="text-xs text-muted-foreground italic">Nessuna modifica</p>
+                                        ) : (
+                                            <table className="w-full text-xs">
+                                                <tbody>
+                                                    {changes.map(change => (
+                                                        <tr key={change.field} className="align-top">
+                                                            <td className="pr-3 py-0.5 text-muted-foreground uppercase tracking-wider whitespace-nowrap">{editableFieldLabels[change.field]}</td>
+                                                            <td className="pr-3 py-0.5 text-destructive line-through break-words">{change.before || '—'}</td>
+                                                            <td className="py-0.5 text-green-500 break-words">{change.after || '—'}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="mt-8 flex flex-wrap justify-center gap-4">
+                        {preview ? (
+                            <>
+                                <button onClick={() => setPreview(null)} disabled={isUpdating} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-4 px-8 rounded-full transition-all">
+                                    Torna alle Modifiche
+                                </button>
+                                <button
+                                    onClick={handleApplyPreview}
+                                    disabled={isUpdating || preview.every(item => excludedIds.has(item.event.id))}
+                                    className="bg-indigo-500 hover:bg-indigo-600 disabled:bg-muted text-white font-bold py-4 px-12 rounded-full shadow-2xl shadow-indigo-500/40 flex items-center justify-center space-x-3 transition-all transform hover:scale-105 active:scale-95"
+                                >
+                                    {isUpdating ? <Loader className="h-5 w-5"/> : <PencilLineIcon className="h-5 w-5" />}
+                                    <span>{isUpdating ? `Aggiornamento in corso...` : `Applica a ${preview.filter(item => !excludedIds.has(item.event.id)).length} Eventi`}</span>
+                                </button>
+                            </>
+                        ) : (
+                            <button onClick={handlePreviewUpdates} disabled={isPreparingPreview} className="bg-indigo-500 hover:bg-indigo-600 disabled:bg-muted text-white font-bold py-4 px-12 rounded-full shadow-2xl shadow-indigo-500/40 flex items-center justify-center space-x-3 transition-all transform hover:scale-105 active:scale-95">
+                                {isPreparingPreview ? <Loader className="h-5 w-5"/> : <SearchIcon className="h-5 w-5" />}
+                                <span>Anteprima Modifiche</span>
+                            </button>
+                        )}
                     </div>
+
+                    {/* Sposta o copia: agisce direttamente sugli eventi selezionati, senza anteprima */}
+                    {!preview && (
+                        <div className="mt-8 pt-6 border-t border-indigo-500/20 flex flex-wrap items-end justify-center gap-3">
+                            <div className="space-y-2 w-full sm:w-72">
+                                <label htmlFor="transfer-calendar" className="text-xs font-medium text-muted-foreground uppercase tracking-wider px-1">Altro calendario</label>
+                                <select
+                                    id="transfer-calendar"
+                                    value={transferCalendarId}
+                                    onChange={e => setTransferCalendarId(e.target.value)}
+                                    className="bg-input border border-border text-sm rounded-xl p-3.5 w-full focus:ring-indigo-500"
+                                >
+                                    <option value="">Scegli un calendario...</option>
+                                    {calendars.filter(cal => cal.accessRole === 'owner' || cal.accessRole === 'writer').map(cal => (
+                                        <option key={cal.id} value={cal.id}>{cal.summary}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <button
+                                onClick={() => handleTransfer('move')}
+                                disabled={!transferCalendarId || isUpdating}
+                                className="bg-secondary hover:bg-muted disabled:opacity-50 text-secondary-foreground font-bold py-3.5 px-6 rounded-xl transition-colors"
+                                title="Sposta gli eventi selezionati nel calendario scelto"
+                            >
+                                Sposta
+                            </button>
+                            <button
+                                onClick={() => handleTransfer('copy')}
+                                disabled={!transferCalendarId || isUpdating}
+                                className="bg-secondary hover:bg-muted disabled:opacity-50 text-secondary-foreground font-bold py-3.5 px-6 rounded-xl transition-colors"
+                                title="Crea nel calendario scelto una copia degli eventi selezionati"
+                            >
+                                Copia
+                            </button>
+                        </div>
+                    )}
                 </div>
             )}
 
             {/* Results Table */}
             {searchPerformed && !isSearching && events.length > 0 && (
                 <div className="animate-fade-in pb-12">
+                    <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                        <p className="text-sm text-muted-foreground">Trovati {events.length} eventi. {selectedEventIds.size} selezionati.</p>
+                        <BackupExportButtons events={events} disabled={isUpdating} />
+                    </div>
                     <div className="bg-card border border-border rounded-2xl overflow-hidden shadow-xl">
                         <div className="grid grid-cols-[auto,2fr,1fr,1fr] gap-4 px-6 py-4 bg-secondary/50 text-xs font-bold text-muted-foreground uppercase tracking-widest items-center">
                             <input type="checkbox" checked={selectedEventIds.size === events.length} onChange={handleSelectAll} className="w-5 h-5 text-indigo-500 bg-secondary border-border rounded focus:ring-indigo-500"/>
@@ -448,24 +832,39 @@ export const MassiveEditView: React.FC<MassiveEditViewProps> = ({ setPage }) =>
                             <div>Luogo</div>
                         </div>
                         <div className="max-h-[60vh] overflow-y-auto divide-y divide-border">
-                            {events.map(event => (
-                                <div key={event.id} className="grid grid-cols-[auto,2fr,1fr,1fr] gap-4 px-6 py-5 items-center hover:bg-accent/40 transition-colors text-sm group">
-                                    <input type="checkbox" checked={selectedEventIds.has(event.id)} onChange={() => {
-                                        const newSet = new Set(selectedEventIds);
-                                        if (newSet.has(event.id)) newSet.delete(event.id);
-                                        else newSet.add(event.id);
-                                        setSelectedEventIds(newSet);
-                                    }} className="w-5 h-5 text-indigo-500 bg-secondary border-border rounded focus:ring-indigo-500"/>
-                                    <div>
-                                        <p className="font-bold text-foreground group-hover:text-indigo-400 transition-colors">{event.summary}</p>
-                                        <p className="text-xs text-muted-foreground line-clamp-1 mt-0.5">{event.description || 'Nessuna descrizione'}</p>
+                            {groupBySeries(events).map(group => {
+                                if (!group.seriesKey) return renderEventRow(group.events[0]);
+                                const seriesKey = group.seriesKey;
+                                const selectedCount = group.events.filter(event => selectedEventIds.has(event.id)).length;
+                                return (
+                                    <div key={seriesKey} className="divide-y divide-border">
+                                        <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 bg-indigo-500/5 text-xs text-muted-foreground">
+                                            <label className="flex items-center gap-3 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selectedCount === group.events.length}
+                                                    onChange={() => handleSelectSeries(group.events)}
+                                                    className="w-5 h-5 text-indigo-500 bg-secondary border-border rounded focus:ring-indigo-500"
+                                                    aria-label={`Seleziona tutte le occorrenze di ${group.events[0].summary}`}
+                                                />
+                                                <RepeatIcon className="h-4 w-4 text-indigo-400" />
+                                                <span className="font-bold uppercase tracking-widest">Serie ricorrente · {group.events.length} occorrenze · {selectedCount} selezionate</span>
+                                            </label>
+                                            <select
+                                                value={getSeriesScope(seriesKey)}
+                                                onChange={e => setSeriesScopes(prev => ({ ...prev, [seriesKey]: e.target.value as SeriesScope }))}
+                                                className="bg-input border border-border text-foreground text-xs rounded-xl p-2"
+                                                aria-label="Cosa modificare della serie"
+                                            >
+                                                {(Object.keys(seriesScopeLabels) as SeriesScope[]).map(scope => (
+                                                    <option key={scope} value={scope}>{seriesScopeLabels[scope]}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        {group.events.map(renderEventRow)}
                                     </div>
-                                    <div className="text-muted-foreground font-medium">
-                                        {new Date(event.start.dateTime || event.start.date || '').toLocaleString('it-IT', {day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit'})}
-                                    </div>
-                                    <div className="text-muted-foreground italic truncate">{event.location || '—'}</div>
-                                </div>
-                            ))}
+                                );
+                            })}
                         </div>
                     </div>
                 </div>
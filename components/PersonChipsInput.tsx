@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import type { EventPerson } from '../lib/types';
+import { formatPerson, isValidEmail, parsePeopleList } from '../lib/attendees';
+import { XIcon } from './Icons';
+
+interface PersonChipsInputProps {
+    people: EventPerson[];
+    onChange: (people: EventPerson[]) => void;
+    // Numero massimo di persone (es. 1 per l'organizzatore)
+    max?: number;
+    placeholder?: string;
+    ariaLabel: string;
+    hasError?: boolean;
+}
+
+export const PersonChipsInput: React.FC<PersonChipsInputProps> = ({ people, onChange, max, placeholder, ariaLabel, hasError }) => {
+    const [text, setText] = useState('');
+    const isFull = max !== undefined && people.length >= max;
+
+    const commit = (value: string = text) => {
+        const added = parsePeopleList(value).filter(person => !people.some(p => p.email.toLowerCase() === person.email.toLowerCase()));
+        if (added.length > 0) {
+            onChange(max !== undefined ? [...people, ...added].slice(0, max) : [...people, ...added]);
+        }
+        setText('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        // Una virgola dentro un nome tra virgolette non chiude il partecipante
+        const insideQuotes = (text.match(/"/g) || []).length % 2 === 1;
+        if (e.key === 'Enter' || ((e.key === ',' || e.key === ';') && !insideQuotes)) {
+            e.preventDefault();
+            commit();
+        } else if (e.key === 'Backspace' && !text && people.length > 0) {
+            onChange(people.slice(0, -1));
+        }
+    };
+
+    return (
+        <div className={`flex flex-wrap items-center gap-1 bg-input border rounded-md w-full p-1.5 min-h-[42px] ${hasError ? 'border-destructive/50' : 'border-border'}`}>
+            {people.map((person, index) => {
+                const isValid = isValidEmail(person.email);
+                return (
+                    <span
+                        key={`${person.email}-${index}`}
+                        className={`flex items-center gap-1 text-xs rounded-full pl-2 pr-1 py-0.5 ${isValid ? 'bg-secondary text-secondary-foreground' : 'bg-destructive/20 text-destructive'}`}
+                        title={formatPerson(person)}
+                    >
+                        <span className="truncate max-w-[10rem]">{person.name || person.email}</span>
+                        <button
+                            onClick={() => onChange(people.filter((_, i) => i !== index))}
+                            className="p-0.5 rounded-full hover:bg-muted"
+                            aria-label={`Rimuovi ${formatPerson(person)}`}
+                        >
+                            <XIcon className="h-3 w-3" />
+                        </button>
+                    </span>
+                );
+            })}
+            {!isFull && (
+                <input
+                    type="text"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={() => commit()}
+                    onPaste={(e) => {
+                        // Un elenco incollato viene diviso subito in più partecipanti
+                        const pasted = e.clipboardData.getData('text');
+                        if (/[,;\n]/.test(pasted)) {
+                            e.preventDefault();
+                            commit(text + pasted);
+                        }
+                    }}
+                    placeholder={people.length === 0 ? placeholder : undefined}
+                    className="flex-grow min-w-[8rem] bg-transparent text-foreground text-sm p-1 focus:outline-none"
+                    aria-label={ariaLabel}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import type { EventRecurrence, RecurrenceFrequency, Weekday } from '../lib/types';
+import { recurrenceFrequencies, weekdays } from '../lib/recurrence';
+import { XIcon } from './Icons';
+
+interface RecurrenceEditorProps {
+    eventSubject: string;
+    recurrence?: EventRecurrence;
+    onSave: (recurrence: EventRecurrence | undefined) => void;
+    onClose: () => void;
+}
+
+type EndMode = 'never' | 'count' | 'until';
+
+const inputClasses = "bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2.5";
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ eventSubject, recurrence, onSave, onClose }) => {
+    const [frequency, setFrequency] = useState<RecurrenceFrequency | ''>(recurrence?.frequency || '');
+    const [interval, setInterval] = useState(String(recurrence?.interval || 1));
+    const [byDay, setByDay] = useState<Weekday[]>(recurrence?.byDay || []);
+    const [endMode, setEndMode] = useState<EndMode>(recurrence?.count ? 'count' : recurrence?.until ? 'until' : 'never');
+    const [count, setCount] = useState(String(recurrence?.count || ''));
+    const [until, setUntil] = useState(recurrence?.until || '');
+    const [exceptions, setExceptions] = useState((recurrence?.exceptions || []).join(', '));
+
+    const toggleDay = (day: Weekday) => {
+        // Mantiene l'ordine lun-dom indipendentemente dall'ordine di selezione
+        setByDay(prev => weekdays.map(w => w.id).filter(id => (id === day ? !prev.includes(id) : prev.includes(id))));
+    };
+
+    // I valori vengono salvati così come inseriti: eventuali errori sono segnalati da `validateEvent` nella tabella
+    const handleSave = () => {
+        if (!frequency) {
+            onSave(undefined);
+            return;
+        }
+        onSave({
+            frequency,
+            interval: Number(interval),
+            byDay,
+            count: endMode === 'count' ? Number(count) : undefined,
+            until: endMode === 'until' ? until.trim() : undefined,
+            exceptions: exceptions.split(/[,;\s]+/).map(d => d.trim()).filter(Boolean),
+        });
+    };
+
+    const selectedFrequency = recurrenceFrequencies.find(f => f.id === frequency);
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="recurrence-modal-title"
+        >
+            <div
+                className="bg-card text-card-foreground w-full max-w-lg rounded-xl shadow-2xl flex flex-col overflow-hidden"
+                onClick={e => e.stopPropagation()}
+            >
+                <header className="flex justify-between items-center p-4 border-b border-border flex-shrink-0">
+                    <h2 id="recurrence-modal-title" className="text-xl font-bold truncate">Ripetizione: {eventSubject || 'Nuovo evento'}</h2>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-muted" aria-label="Chiudi">
+                        <XIcon className="h-6 w-6" />
+                    </button>
+                </header>
+
+                <main className="p-6 space-y-4">
+                    {recurrence?.unsupported && recurrence.unsupported.length > 0 && (
+                        <p className="text-sm text-destructive bg-destructive/10 border border-destructive/30 rounded-md p-3">
+                            La ripetizione originale usa regole che non possono essere importate ({recurrence.unsupported.join('; ')}).
+                            Salvando, l'evento si ripeterà solo come indicato qui sotto.
+                        </p>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="recurrence-frequency" className="block mb-1 text-sm font-medium text-muted-foreground">Frequenza</label>
+                            <select id="recurrence-frequency" value={frequency} onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | '')} className={inputClasses}>
+                                <option value="">Non si ripete</option>
+                                {recurrenceFrequencies.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                            </select>
+                        </div>
+                        {selectedFrequency && (
+                            <div>
+                                <label htmlFor="recurrence-interval" className="block mb-1 text-sm font-medium text-muted-foreground">Ogni quanti {selectedFrequency.plural}</label>
+                                <input type="number" id="recurrence-interval" min="1" value={interval} onChange={(e) => setInterval(e.target.value)} className={inputClasses} />
+                            </div>
+                        )}
+                    </div>
+
+                    {selectedFrequency && (
+                        <>
+                            <div>
+                                <span className="block mb-1 text-sm font-medium text-muted-foreground">Nei giorni</span>
+                                <div className="flex flex-wrap gap-2">
+                                    {weekdays.map(day => (
+                                        <button
+                                            key={day.id}
+                                            type="button"
+                                            onClick={() => toggleDay(day.id)}
+                                            className={`px-3 py-1.5 rounded-md text-sm font-semibold border transition-colors ${byDay.includes(day.id) ? 'bg-primary text-primary-foreground border-primary' : 'bg-secondary text-secondary-foreground border-border hover:bg-muted'}`}
+                                            aria-pressed={byDay.includes(day.id)}
+                                        >
+                                            {day.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <fieldset>
+                                <legend className="block mb-1 text-sm font-medium text-muted-foreground">Termina</legend>
+                                <div className="space-y-2">
+                                    <label className="flex items-center space-x-2 text-sm">
+                                        <input type="radio" name="recurrence-end" checked={endMode === 'never'} onChange={() => setEndMode('never')} className="h-4 w-4 text-primary border-border bg-input" />
+                                        <span>Mai</span>
+                                    </label>
+                                    <label className="flex items-center space-x-2 text-sm">
+                                        <input type="radio" name="recurrence-end" checked={endMode === 'count'} onChange={() => setEndMode('count')} className="h-4 w-4 text-primary border-border bg-input" />
+                                        <span>Dopo</span>
+                                        <input type="number" min="1" value={count} onChange={(e) => { setCount(e.target.value); setEndMode('count'); }} className={`${inputClasses} !w-24`} aria-label="Numero di ripetizioni" />
+                                        <span>ripetizioni</span>
+                                    </label>
+                                    <label className="flex items-center space-x-2 text-sm">
+                                        <input type="radio" name="recurrence-end" checked={endMode === 'until'} onChange={() => setEndMode('until')} className="h-4 w-4 text-primary border-border bg-input" />
+                                        <span>Il</span>
+                                        <input type="text" value={until} onChange={(e) => { setUntil(e.target.value); setEndMode('until'); }} placeholder="GG-MM-AAAA" className={`${inputClasses} !w-36`} aria-label="Data di fine ripetizione" />
+                                    </label>
+                                </div>
+                            </fieldset>
+
+                            <div>
+                                <label htmlFor="recurrence-exceptions" className="block mb-1 text-sm font-medium text-muted-foreground">Eccezioni (date da saltare)</label>
+                                <input
+                                    type="text"
+                                    id="recurrence-exceptions"
+                                    value={exceptions}
+                                    onChange={(e) => setExceptions(e.target.value)}
+                                    placeholder="Es. 25-12-2025, 01-01-2026"
+                                    className={inputClasses}
+                                />
+                            </div>
+                        </>
+                    )}
+                </main>
+
+                <footer className="p-4 bg-secondary/50 border-t border-border flex justify-end space-x-3">
+                    <button onClick={onClose} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-2 px-6 rounded-md transition-colors">
+                        Annulla
+                    </button>
+                    <button onClick={handleSave} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-6 rounded-md transition-colors">
+                        Salva
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
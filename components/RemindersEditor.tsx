@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { EventReminder, ReminderMethod } from '../lib/types';
+import { reminderMethods, describeReminder, MAX_REMINDERS, MAX_REMINDER_MINUTES } from '../lib/reminders';
+import { XIcon, Trash2Icon, BellIcon } from './Icons';
+
+interface RemindersEditorProps {
+    eventSubject: string;
+    reminders?: EventReminder[];
+    defaultReminder: EventReminder | null;
+    onSave: (reminders: EventReminder[] | undefined) => void;
+    onClose: () => void;
+}
+
+const inputClasses = "bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2.5";
+
+export const RemindersEditor: React.FC<RemindersEditorProps> = ({ eventSubject, reminders, defaultReminder, onSave, onClose }) => {
+    const [useDefault, setUseDefault] = useState(!reminders);
+    const [items, setItems] = useState<EventReminder[]>(reminders || (defaultReminder ? [defaultReminder] : []));
+
+    const updateItem = (index: number, changes: Partial<EventReminder>) => {
+        setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+    };
+
+    const handleAdd = () => {
+        setItems(prev => [...prev, { method: 'popup', minutes: 30 }]);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="reminders-modal-title"
+        >
+            <div
+                className="bg-card text-card-foreground w-full max-w-lg rounded-xl shadow-2xl flex flex-col overflow-hidden"
+                onClick={e => e.stopPropagation()}
+            >
+                <header className="flex justify-between items-center p-4 border-b border-border flex-shrink-0">
+                    <h2 id="reminders-modal-title" className="text-xl font-bold truncate">Promemoria: {eventSubject || 'Nuovo evento'}</h2>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-muted" aria-label="Chiudi">
+                        <XIcon className="h-6 w-6" />
+                    </button>
+                </header>
+
+                <main className="p-6 space-y-4">
+                    <label className="flex items-center space-x-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={useDefault}
+                            onChange={(e) => setUseDefault(e.target.checked)}
+                            className="w-4 h-4 text-primary bg-secondary border-border rounded focus:ring-ring focus:outline-none"
+                        />
+                        <span>
+                            Usa il promemoria predefinito ({defaultReminder ? describeReminder(defaultReminder) : 'nessuno'})
+                        </span>
+                    </label>
+
+                    {!useDefault && (
+                        <div className="space-y-2">
+                            {items.length === 0 && <p className="text-sm text-muted-foreground">Nessun promemoria per questo evento.</p>}
+                            {items.map((item, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <select
+                                        value={item.method}
+                                        onChange={(e) => updateItem(index, { method: e.target.value as ReminderMethod })}
+                                        className={`${inputClasses} !w-36`}
+                                        aria-label="Tipo di promemoria"
+                                    >
+                                        {reminderMethods.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                    </select>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max={MAX_REMINDER_MINUTES}
+                                        value={item.minutes}
+                                        onChange={(e) => updateItem(index, { minutes: parseInt(e.target.value, 10) || 0 })}
+                                        className={`${inputClasses} !w-28`}
+                                        aria-label="Minuti di anticipo"
+                                    />
+                                    <span className="text-sm text-muted-foreground flex-grow">minuti prima</span>
+                                    <button
+                                        onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                                        className="p-2 text-muted-foreground hover:text-destructive hover:bg-accent rounded-full transition-colors"
+                                        title="Rimuovi promemoria"
+                                    >
+                                        <Trash2Icon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                onClick={handleAdd}
+                                disabled={items.length >= MAX_REMINDERS}
+                                className="flex items-center space-x-2 text-sm bg-secondary hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed text-secondary-foreground font-semibold py-2 px-3 rounded-md transition-colors"
+                            >
+                                <BellIcon className="h-4 w-4" />
+                                <span>Aggiungi promemoria</span>
+                            </button>
+                        </div>
+                    )}
+                </main>
+
+                <footer className="p-4 bg-secondary/50 border-t border-border flex justify-end space-x-3">
+                    <button onClick={onClose} className="bg-secondary hover:bg-muted text-secondary-foreground font-bold py-2 px-6 rounded-md transition-colors">
+                        Annulla
+                    </button>
+                    <button onClick={() => onSave(useDefault ? undefined : items)} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-6 rounded-md transition-colors">
+                        Salva
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
@@ -2,6 +2,9 @@
 import React from 'react';
 import { useSettings, availableModels, ModelId } from '../contexts/SettingsContext';
 import { XIcon } from './Icons';
+import { getTimeZoneOptions } from '../lib/timezone';
+import { reminderMethods, MAX_REMINDER_MINUTES } from '../lib/reminders';
+import type { ReminderMethod } from '../lib/types';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -9,7 +12,18 @@ interface SettingsModalProps {
 }
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
-    const { selectedModel, setSelectedModel } = useSettings();
+    const { selectedModel, setSelectedModel, defaultTimeZone, setDefaultTimeZone, defaultReminder, setDefaultReminder } = useSettings();
+
+    const handleReminderMethodChange = (method: ReminderMethod | '') => {
+        setDefaultReminder(method ? { method, minutes: defaultReminder?.minutes ?? 30 } : null);
+    };
+
+    const handleReminderMinutesChange = (value: string) => {
+        const minutes = parseInt(value, 10);
+        if (defaultReminder && !isNaN(minutes) && minutes >= 0 && minutes <= MAX_REMINDER_MINUTES) {
+            setDefaultReminder({ ...defaultReminder, minutes });
+        }
+    };
 
     if (!isOpen) return null;
 
@@ -22,17 +36,17 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
             aria-labelledby="settings-modal-title"
         >
             <div
-                className="bg-card text-card-foreground w-full max-w-lg rounded-xl shadow-2xl flex flex-col overflow-hidden"
+                className="bg-card text-card-foreground w-full max-w-lg max-h-[90vh] rounded-xl shadow-2xl flex flex-col overflow-hidden"
                 onClick={e => e.stopPropagation()}
             >
                 <header className="flex justify-between items-center p-4 border-b border-border flex-shrink-0">
-                    <h2 id="settings-modal-title" className="text-xl font-bold">Impostazioni Modello IA</h2>
+                    <h2 id="settings-modal-title" className="text-xl font-bold">Impostazioni</h2>
                     <button onClick={onClose} className="p-2 rounded-full hover:bg-muted" aria-label="Chiudi impostazioni">
                         <XIcon className="h-6 w-6" />
                     </button>
                 </header>
 
-                <main className="p-6 space-y-4">
+                <main className="p-6 space-y-4 overflow-y-auto">
                     <p className="text-muted-foreground text-sm">
                         Scegli il modello di intelligenza artificiale da utilizzare per le operazioni. Il modello "Flash" è più veloce e consigliato per la maggior parte degli usi.
                     </p>
@@ -65,6 +79,53 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                             ))}
                         </div>
                     </fieldset>
+
+                    <div className="pt-4 border-t border-border">
+                        <label htmlFor="default-time-zone" className="block mb-1 text-sm font-medium text-foreground">Fuso orario predefinito</label>
+                        <p className="text-muted-foreground text-sm mb-2">
+                            Usato per gli eventi che non indicano un fuso orario, sia nei file .ics sia nell'importazione in Google Calendar.
+                        </p>
+                        <select
+                            id="default-time-zone"
+                            value={defaultTimeZone}
+                            onChange={(e) => setDefaultTimeZone(e.target.value)}
+                            className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-full p-2.5"
+                        >
+                            {getTimeZoneOptions().map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                        </select>
+                    </div>
+
+                    <div className="pt-4 border-t border-border">
+                        <span className="block mb-1 text-sm font-medium text-foreground">Promemoria predefinito</span>
+                        <p className="text-muted-foreground text-sm mb-2">
+                            Aggiunto agli eventi importati che non hanno promemoria propri.
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <select
+                                value={defaultReminder?.method || ''}
+                                onChange={(e) => handleReminderMethodChange(e.target.value as ReminderMethod | '')}
+                                className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-40 p-2.5"
+                                aria-label="Tipo di promemoria predefinito"
+                            >
+                                <option value="">Nessuno</option>
+                                {reminderMethods.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                            </select>
+                            {defaultReminder && (
+                                <>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max={MAX_REMINDER_MINUTES}
+                                        value={defaultReminder.minutes}
+                                        onChange={(e) => handleReminderMinutesChange(e.target.value)}
+                                        className="bg-input border border-border text-foreground text-sm rounded-md focus:ring-ring focus:border-primary block w-28 p-2.5"
+                                        aria-label="Minuti di anticipo del promemoria predefinito"
+                                    />
+                                    <span className="text-sm text-muted-foreground">minuti prima</span>
+                                </>
+                            )}
+                        </div>
+                    </div>
                 </main>
 
                 <footer className="p-4 bg-secondary/50 border-t border-border text-right">
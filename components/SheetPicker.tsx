@@ -0,0 +1,67 @@
+import React from 'react';
+import { TableIcon } from './Icons';
+
+export interface WorkbookSheets {
+    fileName: string;
+    sheetNames: string[];
+    selected: string[];
+}
+
+interface SheetPickerProps {
+    workbooks: WorkbookSheets[];
+    onChange: (fileName: string, selected: string[]) => void;
+    disabled: boolean;
+}
+
+// Elenca i fogli delle cartelle di lavoro caricate e permette di scegliere quali elaborare
+export const SheetPicker: React.FC<SheetPickerProps> = ({ workbooks, onChange, disabled }) => {
+    const multiSheetWorkbooks = workbooks.filter(w => w.sheetNames.length > 1);
+    if (multiSheetWorkbooks.length === 0) return null;
+
+    const handleToggle = (workbook: WorkbookSheets, sheetName: string) => {
+        const selected = workbook.selected.includes(sheetName)
+            ? workbook.selected.filter(name => name !== sheetName)
+            : workbook.sheetNames.filter(name => name === sheetName || workbook.selected.includes(name));
+        onChange(workbook.fileName, selected);
+    };
+
+    return (
+        <div className="mt-4 p-4 bg-card border border-border rounded-lg space-y-4 animate-fade-in">
+            {multiSheetWorkbooks.map(workbook => {
+                const allSelected = workbook.selected.length === workbook.sheetNames.length;
+                return (
+                    <div key={workbook.fileName}>
+                        <div className="flex justify-between items-center mb-2">
+                            <h3 className="font-semibold text-foreground flex items-center space-x-2">
+                                <TableIcon className="h-4 w-4 text-primary" />
+                                <span>Fogli di <span className="text-primary">{workbook.fileName}</span></span>
+                                <span className="text-xs font-normal text-muted-foreground">({workbook.selected.length}/{workbook.sheetNames.length} selezionati)</span>
+                            </h3>
+                            <button
+                                onClick={() => onChange(workbook.fileName, allSelected ? [] : workbook.sheetNames)}
+                                disabled={disabled}
+                                className="text-sm text-primary font-semibold hover:text-primary/90 transition-colors"
+                            >
+                                {allSelected ? 'Deseleziona tutti' : 'Seleziona tutti'}
+                            </button>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            {workbook.sheetNames.map(sheetName => (
+                                <label key={sheetName} className={`flex items-center space-x-2 px-3 py-1.5 rounded-md border text-sm cursor-pointer transition-colors ${workbook.selected.includes(sheetName) ? 'border-primary bg-primary/10 text-foreground' : 'border-border text-muted-foreground hover:bg-accent/50'}`}>
+                                    <input
+                                        type="checkbox"
+                                        checked={workbook.selected.includes(sheetName)}
+                                        onChange={() => handleToggle(workbook, sheetName)}
+                                        disabled={disabled}
+                                        className="w-4 h-4 text-primary bg-secondary border-border rounded focus:ring-ring"
+                                    />
+                                    <span>{sheetName}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { Weekday } from '../lib/types';
+import { weekdays } from '../lib/recurrence';
+import { timeShiftUnits } from '../lib/timeShift';
+import type { TimeShift, TimeShiftUnit } from '../lib/timeShift';
+
+interface TimeShiftEditorProps {
+    id?: string;
+    // null: nessuno spostamento
+    value: TimeShift | null;
+    onChange: (shift: TimeShift | null) => void;
+    // Classi dei campi, per adattarsi allo stile della sezione che li ospita
+    inputClassName: string;
+}
+
+const defaultShift: TimeShift = { unit: 'days', amount: 0, weekday: 'MO' };
+
+// Unità dello spostamento e, a seconda dell'unità, quantità (anche negativa) o giorno della settimana di destinazione
+export const TimeShiftEditor: React.FC<TimeShiftEditorProps> = ({ id, value, onChange, inputClassName }) => {
+    const handleUnitChange = (unit: string) => {
+        onChange(unit ? { ...(value || defaultShift), unit: unit as TimeShiftUnit } : null);
+    };
+
+    return (
+        <div className="flex gap-2">
+            <select id={id} value={value?.unit || ''} onChange={e => handleUnitChange(e.target.value)} className={inputClassName}>
+                <option value="">Nessuno</option>
+                {timeShiftUnits.map(unit => <option key={unit.id} value={unit.id}>{unit.label}</option>)}
+            </select>
+            {value && value.unit !== 'weekday' && (
+                <input
+                    type="number"
+                    value={Number.isNaN(value.amount) ? '' : value.amount}
+                    onChange={e => onChange({ ...value, amount: parseInt(e.target.value, 10) })}
+                    className={inputClassName}
+                    placeholder="Es: 7 o -15"
+                    aria-label="Quantità dello spostamento (negativa per anticipare)"
+                />
+            )}
+            {value?.unit === 'weekday' && (
+                <select
+                    value={value.weekday}
+                    onChange={e => onChange({ ...value, weekday: e.target.value as Weekday })}
+                    className={inputClassName}
+                    aria-label="Giorno della settimana di destinazione"
+                >
+                    {weekdays.map(day => <option key={day.id} value={day.id}>{day.label}</option>)}
+                </select>
+            )}
+        </div>
+    );
+};
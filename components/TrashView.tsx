@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import * as gcal from '../services/googleCalendarService';
+import { purgeExpiredTrash, saveTrashBatch, deleteTrashBatch, clearTrash, getPendingEvents, markRestored, trashRetentionOptions } from '../lib/trash';
+import type { TrashBatch, TrashedEvent } from '../lib/trash';
+import { toDDMMYYYY } from '../lib/dateUtils';
+import { Loader } from './Loader';
+import { GoogleIcon, ArrowLeftIcon, RefreshCwIcon, Trash2Icon, XIcon, ChevronDownIcon, ChevronUpIcon } from './Icons';
+import { useGoogleSession } from '../contexts/GoogleSessionContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { GoogleAccountBar } from './GoogleAccountBar';
+
+interface TrashError { title: string; message: string; }
+interface TrashViewProps {
+    setPage: (page: 'dashboard' | 'cleanup') => void;
+}
+
+const formatEventStart = (event: TrashedEvent): string => {
+    return event.start.dateTime
+        ? new Date(event.start.dateTime).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })
+        : toDDMMYYYY(event.start.date || '');
+};
+
+export const TrashView: React.FC<TrashViewProps> = ({ setPage }) => {
+    const { status, user, calendars, signIn } = useGoogleSession();
+    const { trashRetentionDays, setTrashRetentionDays } = useSettings();
+    const [batches, setBatches] = useState<TrashBatch[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<TrashError | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [restoring, setRestoring] = useState<{ batchId: string; current: number; total: number } | null>(null);
+
+    // All'apertura (e quando cambia il periodo di conservazione) si scartano i gruppi scaduti
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        purgeExpiredTrash(trashRetentionDays).then(remaining => {
+            if (cancelled) return;
+            setBatches(remaining);
+            setIsLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [trashRetentionDays]);
+
+    const getCalendarName = (calendarId: string) => calendars.find(c => c.id === calendarId)?.summary || calendarId;
+
+    const handleRestore = async (batch: TrashBatch) => {
+        const pending = getPendingEvents(batch);
+        if (pending.length === 0) return;
+
+        setError(null);
+        setRestoring({ batchId: batch.id, current: 0, total: pending.length });
+        const results = await gcal.restoreEvents(pending, {
+            onProgress: (current, total) => setRestoring({ batchId: batch.id, current, total }),
+        });
+
+        const restoredIds = pending.filter((_, index) => results[index].ok).map(event => event.id);
+        const updated = markRestored(batch, restoredIds);
+        await saveTrashBatch(updated);
+        setBatches(prev => prev.map(b => (b.id === batch.id ? updated : b)));
+
+        const failed = results.filter(result => !result.ok);
+        if (failed.length > 0) {
+            setError({
+                title: 'Ripristino Parziale',
+                message: `${failed.length} eventi su ${pending.length} non sono stati ripristinati. ${gcal.describeBatchFailures(failed)}`
+            });
+        }
+        setRestoring(null);
+    };
+
+    const handleDelete = async (batch: TrashBatch) => {
+        if (getPendingEvents(batch).length > 0
+            && !window.confirm(`Rimuovere definitivamente dal cestino ${batch.events.length} eventi? Non sarà più possibile ripristinarli.`)) {
+            return;
+        }
+        await deleteTrashBatch(batch.id);
+        setBatches(prev => prev.filter(b => b.id !== batch.id));
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Svuotare il cestino? Gli eventi eliminati non potranno più essere ripristinati.')) return;
+        await clearTrash();
+        setBatches([]);
+    };
+
+    return (
+        <div className="animate-fade-in space-y-6">
+            <div className="max-w-4xl mx-auto flex flex-wrap justify-between items-center gap-3">
+                <button
+                    onClick={() => setPage('cleanup')}
+                    className="flex items-center space-x-2 text-sm bg-secondary hover:bg-muted text-secondary-foreground font-semibold py-2 px-3 rounded-md transition-colors"
+                >
+                    <ArrowLeftIcon className="h-4 w-4" />
+                    <span>Torna a Pulisci Calendario</span>
+                </button>
+                {status === 'authenticated' ? (
+                    <GoogleAccountBar />
+                ) : (
+                    <button
+                        onClick={signIn}
+                        disabled={status === 'authenticating' || status === 'loading'}
+                        className="bg-primary hover:bg-primary/90 disabled:bg-muted text-primary-foreground font-bold py-2 px-4 rounded-full inline-flex items-center space-x-2 transition-all duration-300"
+                    >
+                        {status === 'authenticating' || status === 'loading' ? <Loader className="h-4 w-4"/> : <GoogleIcon className="h-4 w-4" />}
+                        <span>Connetti per ripristinare</span>
+                    </button>
+                )}
+            </div>
+
+            <div className="max-w-4xl mx-auto bg-card p-4 rounded-lg border border-border flex flex-wrap justify-between items-center gap-3">
+                <div>
+                    <h2 className="text-lg font-bold text-foreground">Cestino</h2>
+                    <p className="text-sm text-muted-foreground">
+                        Gli eventi eliminati da Pulisci Calendario vengono salvati su questo dispositivo e possono essere ripristinati nel calendario d'origine.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <label htmlFor="trash-retention" className="text-sm text-muted-foreground">Conserva per</label>
+                    <select
+                        id="trash-retention"
+                        value={trashRetentionDays}
+                        onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+                        className="bg-input border border-border text-foreground text-sm rounded-lg focus:ring-ring focus:border-primary p-2"
+                    >
+                        {trashRetentionOptions.map(option => (
+                            <option key={option.days} value={option.days}>{option.label}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleClear}
+                        disabled={batches.length === 0 || restoring !== null}
+                        className="flex items-center space-x-1 text-sm bg-destructive hover:bg-destructive/90 disabled:bg-muted text-destructive-foreground font-semibold py-2 px-3 rounded-md transition-colors"
+                    >
+                        <Trash2Icon className="h-4 w-4" />
+                        <span>Svuota</span>
+                    </button>
+                </div>
+            </div>
+
+            {/* Inline Error Display */}
+            {error && (
+                <div className="max-w-4xl mx-auto bg-destructive/10 border border-destructive/30 text-destructive-foreground px-4 py-3 rounded-lg relative flex justify-between items-start" role="alert">
+                    <div>
+                        <strong className="font-bold">{error.title}: </strong>
+                        <span className="block sm:inline">{error.message}</span>
+                    </div>
+                    <button onClick={() => setError(null)} className="ml-4 p-1 rounded hover:bg-destructive/20 transition-colors">
+                        <XIcon className="h-5 w-5" />
+                    </button>
+                </div>
+            )}
+
+            <div className="max-w-4xl mx-auto">
+                {isLoading && <div className="text-center py-4"><Loader /></div>}
+
+                {!isLoading && batches.length === 0 && (
+                    <div className="text-center p-6 bg-card rounded-lg border border-border">
+                        <Trash2Icon className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+                        <p className="text-muted-foreground">Il cestino è vuoto.</p>
+                    </div>
+                )}
+
+                {!isLoading && batches.length > 0 && (
+                    <div className="bg-card border border-border rounded-lg overflow-hidden">
+                        <div className="grid grid-cols-[1fr,2fr,1fr,auto] gap-4 px-4 py-2 bg-secondary text-xs font-medium text-muted-foreground uppercase items-center">
+                            <div>Eliminati il</div>
+                            <div>Eventi</div>
+                            <div>Account</div>
+                            <div className="text-right">Azioni</div>
+                        </div>
+                        <div className="max-h-[60vh] overflow-y-auto">
+                            {batches.map(batch => {
+                                const pendingCount = getPendingEvents(batch).length;
+                                const isRestoring = restoring?.batchId === batch.id;
+                                const isOtherAccount = !!user && batch.account !== user.email;
+                                const isExpanded = expandedId === batch.id;
+                                return (
+                                    <div key={batch.id} className="border-t border-border">
+                                        <div className="grid grid-cols-[1fr,2fr,1fr,auto] gap-4 px-4 py-3 items-center hover:bg-accent transition-colors text-sm">
+                                            <div className="text-muted-foreground">
+                                                {new Date(batch.deletedAt).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}
+                                            </div>
+                                            <button onClick={() => setExpandedId(isExpanded ? null : batch.id)} className="min-w-0 text-left flex items-center gap-2">
+                                                {isExpanded ? <ChevronUpIcon className="h-4 w-4 flex-shrink-0" /> : <ChevronDownIcon className="h-4 w-4 flex-shrink-0" />}
+                                                <span className="min-w-0">
+                                                    <span className="block font-semibold text-foreground truncate">{batch.events.map(e => e.summary || '(senza titolo)').join(', ')}</span>
+                                                    <span className="block text-xs text-muted-foreground">
+                                                        {batch.events.length} eventi{pendingCount < batch.events.length && ` · ${batch.events.length - pendingCount} ripristinati`}
+                                                    </span>
+                                                </span>
+                                            </button>
+                                            <div className="text-muted-foreground truncate" title={batch.account}>{batch.account || 'N/D'}</div>
+                                            <div className="flex justify-end space-x-2">
+                                                <button
+                                                    onClick={() => handleRestore(batch)}
+                                                    disabled={status !== 'authenticated' || isOtherAccount || pendingCount === 0 || restoring !== null}
+                                                    className="flex items-center space-x-1 bg-primary hover:bg-primary/90 disabled:bg-muted disabled:text-muted-foreground text-primary-foreground font-semibold py-1.5 px-3 rounded-md transition-colors"
+                                                    title={isOtherAccount ? `Accedi con ${batch.account} per ripristinare questi eventi` : 'Ripristina gli eventi nel calendario di origine'}
+                                                >
+                                                    {isRestoring ? <Loader className="h-4 w-4" /> : <RefreshCwIcon className="h-4 w-4" />}
+                                                    <span className="hidden sm:inline">
+                                                        {isRestoring ? `${restoring?.current}/${restoring?.total}` : pendingCount === 0 ? 'Ripristinati' : 'Ripristina'}
+                                                    </span>
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDelete(batch)}
+                                                    disabled={restoring !== null}
+                                                    className="flex items-center space-x-1 bg-secondary hover:bg-muted disabled:opacity-50 text-secondary-foreground font-semibold py-1.5 px-3 rounded-md transition-colors"
+                                                    title="Rimuovi dal cestino"
+                                                >
+                                                    <XIcon className="h-4 w-4" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                        {isExpanded && (
+                                            <ul className="px-4 pb-3 space-y-1 text-xs text-muted-foreground">
+                                                {batch.events.map(event => (
+                                                    <li key={event.id} className="flex justify-between gap-4">
+                                                        <span className="truncate">
+                                                            <span className="text-foreground">{event.summary || '(senza titolo)'}</span> · {formatEventStart(event)}
+                                                            {event.recurringEventId && ' · occorrenza di un evento ricorrente'}
+                                                        </span>
+                                                        <span className="flex-shrink-0">
+                                                            {batch.restoredIds.includes(event.id) ? 'Ripristinato' : getCalendarName(event.calendarId)}
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
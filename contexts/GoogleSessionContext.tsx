@@ -0,0 +1,244 @@
+
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import * as gcal from '../services/googleCalendarService';
+import { defaultEventColors } from '../lib/colors';
+import type { EventColor } from '../lib/colors';
+
+declare var window: any;
+
+export type GoogleSessionStatus = 'initial' | 'authenticating' | 'loading' | 'authenticated' | 'error';
+
+export interface GoogleUser {
+    email: string;
+    name?: string;
+    picture?: string;
+}
+
+export interface GoogleCalendar {
+    id: string;
+    summary: string;
+    primary?: boolean;
+    timeZone?: string;
+    accessRole?: string;
+    backgroundColor?: string;
+}
+
+export interface GoogleSessionError {
+    title: string;
+    message: string;
+}
+
+interface GoogleSessionContextType {
+    status: GoogleSessionStatus;
+    error: GoogleSessionError | null;
+    user: GoogleUser | null;
+    // Elenco dei calendari dell'account, caricato una volta all'accesso
+    calendars: GoogleCalendar[];
+    // Tavolozza dei colori degli eventi (quella standard finché non si accede)
+    eventColors: EventColor[];
+    // Apre la finestra di consenso di Google
+    signIn: () => void;
+    // Tenta l'accesso senza chiedere nulla all'utente; viene eseguito al massimo una volta
+    trySilentSignIn: () => void;
+    switchAccount: () => void;
+    signOut: () => void;
+    refreshCalendars: () => Promise<void>;
+    clearError: () => void;
+}
+
+// Come è stato richiesto il token: determina cosa mostrare se la richiesta fallisce
+type TokenRequest = 'signIn' | 'silent' | 'switch' | 'refresh';
+
+// Il token viene rinnovato qualche minuto prima della scadenza, così le operazioni lunghe non si interrompono
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const GoogleSessionContext = createContext<GoogleSessionContextType | undefined>(undefined);
+
+const describeTokenError = (tokenResponse: any): GoogleSessionError => {
+    switch (tokenResponse.error) {
+        case 'popup_closed_by_user':
+            return { title: 'Autenticazione Annullata', message: 'La finestra di accesso di Google è stata chiusa prima del completamento.' };
+        case 'access_denied':
+            return {
+                title: 'Permessi Negati',
+                message: "L'applicazione richiede i permessi per accedere al tuo calendario. Se vedi un errore 'Accesso bloccato', potrebbe essere dovuto alla configurazione dell'app Google (es. l'app è in 'modalità test' e il tuo account non è un utente di test).",
+            };
+        case undefined:
+            return { title: 'Autenticazione Fallita', message: 'Nessun token di accesso ricevuto da Google. Riprova.' };
+        default:
+            return { title: 'Errore di Autenticazione', message: tokenResponse.error_description || "Si è verificato un errore sconosciuto durante l'autenticazione." };
+    }
+};
+
+export const GoogleSessionProvider = ({ children }: { children: ReactNode }) => {
+    const [status, setStatus] = useState<GoogleSessionStatus>('initial');
+    const [error, setError] = useState<GoogleSessionError | null>(null);
+    const [user, setUser] = useState<GoogleUser | null>(null);
+    const [calendars, setCalendars] = useState<GoogleCalendar[]>([]);
+    const [eventColors, setEventColors] = useState<EventColor[]>(defaultEventColors);
+
+    // Valori letti dalle callback di GIS e dai timer, che non vedono lo stato aggiornato
+    const userRef = useRef<GoogleUser | null>(null);
+    const expiresAtRef = useRef(0);
+    const refreshTimerRef = useRef<number | null>(null);
+    const silentAttemptedRef = useRef(false);
+    const requestTokenRef = useRef<(request: TokenRequest) => void>(() => {});
+
+    useEffect(() => {
+        gcal.loadGapiClient().catch((err: any) => {
+            console.error("GAPI Init Error:", err);
+            setError({
+                title: 'Errore di Inizializzazione',
+                message: `Impossibile caricare i componenti principali di Google. Controlla la tua connessione e riprova. Dettagli: ${err.message}`
+            });
+            setStatus('error');
+        });
+    }, []);
+
+    const clearRefreshTimer = useCallback(() => {
+        if (refreshTimerRef.current !== null) {
+            window.clearTimeout(refreshTimerRef.current);
+            refreshTimerRef.current = null;
+        }
+    }, []);
+
+    useEffect(() => clearRefreshTimer, [clearRefreshTimer]);
+
+    const scheduleRefresh = useCallback((expiresInSeconds: number) => {
+        clearRefreshTimer();
+        if (!expiresInSeconds) return;
+        expiresAtRef.current = Date.now() + expiresInSeconds * 1000;
+        refreshTimerRef.current = window.setTimeout(
+            () => requestTokenRef.current('refresh'),
+            Math.max(expiresInSeconds * 1000 - REFRESH_MARGIN_MS, 0)
+        );
+    }, [clearRefreshTimer]);
+
+    // Nelle schede in background i timer possono essere ritardati: al ritorno si controlla la scadenza
+    useEffect(() => {
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'visible' && userRef.current && Date.now() > expiresAtRef.current - REFRESH_MARGIN_MS) {
+                requestTokenRef.current('refresh');
+            }
+        };
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }, []);
+
+    const endSession = useCallback((nextError: GoogleSessionError | null) => {
+        clearRefreshTimer();
+        expiresAtRef.current = 0;
+        userRef.current = null;
+        setUser(null);
+        setCalendars([]);
+        setError(nextError);
+        setStatus('initial');
+    }, [clearRefreshTimer]);
+
+    const loadSessionData = useCallback(async () => {
+        setStatus('loading');
+        try {
+            const userInfoResponse = await gcal.getUserProfile();
+            if (!userInfoResponse?.result?.email) throw new Error("Profilo utente non trovato.");
+            const calendarList = await gcal.listCalendars();
+            const palette = await gcal.getEventColors();
+            userRef.current = userInfoResponse.result;
+            setUser(userInfoResponse.result);
+            setCalendars(calendarList);
+            setEventColors(palette);
+            setStatus('authenticated');
+        } catch (err: any) {
+            setError({
+                title: gcal.getErrorTitle(err, 'Errore nel Caricamento Dati'),
+                message: `Autenticazione riuscita, ma impossibile caricare i dati del tuo account. Dettagli: ${err.message}`
+            });
+            setStatus('error');
+        }
+    }, []);
+
+    const handleTokenResponse = useCallback(async (tokenResponse: any, request: TokenRequest) => {
+        if (tokenResponse.error || !tokenResponse.access_token) {
+            if (request === 'refresh') {
+                window.gapi?.client?.setToken(null);
+                endSession({ title: 'Sessione Scaduta', message: "Non è stato possibile rinnovare l'accesso a Google. Accedi di nuovo per continuare." });
+            } else if (request === 'silent') {
+                setStatus('initial');
+            } else if (userRef.current) {
+                // Cambio account annullato: si resta collegati con l'account attuale
+                if (tokenResponse.error !== 'popup_closed_by_user') setError(describeTokenError(tokenResponse));
+                setStatus('authenticated');
+            } else {
+                setError(describeTokenError(tokenResponse));
+                setStatus(tokenResponse.error === 'popup_closed_by_user' ? 'initial' : 'error');
+            }
+            return;
+        }
+
+        try {
+            await gcal.loadGapiClient();
+        } catch (err: any) {
+            setError({ title: 'Errore di Inizializzazione', message: err.message });
+            setStatus('error');
+            return;
+        }
+        window.gapi.client.setToken(tokenResponse);
+        scheduleRefresh(Number(tokenResponse.expires_in));
+        setError(null);
+        // Un rinnovo non cambia account: profilo e calendari restano validi
+        if (request !== 'refresh') await loadSessionData();
+    }, [endSession, scheduleRefresh, loadSessionData]);
+
+    const requestToken = useCallback(async (request: TokenRequest) => {
+        // Durante un cambio account o un rinnovo l'interfaccia resta quella dell'account attuale
+        if (request === 'signIn' || request === 'silent') {
+            setStatus('authenticating');
+            setError(null);
+        }
+        const prompt = request === 'signIn' ? 'consent' : request === 'switch' ? 'select_account' : '';
+        try {
+            await gcal.handleAuthClick((token) => handleTokenResponse(token, request), prompt);
+        } catch (err: any) {
+            console.error('Auth Click Setup Error:', err);
+            setError({ title: 'Errore di Configurazione', message: err.message });
+            setStatus('error');
+        }
+    }, [handleTokenResponse]);
+    requestTokenRef.current = requestToken;
+
+    const signIn = useCallback(() => { requestToken('signIn'); }, [requestToken]);
+
+    const trySilentSignIn = useCallback(() => {
+        if (silentAttemptedRef.current || status !== 'initial') return;
+        silentAttemptedRef.current = true;
+        requestToken('silent');
+    }, [requestToken, status]);
+
+    const switchAccount = useCallback(() => { requestToken('switch'); }, [requestToken]);
+
+    const signOut = useCallback(() => {
+        gcal.revokeToken();
+        endSession(null);
+    }, [endSession]);
+
+    const refreshCalendars = useCallback(async () => {
+        setCalendars(await gcal.listCalendars());
+    }, []);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    const value = { status, error, user, calendars, eventColors, signIn, trySilentSignIn, switchAccount, signOut, refreshCalendars, clearError };
+
+    return (
+        <GoogleSessionContext.Provider value={value}>
+            {children}
+        </GoogleSessionContext.Provider>
+    );
+};
+
+export const useGoogleSession = (): GoogleSessionContextType => {
+    const context = useContext(GoogleSessionContext);
+    if (!context) {
+        throw new Error('useGoogleSession must be used within a GoogleSessionProvider');
+    }
+    return context;
+};
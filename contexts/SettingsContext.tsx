@@ -1,5 +1,9 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { getBrowserTimeZone, isValidTimeZone } from '../lib/timezone';
+import { reminderMethods, MAX_REMINDER_MINUTES } from '../lib/reminders';
+import { trashRetentionOptions, DEFAULT_TRASH_RETENTION_DAYS } from '../lib/trash';
+import type { EventReminder } from '../lib/types';
 
 export const availableModels = [
     { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash (Consigliato)', description: 'Veloce ed efficiente, ideale per la maggior parte delle attività di estrazione e analisi.' },
@@ -11,38 +15,74 @@ export type ModelId = typeof availableModels[number]['id'];
 interface SettingsContextType {
     selectedModel: ModelId;
     setSelectedModel: (modelId: ModelId) => void;
+    // Fuso orario usato per gli eventi che non ne indicano uno
+    defaultTimeZone: string;
+    setDefaultTimeZone: (timeZone: string) => void;
+    // Promemoria applicato agli eventi che non ne indicano (null = nessuno)
+    defaultReminder: EventReminder | null;
+    setDefaultReminder: (reminder: EventReminder | null) => void;
+    // Giorni per cui gli eventi eliminati restano nel cestino locale
+    trashRetentionDays: number;
+    setTrashRetentionDays: (days: number) => void;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
 const SETTINGS_STORAGE_KEY = 'forma-settings';
 
+const loadStoredSettings = (): Record<string, unknown> => {
+    try {
+        const storedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (storedSettings) {
+            return JSON.parse(storedSettings);
+        }
+    } catch (error) {
+        console.error("Failed to load settings from localStorage", error);
+    }
+    return {};
+};
+
 export const SettingsProvider = ({ children }: { children: ReactNode }) => {
     const [selectedModel, setSelectedModel] = useState<ModelId>(() => {
-        try {
-            const storedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
-            if (storedSettings) {
-                const settings = JSON.parse(storedSettings);
-                if (availableModels.some(m => m.id === settings.model)) {
-                    return settings.model as ModelId;
-                }
-            }
-        } catch (error) {
-            console.error("Failed to load settings from localStorage", error);
+        const settings = loadStoredSettings();
+        if (availableModels.some(m => m.id === settings.model)) {
+            return settings.model as ModelId;
         }
         return 'gemini-3-flash-preview';
     });
 
+    const [defaultTimeZone, setDefaultTimeZone] = useState<string>(() => {
+        const settings = loadStoredSettings();
+        if (typeof settings.defaultTimeZone === 'string' && isValidTimeZone(settings.defaultTimeZone)) {
+            return settings.defaultTimeZone;
+        }
+        return getBrowserTimeZone();
+    });
+
+    const [defaultReminder, setDefaultReminder] = useState<EventReminder | null>(() => {
+        const reminder = loadStoredSettings().defaultReminder as EventReminder | null | undefined;
+        if (reminder && reminderMethods.some(m => m.id === reminder.method)
+            && Number.isInteger(reminder.minutes) && reminder.minutes >= 0 && reminder.minutes <= MAX_REMINDER_MINUTES) {
+            return reminder;
+        }
+        return null;
+    });
+
+    const [trashRetentionDays, setTrashRetentionDays] = useState<number>(() => {
+        const days = loadStoredSettings().trashRetentionDays;
+        return trashRetentionOptions.some(o => o.days === days) ? days as number : DEFAULT_TRASH_RETENTION_DAYS;
+    });
+
     useEffect(() => {
         try {
-            const settings = { model: selectedModel };
+            const settings = { model: selectedModel, defaultTimeZone, defaultReminder, trashRetentionDays };
             localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
         } catch (error) {
             console.error("Failed to save settings to localStorage", error);
         }
-    }, [selectedModel]);
+    }, [selectedModel, defaultTimeZone, defaultReminder, trashRetentionDays]);
     
-    const value = { selectedModel, setSelectedModel };
+    const value = { selectedModel, setSelectedModel, defaultTimeZone, setDefaultTimeZone, defaultReminder, setDefaultReminder, trashRetentionDays, setTrashRetentionDays };
 
     return (
         <SettingsContext.Provider value={value}>
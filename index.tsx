@@ -4,6 +4,7 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { SettingsProvider } from './contexts/SettingsContext';
+import { GoogleSessionProvider } from './contexts/GoogleSessionContext';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -20,7 +21,9 @@ root.render(
       themesStorageKey="forma-themes"
     >
       <SettingsProvider>
-        <App />
+        <GoogleSessionProvider>
+          <App />
+        </GoogleSessionProvider>
       </SettingsProvider>
     </ThemeProvider>
   </React.StrictMode>
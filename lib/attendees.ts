@@ -0,0 +1,29 @@
+import type { EventPerson } from './types';
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]{2,}$/;
+
+export const isValidEmail = (email: string): boolean => EMAIL_PATTERN.test(email.trim());
+
+export const formatPerson = (person: EventPerson): string => (person.name ? `${person.name} <${person.email}>` : person.email);
+
+// Interpreta un partecipante scritto come "Mario Rossi <mario@esempio.it>" o come semplice indirizzo email.
+// Il testo che non contiene un indirizzo viene conservato come email, così che la validazione lo segnali.
+export const parsePerson = (text: string): EventPerson | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const match = trimmed.match(/^"?([^"<]*?)"?\s*<([^>]+)>$/);
+  if (match) {
+    const name = match[1].trim();
+    return { email: match[2].trim(), ...(name && { name }) };
+  }
+  return { email: trimmed };
+};
+
+// Separa un elenco di partecipanti incollato (virgole, punti e virgola o a capo),
+// ignorando i separatori all'interno di nomi tra virgolette come "Rossi, Mario" <mario@esempio.it>
+export const parsePeopleList = (text: string): EventPerson[] => {
+  const parts = text.match(/(?:"[^"]*"|[^,;\n"])+/g) || [];
+  return parts
+    .map(parsePerson)
+    .filter((person): person is EventPerson => person !== null);
+};
@@ -0,0 +1,114 @@
+import type { GCalEvent } from '../services/googleCalendarService';
+import { generateBackupIcsContent, parseBackupIcsContent } from './ics';
+
+// Backup locale di eventi di Google Calendar, da scaricare prima di operazioni distruttive (Pulisci Calendario,
+// Modifica Massiva). Le risorse vengono salvate così come restituite dall'API, con tutti i campi di Google.
+
+// Evento salvato, con il calendario da cui proviene
+export type BackupEvent = GCalEvent & { calendarId: string };
+
+export const BACKUP_FORMAT = 'forma-backup';
+
+export interface CalendarBackup {
+    format: typeof BACKUP_FORMAT;
+    version: 1;
+    // Data e ora del backup (ISO 8601)
+    createdAt: string;
+    // Account Google da cui sono stati letti gli eventi
+    account: string;
+    // Calendari di provenienza degli eventi, con il nome al momento del backup
+    calendars: { id: string; summary: string; timeZone?: string }[];
+    // Intervallo di date richiesto (AAAA-MM-GG, estremi inclusi), se il backup copre un intero calendario
+    range?: { from: string; to: string };
+    events: BackupEvent[];
+}
+
+export type BackupFileFormat = 'json' | 'ics';
+
+export const createBackup = (
+    account: string,
+    calendars: { id: string; summary: string; timeZone?: string }[],
+    events: BackupEvent[],
+    range?: { from: string; to: string },
+): CalendarBackup => {
+    const calendarIds = new Set(events.map(event => event.calendarId));
+    return {
+        format: BACKUP_FORMAT,
+        version: 1,
+        createdAt: new Date().toISOString(),
+        account,
+        calendars: calendars
+            .filter(calendar => calendarIds.has(calendar.id))
+            .map(({ id, summary, timeZone }) => ({ id, summary, ...(timeZone && { timeZone }) })),
+        ...(range && { range }),
+        events,
+    };
+};
+
+export const serializeBackup = (backup: CalendarBackup): string => JSON.stringify(backup, null, 2);
+
+// Contenuto del file nel formato scelto
+export const generateBackupFile = (backup: CalendarBackup, format: BackupFileFormat): string => {
+    return format === 'json' ? serializeBackup(backup) : generateBackupIcsContent(backup);
+};
+
+// Nome del file: "backup-<calendario>-<data>", con il nome del calendario se il backup ne contiene uno solo
+export const getBackupFileName = (backup: CalendarBackup, format: BackupFileFormat): string => {
+    const calendarName = backup.calendars.length === 1 ? backup.calendars[0].summary : 'calendari';
+    const slug = calendarName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `backup-${slug || 'calendario'}-${backup.createdAt.slice(0, 10)}.${format}`;
+};
+
+// Backup letto da un file. Dai file .ics si recuperano gli eventi e, se presenti, data e account del backup.
+export interface LoadedBackup {
+    createdAt?: string;
+    account?: string;
+    calendars: CalendarBackup['calendars'];
+    events: BackupEvent[];
+}
+
+const isEventDateTime = (value: any): boolean => {
+    return !!value && typeof value === 'object' && (typeof value.dateTime === 'string' || typeof value.date === 'string');
+};
+
+const isBackupEvent = (value: any): value is BackupEvent => {
+    return !!value && typeof value === 'object'
+        && typeof value.id === 'string' && typeof value.calendarId === 'string'
+        && isEventDateTime(value.start) && isEventDateTime(value.end);
+};
+
+// Legge un backup esportato in JSON o in .ics (riconosciuto dal contenuto).
+// Lancia un errore con un messaggio per l'utente se il file non è un backup valido.
+export const parseBackupFile = (content: string): LoadedBackup => {
+    let loaded: LoadedBackup;
+    if (/^\s*BEGIN:VCALENDAR/i.test(content)) {
+        loaded = parseBackupIcsContent(content);
+    } else {
+        let data: any;
+        try {
+            data = JSON.parse(content);
+        } catch (e) {
+            throw new Error('Il file non è né un JSON valido né un calendario .ics.');
+        }
+        if (data?.format !== BACKUP_FORMAT || !Array.isArray(data.events)) {
+            throw new Error('Il file JSON non è un backup di ForMa.');
+        }
+        loaded = {
+            createdAt: typeof data.createdAt === 'string' ? data.createdAt : undefined,
+            account: typeof data.account === 'string' ? data.account : undefined,
+            calendars: Array.isArray(data.calendars) ? data.calendars.filter((c: any) => typeof c?.id === 'string') : [],
+            events: data.events,
+        };
+    }
+    const events = loaded.events.filter(isBackupEvent);
+    if (events.length === 0) {
+        throw new Error('Nessun evento valido trovato nel backup.');
+    }
+    return { ...loaded, events };
+};
+
+// Prima e ultima data degli eventi (AAAA-MM-GG), per riassumere il contenuto di un backup
+export const getBackupDateRange = (events: BackupEvent[]): { from: string; to: string } | null => {
+    const dates = events.map(event => (event.start.dateTime || event.start.date || '').slice(0, 10)).filter(Boolean).sort();
+    return dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null;
+};
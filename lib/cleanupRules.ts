@@ -0,0 +1,123 @@
+import type { FilterParams } from '../services/geminiService';
+import { isValidColorId, defaultEventColors } from './colors';
+import { normalizeFilterParams, responseStatusOptions, recurrenceOptions, eventTypeOptions } from './eventFilters';
+import { weekdays } from './recurrence';
+
+// Criteri di "Pulisci Calendario" che si aggiungono ai filtri compilabili dall'IA
+export interface CleanupCriteria {
+    // Id del colore degli eventi da cercare (vuoto: tutti)
+    colorId: string;
+    // Solo eventi iniziati più di N giorni fa (0: nessun limite)
+    olderThanDays: number;
+}
+
+export const emptyCleanupCriteria: CleanupCriteria = { colorId: '', olderThanDays: 0 };
+
+// Regola di pulizia salvata: filtri e criteri da rieseguire con un clic. Le regole sono identificate dal nome.
+export interface CleanupRule {
+    name: string;
+    filters: FilterParams;
+    criteria: CleanupCriteria;
+}
+
+// Riepilogo leggibile di una regola, mostrato nell'elenco delle regole salvate
+export const describeCleanupRule = (rule: CleanupRule): string => {
+    const { filters, criteria } = rule;
+    const parts: string[] = [];
+    if (filters.text) parts.push(filters.textIsRegex ? `/${filters.text}/` : `"${filters.text}"`);
+    if (filters.exclude) parts.push(`escludi "${filters.exclude}"`);
+    if (filters.location) parts.push(`luogo "${filters.location}"`);
+    if (filters.startDate || filters.endDate) parts.push(`dal ${filters.startDate || '…'} al ${filters.endDate || '…'}`);
+    if (filters.startTime) parts.push(`alle ${filters.startTime}`);
+    if (filters.weekdays.length > 0) parts.push(weekdays.filter(day => filters.weekdays.includes(day.id)).map(day => day.label).join('/'));
+    if (filters.attendee) parts.push(`con ${filters.attendee}`);
+    if (filters.organizer) parts.push(`organizzati da ${filters.organizer}`);
+    if (filters.responseStatus) parts.push(`risposta: ${responseStatusOptions.find(o => o.id === filters.responseStatus)?.label.toLowerCase()}`);
+    if (filters.recurrence) parts.push(recurrenceOptions.find(o => o.id === filters.recurrence)!.label.toLowerCase());
+    if (filters.minDuration || filters.maxDuration) parts.push(`durata ${filters.minDuration || 0}-${filters.maxDuration || '…'} min`);
+    if (filters.createdAfter || filters.createdBefore) parts.push(`creati dal ${filters.createdAfter || '…'} al ${filters.createdBefore || '…'}`);
+    if (filters.updatedAfter || filters.updatedBefore) parts.push(`modificati dal ${filters.updatedAfter || '…'} al ${filters.updatedBefore || '…'}`);
+    if (filters.eventType) parts.push(eventTypeOptions.find(o => o.id === filters.eventType)!.label.toLowerCase());
+    const color = defaultEventColors.find(c => c.id === criteria.colorId);
+    if (color) parts.push(`colore ${color.name}`);
+    if (criteria.olderThanDays > 0) parts.push(`più vecchi di ${criteria.olderThanDays} giorni`);
+    return parts.length > 0 ? parts.join(', ') : 'Tutti gli eventi';
+};
+
+const RULES_STORAGE_KEY = 'forma-cleanup-rules';
+const EXPORT_FORMAT = 'forma-cleanup-rules';
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+// Normalizza una regola letta dall'archivio o da un file; null se manca il nome
+const normalizeRule = (value: any): CleanupRule | null => {
+    if (!value || typeof value !== 'object') return null;
+    const name = asString(value.name).trim();
+    if (!name) return null;
+    const filters = normalizeFilterParams(value.filters);
+    const criteria = value.criteria || {};
+    // Regole salvate quando "solo inviti rifiutati" era un criterio separato
+    if (!filters.responseStatus && criteria.declinedOnly === true) filters.responseStatus = 'declined';
+    const olderThanDays = Number(criteria.olderThanDays);
+    const colorId = asString(criteria.colorId);
+    return {
+        name,
+        filters,
+        criteria: {
+            colorId: isValidColorId(colorId) ? colorId : '',
+            olderThanDays: Number.isFinite(olderThanDays) && olderThanDays > 0 ? Math.floor(olderThanDays) : 0,
+        },
+    };
+};
+
+export const loadCleanupRules = (): CleanupRule[] => {
+    try {
+        const stored = localStorage.getItem(RULES_STORAGE_KEY);
+        if (stored) {
+            const rules = JSON.parse(stored);
+            if (Array.isArray(rules)) return rules.map(normalizeRule).filter((rule): rule is CleanupRule => rule !== null);
+        }
+    } catch (error) {
+        console.error("Failed to load cleanup rules from localStorage", error);
+    }
+    return [];
+};
+
+export const saveCleanupRules = (rules: CleanupRule[]) => {
+    try {
+        localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+    } catch (error) {
+        console.error("Failed to save cleanup rules to localStorage", error);
+    }
+};
+
+// Contenuto del file JSON esportato
+export const serializeCleanupRules = (rules: CleanupRule[]): string => {
+    return JSON.stringify({ format: EXPORT_FORMAT, version: 1, rules }, null, 2);
+};
+
+// Legge le regole da un file esportato (accetta anche un semplice array di regole).
+// Lancia un errore con un messaggio per l'utente se il file non contiene regole valide.
+export const parseCleanupRules = (content: string): CleanupRule[] => {
+    let data: any;
+    try {
+        data = JSON.parse(content);
+    } catch (e) {
+        throw new Error('Il file non è un JSON valido.');
+    }
+    const items = Array.isArray(data) ? data : data?.rules;
+    if (!Array.isArray(items)) {
+        throw new Error('Il file non contiene regole di pulizia.');
+    }
+    const rules = items.map(normalizeRule).filter((rule): rule is CleanupRule => rule !== null);
+    if (rules.length === 0) {
+        throw new Error('Nessuna regola valida trovata nel file.');
+    }
+    return rules;
+};
+
+// Aggiunge le regole importate; quelle con lo stesso nome di una regola esistente la sostituiscono
+export const mergeCleanupRules = (existing: CleanupRule[], imported: CleanupRule[]): CleanupRule[] => {
+    const names = new Set(imported.map(rule => rule.name));
+    return [...existing.filter(rule => !names.has(rule.name)), ...imported];
+};
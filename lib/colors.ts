@@ -0,0 +1,59 @@
+// Colori degli eventi di Google Calendar. Il colore di un evento è indicato da `colorId` ("1"-"11");
+// senza `colorId` l'evento usa il colore del proprio calendario.
+
+export interface EventColor {
+    id: string;
+    // Nome mostrato nell'interfaccia di Google Calendar in italiano
+    name: string;
+    background: string;
+    foreground: string;
+    // Nome di colore CSS più vicino, usato per la proprietà COLOR dei file .ics (RFC 7986)
+    cssName: string;
+}
+
+// Tavolozza standard, usata finché (o se) non è disponibile quella restituita dall'API
+export const defaultEventColors: EventColor[] = [
+    { id: '1', name: 'Lavanda', background: '#7986cb', foreground: '#1d1d1d', cssName: 'cornflowerblue' },
+    { id: '2', name: 'Salvia', background: '#33b679', foreground: '#1d1d1d', cssName: 'mediumseagreen' },
+    { id: '3', name: 'Uva', background: '#8e24aa', foreground: '#ffffff', cssName: 'darkorchid' },
+    { id: '4', name: 'Fenicottero', background: '#e67c73', foreground: '#1d1d1d', cssName: 'lightcoral' },
+    { id: '5', name: 'Banana', background: '#f6bf26', foreground: '#1d1d1d', cssName: 'gold' },
+    { id: '6', name: 'Mandarino', background: '#f4511e', foreground: '#ffffff', cssName: 'orangered' },
+    { id: '7', name: 'Pavone', background: '#039be5', foreground: '#ffffff', cssName: 'dodgerblue' },
+    { id: '8', name: 'Grafite', background: '#616161', foreground: '#ffffff', cssName: 'dimgray' },
+    { id: '9', name: 'Mirtillo', background: '#3f51b5', foreground: '#ffffff', cssName: 'royalblue' },
+    { id: '10', name: 'Basilico', background: '#0b8043', foreground: '#ffffff', cssName: 'forestgreen' },
+    { id: '11', name: 'Pomodoro', background: '#d50000', foreground: '#ffffff', cssName: 'red' },
+];
+
+// Nomi inglesi dei colori (come nell'interfaccia in inglese), accettati nei file importati
+const englishNames: Record<string, string> = {
+    lavender: '1', sage: '2', grape: '3', flamingo: '4', banana: '5', tangerine: '6',
+    peacock: '7', graphite: '8', blueberry: '9', basil: '10', tomato: '11',
+};
+
+export const isValidColorId = (colorId: string): boolean => defaultEventColors.some(color => color.id === colorId);
+
+// Unisce la tavolozza dell'API (sezione `event` di colors.get) con i nomi della tavolozza standard
+export const buildEventPalette = (apiColors: Record<string, { background: string; foreground: string }> = {}): EventColor[] => {
+    return defaultEventColors.map(color => {
+        const remote = apiColors[color.id];
+        return remote ? { ...color, background: remote.background, foreground: remote.foreground } : color;
+    });
+};
+
+export const findEventColor = (palette: EventColor[], colorId?: string): EventColor | undefined => {
+    return colorId ? palette.find(color => color.id === colorId) : undefined;
+};
+
+// Interpreta un colore scritto in un file (id, nome italiano o inglese, nome CSS o codice esadecimale della tavolozza).
+// Restituisce undefined se non corrisponde a nessun colore di Google Calendar.
+export const parseEventColor = (value: string): string | undefined => {
+    const normalized = value.trim().toLowerCase();
+    if (!normalized) return undefined;
+    if (isValidColorId(normalized)) return normalized;
+    if (englishNames[normalized]) return englishNames[normalized];
+    return defaultEventColors.find(color =>
+        color.name.toLowerCase() === normalized || color.cssName === normalized || color.background === normalized
+    )?.id;
+};
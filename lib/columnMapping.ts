@@ -0,0 +1,264 @@
+import type { EventObject, EventTextField } from './types';
+import { toLocalDateAndTime } from './dateUtils';
+
+export type MappableField = EventTextField;
+
+export type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+export const mappableFields: { key: MappableField; label: string; required?: boolean }[] = [
+    { key: 'subject', label: 'Oggetto', required: true },
+    { key: 'startDate', label: 'Data Inizio', required: true },
+    { key: 'startTime', label: 'Ora Inizio' },
+    { key: 'endDate', label: 'Data Fine' },
+    { key: 'endTime', label: 'Ora Fine' },
+    { key: 'description', label: 'Descrizione' },
+    { key: 'location', label: 'Luogo' },
+    { key: 'timeZone', label: 'Fuso Orario' },
+];
+
+export const dateFormats: { id: DateFormat; label: string }[] = [
+    { id: 'DD/MM/YYYY', label: 'GG/MM/AAAA' },
+    { id: 'MM/DD/YYYY', label: 'MM/GG/AAAA' },
+    { id: 'YYYY-MM-DD', label: 'AAAA-MM-GG' },
+];
+
+// Associazione campo -> indice di colonna (-1 se il campo non è mappato)
+export type ColumnMapping = Record<MappableField, number>;
+
+export interface ColumnMappingConfig {
+    headerRowIndex: number; // -1 se il file non ha una riga di intestazione
+    mapping: ColumnMapping;
+    dateFormats: { startDate: DateFormat; endDate: DateFormat };
+}
+
+export interface MappingPreset {
+    name: string;
+    // Le colonne sono salvate per nome di intestazione, così il preset è riutilizzabile su file con un ordine diverso
+    columns: Partial<Record<MappableField, string>>;
+    dateFormats: { startDate: DateFormat; endDate: DateFormat };
+}
+
+export interface MappingResult {
+    headers: string[];
+    events: Omit<EventObject, 'id'>[];
+    // Righe che non è stato possibile interpretare in modo deterministico (da inviare all'IA)
+    ambiguousRows: string[][];
+}
+
+export const emptyMapping = (): ColumnMapping => ({
+    subject: -1, startDate: -1, startTime: -1, endDate: -1, endTime: -1, description: -1, location: -1, timeZone: -1,
+});
+
+const normalizeHeader = (header: string): string =>
+    header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Sinonimi (italiano e inglese) usati per proporre automaticamente la mappatura delle colonne
+const fieldSynonyms: Record<MappableField, string[]> = {
+    subject: ['oggetto', 'titolo', 'soggetto', 'subject', 'title', 'summary', 'evento', 'event', 'nome', 'name', 'materia', 'lezione', 'attivita'],
+    startDate: ['data inizio', 'start date', 'inizio data', 'data', 'date', 'giorno', 'day', 'dal'],
+    startTime: ['ora inizio', 'orario inizio', 'start time', 'inizio ora', 'dalle', 'ora', 'orario', 'time', 'inizio', 'start'],
+    endDate: ['data fine', 'end date', 'fine data', 'al'],
+    endTime: ['ora fine', 'orario fine', 'end time', 'fine ora', 'alle', 'fine', 'end'],
+    description: ['descrizione', 'description', 'note', 'notes', 'dettagli', 'details'],
+    location: ['luogo', 'location', 'aula', 'sede', 'indirizzo', 'address', 'stanza', 'room', 'dove', 'where'],
+    timeZone: ['fuso orario', 'time zone', 'timezone', 'fuso', 'tz'],
+};
+
+const DATE_PATTERN = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[ T](\d{1,2})[:.](\d{2}))?/;
+const TIME_PATTERN = /^(\d{1,2})(?:[:.](\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i;
+
+const looksLikeData = (cell: string): boolean => DATE_PATTERN.test(cell) || TIME_PATTERN.test(cell) || /^-?\d+([.,]\d+)?$/.test(cell);
+
+// Individua la riga di intestazione tra le prime righe: la prima con almeno due celle testuali e nessun valore di tipo data/numero
+export const detectHeaderRow = (rows: string[][]): number => {
+    const candidates = rows.slice(0, 10);
+    for (let i = 0; i < candidates.length; i++) {
+        const cells = candidates[i].map(c => c.trim()).filter(Boolean);
+        if (cells.length === 0) continue;
+        if (cells.length >= 2 && !cells.some(looksLikeData)) return i;
+        // La prima riga non vuota contiene già dati: il file non ha intestazioni
+        return -1;
+    }
+    return -1;
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+    const mapping = emptyMapping();
+    const normalized = headers.map(normalizeHeader);
+    const used = new Set<number>();
+    const fields = Object.keys(fieldSynonyms) as MappableField[];
+
+    // Prima le corrispondenze esatte, poi quelle parziali ("Data inizio lezione" -> startDate)
+    const passes: ((header: string, synonym: string) => boolean)[] = [
+        (header, synonym) => header === synonym,
+        (header, synonym) => synonym.length > 3 && header.includes(synonym),
+    ];
+    passes.forEach(matches => {
+        fields.forEach(field => {
+            if (mapping[field] !== -1) return;
+            for (const synonym of fieldSynonyms[field]) {
+                const index = normalized.findIndex((header, i) => !used.has(i) && matches(header, synonym));
+                if (index !== -1) {
+                    mapping[field] = index;
+                    used.add(index);
+                    return;
+                }
+            }
+        });
+    });
+    return mapping;
+};
+
+// Propone il formato di una colonna di date: se un valore ha il primo componente > 12 è GG/MM, se ha il secondo > 12 è MM/GG
+export const detectDateFormat = (values: string[]): DateFormat => {
+    for (const value of values) {
+        const match = value.trim().match(DATE_PATTERN);
+        if (!match) continue;
+        if (match[1].length === 4) return 'YYYY-MM-DD';
+        if (Number(match[1]) > 12) return 'DD/MM/YYYY';
+        if (Number(match[2]) > 12) return 'MM/DD/YYYY';
+    }
+    return 'DD/MM/YYYY';
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Converte una data nel formato indicato in AAAA-MM-GG. Restituisce null se il valore non è una data valida.
+export const parseDateValue = (value: string, format: DateFormat): { date: string; time?: string } | null => {
+    const match = value.trim().match(DATE_PATTERN);
+    if (!match) return null;
+    const [, a, b, c, hours, minutes] = match;
+
+    let year: number, month: number, day: number;
+    if (a.length === 4) {
+        // AAAA-MM-GG è riconoscibile a prescindere dal formato scelto
+        [year, month, day] = [Number(a), Number(b), Number(c)];
+    } else if (format === 'YYYY-MM-DD' || c.length > 4 || c.length === 3) {
+        return null;
+    } else {
+        year = c.length === 2 ? 2000 + Number(c) : Number(c);
+        [day, month] = format === 'MM/DD/YYYY' ? [Number(b), Number(a)] : [Number(a), Number(b)];
+    }
+
+    const d = new Date(year, month - 1, day);
+    if (d.getFullYear() !== year || d.getMonth() !== month - 1 || d.getDate() !== day) return null;
+
+    const time = hours !== undefined ? parseTimeValue(`${hours}:${minutes}`) ?? undefined : undefined;
+    return { date: `${year}-${pad(month)}-${pad(day)}`, time };
+};
+
+// Converte un orario (14:00, 9.30, 2pm, 2:30 PM) in HH:mm. Restituisce null se il valore non è un orario valido.
+export const parseTimeValue = (value: string): string | null => {
+    const trimmed = value.trim();
+    // Celle che contengono data e ora: si usa solo la parte oraria
+    const dateTime = trimmed.match(DATE_PATTERN);
+    if (dateTime) return dateTime[4] !== undefined ? parseTimeValue(`${dateTime[4]}:${dateTime[5]}`) : null;
+
+    const match = trimmed.match(TIME_PATTERN);
+    if (!match) return null;
+
+    let hours = Number(match[1]);
+    const minutes = Number(match[2] || 0);
+    const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+    // Un numero isolato senza "am/pm" (es. "9") è troppo ambiguo per essere considerato un orario
+    if (match[2] === undefined && !meridiem) return null;
+    if (meridiem) {
+        if (hours < 1 || hours > 12) return null;
+        if (meridiem === 'pm' && hours !== 12) hours += 12;
+        if (meridiem === 'am' && hours === 12) hours = 0;
+    }
+    if (hours > 23 || minutes > 59) return null;
+    return `${pad(hours)}:${pad(minutes)}`;
+};
+
+const addMinutes = (date: string, time: string, minutes: number) => {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, mins] = time.split(':').map(Number);
+    return toLocalDateAndTime(new Date(year, month - 1, day, hours, mins + minutes));
+};
+
+// Applica la mappatura alle righe di dati. Le regole per i valori mancanti sono le stesse indicate all'IA in `geminiService.ts`:
+// data di fine = data di inizio, ora di inizio = 09:00, durata di un'ora.
+export const applyColumnMapping = (rows: string[][], config: ColumnMappingConfig): MappingResult => {
+    const { mapping, headerRowIndex } = config;
+    const events: MappingResult['events'] = [];
+    const ambiguousRows: string[][] = [];
+    const cell = (row: string[], field: MappableField) => (mapping[field] === -1 ? '' : (row[mapping[field]] ?? '').trim());
+
+    rows.slice(headerRowIndex + 1).forEach(row => {
+        if (row.every(c => !c.trim())) return;
+
+        const subject = cell(row, 'subject');
+        const start = parseDateValue(cell(row, 'startDate'), config.dateFormats.startDate);
+        const rawEndDate = cell(row, 'endDate');
+        const end = rawEndDate ? parseDateValue(rawEndDate, config.dateFormats.endDate) : null;
+        const rawStartTime = cell(row, 'startTime');
+        const rawEndTime = cell(row, 'endTime');
+        const startTime = rawStartTime ? parseTimeValue(rawStartTime) : start?.time ?? '09:00';
+        const endTime = rawEndTime ? parseTimeValue(rawEndTime) : end?.time ?? null;
+
+        if (!subject || !start || (rawEndDate && !end) || !startTime || (rawEndTime && !endTime)) {
+            ambiguousRows.push(row);
+            return;
+        }
+
+        const endDate = end?.date ?? start.date;
+        const resolvedEnd = endTime ? { date: endDate, time: endTime } : addMinutes(start.date, startTime, 60);
+
+        events.push({
+            subject,
+            startDate: start.date,
+            startTime,
+            endDate: resolvedEnd.date,
+            endTime: resolvedEnd.time,
+            description: cell(row, 'description'),
+            location: cell(row, 'location'),
+            timeZone: cell(row, 'timeZone') || undefined,
+        });
+    });
+
+    return { headers: headerRowIndex >= 0 ? rows[headerRowIndex] : [], events, ambiguousRows };
+};
+
+export const presetFromConfig = (name: string, headers: string[], config: ColumnMappingConfig): MappingPreset => {
+    const columns: MappingPreset['columns'] = {};
+    (Object.keys(config.mapping) as MappableField[]).forEach(field => {
+        const index = config.mapping[field];
+        if (index !== -1 && headers[index]) columns[field] = headers[index];
+    });
+    return { name, columns, dateFormats: config.dateFormats };
+};
+
+// Riapplica un preset alle intestazioni di un nuovo file; i campi la cui colonna non esiste restano non mappati
+export const mappingFromPreset = (preset: MappingPreset, headers: string[]): ColumnMapping => {
+    const mapping = emptyMapping();
+    const normalized = headers.map(normalizeHeader);
+    (Object.keys(preset.columns) as MappableField[]).forEach(field => {
+        const header = preset.columns[field];
+        if (header) mapping[field] = normalized.indexOf(normalizeHeader(header));
+    });
+    return mapping;
+};
+
+const PRESETS_STORAGE_KEY = 'forma-mapping-presets';
+
+export const loadMappingPresets = (): MappingPreset[] => {
+    try {
+        const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+        if (stored) {
+            const presets = JSON.parse(stored);
+            if (Array.isArray(presets)) return presets;
+        }
+    } catch (error) {
+        console.error("Failed to load mapping presets from localStorage", error);
+    }
+    return [];
+};
+
+export const saveMappingPresets = (presets: MappingPreset[]) => {
+    try {
+        localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+        console.error("Failed to save mapping presets to localStorage", error);
+    }
+};
@@ -1,5 +1,5 @@
 import type { ValidatedEvent } from './types';
-import { toYYYYMMDD } from './dateUtils';
+import { toYYYYMMDD, addDays } from './dateUtils';
 
 // Le intestazioni CSV sono in inglese per garantire la compatibilità con la funzione di importazione di Google Calendar.
 const CSV_HEADERS = [
@@ -8,6 +8,7 @@ const CSV_HEADERS = [
   'Start Time',
   'End Date',
   'End Time',
+  'All Day Event',
   'Description',
   'Location',
 ];
@@ -40,12 +41,15 @@ export const generateCsvContent = (events: ValidatedEvent[]): string => {
   const headerRow = CSV_HEADERS.join(',');
   
   const eventRows = events.map(event => {
+    // Nel CSV di Google Calendar la data di fine degli eventi di un'intera giornata è inclusa
+    const endDate = event.allDay ? addDays(toYYYYMMDD(event.endDate), -1) : toYYYYMMDD(event.endDate);
     const row = [
       escapeCsvField(event.subject),
       formatDateForGoogle(toYYYYMMDD(event.startDate)),
-      escapeCsvField(event.startTime),
-      formatDateForGoogle(toYYYYMMDD(event.endDate)),
-      escapeCsvField(event.endTime),
+      escapeCsvField(event.allDay ? '' : event.startTime),
+      formatDateForGoogle(endDate),
+      escapeCsvField(event.allDay ? '' : event.endTime),
+      event.allDay ? 'True' : 'False',
       escapeCsvField(event.description),
       escapeCsvField(event.location),
     ];
@@ -15,3 +15,57 @@ export const toYYYYMMDD = (dateString: string): string => {
     const [day, month, year] = dateString.split('-');
     return `${year}-${month}-${day}`;
 };
+
+// I formattatori Intl sono costosi da creare: se ne mantiene uno per fuso orario
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Restituisce l'offset (in millisecondi) di un fuso orario IANA rispetto a UTC per un dato istante
+export const getTimeZoneOffset = (timeZone: string, instant: number): number => {
+    let formatter = offsetFormatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', second: '2-digit',
+        });
+        offsetFormatters.set(timeZone, formatter);
+    }
+    const parts = formatter.formatToParts(new Date(instant));
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// Converte un orario "a muro" (AAAA-MM-GG, HH:mm) espresso in un fuso orario IANA nell'istante corrispondente.
+// Lancia un'eccezione se il fuso orario non è riconosciuto dal browser.
+export const zonedTimeToDate = (dateString: string, timeString: string, timeZone: string): Date => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    const [hours, minutes] = timeString.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+    // Doppio passaggio per gestire correttamente gli istanti a ridosso del cambio dell'ora legale
+    let instant = wallClock - getTimeZoneOffset(timeZone, wallClock);
+    instant = wallClock - getTimeZoneOffset(timeZone, instant);
+    return new Date(instant);
+};
+
+// Formatta un istante nell'orario "a muro" di un fuso orario IANA come { date: AAAA-MM-GG, time: HH:mm }
+export const toZonedDateAndTime = (date: Date, timeZone: string): { date: string; time: string } => {
+    const iso = new Date(date.getTime() + getTimeZoneOffset(timeZone, date.getTime())).toISOString();
+    return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+};
+
+// Somma (o sottrae) giorni a una data AAAA-MM-GG
+export const addDays = (dateString: string, days: number): string => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return toLocalDateAndTime(new Date(year, month - 1, day + days)).date;
+};
+
+// Formatta un oggetto Date nel fuso orario locale come { date: AAAA-MM-GG, time: HH:mm }
+export const toLocalDateAndTime = (date: Date): { date: string; time: string } => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return {
+        date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+        time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+    };
+};
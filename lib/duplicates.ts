@@ -0,0 +1,250 @@
+import type { ValidatedEvent } from './types';
+import type { GCalEvent } from '../services/googleCalendarService';
+import { toYYYYMMDD, zonedTimeToDate } from './dateUtils';
+
+// Esito del confronto di un evento da importare con quelli già presenti nel calendario di destinazione.
+// 'unchanged' e 'changed' si usano quando si risincronizza un'importazione precedente.
+export type DuplicateStatus = 'new' | 'exact' | 'probable' | 'conflict' | 'unchanged' | 'changed';
+
+// Cosa fare dell'evento al momento dell'importazione:
+// saltarlo, aggiornare l'evento esistente oppure inserirlo comunque
+export type DuplicateAction = 'skip' | 'update' | 'force';
+
+export interface DuplicateCheck {
+    status: DuplicateStatus;
+    // L'evento esistente riconosciuto come duplicato o in conflitto di orario
+    match?: GCalEvent;
+    // Calendario dell'evento trovato, se può essere diverso da quello di destinazione
+    calendarId?: string;
+}
+
+export const duplicateStatusLabels: Record<DuplicateStatus, string> = {
+    new: 'Nuovo',
+    exact: 'Duplicato',
+    probable: 'Probabile duplicato',
+    conflict: 'Orario in conflitto',
+    unchanged: 'Già importato',
+    changed: 'Modificato',
+};
+
+// Azione proposta per ogni esito: i duplicati vengono saltati, il resto importato
+export const defaultDuplicateAction: Record<DuplicateStatus, DuplicateAction> = {
+    new: 'force',
+    exact: 'skip',
+    probable: 'skip',
+    conflict: 'force',
+    unchanged: 'skip',
+    changed: 'update',
+};
+
+// Somiglianza minima tra i titoli (0-1) per considerare due eventi lo stesso evento
+const SUBJECT_SIMILARITY_THRESHOLD = 0.8;
+// Scarto massimo tra gli orari di inizio per un probabile duplicato
+const START_TOLERANCE_MS = 30 * 60 * 1000;
+
+// Minuscole, senza accenti, punteggiatura e spazi ripetuti
+const normalizeText = (text: string | undefined): string => {
+    return (text || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+};
+
+// Coefficiente di Dice sulle coppie di caratteri: 1 per testi uguali, 0 per testi senza nulla in comune
+const textSimilarity = (a: string, b: string): number => {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const pair = a.slice(i, i + 2);
+        bigrams.set(pair, (bigrams.get(pair) || 0) + 1);
+    }
+    let shared = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const pair = b.slice(i, i + 2);
+        const count = bigrams.get(pair) || 0;
+        if (count > 0) {
+            bigrams.set(pair, count - 1);
+            shared++;
+        }
+    }
+    return (2 * shared) / (a.length + b.length - 2);
+};
+
+interface TimeRange {
+    start: number;
+    end: number;
+    allDay: boolean;
+}
+
+// Per gli eventi di un'intera giornata si usa la mezzanotte locale, come fa Google Calendar per `date`
+const localMidnight = (date: string): number => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day).getTime();
+};
+
+export const getEventTimeRange = (event: ValidatedEvent, defaultTimeZone: string): TimeRange => {
+    if (event.allDay) {
+        return { start: localMidnight(toYYYYMMDD(event.startDate)), end: localMidnight(toYYYYMMDD(event.endDate)), allDay: true };
+    }
+    const tz = event.timeZone || defaultTimeZone;
+    return {
+        start: zonedTimeToDate(toYYYYMMDD(event.startDate), event.startTime, tz).getTime(),
+        end: zonedTimeToDate(toYYYYMMDD(event.endDate), event.endTime, tz).getTime(),
+        allDay: false,
+    };
+};
+
+const getRemoteTimeRange = (event: GCalEvent): TimeRange | null => {
+    if (event.start.date && event.end.date) {
+        return { start: localMidnight(event.start.date), end: localMidnight(event.end.date), allDay: true };
+    }
+    if (event.start.dateTime && event.end.dateTime) {
+        return { start: new Date(event.start.dateTime).getTime(), end: new Date(event.end.dateTime).getTime(), allDay: false };
+    }
+    return null;
+};
+
+// Intervallo (RFC 3339) da richiedere a `listEvents` per coprire tutti gli eventi indicati,
+// allargato di un giorno per lato per includere gli eventi a cavallo dei fusi orari
+export const getEventsSpan = (events: ValidatedEvent[], defaultTimeZone: string): { timeMin: string; timeMax: string } | null => {
+    if (events.length === 0) return null;
+    const ranges = events.map(event => getEventTimeRange(event, defaultTimeZone));
+    const day = 24 * 60 * 60 * 1000;
+    const start = Math.min(...ranges.map(r => r.start)) - day;
+    const end = Math.max(...ranges.map(r => r.end)) + day;
+    return { timeMin: new Date(start).toISOString(), timeMax: new Date(end).toISOString() };
+};
+
+// Confronta un evento con quelli esistenti: prima cerca un duplicato esatto, poi uno probabile
+// (titolo simile, inizio vicino, luogo compatibile), infine un evento che occupa lo stesso orario.
+export const checkDuplicate = (event: ValidatedEvent, existing: GCalEvent[], defaultTimeZone: string): DuplicateCheck => {
+    const range = getEventTimeRange(event, defaultTimeZone);
+    const subject = normalizeText(event.subject);
+    const location = normalizeText(event.location);
+
+    let probable: GCalEvent | undefined;
+    let conflict: GCalEvent | undefined;
+
+    for (const remote of existing) {
+        const remoteRange = getRemoteTimeRange(remote);
+        if (!remoteRange) continue;
+
+        const remoteSubject = normalizeText(remote.summary);
+        const remoteLocation = normalizeText(remote.location);
+        const sameKind = remoteRange.allDay === range.allDay;
+        const startDiff = Math.abs(remoteRange.start - range.start);
+
+        if (sameKind && startDiff === 0 && remoteSubject === subject && remoteLocation === location) {
+            return { status: 'exact', match: remote };
+        }
+
+        const locationCompatible = !location || !remoteLocation || textSimilarity(location, remoteLocation) >= SUBJECT_SIMILARITY_THRESHOLD;
+        if (!probable && sameKind && startDiff <= START_TOLERANCE_MS && locationCompatible
+            && textSimilarity(subject, remoteSubject) >= SUBJECT_SIMILARITY_THRESHOLD) {
+            probable = remote;
+        }
+
+        // Solo gli eventi con orario possono sovrapporsi: quelli di un'intera giornata non occupano il tempo
+        if (!conflict && !range.allDay && !remoteRange.allDay && remote.transparency !== 'transparent'
+            && remoteRange.start < range.end && range.start < remoteRange.end) {
+            conflict = remote;
+        }
+    }
+
+    if (probable) return { status: 'probable', match: probable };
+    if (conflict) return { status: 'conflict', match: conflict };
+    return { status: 'new' };
+};
+
+// --- Duplicati già presenti nei calendari ---
+
+// Quale copia conservare in un gruppo di duplicati
+export type KeepStrategy = 'oldest' | 'attendees' | 'description';
+
+export const keepStrategyLabels: Record<KeepStrategy, string> = {
+    oldest: 'La più vecchia',
+    attendees: 'Quella con partecipanti',
+    description: 'La descrizione più completa',
+};
+
+// Eventi (di uno o più calendari) che sembrano copie dello stesso evento, in ordine di inizio
+export interface DuplicateGroup<T extends GCalEvent> {
+    id: string;
+    events: T[];
+}
+
+// Due eventi sono copie dello stesso evento se hanno titolo simile, orari che si sovrappongono con inizio
+// vicino e luogo compatibile. Le copie di uno stesso invito in calendari diversi non sono duplicati.
+const areDuplicates = (a: GCalEvent, aRange: TimeRange, b: GCalEvent, bRange: TimeRange): boolean => {
+    if (a.id === b.id || (a.iCalUID && a.iCalUID === b.iCalUID && a.recurringEventId === b.recurringEventId)) return false;
+    if (aRange.allDay !== bRange.allDay) return false;
+    if (Math.abs(aRange.start - bRange.start) > START_TOLERANCE_MS) return false;
+    if (!(aRange.start < bRange.end && bRange.start < aRange.end) && aRange.start !== bRange.start) return false;
+    if (textSimilarity(normalizeText(a.summary), normalizeText(b.summary)) < SUBJECT_SIMILARITY_THRESHOLD) return false;
+    const aLocation = normalizeText(a.location);
+    const bLocation = normalizeText(b.location);
+    return !aLocation || !bLocation || textSimilarity(aLocation, bLocation) >= SUBJECT_SIMILARITY_THRESHOLD;
+};
+
+// Raggruppa gli eventi duplicati. Un evento simile a due eventi del gruppo (anche se questi non si somigliano
+// abbastanza tra loro) finisce nello stesso gruppo; gli eventi senza copie non compaiono nel risultato.
+export const findDuplicateGroups = <T extends GCalEvent>(events: T[]): DuplicateGroup<T>[] => {
+    const items = events
+        .map(event => ({ event, range: getRemoteTimeRange(event) }))
+        .filter((item): item is { event: T; range: TimeRange } => item.range !== null)
+        .sort((a, b) => a.range.start - b.range.start);
+
+    // Union-find sugli indici: ogni evento punta a un rappresentante del proprio gruppo
+    const parent = items.map((_, index) => index);
+    const find = (index: number): number => {
+        while (parent[index] !== index) {
+            parent[index] = parent[parent[index]];
+            index = parent[index];
+        }
+        return index;
+    };
+
+    for (let i = 0; i < items.length; i++) {
+        // Gli eventi sono ordinati per inizio: oltre la tolleranza non ci sono più candidati
+        for (let j = i + 1; j < items.length && items[j].range.start - items[i].range.start <= START_TOLERANCE_MS; j++) {
+            if (areDuplicates(items[i].event, items[i].range, items[j].event, items[j].range)) {
+                parent[find(j)] = find(i);
+            }
+        }
+    }
+
+    const groups = new Map<number, T[]>();
+    items.forEach((item, index) => {
+        const root = find(index);
+        groups.set(root, [...(groups.get(root) || []), item.event]);
+    });
+    return Array.from(groups.values())
+        .filter(group => group.length > 1)
+        .map(group => ({ id: group[0].id, events: group }));
+};
+
+// Punteggio di completezza per ciascun criterio; a parità vale la copia creata per prima
+const keepScore: Record<KeepStrategy, (event: GCalEvent) => number> = {
+    oldest: () => 0,
+    attendees: event => event.attendees?.length || 0,
+    description: event => (event.description || '').trim().length,
+};
+
+// Copia da conservare proposta secondo il criterio scelto
+export const chooseEventToKeep = <T extends GCalEvent>(group: DuplicateGroup<T>, strategy: KeepStrategy): T => {
+    const created = (event: GCalEvent) => (event.created ? new Date(event.created).getTime() : Infinity);
+    return [...group.events].sort((a, b) => keepScore[strategy](b) - keepScore[strategy](a) || created(a) - created(b))[0];
+};
+
+// Id degli eventi da eliminare: in ogni gruppo tutti tranne la copia proposta
+export const proposeDuplicateDeletions = <T extends GCalEvent>(groups: DuplicateGroup<T>[], strategy: KeepStrategy): Set<string> => {
+    const ids = new Set<string>();
+    groups.forEach(group => {
+        const keep = chooseEventToKeep(group, strategy);
+        group.events.forEach(event => { if (event !== keep) ids.add(event.id); });
+    });
+    return ids;
+};
@@ -0,0 +1,211 @@
+import type { FilterParams } from '../services/geminiService';
+import type { GCalEvent } from '../services/googleCalendarService';
+import type { Weekday } from './types';
+
+// Filtri di ricerca di "Pulisci Calendario". Le date di inizio e fine delimitano l'intervallo richiesto a Google;
+// tutti gli altri filtri vengono applicati sugli eventi caricati.
+
+export const emptyFilterParams: FilterParams = {
+    startDate: '',
+    endDate: '',
+    startTime: '',
+    text: '',
+    textIsRegex: false,
+    exclude: '',
+    location: '',
+    attendee: '',
+    organizer: '',
+    responseStatus: '',
+    recurrence: '',
+    minDuration: 0,
+    maxDuration: 0,
+    weekdays: [],
+    createdAfter: '',
+    createdBefore: '',
+    updatedAfter: '',
+    updatedBefore: '',
+    eventType: '',
+};
+
+export const responseStatusOptions: { id: FilterParams['responseStatus']; label: string }[] = [
+    { id: '', label: 'Qualsiasi' },
+    { id: 'needsAction', label: 'In attesa di risposta' },
+    { id: 'declined', label: 'Rifiutato' },
+    { id: 'tentative', label: 'Forse' },
+    { id: 'accepted', label: 'Accettato' },
+];
+
+export const recurrenceOptions: { id: FilterParams['recurrence']; label: string }[] = [
+    { id: '', label: 'Tutti' },
+    { id: 'recurring', label: 'Solo ricorrenti' },
+    { id: 'single', label: 'Solo singoli' },
+];
+
+export const eventTypeOptions: { id: FilterParams['eventType']; label: string }[] = [
+    { id: '', label: 'Tutti i tipi' },
+    { id: 'default', label: 'Evento' },
+    { id: 'outOfOffice', label: 'Fuori sede' },
+    { id: 'focusTime', label: 'Tempo per concentrarsi' },
+    { id: 'workingLocation', label: 'Luogo di lavoro' },
+    { id: 'birthday', label: 'Compleanno' },
+    { id: 'fromGmail', label: 'Da Gmail' },
+];
+
+const WEEKDAY_CODES: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+// Stesso ordine di Date.getDay()
+const WEEKDAY_INDEX: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+const asMinutes = (value: unknown): number => {
+    const minutes = Number(value);
+    return Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes) : 0;
+};
+const asOption = <T extends string>(value: unknown, options: { id: T }[]): T => {
+    const option = options.find(o => o.id === value);
+    return option ? option.id : options[0].id;
+};
+
+// Completa e ripulisce filtri di provenienza esterna (risposta dell'IA, regole salvate o importate)
+export const normalizeFilterParams = (value: any): FilterParams => {
+    const source = value && typeof value === 'object' ? value : {};
+    return {
+        startDate: asString(source.startDate),
+        endDate: asString(source.endDate),
+        startTime: asString(source.startTime),
+        text: asString(source.text),
+        textIsRegex: source.textIsRegex === true,
+        exclude: asString(source.exclude),
+        location: asString(source.location),
+        attendee: asString(source.attendee),
+        organizer: asString(source.organizer),
+        responseStatus: asOption(source.responseStatus, responseStatusOptions),
+        recurrence: asOption(source.recurrence, recurrenceOptions),
+        minDuration: asMinutes(source.minDuration),
+        maxDuration: asMinutes(source.maxDuration),
+        weekdays: Array.isArray(source.weekdays) ? WEEKDAY_CODES.filter(day => source.weekdays.includes(day)) : [],
+        createdAfter: asString(source.createdAfter),
+        createdBefore: asString(source.createdBefore),
+        updatedAfter: asString(source.updatedAfter),
+        updatedBefore: asString(source.updatedBefore),
+        eventType: asOption(source.eventType, eventTypeOptions),
+    };
+};
+
+// True se è impostato almeno un filtro della sezione "Filtri avanzati"
+export const hasAdvancedFilters = (filters: FilterParams): boolean => {
+    return !!(filters.exclude || filters.attendee || filters.organizer || filters.responseStatus || filters.recurrence
+        || filters.minDuration || filters.maxDuration || filters.weekdays.length > 0
+        || filters.createdAfter || filters.createdBefore || filters.updatedAfter || filters.updatedBefore || filters.eventType);
+};
+
+// Messaggio d'errore per filtri non utilizzabili, o null se sono validi
+export const getFilterError = (filters: FilterParams): string | null => {
+    if (filters.textIsRegex && filters.text) {
+        try {
+            new RegExp(filters.text, 'i');
+        } catch (e) {
+            return `Espressione regolare non valida: ${(e as Error).message}`;
+        }
+    }
+    if (filters.minDuration && filters.maxDuration && filters.minDuration > filters.maxDuration) {
+        return 'La durata minima supera la durata massima.';
+    }
+    return null;
+};
+
+// La mia risposta all'evento. Gli eventi senza partecipanti sono eventi personali, considerati accettati.
+const getMyResponseStatus = (event: GCalEvent): string | undefined => {
+    if (!event.attendees?.length) return 'accepted';
+    return event.attendees.find(attendee => attendee.self)?.responseStatus;
+};
+
+// Durata in minuti; per gli eventi di un giorno intero conta i giorni (la data di fine è esclusa)
+const getDurationMinutes = (event: GCalEvent): number | null => {
+    if (event.start.dateTime && event.end.dateTime) {
+        return (new Date(event.end.dateTime).getTime() - new Date(event.start.dateTime).getTime()) / 60000;
+    }
+    if (event.start.date && event.end.date) {
+        return (Date.parse(event.end.date) - Date.parse(event.start.date)) / 60000;
+    }
+    return null;
+};
+
+const getStartWeekday = (event: GCalEvent): Weekday | null => {
+    if (event.start.dateTime) return WEEKDAY_INDEX[new Date(event.start.dateTime).getDay()];
+    if (event.start.date) return WEEKDAY_INDEX[new Date(`${event.start.date}T00:00:00Z`).getUTCDay()];
+    return null;
+};
+
+// Confronta un istante RFC 3339 con un intervallo di giorni locali (estremi AAAA-MM-GG inclusi, vuoti = aperti)
+const isWithinDays = (timestamp: string | undefined, after: string, before: string): boolean => {
+    if (!after && !before) return true;
+    if (!timestamp) return false;
+    const time = new Date(timestamp).getTime();
+    if (after && time < new Date(`${after}T00:00:00`).getTime()) return false;
+    if (before && time > new Date(`${before}T23:59:59.999`).getTime()) return false;
+    return true;
+};
+
+const includesText = (value: string | undefined, term: string) => !!value && value.toLowerCase().includes(term);
+
+// Crea la funzione che verifica un evento rispetto ai filtri (le date di inizio e fine non vengono ricontrollate).
+// I filtri devono essere validi secondo getFilterError.
+export const buildEventMatcher = (filters: FilterParams): ((event: GCalEvent) => boolean) => {
+    const textFilter = filters.text.toLowerCase();
+    const textRegex = filters.textIsRegex && filters.text ? new RegExp(filters.text, 'i') : null;
+    const excludedTerms = filters.exclude.split(',').map(term => term.trim().toLowerCase()).filter(Boolean);
+    const locationFilter = filters.location.toLowerCase();
+    const attendeeFilter = filters.attendee.toLowerCase();
+    const organizerFilter = filters.organizer.toLowerCase();
+
+    return (event: GCalEvent) => {
+        if (textRegex) {
+            if (!textRegex.test(event.summary || '') && !textRegex.test(event.description || '')) return false;
+        } else if (textFilter && !includesText(event.summary, textFilter) && !includesText(event.description, textFilter)) {
+            return false;
+        }
+        if (excludedTerms.some(term => includesText(event.summary, term) || includesText(event.description, term) || includesText(event.location, term))) {
+            return false;
+        }
+        if (locationFilter && !includesText(event.location, locationFilter)) return false;
+
+        if (filters.startTime) {
+            const eventDateTime = event.start.dateTime || event.start.date || '';
+            if (!eventDateTime) return false;
+            const eventTimeStr = new Date(eventDateTime).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit', hour12: false });
+            if (!eventTimeStr.includes(filters.startTime)) return false;
+        }
+
+        if (attendeeFilter && !event.attendees?.some(attendee => includesText(attendee.email, attendeeFilter) || includesText(attendee.displayName, attendeeFilter))) {
+            return false;
+        }
+        if (organizerFilter && !includesText(event.organizer?.email, organizerFilter) && !includesText(event.organizer?.displayName, organizerFilter)) {
+            return false;
+        }
+        if (filters.responseStatus && getMyResponseStatus(event) !== filters.responseStatus) return false;
+
+        if (filters.recurrence) {
+            const isRecurring = !!event.recurringEventId || !!event.recurrence?.length;
+            if (isRecurring !== (filters.recurrence === 'recurring')) return false;
+        }
+
+        if (filters.minDuration || filters.maxDuration) {
+            const duration = getDurationMinutes(event);
+            if (duration === null) return false;
+            if (filters.minDuration && duration < filters.minDuration) return false;
+            if (filters.maxDuration && duration > filters.maxDuration) return false;
+        }
+
+        if (filters.weekdays.length > 0) {
+            const weekday = getStartWeekday(event);
+            if (!weekday || !filters.weekdays.includes(weekday)) return false;
+        }
+
+        if (!isWithinDays(event.created, filters.createdAfter, filters.createdBefore)) return false;
+        if (!isWithinDays(event.updated, filters.updatedAfter, filters.updatedBefore)) return false;
+
+        if (filters.eventType && (event.eventType || 'default') !== filters.eventType) return false;
+
+        return true;
+    };
+};
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { generateIcsContent, parseIcsContent, generateBackupIcsContent, parseBackupIcsContent } from './ics';
+import { createBackup } from './backup';
+import type { BackupEvent } from './backup';
+import type { ValidatedEvent } from './types';
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const baseEvent: ValidatedEvent = {
+  id: 1,
+  subject: 'Lezione; Matematica, aula 2',
+  startDate: '2026-03-02',
+  startTime: '09:00',
+  endDate: '2026-03-02',
+  endTime: '10:30',
+  description: 'Riga 1\nRiga 2',
+  location: 'Aula 2',
+  timeZone: 'Europe/Rome',
+  errors: {},
+  isValid: true,
+};
+
+describe('parseIcsContent', () => {
+  it('rifiuta un file che non è un calendario', () => {
+    expect(() => parseIcsContent('non un calendario')).toThrow('Il file non è un calendario iCalendar (.ics) valido.');
+  });
+
+  it('legge date, testo con escape, righe piegate ed eventi di un giorno intero', () => {
+    const events = parseIcsContent(calendar(
+      'BEGIN:VEVENT',
+      'UID:a',
+      'DTSTART;TZID=Europe/Rome:20260302T090000',
+      'DTEND;TZID=Europe/Rome:20260302T103000',
+      'SUMMARY:Lezione\\; Matematica\\, aula',
+      '  2',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:b',
+      'DTSTART;VALUE=DATE:20260305',
+      'SUMMARY:Gita',
+      'END:VEVENT',
+    ));
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      subject: 'Lezione; Matematica, aula 2',
+      startDate: '2026-03-02', startTime: '09:00', endDate: '2026-03-02', endTime: '10:30', timeZone: 'Europe/Rome',
+    });
+    expect(events[1]).toMatchObject({ subject: 'Gita', allDay: true, startDate: '2026-03-05', endDate: '2026-03-06' });
+  });
+
+  it('calcola la fine da DURATION nel fuso orario dell\'evento, anche al cambio dell\'ora legale', () => {
+    const [event] = parseIcsContent(calendar(
+      'BEGIN:VEVENT',
+      'UID:dst',
+      // Il 29 marzo 2026 alle 02:00 gli orologi di Roma passano alle 03:00
+      'DTSTART;TZID=Europe/Rome:20260329T013000',
+      'DURATION:PT2H',
+      'SUMMARY:Notte',
+      'END:VEVENT',
+    ));
+    expect(event).toMatchObject({ startTime: '01:30', endDate: '2026-03-29', endTime: '04:30', timeZone: 'Europe/Rome' });
+  });
+
+  it('somma DURATION all\'orario "a muro" per gli orari senza fuso orario', () => {
+    const [event] = parseIcsContent(calendar(
+      'BEGIN:VEVENT',
+      'UID:floating',
+      'DTSTART:20260329T013000',
+      'DURATION:PT2H',
+      'SUMMARY:Floating',
+      'END:VEVENT',
+    ));
+    expect(event).toMatchObject({ endDate: '2026-03-29', endTime: '03:30' });
+    expect(event.timeZone).toBeUndefined();
+  });
+
+  it('esclude dalla serie le occorrenze modificate con RECURRENCE-ID e le importa come eventi singoli', () => {
+    const events = parseIcsContent(calendar(
+      'BEGIN:VEVENT',
+      'UID:serie',
+      'DTSTART;TZID=Europe/Rome:20260302T090000',
+      'DTEND;TZID=Europe/Rome:20260302T100000',
+      'RRULE:FREQ=WEEKLY;COUNT=4',
+      'EXDATE;TZID=Europe/Rome:20260323T090000',
+      'SUMMARY:Riunione',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:serie',
+      'RECURRENCE-ID;TZID=Europe/Rome:20260309T090000',
+      'DTSTART;TZID=Europe/Rome:20260310T140000',
+      'DTEND;TZID=Europe/Rome:20260310T150000',
+      'SUMMARY:Riunione (spostata)',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:serie',
+      'RECURRENCE-ID:20260316T080000Z',
+      'DTSTART;TZID=Europe/Rome:20260316T090000',
+      'STATUS:CANCELLED',
+      'SUMMARY:Riunione',
+      'END:VEVENT',
+    ));
+    expect(events).toHaveLength(2);
+    expect(events[0].recurrence?.exceptions).toEqual(['2026-03-23', '2026-03-09', '2026-03-16']);
+    expect(events[1]).toMatchObject({ subject: 'Riunione (spostata)', startDate: '2026-03-10', startTime: '14:00' });
+    expect(events[1].recurrence).toBeUndefined();
+  });
+
+  it('importa come evento singolo un\'occorrenza modificata senza la sua serie', () => {
+    const events = parseIcsContent(calendar(
+      'BEGIN:VEVENT',
+      'UID:orfana',
+      'RECURRENCE-ID;TZID=Europe/Rome:20260309T090000',
+      'DTSTART;TZID=Europe/Rome:20260310T140000',
+      'DTEND;TZID=Europe/Rome:20260310T150000',
+      'SUMMARY:Occorrenza',
+      'END:VEVENT',
+    ));
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ subject: 'Occorrenza', startDate: '2026-03-10' });
+  });
+});
+
+describe('generateIcsContent', () => {
+  it('genera un evento con fuso orario, VTIMEZONE e testo con escape', () => {
+    const content = generateIcsContent([baseEvent]);
+    const lines = content.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('TZID:Europe/Rome');
+    expect(lines).toContain('DTSTART;TZID=Europe/Rome:20260302T090000');
+    expect(lines).toContain('DTEND;TZID=Europe/Rome:20260302T103000');
+    expect(lines).toContain('SUMMARY:Lezione\\; Matematica\\, aula 2');
+    expect(lines).toContain('DESCRIPTION:Riga 1\\nRiga 2');
+  });
+
+  it('rilegge gli eventi generati', () => {
+    const recurring: ValidatedEvent = {
+      ...baseEvent,
+      recurrence: { frequency: 'WEEKLY', interval: 1, byDay: ['MO', 'WE'], until: '2026-06-30', exceptions: ['2026-03-04'] },
+    };
+    const [event] = parseIcsContent(generateIcsContent([recurring]));
+    expect(event).toMatchObject({
+      subject: baseEvent.subject,
+      description: baseEvent.description,
+      startDate: '2026-03-02', startTime: '09:00', endTime: '10:30', timeZone: 'Europe/Rome',
+    });
+    expect(event.recurrence).toMatchObject({ frequency: 'WEEKLY', byDay: ['MO', 'WE'], until: '2026-06-30', exceptions: ['2026-03-04'] });
+  });
+});
+
+describe('backup .ics', () => {
+  const events = [
+    {
+      id: 'a1', calendarId: 'cal@example.com', summary: 'Riunione con un titolo abbastanza lungo da richiedere più righe 🎉',
+      start: { dateTime: '2026-03-29T09:00:00+02:00', timeZone: 'Europe/Rome' },
+      end: { dateTime: '2026-03-29T10:00:00+02:00', timeZone: 'Europe/Rome' },
+      reminders: { useDefault: false, overrides: [{ method: 'popup', minutes: 5 }] },
+      htmlLink: 'https://calendar.google.com/a1',
+    },
+    { id: 'b2', calendarId: 'cal@example.com', summary: 'Giorno intero', start: { date: '2026-04-01' }, end: { date: '2026-04-02' }, htmlLink: '' },
+  ] as BackupEvent[];
+  const backup = createBackup('me@example.com', [{ id: 'cal@example.com', summary: 'Condiviso' }], events);
+
+  it('piega le righe a 75 ottetti', () => {
+    const content = generateBackupIcsContent(backup);
+    content.split('\r\n').forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+  });
+
+  it('rilegge le risorse complete degli eventi', () => {
+    const loaded = parseBackupIcsContent(generateBackupIcsContent(backup));
+    expect(loaded.events).toEqual(events);
+    expect(loaded.account).toBe('me@example.com');
+    expect(loaded.calendars).toEqual([{ id: 'cal@example.com', summary: 'Condiviso' }]);
+  });
+
+  it('rifiuta un .ics che non è un backup', () => {
+    expect(() => parseBackupIcsContent(calendar())).toThrow('non è un backup di ForMa');
+  });
+});
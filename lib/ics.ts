@@ -1,23 +1,75 @@
-import type { ValidatedEvent } from './types';
-import { toYYYYMMDD } from './dateUtils';
+import type { EventObject, EventPerson, EventReminder, ValidatedEvent } from './types';
+import { toYYYYMMDD, zonedTimeToDate, toLocalDateAndTime, toZonedDateAndTime, addDays } from './dateUtils';
+import { buildRRule, parseRRule, formatRRuleUtc } from './recurrence';
+import { buildVTimezone, getBrowserTimeZone, isValidTimeZone } from './timezone';
+import { resolveReminders } from './reminders';
+import type { BackupEvent, CalendarBackup, LoadedBackup } from './backup';
+import { defaultEventColors, findEventColor, parseEventColor } from './colors';
 
-// Formatta data e ora per iCalendar (YYYYMMDDTHHmmss) come "floating time"
+export type ParsedIcsEvent = Omit<EventObject, 'id'>;
+
+// Formatta data e ora per iCalendar (YYYYMMDDTHHmmss) come orario locale
 const formatIcsDateTime = (dateStr: string, timeStr: string): string => {
   const yyyymmdd = toYYYYMMDD(dateStr);
   const [year, month, day] = yyyymmdd.split('-');
   const [hours, minutes] = timeStr.split(':');
   
-  // Omette 'Z' per creare un "floating time" che verrà interpretato nel fuso orario locale dell'utente all'importazione.
+  // Omette 'Z': l'orario è riferito al TZID della proprietà oppure, in sua assenza, è un "floating time"
+  // che verrà interpretato nel fuso orario locale dell'utente all'importazione.
   return `${year}${month}${day}T${hours}${minutes}00`;
 };
 
+// Anni coperti da un evento, per generare le regole VTIMEZONE necessarie
+const getEventYears = (event: ValidatedEvent): { from: number; to: number } => {
+  const from = Number(toYYYYMMDD(event.startDate).slice(0, 4));
+  let to = Number(toYYYYMMDD(event.endDate).slice(0, 4));
+  if (event.recurrence?.until) {
+    to = Math.max(to, Number(toYYYYMMDD(event.recurrence.until).slice(0, 4)));
+  } else if (event.recurrence?.count) {
+    // Stima della durata della serie in base al numero di ripetizioni
+    const periodsPerYear = { DAILY: 365, WEEKLY: 52, MONTHLY: 12, YEARLY: 1 }[event.recurrence.frequency];
+    to = Math.max(to, from + Math.ceil((event.recurrence.count * event.recurrence.interval) / periodsPerYear));
+  } else if (event.recurrence) {
+    // Serie senza fine: si coprono i dieci anni successivi
+    to = Math.max(to, from + 10);
+  }
+  return { from, to };
+};
+
+// Formatta una data per iCalendar (YYYYMMDD), per le proprietà con VALUE=DATE
+const formatIcsDate = (dateStr: string): string => toYYYYMMDD(dateStr).replace(/-/g, '');
+
 // Esegue l'escape del testo per il formato iCalendar
 const escapeIcsText = (text: string): string => {
   if (!text) return '';
   return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
 };
 
-export const generateIcsContent = (events: ValidatedEvent[]): string => {
+export interface IcsExportOptions {
+  // Si applica agli eventi senza fuso orario; se non viene indicato, i loro orari restano "floating"
+  defaultTimeZone?: string;
+  // Si applica agli eventi senza promemoria propri
+  defaultReminder?: EventReminder | null;
+}
+
+// Proprietà ORGANIZER/ATTENDEE: il nome va tra virgolette (che non può contenere) come parametro CN
+const formatIcsPerson = (name: string, person: EventPerson, params: string[] = []): string => {
+  const cn = person.name ? [`CN="${person.name.replace(/"/g, "'")}"`] : [];
+  return `${[name, ...cn, ...params].join(';')}:mailto:${person.email}`;
+};
+
+// Genera un allarme VALARM. I promemoria via email diventano notifiche: un allarme EMAIL richiede un destinatario
+// e le app di calendario che importano file .ics non inviano comunque email.
+const buildValarm = (reminder: EventReminder, summary: string): string[] => [
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  `DESCRIPTION:${escapeIcsText(summary) || 'Promemoria'}`,
+  `TRIGGER:${reminder.minutes === 0 ? 'PT0M' : `-PT${reminder.minutes}M`}`,
+  'END:VALARM',
+];
+
+export const generateIcsContent = (events: ValidatedEvent[], options: IcsExportOptions = {}): string => {
+  const { defaultTimeZone, defaultReminder = null } = options;
   const cal = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
@@ -25,7 +77,22 @@ export const generateIcsContent = (events: ValidatedEvent[]): string => {
     'CALSCALE:GREGORIAN',
   ];
 
+  const zoneOf = (event: ValidatedEvent) => (event.allDay ? undefined : event.timeZone || defaultTimeZone);
+
+  // Un blocco VTIMEZONE per ogni fuso orario usato, che copre gli anni di tutti i suoi eventi
+  const zoneYears = new Map<string, { from: number; to: number }>();
   events.forEach(event => {
+    const zone = zoneOf(event);
+    if (!zone) return;
+    const years = getEventYears(event);
+    const current = zoneYears.get(zone);
+    zoneYears.set(zone, current ? { from: Math.min(current.from, years.from), to: Math.max(current.to, years.to) } : years);
+  });
+  zoneYears.forEach((years, zone) => cal.push(...buildVTimezone(zone, years.from, years.to)));
+
+  events.forEach(event => {
+    const zone = zoneOf(event);
+    const tzParam = zone ? `;TZID=${zone}` : '';
     // DTSTAMP deve essere in formato UTC
     const dtStamp = new Date().toISOString().replace(/[-:.]/g, '').slice(0, 15) + 'Z';
     const uid = `${dtStamp}-${event.id}@forma-app`;
@@ -33,8 +100,14 @@ export const generateIcsContent = (events: ValidatedEvent[]): string => {
     cal.push('BEGIN:VEVENT');
     cal.push(`UID:${uid}`);
     cal.push(`DTSTAMP:${dtStamp}`);
-    cal.push(`DTSTART:${formatIcsDateTime(event.startDate, event.startTime)}`);
-    cal.push(`DTEND:${formatIcsDateTime(event.endDate, event.endTime)}`);
+    if (event.allDay) {
+      // DTEND è esclusivo, come `endDate` degli eventi di un'intera giornata
+      cal.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.startDate)}`);
+      cal.push(`DTEND;VALUE=DATE:${formatIcsDate(event.endDate)}`);
+    } else {
+      cal.push(`DTSTART${tzParam}:${formatIcsDateTime(event.startDate, event.startTime)}`);
+      cal.push(`DTEND${tzParam}:${formatIcsDateTime(event.endDate, event.endTime)}`);
+    }
     cal.push(`SUMMARY:${escapeIcsText(event.subject)}`);
     if (event.description) {
       cal.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
@@ -42,10 +115,464 @@ export const generateIcsContent = (events: ValidatedEvent[]): string => {
     if (event.location) {
       cal.push(`LOCATION:${escapeIcsText(event.location)}`);
     }
+    // COLOR (RFC 7986) accetta solo nomi di colore CSS: si usa quello più vicino al colore di Google Calendar
+    const color = findEventColor(defaultEventColors, event.colorId);
+    if (color) {
+      cal.push(`COLOR:${color.cssName}`);
+    }
+    if (event.organizer) {
+      cal.push(formatIcsPerson('ORGANIZER', event.organizer));
+    }
+    (event.attendees || []).forEach(person => {
+      cal.push(formatIcsPerson('ATTENDEE', person, ['ROLE=REQ-PARTICIPANT', 'PARTSTAT=NEEDS-ACTION', 'RSVP=TRUE']));
+    });
+    if (event.recurrence) {
+      // UNTIL deve avere lo stesso tipo di valore di DTSTART (DATE o DATE-TIME "floating"), oppure essere in UTC se DTSTART ha un TZID
+      cal.push(buildRRule(event.recurrence, date => {
+        if (event.allDay) return date.replace(/-/g, '');
+        return zone ? formatRRuleUtc(zonedTimeToDate(date, '23:59', zone)) : `${date.replace(/-/g, '')}T235959`;
+      }));
+      if (event.recurrence.exceptions.length > 0) {
+        cal.push(event.allDay
+          ? `EXDATE;VALUE=DATE:${event.recurrence.exceptions.map(formatIcsDate).join(',')}`
+          : `EXDATE${tzParam}:${event.recurrence.exceptions.map(date => formatIcsDateTime(date, event.startTime)).join(',')}`);
+      }
+    }
+    resolveReminders(event, defaultReminder).forEach(reminder => cal.push(...buildValarm(reminder, event.subject)));
     cal.push('END:VEVENT');
   });
 
   cal.push('END:VCALENDAR');
 
   return cal.join('\r\n');
-};
\ No newline at end of file
+};
+
+// --- Backup ---
+
+// Codifica in base64 un testo UTF-8 (btoa accetta solo caratteri a 8 bit)
+const toBase64 = (text: string): string => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): string => {
+  return new TextDecoder().decode(Uint8Array.from(atob(value.trim()), char => char.charCodeAt(0)));
+};
+
+// "Piega" una riga lunga (RFC 5545 §3.1): al massimo 75 ottetti per riga, le continuazioni iniziano con uno spazio
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// Proprietà con la risorsa completa dell'evento (JSON in base64): è ciò che permette di ripristinare un backup .ics
+const BACKUP_EVENT_PROPERTY = 'X-FORMA-GOOGLE-EVENT';
+// Proprietà del calendario con i dati del backup (data, account, calendari di provenienza)
+const BACKUP_INFO_PROPERTY = 'X-FORMA-BACKUP';
+
+type GoogleDateTime = BackupEvent['start'];
+
+const partStatByResponse: Record<string, string> = {
+  needsAction: 'NEEDS-ACTION',
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED',
+  tentative: 'TENTATIVE',
+};
+
+const formatUtcStamp = (timestamp: string): string => formatRRuleUtc(new Date(timestamp));
+
+// DTSTART, DTEND o RECURRENCE-ID di un evento di Google: data per i giorni interi, orario nel fuso dell'evento
+// se valido, altrimenti in UTC
+const formatGoogleDateTime = (name: string, value: GoogleDateTime): string => {
+  if (value.date) return `${name};VALUE=DATE:${value.date.replace(/-/g, '')}`;
+  const instant = new Date(value.dateTime!);
+  if (value.timeZone && isValidTimeZone(value.timeZone)) {
+    const { date, time } = toZonedDateAndTime(instant, value.timeZone);
+    return `${name};TZID=${value.timeZone}:${formatIcsDateTime(date, time)}`;
+  }
+  return `${name}:${formatRRuleUtc(instant)}`;
+};
+
+// Genera un file .ics leggibile da qualsiasi app di calendario che conserva, per ogni evento, la risorsa
+// di Google Calendar completa. Le occorrenze di una serie diventano eventi a sé, con un UID proprio.
+export const generateBackupIcsContent = (backup: CalendarBackup): string => {
+  const { events, ...info } = backup;
+  const cal = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ForMa//Calendar Backup v1.0//IT',
+    'CALSCALE:GREGORIAN',
+  ];
+  if (backup.calendars.length === 1) {
+    cal.push(`X-WR-CALNAME:${escapeIcsText(backup.calendars[0].summary)}`);
+  }
+  cal.push(`${BACKUP_INFO_PROPERTY}:${toBase64(JSON.stringify(info))}`);
+
+  const zoneYears = new Map<string, { from: number; to: number }>();
+  events.forEach(event => [event.start, event.end, event.originalStartTime].forEach(value => {
+    if (!value?.dateTime || !value.timeZone || !isValidTimeZone(value.timeZone)) return;
+    const year = new Date(value.dateTime).getUTCFullYear();
+    // Le serie ricorrenti salvate con la regola completa vengono coperte per i dieci anni successivi
+    const to = event.recurrence?.length ? year + 10 : year;
+    const current = zoneYears.get(value.timeZone);
+    zoneYears.set(value.timeZone, current ? { from: Math.min(current.from, year), to: Math.max(current.to, to) } : { from: year, to });
+  }));
+  zoneYears.forEach((years, zone) => cal.push(...buildVTimezone(zone, years.from, years.to)));
+
+  const now = formatRRuleUtc(new Date());
+  events.forEach(event => {
+    cal.push('BEGIN:VEVENT');
+    // Le occorrenze condividono l'iCalUID della serie: senza l'evento principale servono UID distinti
+    cal.push(`UID:${event.recurringEventId || !event.iCalUID ? `${event.id}@google.com` : event.iCalUID}`);
+    cal.push(`DTSTAMP:${event.updated ? formatUtcStamp(event.updated) : now}`);
+    cal.push(formatGoogleDateTime('DTSTART', event.start));
+    cal.push(formatGoogleDateTime('DTEND', event.end));
+    cal.push(`SUMMARY:${escapeIcsText(event.summary || '')}`);
+    if (event.description) cal.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.location) cal.push(`LOCATION:${escapeIcsText(event.location)}`);
+    if (event.transparency === 'transparent') cal.push('TRANSP:TRANSPARENT');
+    const color = findEventColor(defaultEventColors, event.colorId);
+    if (color) cal.push(`COLOR:${color.cssName}`);
+    if (event.organizer?.email) {
+      cal.push(formatIcsPerson('ORGANIZER', { email: event.organizer.email, name: event.organizer.displayName }));
+    }
+    (event.attendees || []).forEach(attendee => {
+      const partStat = partStatByResponse[attendee.responseStatus || ''] || 'NEEDS-ACTION';
+      cal.push(formatIcsPerson('ATTENDEE', { email: attendee.email, name: attendee.displayName }, [`PARTSTAT=${partStat}`]));
+    });
+    (event.recurrence || []).forEach(line => cal.push(line));
+    if (event.created) cal.push(`CREATED:${formatUtcStamp(event.created)}`);
+    if (event.updated) cal.push(`LAST-MODIFIED:${formatUtcStamp(event.updated)}`);
+    if (event.htmlLink) cal.push(`URL:${event.htmlLink}`);
+    cal.push(`${BACKUP_EVENT_PROPERTY}:${toBase64(JSON.stringify(event))}`);
+    cal.push('END:VEVENT');
+  });
+
+  cal.push('END:VCALENDAR');
+
+  return cal.map(foldLine).join('\r\n');
+};
+
+// --- Importazione ---
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Ricompone le righe "piegate" (RFC 5545 §3.1): una riga che inizia con spazio o tab continua la precedente
+const unfoldLines = (content: string): string[] => {
+  return content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim() !== '');
+};
+
+// Separa nome, parametri e valore di una proprietà, ignorando i ":" e ";" racchiusi tra virgolette
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colonIndex = i; break; }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colonIndex).match(/(?:[^;"]+|"[^"]*")+/g) || [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+};
+
+// Ripristina i caratteri di cui è stato fatto l'escape nei valori di tipo TEXT
+const unescapeIcsText = (text: string): string => {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+interface IcsDate {
+  date: string;
+  time: string;
+  isDate: boolean;
+  timeZone?: string;
+}
+
+// Converte un valore DATE o DATE-TIME in data (AAAA-MM-GG) e ora (HH:mm).
+// Gli orari con TZID mantengono il proprio fuso orario, quelli in UTC ("Z") vengono riportati al fuso orario del browser;
+// quelli "floating" restano senza fuso orario.
+const parseIcsDate = (prop: IcsProperty): IcsDate | null => {
+  const match = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+
+  if (hours === undefined || prop.params.VALUE === 'DATE') {
+    return { date, time: '00:00', isDate: true };
+  }
+
+  const time = `${hours}:${minutes}`;
+  if (utc) {
+    return { ...toLocalDateAndTime(new Date(`${date}T${time}:00Z`)), isDate: false, timeZone: getBrowserTimeZone() };
+  }
+  if (prop.params.TZID && isValidTimeZone(prop.params.TZID)) {
+    return { date, time, isDate: false, timeZone: prop.params.TZID };
+  }
+  // Orario "floating" o TZID non IANA (es. nomi Windows di Outlook): si mantiene l'orario così com'è
+  return { date, time, isDate: false };
+};
+
+// Converte una DURATION (es. P1D, PT1H30M, P2W) in minuti
+const parseIcsDuration = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (Number(weeks || 0) * 7 * 24 + Number(days || 0) * 24 + Number(hours || 0)) * 60 + Number(minutes || 0);
+  return sign === '-' ? -total : total;
+};
+
+// Converte una proprietà ORGANIZER/ATTENDEE ("mailto:...") in persona
+const parseIcsPerson = (prop: IcsProperty): EventPerson | null => {
+  const email = prop.value.trim().replace(/^mailto:/i, '');
+  if (!email) return null;
+  return { email, ...(prop.params.CN && { name: prop.params.CN }) };
+};
+
+// Converte un VALARM in promemoria. Sono supportati solo gli allarmi relativi all'inizio dell'evento.
+const parseValarm = (props: IcsProperty[]): EventReminder | null => {
+  const trigger = props.find(p => p.name === 'TRIGGER');
+  if (!trigger || trigger.params.VALUE === 'DATE-TIME' || trigger.params.RELATED === 'END') return null;
+  const offset = parseIcsDuration(trigger.value);
+  if (offset === null || offset > 0) return null;
+  const action = props.find(p => p.name === 'ACTION')?.value.trim().toUpperCase();
+  return { method: action === 'EMAIL' ? 'email' : 'popup', minutes: -offset };
+};
+
+// Fine di un evento definito con DURATION. Con un fuso orario la durata si somma all'istante di inizio,
+// così un cambio dell'ora legale non altera la fine; gli orari "floating" e le date usano l'orario "a muro".
+const addIcsDuration = (start: IcsDate, minutes: number): IcsDate => {
+  if (start.timeZone) {
+    const instant = new Date(zonedTimeToDate(start.date, start.time, start.timeZone).getTime() + minutes * 60000);
+    return { ...toZonedDateAndTime(instant, start.timeZone), isDate: false, timeZone: start.timeZone };
+  }
+  const [year, month, day] = start.date.split('-').map(Number);
+  const [hours, mins] = start.time.split(':').map(Number);
+  const iso = new Date(Date.UTC(year, month - 1, day, hours, mins + minutes)).toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16), isDate: start.isDate };
+};
+
+const buildEvent = (props: IcsProperty[], reminders: EventReminder[]): ParsedIcsEvent | null => {
+  const get = (name: string) => props.find(p => p.name === name);
+
+  const dtStartProp = get('DTSTART');
+  const start = dtStartProp ? parseIcsDate(dtStartProp) : null;
+  if (!start) return null;
+
+  // Gli eventi annullati non vengono importati
+  if (get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED') return null;
+
+  const dtEndProp = get('DTEND');
+  const durationProp = get('DURATION');
+  let end = dtEndProp ? parseIcsDate(dtEndProp) : null;
+
+  if (!end && durationProp) {
+    const minutes = parseIcsDuration(durationProp.value);
+    if (minutes !== null) end = addIcsDuration(start, minutes);
+  }
+
+  // Se DTEND usa un fuso orario diverso da DTSTART, la fine viene riportata al fuso orario dell'inizio
+  if (end && !start.isDate && start.timeZone && end.timeZone && end.timeZone !== start.timeZone) {
+    end = { ...toZonedDateAndTime(zonedTimeToDate(end.date, end.time, end.timeZone), start.timeZone), isDate: false, timeZone: start.timeZone };
+  }
+
+  let endDate: string;
+  let endTime: string;
+  if (start.isDate) {
+    // Per gli eventi di un'intera giornata DTEND è già esclusivo; in sua assenza l'evento dura un giorno
+    endDate = end && end.date > start.date ? end.date : addDays(start.date, 1);
+    endTime = '';
+  } else {
+    // In assenza di DTEND e DURATION l'evento termina nell'istante di inizio (RFC 5545 §3.6.1)
+    endDate = end?.date || start.date;
+    endTime = end?.time || start.time;
+  }
+
+  const organizerProp = get('ORGANIZER');
+  const organizer = organizerProp ? parseIcsPerson(organizerProp) : null;
+  const attendees = props
+    .filter(p => p.name === 'ATTENDEE')
+    .map(parseIcsPerson)
+    .filter((person): person is EventPerson => person !== null);
+
+  const rruleProp = get('RRULE');
+  const recurrence = rruleProp ? parseRRule(rruleProp.value) : null;
+  if (recurrence) {
+    // EXDATE può comparire più volte e contenere più valori separati da virgola
+    recurrence.exceptions = props
+      .filter(p => p.name === 'EXDATE')
+      .flatMap(p => p.value.split(',').map(value => parseIcsDate({ ...p, value })))
+      .filter((date): date is NonNullable<typeof date> => date !== null)
+      .map(date => date.date);
+  }
+
+  // I colori che non corrispondono alla tavolozza di Google Calendar vengono ignorati
+  const colorId = parseEventColor(get('COLOR')?.value || '');
+
+  return {
+    subject: unescapeIcsText(get('SUMMARY')?.value || ''),
+    startDate: start.date,
+    startTime: start.isDate ? '' : start.time,
+    endDate,
+    endTime,
+    description: unescapeIcsText(get('DESCRIPTION')?.value || ''),
+    location: unescapeIcsText(get('LOCATION')?.value || ''),
+    ...(start.isDate && { allDay: true }),
+    ...(!start.isDate && start.timeZone && { timeZone: start.timeZone }),
+    ...(recurrence && { recurrence }),
+    ...(reminders.length > 0 && { reminders }),
+    ...(attendees.length > 0 && { attendees }),
+    ...(organizer && { organizer }),
+    ...(colorId && { colorId }),
+  };
+};
+
+interface VEventComponent {
+  props: IcsProperty[];
+  reminders: EventReminder[];
+}
+
+const getPropValue = (component: VEventComponent, name: string) => component.props.find(p => p.name === name)?.value.trim();
+
+// Data (AAAA-MM-GG) dell'occorrenza indicata da RECURRENCE-ID, nel fuso orario dell'evento principale
+const getOverriddenDate = (component: VEventComponent, master: ParsedIcsEvent): string | null => {
+  const prop = component.props.find(p => p.name === 'RECURRENCE-ID');
+  const occurrence = prop ? parseIcsDate(prop) : null;
+  if (!occurrence) return null;
+  if (!occurrence.isDate && occurrence.timeZone && master.timeZone && occurrence.timeZone !== master.timeZone) {
+    return toZonedDateAndTime(zonedTimeToDate(occurrence.date, occurrence.time, occurrence.timeZone), master.timeZone).date;
+  }
+  return occurrence.date;
+};
+
+// Crea gli eventi dai VEVENT letti. Un VEVENT con RECURRENCE-ID modifica (o annulla) un'occorrenza di una serie dello
+// stesso file: l'occorrenza viene esclusa dalla serie (EXDATE) e, se non è annullata, importata come evento singolo.
+const buildEventsWithOverrides = (components: VEventComponent[]): ParsedIcsEvent[] => {
+  const isOverride = (component: VEventComponent) => component.props.some(p => p.name === 'RECURRENCE-ID');
+  const masters = new Map<string, ParsedIcsEvent>();
+  const events: ParsedIcsEvent[] = [];
+
+  components.filter(component => !isOverride(component)).forEach(component => {
+    const event = buildEvent(component.props, component.reminders);
+    if (!event) return;
+    const uid = getPropValue(component, 'UID');
+    if (uid && event.recurrence) masters.set(uid, event);
+    events.push(event);
+  });
+
+  components.filter(isOverride).forEach(component => {
+    const master = masters.get(getPropValue(component, 'UID') || '');
+    const overriddenDate = master ? getOverriddenDate(component, master) : null;
+    if (master?.recurrence && overriddenDate && !master.recurrence.exceptions.includes(overriddenDate)) {
+      master.recurrence.exceptions.push(overriddenDate);
+    }
+    // Senza la serie nel file l'occorrenza modificata resta un evento a sé
+    const event = buildEvent(component.props.filter(p => p.name !== 'RRULE'), component.reminders);
+    if (event) events.push(event);
+  });
+
+  return events;
+};
+
+// Estrae gli eventi (VEVENT) da un file iCalendar senza passare dall'IA.
+// Le date sono restituite in formato AAAA-MM-GG, come quelle prodotte da `extractEvents`.
+export const parseIcsContent = (content: string): ParsedIcsEvent[] => {
+  const lines = unfoldLines(content);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Il file non è un calendario iCalendar (.ics) valido.');
+  }
+
+  const components: VEventComponent[] = [];
+  // Stack dei componenti aperti, per distinguere le proprietà dell'evento da quelle dei sotto-componenti
+  const componentStack: string[] = [];
+  let currentProps: IcsProperty[] = [];
+  let alarmProps: IcsProperty[] = [];
+  let reminders: EventReminder[] = [];
+
+  lines.forEach(line => {
+    const prop = parseProperty(line);
+    if (!prop) return;
+    const value = prop.value.trim().toUpperCase();
+
+    if (prop.name === 'BEGIN') {
+      componentStack.push(value);
+      if (value === 'VEVENT') {
+        currentProps = [];
+        reminders = [];
+      }
+      if (value === 'VALARM') alarmProps = [];
+      return;
+    }
+    if (prop.name === 'END') {
+      componentStack.pop();
+      if (value === 'VEVENT') components.push({ props: currentProps, reminders });
+      if (value === 'VALARM' && componentStack[componentStack.length - 1] === 'VEVENT') {
+        const reminder = parseValarm(alarmProps);
+        if (reminder) reminders.push(reminder);
+      }
+      return;
+    }
+    const current = componentStack[componentStack.length - 1];
+    if (current === 'VEVENT') currentProps.push(prop);
+    if (current === 'VALARM') alarmProps.push(prop);
+  });
+
+  return buildEventsWithOverrides(components);
+};
+
+// Legge un backup .ics generato da `generateBackupIcsContent`, a partire dalle risorse salvate negli eventi.
+// Gli altri file .ics non contengono queste risorse e vanno importati con "Aggiungi Eventi in Blocco".
+export const parseBackupIcsContent = (content: string): LoadedBackup => {
+  const lines = unfoldLines(content);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Il file non è un calendario iCalendar (.ics) valido.');
+  }
+
+  const backup: LoadedBackup = { calendars: [], events: [] };
+  try {
+    lines.forEach(line => {
+      const prop = parseProperty(line);
+      if (prop?.name === BACKUP_EVENT_PROPERTY) {
+        backup.events.push(JSON.parse(fromBase64(prop.value)));
+      } else if (prop?.name === BACKUP_INFO_PROPERTY) {
+        const info = JSON.parse(fromBase64(prop.value));
+        if (typeof info.createdAt === 'string') backup.createdAt = info.createdAt;
+        if (typeof info.account === 'string') backup.account = info.account;
+        if (Array.isArray(info.calendars)) backup.calendars = info.calendars.filter((c: any) => typeof c?.id === 'string');
+      }
+    });
+  } catch (e) {
+    throw new Error('Il backup .ics è danneggiato: impossibile leggere i dati salvati.');
+  }
+
+  if (backup.events.length === 0) {
+    throw new Error('Il file .ics non è un backup di ForMa. Per importare un calendario usa "Aggiungi Eventi in Blocco".');
+  }
+  return backup;
+};
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+    IMPORT_PROPERTY_KEYS, buildImportProperties, getEventKey, hashEventContent, getImportTag, groupImportBatches,
+    withoutImportProperties, matchBatchEvents, checkAgainstBatch, belongsToBatch,
+} from './importHistory';
+import type { ImportBatch, ImportTag, ImportedEvent } from './importHistory';
+import type { ValidatedEvent } from './types';
+
+const tag: ImportTag = { batchId: 'batch-1', sourceFile: 'orario.xlsx', importedAt: '2026-09-01T08:00:00.000Z' };
+
+const lesson = (id: number, startTime: string, changes: Partial<ValidatedEvent> = {}): ValidatedEvent => ({
+    id, subject: 'Matematica', startDate: '07-09-2026', startTime, endDate: '07-09-2026', endTime: '12:00',
+    description: '', location: 'Aula 1', errors: {}, isValid: true, ...changes,
+});
+
+// Evento di Google Calendar creato importando `event` con il tag indicato
+const imported = (id: string, event: ValidatedEvent, importTag = tag, calendarId = 'cal'): ImportedEvent => ({
+    id, calendarId, summary: event.subject, htmlLink: '',
+    start: { dateTime: '2026-09-07T08:00:00+02:00' }, end: { dateTime: '2026-09-07T09:00:00+02:00' },
+    extendedProperties: { private: buildImportProperties(importTag, event) },
+});
+
+const batchOf = (events: ImportedEvent[]): ImportBatch => ({ ...tag, calendarIds: ['cal'], events });
+
+describe('getEventKey', () => {
+    it('distingue eventi con lo stesso titolo nello stesso giorno a orari diversi', () => {
+        expect(getEventKey(lesson(1, '08:00'))).not.toBe(getEventKey(lesson(2, '10:00')));
+    });
+
+    it('ignora maiuscole, spazi e campi diversi dall\'inizio', () => {
+        expect(getEventKey(lesson(1, '08:00', { subject: ' matematica ', location: 'Aula 2', endTime: '09:00' })))
+            .toBe(getEventKey(lesson(2, '08:00')));
+    });
+});
+
+describe('matchBatchEvents', () => {
+    it('abbina ogni riga all\'evento importato con lo stesso orario', () => {
+        const first = lesson(1, '08:00');
+        const second = lesson(2, '10:00');
+        const batch = batchOf([imported('b', second), imported('a', first)]);
+        const matches = matchBatchEvents([first, second], batch);
+        expect(matches.get(1)?.id).toBe('a');
+        expect(matches.get(2)?.id).toBe('b');
+    });
+
+    it('usa ogni evento importato una sola volta anche con chiavi uguali', () => {
+        const rows = [lesson(1, '08:00'), lesson(2, '08:00'), lesson(3, '08:00')];
+        const batch = batchOf([imported('a', rows[0]), imported('b', rows[1])]);
+        const matches = matchBatchEvents(rows, batch);
+        expect([matches.get(1)?.id, matches.get(2)?.id]).toEqual(['a', 'b']);
+        expect(matches.has(3)).toBe(false);
+    });
+});
+
+describe('checkAgainstBatch', () => {
+    it('riconosce gli eventi invariati e quelli modificati', () => {
+        const event = lesson(1, '08:00');
+        const remote = imported('a', event);
+        expect(checkAgainstBatch(event, remote)).toMatchObject({ status: 'unchanged', match: remote, calendarId: 'cal' });
+        expect(checkAgainstBatch({ ...event, location: 'Aula 5' }, remote)?.status).toBe('changed');
+        expect(checkAgainstBatch({ ...event, colorId: '5' }, remote)?.status).toBe('changed');
+        expect(checkAgainstBatch(event, undefined)).toBeNull();
+    });
+});
+
+describe('tag di importazione', () => {
+    it('viene letto dalle proprietà private', () => {
+        const event = imported('a', lesson(1, '08:00'));
+        expect(getImportTag(event)).toEqual(tag);
+        expect(event.extendedProperties?.private?.[IMPORT_PROPERTY_KEYS.hash]).toBe(hashEventContent(lesson(1, '08:00')));
+    });
+
+    it('appartiene solo agli eventi creati dalla stessa importazione', () => {
+        const own = imported('a', lesson(1, '08:00'));
+        const other = imported('b', lesson(1, '08:00'), { ...tag, batchId: 'batch-2' });
+        const manual: ImportedEvent = { ...own, id: 'c', extendedProperties: undefined };
+        expect(belongsToBatch(own, tag)).toBe(true);
+        expect(belongsToBatch(other, tag)).toBe(false);
+        expect(belongsToBatch(manual, tag)).toBe(false);
+    });
+
+    it('viene rimosso dalle copie mantenendo le altre proprietà', () => {
+        const properties = { ...buildImportProperties(tag, lesson(1, '08:00')), altro: 'x' };
+        expect(withoutImportProperties(properties)).toEqual({ altro: 'x' });
+    });
+
+    it('raggruppa gli eventi per importazione, dalla più recente', () => {
+        const newer = { ...tag, batchId: 'batch-2', importedAt: '2026-09-10T08:00:00.000Z' };
+        const batches = groupImportBatches([
+            imported('a', lesson(1, '08:00')),
+            imported('b', lesson(2, '10:00'), newer, 'altro'),
+            imported('c', lesson(3, '11:00')),
+            { ...imported('d', lesson(4, '12:00')), extendedProperties: undefined },
+        ]);
+        expect(batches.map(batch => batch.batchId)).toEqual(['batch-2', 'batch-1']);
+        expect(batches[1].events.map(event => event.id)).toEqual(['a', 'c']);
+        expect(batches[0].calendarIds).toEqual(['altro']);
+    });
+});
@@ -0,0 +1,137 @@
+import type { ValidatedEvent } from './types';
+import type { GCalEvent } from '../services/googleCalendarService';
+import type { DuplicateCheck } from './duplicates';
+import { toYYYYMMDD } from './dateUtils';
+
+// Chiavi delle proprietà private (extendedProperties.private) con cui ForMa marca gli eventi che crea.
+// Sono visibili solo a questa applicazione e permettono di ritrovare, annullare o risincronizzare un'importazione.
+export const IMPORT_PROPERTY_KEYS = {
+    marker: 'formaImport',
+    batchId: 'formaBatchId',
+    sourceFile: 'formaSourceFile',
+    importedAt: 'formaImportedAt',
+    eventKey: 'formaEventKey',
+    hash: 'formaHash',
+} as const;
+
+// Google limita a 1024 caratteri il valore di una proprietà estesa
+const MAX_PROPERTY_LENGTH = 1024;
+
+// Identifica un'importazione: tutti gli eventi inseriti insieme condividono lo stesso tag
+export interface ImportTag {
+    batchId: string;
+    sourceFile: string;
+    // Data e ora dell'importazione (ISO 8601)
+    importedAt: string;
+}
+
+// Evento creato da ForMa, con il calendario in cui si trova
+export interface ImportedEvent extends GCalEvent {
+    calendarId: string;
+}
+
+// Un'importazione può distribuire gli eventi su più calendari
+export interface ImportBatch extends ImportTag {
+    calendarIds: string[];
+    events: ImportedEvent[];
+}
+
+export const createImportTag = (sourceFile: string): ImportTag => ({
+    batchId: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    sourceFile: sourceFile.slice(0, MAX_PROPERTY_LENGTH),
+    importedAt: new Date().toISOString(),
+});
+
+// Hash FNV-1a a 32 bit: non crittografico, ma sufficiente per accorgersi che un evento è cambiato
+const fnv1a = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Impronta del contenuto di un evento: cambia se cambia uno qualsiasi dei campi inviati a Google
+export const hashEventContent = (event: ValidatedEvent): string => {
+    return fnv1a(JSON.stringify([
+        event.subject, event.startDate, event.startTime, event.endDate, event.endTime,
+        event.description, event.location, event.timeZone || '', !!event.allDay,
+        event.recurrence || null, event.reminders || null, event.attendees || null, event.colorId || '',
+    ]));
+};
+
+// Chiave stabile con cui riconoscere lo stesso evento in una versione aggiornata del file: titolo, data e ora
+// di inizio, indipendentemente da fine, luogo e descrizione. L'ora distingue gli eventi con lo stesso titolo
+// nello stesso giorno (es. due lezioni di Matematica).
+export const getEventKey = (event: ValidatedEvent): string => {
+    return fnv1a(`${event.subject.trim().toLowerCase()}|${toYYYYMMDD(event.startDate)}|${event.allDay ? '' : event.startTime}`);
+};
+
+export const buildImportProperties = (tag: ImportTag, event: ValidatedEvent): Record<string, string> => ({
+    [IMPORT_PROPERTY_KEYS.marker]: '1',
+    [IMPORT_PROPERTY_KEYS.batchId]: tag.batchId,
+    [IMPORT_PROPERTY_KEYS.sourceFile]: tag.sourceFile,
+    [IMPORT_PROPERTY_KEYS.importedAt]: tag.importedAt,
+    [IMPORT_PROPERTY_KEYS.eventKey]: getEventKey(event),
+    [IMPORT_PROPERTY_KEYS.hash]: hashEventContent(event),
+});
+
+// Proprietà private di un evento senza il tag di importazione: una copia dell'evento non fa parte
+// dell'importazione originale e non deve essere eliminata annullandola
+export const withoutImportProperties = (properties: Record<string, string> = {}): Record<string, string> => {
+    const importKeys: string[] = Object.values(IMPORT_PROPERTY_KEYS);
+    return Object.fromEntries(Object.entries(properties).filter(([key]) => !importKeys.includes(key)));
+};
+
+// Legge il tag di importazione di un evento di Google Calendar (null se non creato da ForMa)
+export const getImportTag = (event: GCalEvent): ImportTag | null => {
+    const props = event.extendedProperties?.private;
+    if (!props || !props[IMPORT_PROPERTY_KEYS.batchId]) return null;
+    return {
+        batchId: props[IMPORT_PROPERTY_KEYS.batchId],
+        sourceFile: props[IMPORT_PROPERTY_KEYS.sourceFile] || '',
+        importedAt: props[IMPORT_PROPERTY_KEYS.importedAt] || '',
+    };
+};
+
+// Raggruppa per importazione gli eventi marcati, dalla più recente alla meno recente
+export const groupImportBatches = (events: ImportedEvent[]): ImportBatch[] => {
+    const batches = new Map<string, ImportBatch>();
+    events.forEach(event => {
+        const tag = getImportTag(event);
+        if (!tag) return;
+        const batch = batches.get(tag.batchId);
+        if (batch) {
+            batch.events.push(event);
+            if (!batch.calendarIds.includes(event.calendarId)) batch.calendarIds.push(event.calendarId);
+        } else {
+            batches.set(tag.batchId, { ...tag, calendarIds: [event.calendarId], events: [event] });
+        }
+    });
+    return Array.from(batches.values()).sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+};
+
+// Abbina gli eventi del file a quelli dell'importazione precedente tramite la chiave stabile. Ogni evento importato
+// viene abbinato al massimo una volta, così righe con la stessa chiave corrispondono a eventi distinti.
+export const matchBatchEvents = (events: ValidatedEvent[], batch: ImportBatch): Map<number, ImportedEvent> => {
+    const matches = new Map<number, ImportedEvent>();
+    const available = [...batch.events];
+    events.forEach(event => {
+        const key = getEventKey(event);
+        const index = available.findIndex(remote => remote.extendedProperties?.private?.[IMPORT_PROPERTY_KEYS.eventKey] === key);
+        if (index >= 0) matches.set(event.id, available.splice(index, 1)[0]);
+    });
+    return matches;
+};
+
+// Confronta un evento con la sua copia nell'importazione da risincronizzare (null se non c'è)
+export const checkAgainstBatch = (event: ValidatedEvent, remote: ImportedEvent | undefined): DuplicateCheck | null => {
+    if (!remote) return null;
+    const changed = remote.extendedProperties?.private?.[IMPORT_PROPERTY_KEYS.hash] !== hashEventContent(event);
+    return { status: changed ? 'changed' : 'unchanged', match: remote, calendarId: remote.calendarId };
+};
+
+// True se l'evento di Google Calendar è stato creato dall'importazione indicata. Solo questi eventi possono ricevere
+// il tag dell'importazione: un evento preesistente aggiornato resta fuori, e annullando l'importazione non viene eliminato.
+export const belongsToBatch = (event: GCalEvent, tag: ImportTag): boolean => getImportTag(event)?.batchId === tag.batchId;
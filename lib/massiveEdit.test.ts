@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { buildEventPatch, diffEventPatch, buildRevertPatch, emptyBulkUpdates, isRecurringShiftRefused } from './massiveEdit';
+import type { BulkUpdates, EditContext } from './massiveEdit';
+import { buildSeriesContinuation, continueRecurrence } from './recurringSeries';
+import type { GCalEvent } from '../services/googleCalendarService';
+
+const context: EditContext = { calendarName: 'Scuola', timeZone: 'Europe/Rome' };
+
+const shiftDays = (amount: number): BulkUpdates => ({ ...emptyBulkUpdates, shift: { unit: 'days', amount, weekday: 'MO' } });
+
+const lesson: GCalEvent = {
+    id: 'a', summary: 'Inglese', htmlLink: '',
+    start: { dateTime: '2026-03-02T09:00:00+01:00', timeZone: 'Europe/Rome' },
+    end: { dateTime: '2026-03-02T10:00:00+01:00', timeZone: 'Europe/Rome' },
+};
+
+// Serie del lunedì con un'occorrenza esclusa e una data di fine
+const series: GCalEvent = {
+    ...lesson,
+    recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20260629T215959Z', 'EXDATE;TZID=Europe/Rome:20260309T090000'],
+};
+
+describe('buildEventPatch', () => {
+    it('sposta inizio e fine di un evento singolo', () => {
+        expect(buildEventPatch(lesson, shiftDays(1), context)).toEqual({
+            start: { dateTime: '2026-03-03T08:00:00.000Z' },
+            end: { dateTime: '2026-03-03T09:00:00.000Z' },
+        });
+    });
+
+    it('sposta con l\'evento principale giorni, eccezioni e fine della serie', () => {
+        const patch = buildEventPatch(series, shiftDays(1), context);
+        expect(patch).toEqual({
+            start: { dateTime: '2026-03-03T08:00:00.000Z' },
+            end: { dateTime: '2026-03-03T09:00:00.000Z' },
+            recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=TU;UNTIL=20260630T215959Z', 'EXDATE;TZID=Europe/Rome:20260310T090000'],
+        });
+        expect(diffEventPatch(series, patch).map(change => change.field)).toEqual(['start', 'end', 'recurrence']);
+        expect(buildRevertPatch(series, patch).recurrence).toEqual(series.recurrence);
+    });
+
+    it('aggiorna gli orari delle eccezioni quando cambia l\'ora di inizio', () => {
+        const patch = buildEventPatch(series, { ...emptyBulkUpdates, shift: { unit: 'minutes', amount: 30, weekday: 'MO' } }, context);
+        expect(patch.recurrence).toEqual(['RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20260629T222959Z', 'EXDATE;TZID=Europe/Rome:20260309T093000']);
+    });
+
+    it('lascia dov\'è una serie la cui ripetizione non si può spostare', () => {
+        const monthly = { ...series, recurrence: ['RRULE:FREQ=MONTHLY;COUNT=6'] };
+        expect(isRecurringShiftRefused(monthly, shiftDays(1).shift!, context)).toBe(true);
+        expect(isRecurringShiftRefused(series, shiftDays(1).shift!, context)).toBe(false);
+        expect(buildEventPatch(monthly, { ...shiftDays(1), colorId: '5' }, context)).toEqual({ colorId: '5' });
+    });
+});
+
+describe('buildEventPatch su "questa e le successive"', () => {
+    it('sposta la nuova serie con la sua ripetizione proseguita', () => {
+        const cutoff = { dateTime: '2026-03-16T09:00:00+01:00' };
+        const continuation = buildSeriesContinuation(series, cutoff, continueRecurrence(series.recurrence!, 2));
+        expect(buildEventPatch(continuation, shiftDays(2), context)).toMatchObject({
+            start: { dateTime: '2026-03-18T08:00:00.000Z' },
+            recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=WE;UNTIL=20260701T215959Z', 'EXDATE;TZID=Europe/Rome:20260311T090000'],
+        });
+    });
+});
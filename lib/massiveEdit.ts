@@ -0,0 +1,372 @@
+import type { GCalEvent } from '../services/googleCalendarService';
+import { toDDMMYYYY, toZonedDateAndTime, zonedTimeToDate } from './dateUtils';
+import { isTimeShiftActive, shiftWallClockRange, shiftRecurrenceLines } from './timeShift';
+import type { TimeShift, WallClockRange, WallClockStart } from './timeShift';
+import { defaultEventColors, findEventColor } from './colors';
+
+// Come modificare un campo di testo: sostituirlo, cercare e sostituire una parte, aggiungere testo all'inizio o alla fine
+export type TextEditMode = 'set' | 'replace' | 'prepend' | 'append';
+
+export const textEditModeLabels: Record<TextEditMode, string> = {
+    set: 'Sostituisci tutto',
+    replace: 'Trova e sostituisci',
+    prepend: "Aggiungi all'inizio",
+    append: 'Aggiungi alla fine',
+};
+
+export interface TextFieldEdit {
+    mode: TextEditMode;
+    // Testo da impostare o aggiungere, oppure sostituto del testo trovato; può contenere segnaposto come {summary}
+    value: string;
+    // Testo (o espressione regolare) da cercare, solo per 'replace'
+    find: string;
+    regex: boolean;
+}
+
+export const emptyTextFieldEdit: TextFieldEdit = { mode: 'set', value: '', find: '', regex: false };
+
+// Modifiche da applicare a tutti gli eventi selezionati: i campi vuoti restano invariati
+export interface BulkUpdates {
+    summary: TextFieldEdit;
+    location: TextFieldEdit;
+    description: TextFieldEdit;
+    // Id del nuovo colore (vuoto: invariato)
+    colorId: string;
+    // Spostamento relativo di inizio e fine, applicato prima degli orari e della durata
+    shift: TimeShift | null;
+    startTime: string;
+    endTime: string;
+    // Nuova durata in minuti, calcolata dall'inizio (eventualmente modificato)
+    duration: string;
+}
+
+export const emptyBulkUpdates: BulkUpdates = {
+    summary: emptyTextFieldEdit,
+    location: emptyTextFieldEdit,
+    description: emptyTextFieldEdit,
+    colorId: '',
+    shift: null,
+    startTime: '',
+    endTime: '',
+    duration: '',
+};
+
+type TextField = 'summary' | 'location' | 'description';
+const TEXT_FIELDS: TextField[] = ['summary', 'location', 'description'];
+
+// Una modifica di testo è attiva se c'è qualcosa da cercare (sostituzione) o da scrivere (altri modi)
+const isTextEditActive = (edit: TextFieldEdit): boolean => (edit.mode === 'replace' ? edit.find !== '' : edit.value !== '');
+
+export const hasBulkUpdates = (updates: BulkUpdates): boolean => {
+    return TEXT_FIELDS.some(field => isTextEditActive(updates[field]))
+        || updates.colorId !== '' || isTimeShiftActive(updates.shift) || updates.startTime !== '' || updates.endTime !== '' || updates.duration !== '';
+};
+
+// Messaggio d'errore per un'espressione regolare non valida (null se la modifica è valida)
+export const getTextEditError = (edit: TextFieldEdit): string | null => {
+    if (edit.mode !== 'replace' || !edit.regex || !edit.find) return null;
+    try {
+        new RegExp(edit.find);
+        return null;
+    } catch (error: any) {
+        return `Espressione regolare non valida: ${error.message}`;
+    }
+};
+
+// --- Segnaposto ---
+
+// Dati dell'evento che non fanno parte della risorsa, usati dai segnaposto
+export interface EditContext {
+    calendarName: string;
+    // Fuso orario del calendario, usato per gli spostamenti se l'evento non ne indica uno
+    timeZone: string;
+}
+
+export const templatePlaceholders = [
+    { key: 'summary', description: 'titolo attuale' },
+    { key: 'date', description: 'data di inizio (GG-MM-AAAA)' },
+    { key: 'time', description: 'ora di inizio (vuota per gli eventi di un giorno intero)' },
+    { key: 'location', description: 'luogo attuale' },
+    { key: 'description', description: 'descrizione attuale' },
+    { key: 'calendar', description: 'nome del calendario' },
+] as const;
+
+const formatLocalDate = (date: Date): string => {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const getTemplateValues = (event: GCalEvent, context: EditContext): Record<string, string> => {
+    const start = event.start.dateTime || event.start.date || '';
+    return {
+        summary: event.summary || '',
+        date: start ? toDDMMYYYY(event.start.date || formatLocalDate(new Date(start))) : '',
+        time: event.start.dateTime ? new Date(event.start.dateTime).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' }) : '',
+        location: event.location || '',
+        description: event.description || '',
+        calendar: context.calendarName,
+    };
+};
+
+// Sostituisce i segnaposto ({summary}, {date}...) con i valori originali dell'evento e, in una ricerca con
+// espressione regolare, i gruppi catturati ($1, $2... e $& per l'intera corrispondenza).
+// Tutto in un solo passaggio, così il testo inserito non viene a sua volta interpretato; i segnaposto sconosciuti restano invariati.
+export const expandTemplate = (template: string, event: GCalEvent, context: EditContext, captures: (string | undefined)[] = []): string => {
+    const values = getTemplateValues(event, context);
+    return template.replace(/\$(\d+|&)|\{(\w+)\}/g, (token, group: string | undefined, key: string | undefined) => {
+        if (group !== undefined) {
+            const index = group === '&' ? 0 : Number(group);
+            return index < captures.length ? captures[index] ?? '' : token;
+        }
+        return key !== undefined && key in values ? values[key] : token;
+    });
+};
+
+// Applica una modifica di testo al valore attuale di un campo
+export const applyTextEdit = (current: string, edit: TextFieldEdit, event: GCalEvent, context: EditContext): string => {
+    switch (edit.mode) {
+        case 'set':
+            return expandTemplate(edit.value, event, context);
+        case 'prepend':
+            return expandTemplate(edit.value, event, context) + current;
+        case 'append':
+            return current + expandTemplate(edit.value, event, context);
+        case 'replace':
+            if (!edit.regex) {
+                return current.split(edit.find).join(expandTemplate(edit.value, event, context));
+            }
+            return current.replace(new RegExp(edit.find, 'g'), (...args: any[]) => {
+                // Argomenti: corrispondenza, gruppi, posizione, testo completo e, con gruppi con nome, l'oggetto dei gruppi
+                const hasNamedGroups = typeof args[args.length - 1] === 'object';
+                return expandTemplate(edit.value, event, context, args.slice(0, hasNamedGroups ? -3 : -2));
+            });
+    }
+};
+
+// Risorsa parziale per `events.patch`
+export type EventPatch = Record<string, any>;
+
+// Imposta un nuovo orario preservando la data originale
+const applyTimeToDate = (originalDateTime: string, newTime: string): string => {
+    const date = new Date(originalDateTime);
+    const [hours, minutes] = newTime.split(':').map(Number);
+    date.setHours(hours, minutes, 0, 0);
+    return date.toISOString();
+};
+
+// Sposta inizio e fine di un evento nel suo fuso orario; null se lo spostamento non si applica
+const shiftEventTimes = (event: GCalEvent, shift: TimeShift, context: EditContext): Pick<EventPatch, 'start' | 'end'> | null => {
+    const timeZone = event.start.timeZone || context.timeZone;
+    let range: WallClockRange;
+    if (event.start.date && event.end.date) {
+        range = { allDay: true, startDate: event.start.date, startTime: '', endDate: event.end.date, endTime: '' };
+    } else if (event.start.dateTime && event.end.dateTime) {
+        const start = toZonedDateAndTime(new Date(event.start.dateTime), timeZone);
+        const end = toZonedDateAndTime(new Date(event.end.dateTime), timeZone);
+        range = { allDay: false, startDate: start.date, startTime: start.time, endDate: end.date, endTime: end.time };
+    } else {
+        return null;
+    }
+
+    const shifted = shiftWallClockRange(range, shift, timeZone);
+    if (!shifted) return null;
+    if (shifted.allDay) return { start: { date: shifted.startDate }, end: { date: shifted.endDate } };
+    return {
+        start: { dateTime: zonedTimeToDate(shifted.startDate, shifted.startTime, timeZone).toISOString() },
+        end: { dateTime: zonedTimeToDate(shifted.endDate, shifted.endTime, timeZone).toISOString() },
+    };
+};
+
+const toWallClockStart = (start: GCalEvent['start'], timeZone: string): WallClockStart => {
+    return start.dateTime ? toZonedDateAndTime(new Date(start.dateTime), timeZone) : { date: start.date || '', time: '' };
+};
+
+// Ricorrenza dell'evento principale di una serie quando il suo inizio diventa `start` (null se non si può spostare)
+const shiftEventRecurrence = (event: GCalEvent, start: GCalEvent['start'], context: EditContext): string[] | null => {
+    const timeZone = event.start.timeZone || context.timeZone;
+    return shiftRecurrenceLines(event.recurrence || [], toWallClockStart(event.start, timeZone), toWallClockStart(start, timeZone), timeZone);
+};
+
+// True se lo spostamento non si applica all'evento principale di una serie perché la ripetizione spostata
+// non produrrebbe le stesse occorrenze spostate: l'evento resta allora dov'è
+export const isRecurringShiftRefused = (event: GCalEvent, shift: TimeShift, context: EditContext): boolean => {
+    if (!event.recurrence?.length) return false;
+    const shifted = shiftEventTimes(event, shift, context);
+    return !!shifted && !shiftEventRecurrence(event, shifted.start, context);
+};
+
+export const buildEventPatch = (event: GCalEvent, updates: BulkUpdates, context: EditContext): EventPatch => {
+    const patch: EventPatch = {};
+    TEXT_FIELDS.forEach(field => {
+        const edit = updates[field];
+        if (isTextEditActive(edit)) patch[field] = applyTextEdit(event[field] || '', edit, event, context);
+    });
+
+    if (updates.colorId) patch.colorId = updates.colorId;
+
+    let currentStart = event.start.dateTime || event.start.date || '';
+    let currentEnd = event.end.dateTime || event.end.date || '';
+
+    if (isTimeShiftActive(updates.shift) && !isRecurringShiftRefused(event, updates.shift, context)) {
+        const shifted = shiftEventTimes(event, updates.shift, context);
+        if (shifted) {
+            Object.assign(patch, shifted);
+            currentStart = shifted.start.dateTime || shifted.start.date;
+            currentEnd = shifted.end.dateTime || shifted.end.date;
+        }
+    }
+
+    if (updates.startTime) {
+        patch.start = { dateTime: applyTimeToDate(currentStart, updates.startTime) };
+    }
+
+    if (updates.endTime) {
+        patch.end = { dateTime: applyTimeToDate(currentEnd, updates.endTime) };
+    }
+
+    if (updates.duration) {
+        const minutes = parseInt(updates.duration);
+        if (!isNaN(minutes)) {
+            // Se l'ora di inizio cambia con la stessa modifica, la durata parte dal nuovo inizio
+            const startRef = patch.start?.dateTime || currentStart;
+            const newEnd = new Date(new Date(startRef).getTime() + minutes * 60000);
+            patch.end = { dateTime: newEnd.toISOString() };
+        }
+    }
+
+    // L'evento principale di una serie porta con sé giorni della settimana, eccezioni e fine della ripetizione,
+    // altrimenti Google calcolerebbe le occorrenze dalla vecchia regola
+    if (event.recurrence?.length && patch.start) {
+        const recurrence = shiftEventRecurrence(event, patch.start, context);
+        if (recurrence && recurrence !== event.recurrence) patch.recurrence = recurrence;
+    }
+
+    return patch;
+};
+
+// --- Anteprima ---
+
+// Applica la patch a una risorsa completa come farebbe `events.patch`: inizio e fine vengono uniti ai valori
+// esistenti e i campi a null rimossi. Serve a creare direttamente un evento già modificato (la nuova serie di una serie divisa).
+export const mergeEventPatch = (resource: Record<string, any>, patch: EventPatch): Record<string, any> => {
+    const merged = { ...resource };
+    Object.entries(patch).forEach(([field, value]) => {
+        if (value === null) {
+            delete merged[field];
+        } else if (field === 'start' || field === 'end') {
+            const combined = { ...merged[field], ...value };
+            Object.keys(combined).forEach(key => { if (combined[key] === null) delete combined[key]; });
+            merged[field] = combined;
+        } else {
+            merged[field] = value;
+        }
+    });
+    return merged;
+};
+
+export type EditableField = 'summary' | 'location' | 'description' | 'colorId' | 'start' | 'end' | 'recurrence';
+
+export const editableFieldLabels: Record<EditableField, string> = {
+    summary: 'Oggetto',
+    location: 'Luogo',
+    description: 'Descrizione',
+    colorId: 'Colore',
+    start: 'Inizio',
+    end: 'Fine',
+    recurrence: 'Ripetizione',
+};
+
+export interface FieldChange {
+    field: EditableField;
+    before: string;
+    after: string;
+}
+
+const formatEventTime = (time: { dateTime?: string; date?: string } | undefined): string => {
+    if (time?.dateTime) return new Date(time.dateTime).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' });
+    if (time?.date) return toDDMMYYYY(time.date);
+    return '';
+};
+
+const formatField = (source: Record<string, any>, field: EditableField): string => {
+    if (field === 'start' || field === 'end') return formatEventTime(source[field]);
+    if (field === 'colorId') return findEventColor(defaultEventColors, source.colorId)?.name || 'Colore del calendario';
+    if (field === 'recurrence') return (source.recurrence || []).join(' ');
+    return source[field] || '';
+};
+
+// Campi che la patch cambia davvero, con il valore prima e dopo (nell'ordine di `editableFieldLabels`)
+export const diffEventPatch = (event: GCalEvent, patch: EventPatch): FieldChange[] => {
+    return (Object.keys(editableFieldLabels) as EditableField[])
+        .filter(field => field in patch)
+        .map(field => ({ field, before: formatField(event, field), after: formatField(patch, field) }))
+        .filter(change => change.before !== change.after);
+};
+
+// --- Annullamento ---
+
+// Stato di un evento prima della modifica, sotto forma di patch che lo ripristina
+export interface EditSnapshot {
+    calendarId: string;
+    eventId: string;
+    summary: string;
+    revert: EventPatch;
+    // Evento creato dalla modifica (la nuova serie di una serie divisa): l'annullamento lo elimina
+    created?: boolean;
+}
+
+// Una modifica in blocco applicata, annullabile per intero
+export interface EditJournal {
+    // Data e ora della modifica (ISO 8601)
+    appliedAt: string;
+    // Account Google con cui è stata applicata
+    account: string;
+    snapshots: EditSnapshot[];
+}
+
+// Patch che riporta i campi toccati da `patch` ai valori attuali dell'evento. Per inizio e fine si
+// azzerano esplicitamente i campi alternativi (`date`/`dateTime`), perché la patch unisce gli oggetti annidati.
+export const buildRevertPatch = (event: GCalEvent, patch: EventPatch): EventPatch => {
+    const revert: EventPatch = {};
+    Object.keys(patch).forEach(field => {
+        if (field === 'start' || field === 'end') {
+            const original = event[field];
+            revert[field] = original.date
+                ? { date: original.date, dateTime: null, timeZone: null }
+                : { dateTime: original.dateTime, timeZone: original.timeZone ?? null, date: null };
+        } else if (field === 'colorId') {
+            // null riporta l'evento al colore del calendario
+            revert.colorId = event.colorId ?? null;
+        } else {
+            revert[field] = (event as Record<string, any>)[field] ?? '';
+        }
+    });
+    return revert;
+};
+
+// L'ultima modifica resta annullabile finché la scheda del browser è aperta
+const EDIT_JOURNAL_STORAGE_KEY = 'forma-last-massive-edit';
+
+export const loadLastEdit = (): EditJournal | null => {
+    try {
+        const stored = sessionStorage.getItem(EDIT_JOURNAL_STORAGE_KEY);
+        if (stored) {
+            const journal = JSON.parse(stored);
+            if (journal && Array.isArray(journal.snapshots)) return journal;
+        }
+    } catch (error) {
+        console.error("Failed to load last massive edit from sessionStorage", error);
+    }
+    return null;
+};
+
+export const saveLastEdit = (journal: EditJournal | null) => {
+    try {
+        if (journal) {
+            sessionStorage.setItem(EDIT_JOURNAL_STORAGE_KEY, JSON.stringify(journal));
+        } else {
+            sessionStorage.removeItem(EDIT_JOURNAL_STORAGE_KEY);
+        }
+    } catch (error) {
+        console.error("Failed to save last massive edit to sessionStorage", error);
+    }
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseRRule, buildRRule, describeRecurrence, formatRRuleUtc, getUnsupportedRRuleParts } from './recurrence';
+import { validateEvent } from './validation';
+import type { EventObject } from './types';
+
+describe('parseRRule', () => {
+  it('legge frequenza, intervallo, giorni, ripetizioni e data di fine', () => {
+    expect(parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20260630T215959Z')).toEqual({
+      frequency: 'WEEKLY', interval: 2, byDay: ['MO', 'WE'], count: undefined, until: '2026-06-30', exceptions: [],
+    });
+    expect(parseRRule('freq=daily;count=5')).toMatchObject({ frequency: 'DAILY', interval: 1, count: 5 });
+  });
+
+  it('restituisce null per frequenze non supportate', () => {
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+  });
+
+  it('riporta le parti che non sa rappresentare invece di ignorarle', () => {
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=1MO')).toMatchObject({ byDay: [], unsupported: ['BYDAY=1MO'] });
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1')?.unsupported).toEqual(['BYSETPOS=-1']);
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=MO;WKST=MO')?.unsupported).toBeUndefined();
+  });
+});
+
+describe('getUnsupportedRRuleParts', () => {
+  it('ignora BYMONTHDAY e BYMONTH già impliciti nella data di inizio', () => {
+    const yearly = parseRRule('FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=15')!;
+    expect(getUnsupportedRRuleParts(yearly, '15-03-2026')).toEqual([]);
+    expect(getUnsupportedRRuleParts(yearly, '16-03-2026')).toEqual(['BYMONTHDAY=15']);
+  });
+
+  it('considera BYMONTH una restrizione nelle regole non annuali', () => {
+    const monthly = parseRRule('FREQ=MONTHLY;BYMONTH=3')!;
+    expect(getUnsupportedRRuleParts(monthly, '15-03-2026')).toEqual(['BYMONTH=3']);
+  });
+});
+
+describe('validateEvent con ricorrenze non supportate', () => {
+  const event: EventObject = {
+    id: 1, subject: 'Collegio docenti', startDate: '02-03-2026', startTime: '15:00', endDate: '02-03-2026', endTime: '17:00',
+    description: '', location: '',
+  };
+
+  it('segnala la riga invece di importare una ripetizione diversa', () => {
+    const validated = validateEvent({ ...event, recurrence: parseRRule('FREQ=MONTHLY;BYDAY=1MO')! });
+    expect(validated.isValid).toBe(false);
+    expect(validated.errors.recurrence).toContain('BYDAY=1MO');
+  });
+
+  it('accetta la ripetizione una volta confermata senza le parti non supportate', () => {
+    const validated = validateEvent({ ...event, recurrence: { frequency: 'MONTHLY', interval: 1, byDay: [], exceptions: [] } });
+    expect(validated.isValid).toBe(true);
+  });
+});
+
+describe('buildRRule', () => {
+  it('costruisce la riga RRULE con la data di fine nel formato richiesto', () => {
+    const rule = buildRRule(
+      { frequency: 'WEEKLY', interval: 2, byDay: ['MO', 'FR'], until: '30-06-2026', exceptions: [] },
+      date => date.replace(/-/g, ''),
+    );
+    expect(rule).toBe('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20260630');
+  });
+
+  it('formatta gli istanti UTC per UNTIL', () => {
+    expect(formatRRuleUtc(new Date('2026-06-30T21:59:59.000Z'))).toBe('20260630T215959Z');
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('descrive la ripetizione in italiano', () => {
+    expect(describeRecurrence({ frequency: 'WEEKLY', interval: 2, byDay: ['MO', 'WE'], until: '30-06-2026', exceptions: ['01-04-2026'] }))
+      .toBe('Ogni 2 settimane (lun, mer) fino al 30-06-2026, 1 eccezione');
+    expect(describeRecurrence(undefined)).toBe('Nessuna');
+  });
+});
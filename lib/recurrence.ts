@@ -0,0 +1,101 @@
+import type { EventRecurrence, RecurrenceFrequency, Weekday } from './types';
+import { toYYYYMMDD } from './dateUtils';
+
+export const weekdays: { id: Weekday; label: string }[] = [
+  { id: 'MO', label: 'lun' },
+  { id: 'TU', label: 'mar' },
+  { id: 'WE', label: 'mer' },
+  { id: 'TH', label: 'gio' },
+  { id: 'FR', label: 'ven' },
+  { id: 'SA', label: 'sab' },
+  { id: 'SU', label: 'dom' },
+];
+
+export const recurrenceFrequencies: { id: RecurrenceFrequency; label: string; singular: string; plural: string }[] = [
+  { id: 'DAILY', label: 'Giornaliera', singular: 'giorno', plural: 'giorni' },
+  { id: 'WEEKLY', label: 'Settimanale', singular: 'settimana', plural: 'settimane' },
+  { id: 'MONTHLY', label: 'Mensile', singular: 'mese', plural: 'mesi' },
+  { id: 'YEARLY', label: 'Annuale', singular: 'anno', plural: 'anni' },
+];
+
+const isWeekday = (value: string): value is Weekday => weekdays.some(d => d.id === value);
+
+// Descrizione leggibile della ricorrenza, es. "Ogni 2 settimane (lun, mer) fino al 30-06-2025"
+export const describeRecurrence = (recurrence?: EventRecurrence): string => {
+  if (!recurrence) return 'Nessuna';
+  const frequency = recurrenceFrequencies.find(f => f.id === recurrence.frequency);
+  if (!frequency) return 'Non valida';
+
+  let text = recurrence.interval > 1
+    ? `Ogni ${recurrence.interval} ${frequency.plural}`
+    : `Ogni ${frequency.singular}`;
+  if (recurrence.byDay.length > 0) {
+    text += ` (${recurrence.byDay.map(d => weekdays.find(w => w.id === d)?.label || d).join(', ')})`;
+  }
+  if (recurrence.count) text += `, ${recurrence.count} volte`;
+  if (recurrence.until) text += ` fino al ${recurrence.until}`;
+  if (recurrence.exceptions.length > 0) {
+    text += `, ${recurrence.exceptions.length} ${recurrence.exceptions.length === 1 ? 'eccezione' : 'eccezioni'}`;
+  }
+  return text;
+};
+
+// Costruisce la riga RRULE. `formatUntil` converte la data UNTIL (AAAA-MM-GG) nel formato richiesto dal destinatario
+// (orario "floating" per i file .ics, UTC per Google Calendar).
+export const buildRRule = (recurrence: EventRecurrence, formatUntil: (yyyymmdd: string) => string): string => {
+  const parts = [`FREQ=${recurrence.frequency}`];
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`);
+  if (recurrence.byDay.length > 0) parts.push(`BYDAY=${recurrence.byDay.join(',')}`);
+  if (recurrence.count) parts.push(`COUNT=${recurrence.count}`);
+  if (recurrence.until) parts.push(`UNTIL=${formatUntil(toYYYYMMDD(recurrence.until))}`);
+  return `RRULE:${parts.join(';')}`;
+};
+
+// Formatta un istante in UTC nel formato compatto di UNTIL (es. 20250630T215959Z)
+export const formatRRuleUtc = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Parti di una RRULE rappresentate da EventRecurrence (WKST non cambia le date delle regole supportate)
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL', 'WKST'];
+
+// Interpreta il valore di una RRULE. Le parti non supportate (BYMONTHDAY, BYSETPOS, BYDAY con ordinale...) vengono
+// riportate in `unsupported`, così che l'evento venga segnalato invece di essere importato con date diverse.
+// La data UNTIL è restituita in formato AAAA-MM-GG.
+export const parseRRule = (value: string): EventRecurrence | null => {
+  const parts: Record<string, string> = {};
+  value.replace(/^RRULE:/i, '').split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val !== undefined) parts[key.trim().toUpperCase()] = val.trim().toUpperCase();
+  });
+
+  const frequency = recurrenceFrequencies.find(f => f.id === parts.FREQ)?.id;
+  if (!frequency) return null;
+
+  const byDay = (parts.BYDAY || '').split(',').filter(Boolean);
+  const unsupported = Object.entries(parts)
+    .filter(([key]) => !SUPPORTED_RRULE_PARTS.includes(key) || (key === 'BYDAY' && !byDay.every(isWeekday)))
+    .map(([key, val]) => `${key}=${val}`);
+
+  const untilMatch = parts.UNTIL?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return {
+    frequency,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    byDay: byDay.filter(isWeekday),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) || undefined : undefined,
+    until: untilMatch ? `${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}` : undefined,
+    exceptions: [],
+    ...(unsupported.length > 0 && { unsupported }),
+  };
+};
+
+// Parti non supportate che cambiano davvero le date della serie. Nelle regole mensili e annuali un BYMONTHDAY uguale
+// al giorno di inizio (data GG-MM-AAAA) è già implicito, come un BYMONTH uguale al mese di inizio in quelle annuali.
+export const getUnsupportedRRuleParts = (recurrence: EventRecurrence, startDate: string): string[] => {
+  const [day, month] = startDate.split('-').map(Number);
+  const isMonthlyOrYearly = recurrence.frequency === 'MONTHLY' || recurrence.frequency === 'YEARLY';
+  return (recurrence.unsupported || []).filter(part => {
+    const [key, val] = part.split('=');
+    if (key === 'BYMONTHDAY' && isMonthlyOrYearly) return Number(val) !== day;
+    if (key === 'BYMONTH' && recurrence.frequency === 'YEARLY') return Number(val) !== month;
+    return true;
+  });
+};
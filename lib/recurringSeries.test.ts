@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getSeriesKey, groupBySeries, getEarliestInstance, startsSeries, truncateRecurrence, continueRecurrence, buildSeriesContinuation,
+} from './recurringSeries';
+import type { GCalEvent } from '../services/googleCalendarService';
+
+type CalendarEvent = GCalEvent & { calendarId: string };
+
+const event = (id: string, changes: Partial<CalendarEvent> = {}): CalendarEvent => ({
+    id, calendarId: 'cal', summary: 'Collegio', htmlLink: '',
+    start: { dateTime: '2026-03-02T15:00:00+01:00', timeZone: 'Europe/Rome' },
+    end: { dateTime: '2026-03-02T17:00:00+01:00', timeZone: 'Europe/Rome' },
+    ...changes,
+});
+
+describe('groupBySeries', () => {
+    it('raggruppa le occorrenze della stessa serie per calendario, lasciando gli eventi singoli al loro posto', () => {
+        const groups = groupBySeries([
+            event('a_1', { recurringEventId: 'a' }),
+            event('single'),
+            event('a_2', { recurringEventId: 'a' }),
+            event('a_3', { recurringEventId: 'a', calendarId: 'altro' }),
+        ]);
+        expect(groups.map(group => [group.seriesKey, group.events.map(e => e.id)])).toEqual([
+            ['cal/a', ['a_1', 'a_2']],
+            [null, ['single']],
+            ['altro/a', ['a_3']],
+        ]);
+        expect(getSeriesKey(event('single'))).toBeNull();
+    });
+});
+
+describe('getEarliestInstance', () => {
+    it('usa l\'inizio originale delle occorrenze spostate', () => {
+        const moved = event('a_2', {
+            start: { dateTime: '2026-03-01T10:00:00+01:00' },
+            originalStartTime: { dateTime: '2026-03-09T15:00:00+01:00' },
+        });
+        expect(getEarliestInstance([moved, event('a_1')]).id).toBe('a_1');
+    });
+});
+
+describe('startsSeries', () => {
+    it('riconosce la prima occorrenza della serie', () => {
+        const master = event('a');
+        expect(startsSeries(master, master.start)).toBe(true);
+        expect(startsSeries(master, { dateTime: '2026-03-09T15:00:00+01:00' })).toBe(false);
+    });
+});
+
+describe('truncateRecurrence', () => {
+    it('sostituisce COUNT e UNTIL con la fine un secondo prima dell\'occorrenza', () => {
+        expect(truncateRecurrence(['RRULE:FREQ=WEEKLY;COUNT=10;BYDAY=MO', 'EXDATE:20260316T140000Z'], { dateTime: '2026-03-09T15:00:00+01:00' }))
+            .toEqual(['RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20260309T135959Z', 'EXDATE:20260316T140000Z']);
+    });
+
+    it('usa il giorno precedente per gli eventi di un giorno intero', () => {
+        expect(truncateRecurrence(['RRULE:FREQ=DAILY;UNTIL=20260401'], { date: '2026-03-01' })).toEqual(['RRULE:FREQ=DAILY;UNTIL=20260228']);
+    });
+});
+
+describe('continueRecurrence', () => {
+    it('conta solo le occorrenze rimaste', () => {
+        expect(continueRecurrence(['RRULE:FREQ=WEEKLY;COUNT=10'], 4)).toEqual(['RRULE:FREQ=WEEKLY;COUNT=6']);
+        expect(continueRecurrence(['RRULE:FREQ=WEEKLY;COUNT=3'], 5)).toEqual(['RRULE:FREQ=WEEKLY;COUNT=1']);
+        expect(continueRecurrence(['RRULE:FREQ=WEEKLY;UNTIL=20260630T000000Z'], 4)).toEqual(['RRULE:FREQ=WEEKLY;UNTIL=20260630T000000Z']);
+    });
+});
+
+describe('buildSeriesContinuation', () => {
+    it('fa partire la nuova serie dall\'occorrenza con la stessa durata', () => {
+        const continuation = buildSeriesContinuation(event('a'), { dateTime: '2026-03-09T15:00:00+01:00' }, ['RRULE:FREQ=WEEKLY;COUNT=6']);
+        expect(continuation).toMatchObject({
+            id: 'a',
+            start: { dateTime: '2026-03-09T15:00:00+01:00', timeZone: 'Europe/Rome' },
+            end: { dateTime: '2026-03-09T16:00:00.000Z', timeZone: 'Europe/Rome' },
+            recurrence: ['RRULE:FREQ=WEEKLY;COUNT=6'],
+        });
+    });
+
+    it('conserva il numero di giorni degli eventi di un giorno intero', () => {
+        const master = event('a', { start: { date: '2026-03-02' }, end: { date: '2026-03-04' } });
+        expect(buildSeriesContinuation(master, { date: '2026-03-30' }, [])).toMatchObject({
+            start: { date: '2026-03-30' }, end: { date: '2026-04-01' },
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import type { GCalEvent } from '../services/googleCalendarService';
+import { formatRRuleUtc } from './recurrence';
+import { addDays } from './dateUtils';
+
+// Eventi ricorrenti: le ricerche usano `singleEvents`, quindi restituiscono le singole occorrenze, collegate
+// all'evento principale della serie da `recurringEventId`. Le operazioni sulla serie vanno inviate all'evento principale.
+
+// Portata di un'operazione sulle occorrenze selezionate di una serie
+export type SeriesScope = 'instance' | 'following' | 'series';
+
+export const seriesScopeLabels: Record<SeriesScope, string> = {
+    instance: 'Solo le occorrenze selezionate',
+    following: 'Questa e le successive',
+    series: 'Tutta la serie',
+};
+
+type EventDateTime = GCalEvent['start'];
+type CalendarEvent = GCalEvent & { calendarId: string };
+
+// Chiave della serie di un'occorrenza, o null per gli eventi singoli. Include il calendario perché le copie
+// di uno stesso invito in calendari diversi condividono `recurringEventId` ma hanno eventi principali distinti.
+export const getSeriesKey = (event: CalendarEvent): string | null => {
+    return event.recurringEventId ? `${event.calendarId}/${event.recurringEventId}` : null;
+};
+
+export interface SeriesGroup<T extends CalendarEvent> {
+    // null per un evento singolo
+    seriesKey: string | null;
+    events: T[];
+}
+
+// Raggruppa le occorrenze di ogni serie nella posizione della prima trovata, lasciando gli altri eventi nel loro ordine
+export const groupBySeries = <T extends CalendarEvent>(events: T[]): SeriesGroup<T>[] => {
+    const groups: SeriesGroup<T>[] = [];
+    const bySeries = new Map<string, SeriesGroup<T>>();
+    events.forEach(event => {
+        const seriesKey = getSeriesKey(event);
+        if (!seriesKey) {
+            groups.push({ seriesKey: null, events: [event] });
+            return;
+        }
+        const group = bySeries.get(seriesKey);
+        if (group) {
+            group.events.push(event);
+        } else {
+            const created = { seriesKey, events: [event] };
+            bySeries.set(seriesKey, created);
+            groups.push(created);
+        }
+    });
+    return groups;
+};
+
+const getStartTime = (start: EventDateTime): number => {
+    return start.dateTime ? Date.parse(start.dateTime) : new Date(`${start.date}T00:00:00`).getTime();
+};
+
+// Istante di inizio in formato ISO 8601 (mezzanotte locale per gli eventi di un giorno intero)
+export const getStartInstant = (start: EventDateTime): string => new Date(getStartTime(start)).toISOString();
+
+// Inizio previsto dalla regola di ricorrenza (un'occorrenza spostata conserva quello originale)
+export const getOriginalStart = (instance: GCalEvent): EventDateTime => instance.originalStartTime || instance.start;
+
+// Prima occorrenza, secondo l'inizio originale: da qui parte "Questa e le successive"
+export const getEarliestInstance = <T extends GCalEvent>(instances: T[]): T => {
+    return instances.reduce((earliest, instance) =>
+        getStartTime(getOriginalStart(instance)) < getStartTime(getOriginalStart(earliest)) ? instance : earliest
+    );
+};
+
+// True se nessuna occorrenza della serie precede `cutoff`: "questa e le successive" equivale allora all'intera serie
+export const startsSeries = (master: GCalEvent, cutoff: EventDateTime): boolean => {
+    return getStartTime(cutoff) <= getStartTime(master.start);
+};
+
+const mapRRule = (recurrence: string[], update: (parts: string[]) => string[]): string[] => {
+    return recurrence.map(line => {
+        if (!/^RRULE:/i.test(line)) return line;
+        return `RRULE:${update(line.replace(/^RRULE:/i, '').split(';')).join(';')}`;
+    });
+};
+
+const isRRulePart = (part: string, key: string) => part.toUpperCase().startsWith(`${key}=`);
+
+// Interrompe la ricorrenza prima dell'occorrenza `cutoff`: COUNT e UNTIL vengono sostituiti da un UNTIL
+// all'ultimo istante utile (una data per gli eventi di un giorno intero, un orario UTC per gli altri).
+export const truncateRecurrence = (recurrence: string[], cutoff: EventDateTime): string[] => {
+    const until = cutoff.dateTime
+        ? formatRRuleUtc(new Date(Date.parse(cutoff.dateTime) - 1000))
+        : addDays(cutoff.date!, -1).replace(/-/g, '');
+    return mapRRule(recurrence, parts => [
+        ...parts.filter(part => !isRRulePart(part, 'COUNT') && !isRRulePart(part, 'UNTIL')),
+        `UNTIL=${until}`,
+    ]);
+};
+
+// Regola della serie che prosegue dopo `occurrencesBefore` occorrenze: con COUNT si contano solo quelle rimaste
+export const continueRecurrence = (recurrence: string[], occurrencesBefore: number): string[] => {
+    return mapRRule(recurrence, parts => parts.map(part => {
+        if (!isRRulePart(part, 'COUNT')) return part;
+        const count = parseInt(part.split('=')[1], 10) || 1;
+        return `COUNT=${Math.max(1, count - occurrencesBefore)}`;
+    }));
+};
+
+// Evento principale della nuova serie che prosegue `master` dall'occorrenza `cutoff`, con la stessa durata.
+// Conserva l'id del vecchio evento principale, da rimuovere prima di crearla.
+export const buildSeriesContinuation = (master: GCalEvent, cutoff: EventDateTime, recurrence: string[]): GCalEvent => {
+    if (cutoff.date && master.start.date && master.end.date) {
+        const days = Math.round((Date.parse(master.end.date) - Date.parse(master.start.date)) / 86400000);
+        return { ...master, start: { date: cutoff.date }, end: { date: addDays(cutoff.date, days) }, recurrence };
+    }
+    const duration = getStartTime(master.end) - getStartTime(master.start);
+    return {
+        ...master,
+        start: { dateTime: cutoff.dateTime, timeZone: master.start.timeZone },
+        end: { dateTime: new Date(getStartTime(cutoff) + duration).toISOString(), timeZone: master.end.timeZone },
+        recurrence,
+    };
+};
@@ -0,0 +1,42 @@
+import type { EventObject, EventReminder, ReminderMethod } from './types';
+
+export const reminderMethods: { id: ReminderMethod; label: string }[] = [
+  { id: 'popup', label: 'Notifica' },
+  { id: 'email', label: 'Email' },
+];
+
+// Limiti imposti da Google Calendar per `reminders.overrides`
+export const MAX_REMINDERS = 5;
+export const MAX_REMINDER_MINUTES = 40320; // 4 settimane
+
+// Formatta un anticipo in minuti in modo leggibile (es. 90 -> "1 h 30 min", 1440 -> "1 giorno")
+export const formatReminderMinutes = (minutes: number): string => {
+  if (minutes === 0) return "all'inizio";
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  const parts: string[] = [];
+  if (days) parts.push(`${days} ${days === 1 ? 'giorno' : 'giorni'}`);
+  if (hours) parts.push(`${hours} h`);
+  if (mins) parts.push(`${mins} min`);
+  return `${parts.join(' ')} prima`;
+};
+
+export const describeReminder = (reminder: EventReminder): string => {
+  const method = reminderMethods.find(m => m.id === reminder.method)?.label || reminder.method;
+  return `${method} ${formatReminderMinutes(reminder.minutes)}`;
+};
+
+// Promemoria effettivi di un evento: quelli propri oppure, se non indicati, quello predefinito delle impostazioni
+export const resolveReminders = (event: EventObject, defaultReminder: EventReminder | null): EventReminder[] => {
+  if (event.reminders) return event.reminders;
+  return defaultReminder ? [defaultReminder] : [];
+};
+
+export const describeReminders = (event: EventObject, defaultReminder: EventReminder | null): string => {
+  if (!event.reminders) {
+    return defaultReminder ? `Predefinito (${describeReminder(defaultReminder)})` : 'Predefinito (nessuno)';
+  }
+  if (event.reminders.length === 0) return 'Nessuno';
+  return event.reminders.map(describeReminder).join(', ');
+};
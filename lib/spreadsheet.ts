@@ -0,0 +1,98 @@
+import * as XLSX from 'xlsx';
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: string[][];
+}
+
+const SPREADSHEET_EXTENSIONS = ['csv', 'xls', 'xlsx'];
+const WORKBOOK_EXTENSIONS = ['xls', 'xlsx'];
+
+const getExtension = (file: File) => file.name.split('.').pop()?.toLowerCase() || '';
+
+export const isSpreadsheetFile = (file: File) => SPREADSHEET_EXTENSIONS.includes(getExtension(file));
+
+// Solo le cartelle di lavoro Excel possono contenere più fogli
+export const isWorkbookFile = (file: File) => WORKBOOK_EXTENSIONS.includes(getExtension(file));
+
+function readWorkbook(file: File, options: XLSX.ParsingOptions = {}): Promise<XLSX.WorkBook> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const data = event.target?.result;
+        if (!data) throw new Error("Failed to read file data.");
+        const workbook = XLSX.read(data, { type: 'array', ...options });
+        if (workbook.SheetNames.length === 0) throw new Error("No sheets found in the Excel file.");
+        resolve(workbook);
+      } catch (e) {
+        reject(e);
+      }
+    };
+    reader.onerror = (error) => reject(error);
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+// Legge solo i nomi dei fogli, senza analizzarne il contenuto
+export async function readSheetNames(file: File): Promise<string[]> {
+  const workbook = await readWorkbook(file, { bookSheets: true });
+  return workbook.SheetNames;
+}
+
+// Converte in CSV i fogli richiesti (il primo, se non ne viene indicato nessuno)
+export async function parseExcelToCsv(file: File, sheetNames?: string[]): Promise<{ sheetName: string; csv: string }[]> {
+  const workbook = await readWorkbook(file);
+  const names = sheetNames?.length ? sheetNames : [workbook.SheetNames[0]];
+  return names
+    .filter(name => workbook.Sheets[name])
+    .map(name => ({ sheetName: name, csv: XLSX.utils.sheet_to_csv(workbook.Sheets[name]) }));
+}
+
+// Riconosce i formati numerici di Excel che rappresentano date o orari (es. "dd/mm/yyyy", "hh:mm")
+const isDateNumberFormat = (format?: string): boolean => {
+  if (!format) return false;
+  return /[dmyhs]/i.test(format.replace(/"[^"]*"/g, '').replace(/\[[^\]]*\]/g, ''));
+};
+
+// Converte un numero seriale di Excel in testo AAAA-MM-GG, HH:mm o "AAAA-MM-GG HH:mm"
+const excelSerialToText = (serial: number): string => {
+  // 25569 = giorni tra l'epoca di Excel (30/12/1899) e l'epoca Unix
+  const date = new Date(Math.round((serial - 25569) * 86400) * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const datePart = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  const timePart = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+  if (serial < 1) return timePart;
+  return Number.isInteger(serial) ? datePart : `${datePart} ${timePart}`;
+};
+
+const worksheetToRows = (worksheet: XLSX.WorkSheet): string[][] => {
+  if (!worksheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const rows: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r, c })];
+      if (!cell || cell.v === undefined || cell.v === null) row.push('');
+      else if (cell.t === 'n' && isDateNumberFormat(cell.z as string | undefined)) row.push(excelSerialToText(cell.v as number));
+      else if (cell.t === 'd' && cell.v instanceof Date) row.push(cell.v.toISOString().slice(0, 16).replace('T', ' '));
+      else row.push(String(cell.w ?? cell.v).trim());
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Legge i fogli richiesti come matrici di stringhe, per la mappatura deterministica delle colonne
+export async function readSpreadsheetSheets(file: File, sheetNames?: string[]): Promise<SpreadsheetSheet[]> {
+  const isCsv = getExtension(file) === 'csv';
+  // Per i CSV `raw` evita che SheetJS reinterpreti le date (es. 01/02/2024 letto come 2 gennaio)
+  const workbook = await readWorkbook(file, isCsv ? { raw: true } : { cellNF: true });
+  const names = sheetNames?.length ? sheetNames : [workbook.SheetNames[0]];
+  return names
+    .filter(name => workbook.Sheets[name])
+    .map(name => ({ name, rows: worksheetToRows(workbook.Sheets[name]) }));
+}
+
+export const rowsToCsv = (rows: string[][]): string => XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(rows));
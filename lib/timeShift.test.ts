@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { isTimeShiftActive, shiftWallClockRange, shiftRecurrence, shiftRecurrenceLines, shiftEventObject } from './timeShift';
+import type { TimeShift } from './timeShift';
+import type { EventObject, EventRecurrence } from './types';
+
+const shiftBy = (unit: TimeShift['unit'], amount: number): TimeShift => ({ unit, amount, weekday: 'MO' });
+
+const lesson: EventObject = {
+    id: 1, subject: 'Inglese', startDate: '02-03-2026', startTime: '09:00', endDate: '02-03-2026', endTime: '10:00',
+    description: '', location: '', timeZone: 'Europe/Rome',
+};
+
+const weekly: EventRecurrence = { frequency: 'WEEKLY', interval: 1, byDay: ['MO', 'SA'], until: '30-06-2026', exceptions: ['06-04-2026'] };
+
+describe('isTimeShiftActive', () => {
+    it('ignora gli spostamenti nulli', () => {
+        expect(isTimeShiftActive(null)).toBe(false);
+        expect(isTimeShiftActive(shiftBy('days', 0))).toBe(false);
+        expect(isTimeShiftActive({ unit: 'weekday', amount: 0, weekday: 'FR' })).toBe(true);
+    });
+});
+
+describe('shiftWallClockRange', () => {
+    it('mantiene l\'orario "a muro" oltre il cambio dell\'ora legale', () => {
+        const range = { allDay: false, startDate: '2026-03-27', startTime: '09:00', endDate: '2026-03-27', endTime: '10:00' };
+        expect(shiftWallClockRange(range, shiftBy('days', 3), 'Europe/Rome')).toEqual({ ...range, startDate: '2026-03-30', endDate: '2026-03-30' });
+    });
+
+    it('sposta in minuti mantenendo la durata anche oltre la mezzanotte', () => {
+        const range = { allDay: false, startDate: '2026-03-02', startTime: '23:00', endDate: '2026-03-03', endTime: '00:30' };
+        expect(shiftWallClockRange(range, shiftBy('minutes', 90), 'Europe/Rome')).toEqual({
+            allDay: false, startDate: '2026-03-03', startTime: '00:30', endDate: '2026-03-03', endTime: '02:00',
+        });
+    });
+
+    it('porta al prossimo giorno indicato, di una settimana se è già quel giorno', () => {
+        const range = { allDay: true, startDate: '2026-03-02', startTime: '', endDate: '2026-03-03', endTime: '' };
+        expect(shiftWallClockRange(range, { unit: 'weekday', amount: 0, weekday: 'WE' }, 'UTC')).toMatchObject({ startDate: '2026-03-04', endDate: '2026-03-05' });
+        expect(shiftWallClockRange(range, { unit: 'weekday', amount: 0, weekday: 'MO' }, 'UTC')).toMatchObject({ startDate: '2026-03-09' });
+        expect(shiftWallClockRange(range, shiftBy('minutes', 30), 'UTC')).toBeNull();
+    });
+});
+
+describe('shiftRecurrence', () => {
+    it('sposta giorni della settimana, data di fine ed eccezioni', () => {
+        expect(shiftRecurrence(weekly, 2)).toEqual({ ...weekly, byDay: ['WE', 'MO'], until: '02-07-2026', exceptions: ['08-04-2026'] });
+        expect(shiftRecurrence(weekly, -1)).toEqual({ ...weekly, byDay: ['SU', 'FR'], until: '29-06-2026', exceptions: ['05-04-2026'] });
+    });
+
+    it('lascia invariata la ripetizione se il giorno non cambia', () => {
+        expect(shiftRecurrence({ ...weekly, frequency: 'MONTHLY' }, 0)).toEqual({ ...weekly, frequency: 'MONTHLY' });
+    });
+
+    it('rifiuta le ripetizioni che spostate darebbero occorrenze diverse', () => {
+        expect(shiftRecurrence({ ...weekly, frequency: 'MONTHLY', byDay: [] }, 1)).toBeNull();
+        expect(shiftRecurrence({ ...weekly, frequency: 'YEARLY', byDay: [] }, 7)).toBeNull();
+        expect(shiftRecurrence({ ...weekly, interval: 2 }, 3)).toBeNull();
+        expect(shiftRecurrence({ ...weekly, interval: 2 }, 14)).toMatchObject({ byDay: ['MO', 'SA'], until: '14-07-2026' });
+        expect(shiftRecurrence({ ...weekly, interval: 2, byDay: [] }, 3)).toMatchObject({ byDay: [], until: '03-07-2026' });
+    });
+});
+
+describe('shiftEventObject', () => {
+    it('sposta l\'evento insieme alla sua ripetizione', () => {
+        expect(shiftEventObject({ ...lesson, recurrence: weekly }, shiftBy('days', 1), 'UTC')).toMatchObject({
+            startDate: '03-03-2026', endDate: '03-03-2026', startTime: '09:00',
+            recurrence: { byDay: ['TU', 'SU'], until: '01-07-2026', exceptions: ['07-04-2026'] },
+        });
+    });
+
+    it('ruota la ripetizione quando uno spostamento in minuti cambia giorno', () => {
+        const late = { ...lesson, startTime: '23:30', endTime: '23:45', recurrence: weekly };
+        expect(shiftEventObject(late, shiftBy('minutes', 60), 'UTC')).toMatchObject({
+            startDate: '03-03-2026', startTime: '00:30', recurrence: { byDay: ['TU', 'SU'] },
+        });
+        expect(shiftEventObject(late, shiftBy('minutes', 15), 'UTC')?.recurrence).toEqual(weekly);
+    });
+
+    it('lascia invariati gli eventi la cui ripetizione non si può spostare', () => {
+        const monthly = { ...lesson, recurrence: { ...weekly, frequency: 'MONTHLY' as const, byDay: [] } };
+        expect(shiftEventObject(monthly, shiftBy('weeks', 1), 'UTC')).toBeNull();
+        expect(shiftEventObject(monthly, shiftBy('minutes', 30), 'UTC')).toMatchObject({ startTime: '09:30', recurrence: monthly.recurrence });
+    });
+
+    it('lascia invariati gli eventi senza date valide', () => {
+        expect(shiftEventObject({ ...lesson, startDate: '2026-03-02' }, shiftBy('days', 1), 'UTC')).toBeNull();
+    });
+});
+
+describe('shiftRecurrenceLines', () => {
+    const lines = [
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260629T215959Z',
+        'EXDATE;TZID=Europe/Rome:20260309T090000,20260401T090000',
+    ];
+    const monday = { date: '2026-03-02', time: '09:00' };
+
+    it('ruota i giorni e sposta eccezioni e fine quanto l\'inizio', () => {
+        expect(shiftRecurrenceLines(lines, monday, { date: '2026-03-03', time: '09:00' }, 'Europe/Rome')).toEqual([
+            'RRULE:FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20260630T215959Z',
+            'EXDATE;TZID=Europe/Rome:20260310T090000,20260402T090000',
+        ]);
+    });
+
+    it('sposta solo gli orari se il giorno non cambia', () => {
+        expect(shiftRecurrenceLines([...lines, 'EXDATE:20260316T080000Z'], monday, { date: '2026-03-02', time: '10:30' }, 'Europe/Rome')).toEqual([
+            'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260629T232959Z',
+            'EXDATE;TZID=Europe/Rome:20260309T103000,20260401T103000',
+            'EXDATE:20260316T093000Z',
+        ]);
+    });
+
+    it('sposta le date degli eventi di un giorno intero', () => {
+        expect(shiftRecurrenceLines(['RRULE:FREQ=DAILY;UNTIL=20260331', 'EXDATE;VALUE=DATE:20260310'], { date: '2026-03-02', time: '' }, { date: '2026-03-09', time: '' }, 'UTC'))
+            .toEqual(['RRULE:FREQ=DAILY;UNTIL=20260407', 'EXDATE;VALUE=DATE:20260317']);
+    });
+
+    it('rifiuta le regole che spostate darebbero occorrenze diverse', () => {
+        const tuesday = { date: '2026-03-03', time: '09:00' };
+        expect(shiftRecurrenceLines(['RRULE:FREQ=MONTHLY;COUNT=5'], monday, tuesday, 'Europe/Rome')).toBeNull();
+        expect(shiftRecurrenceLines(['RRULE:FREQ=MONTHLY;BYDAY=1MO'], monday, tuesday, 'Europe/Rome')).toBeNull();
+        expect(shiftRecurrenceLines(['RRULE:FREQ=MONTHLY;BYDAY=1MO'], monday, { ...monday, time: '10:00' }, 'Europe/Rome'))
+            .toEqual(['RRULE:FREQ=MONTHLY;BYDAY=1MO']);
+        expect(shiftRecurrenceLines(lines, monday, { date: '2026-03-02', time: '' }, 'Europe/Rome')).toBeNull();
+    });
+});
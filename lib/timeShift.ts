@@ -0,0 +1,237 @@
+import type { EventObject, EventRecurrence, Weekday } from './types';
+import { addDays, zonedTimeToDate, toZonedDateAndTime, toDDMMYYYY, toYYYYMMDD } from './dateUtils';
+import { parseRRule, formatRRuleUtc } from './recurrence';
+
+// Spostamento relativo degli eventi: di un numero di minuti, giorni o settimane, oppure al prossimo giorno della settimana indicato
+export type TimeShiftUnit = 'minutes' | 'days' | 'weeks' | 'weekday';
+
+export const timeShiftUnits: { id: TimeShiftUnit; label: string }[] = [
+    { id: 'minutes', label: 'Minuti' },
+    { id: 'days', label: 'Giorni' },
+    { id: 'weeks', label: 'Settimane' },
+    { id: 'weekday', label: 'Al prossimo' },
+];
+
+export interface TimeShift {
+    unit: TimeShiftUnit;
+    // Quantità per minuti, giorni e settimane: negativa per anticipare
+    amount: number;
+    // Giorno di destinazione per 'weekday'
+    weekday: Weekday;
+}
+
+export const isTimeShiftActive = (shift: TimeShift | null): shift is TimeShift => {
+    if (!shift) return false;
+    return shift.unit === 'weekday' || (Number.isFinite(shift.amount) && shift.amount !== 0);
+};
+
+// Intervallo di un evento in orario "a muro": date AAAA-MM-GG e orari HH:mm (vuoti per gli eventi di un giorno intero,
+// per i quali `endDate` è esclusa come in Google Calendar)
+export interface WallClockRange {
+    allDay: boolean;
+    startDate: string;
+    startTime: string;
+    endDate: string;
+    endTime: string;
+}
+
+// Stesso ordine di Date.getDay()
+const WEEKDAY_INDEX: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const getWeekday = (dateString: string): number => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// Giorni di cui spostare la data di inizio, o null per uno spostamento in minuti.
+// "Al prossimo" porta sempre in avanti: un evento che cade già in quel giorno si sposta di una settimana.
+const getDayOffset = (shift: TimeShift, startDate: string): number | null => {
+    switch (shift.unit) {
+        case 'days':
+            return shift.amount;
+        case 'weeks':
+            return shift.amount * 7;
+        case 'weekday':
+            return (WEEKDAY_INDEX.indexOf(shift.weekday) - getWeekday(startDate) + 7) % 7 || 7;
+        case 'minutes':
+            return null;
+    }
+};
+
+// Sposta l'inizio dell'evento e ricalcola la fine mantenendone la durata. Gli spostamenti in giorni e settimane
+// conservano l'orario "a muro" nel fuso dell'evento: una lezione alle 9:00 resta alle 9:00 anche oltre il cambio
+// dell'ora legale. Restituisce null se lo spostamento non si applica (minuti su un evento di un giorno intero).
+export const shiftWallClockRange = (range: WallClockRange, shift: TimeShift, timeZone: string): WallClockRange | null => {
+    const dayOffset = getDayOffset(shift, range.startDate);
+    if (range.allDay) {
+        if (dayOffset === null) return null;
+        return { ...range, startDate: addDays(range.startDate, dayOffset), endDate: addDays(range.endDate, dayOffset) };
+    }
+
+    const start = zonedTimeToDate(range.startDate, range.startTime, timeZone).getTime();
+    const end = zonedTimeToDate(range.endDate, range.endTime, timeZone).getTime();
+    const newStart = dayOffset === null
+        ? start + shift.amount * 60000
+        : zonedTimeToDate(addDays(range.startDate, dayOffset), range.startTime, timeZone).getTime();
+    const startWallClock = toZonedDateAndTime(new Date(newStart), timeZone);
+    const endWallClock = toZonedDateAndTime(new Date(newStart + (end - start)), timeZone);
+    return {
+        allDay: false,
+        startDate: startWallClock.date,
+        startTime: startWallClock.time,
+        endDate: endWallClock.date,
+        endTime: endWallClock.time,
+    };
+};
+
+const DATE_PATTERN = /^\d{2}-\d{2}-\d{4}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+const getDaysBetween = (from: string, to: string): number => {
+    const toUtc = (dateString: string) => {
+        const [year, month, day] = dateString.split('-').map(Number);
+        return Date.UTC(year, month - 1, day);
+    };
+    return Math.round((toUtc(to) - toUtc(from)) / 86400000);
+};
+
+const rotateWeekday = (day: Weekday, dayOffset: number): Weekday =>
+    WEEKDAY_INDEX[(((WEEKDAY_INDEX.indexOf(day) + dayOffset) % 7) + 7) % 7];
+
+// Sposta la ripetizione insieme all'inizio dell'evento: data di fine, eccezioni (GG-MM-AAAA) e giorni della settimana
+// avanzano degli stessi giorni. Restituisce null se la ripetizione spostata non produrrebbe le stesse occorrenze
+// spostate: le ripetizioni mensili e annuali (i giorni del mese cambierebbero a fine mese) e quelle ogni N settimane
+// con giorni indicati, quando i giorni passerebbero da una settimana all'altra.
+export const shiftRecurrence = (recurrence: EventRecurrence, dayOffset: number): EventRecurrence | null => {
+    if (dayOffset === 0) return recurrence;
+    if (recurrence.frequency === 'MONTHLY' || recurrence.frequency === 'YEARLY') return null;
+    if (recurrence.frequency === 'WEEKLY' && recurrence.interval > 1 && recurrence.byDay.length > 0 && dayOffset % 7 !== 0) return null;
+    const shiftDate = (date: string) => (DATE_PATTERN.test(date) ? toDDMMYYYY(addDays(toYYYYMMDD(date), dayOffset)) : date);
+    return {
+        ...recurrence,
+        byDay: recurrence.byDay.map(day => rotateWeekday(day, dayOffset)),
+        until: recurrence.until && shiftDate(recurrence.until),
+        exceptions: recurrence.exceptions.map(shiftDate),
+    };
+};
+
+// Inizio di un evento in orario "a muro": data AAAA-MM-GG e orario HH:mm (vuoto per gli eventi di un giorno intero)
+export interface WallClockStart {
+    date: string;
+    time: string;
+}
+
+const getMinutesOfDay = (time: string): number => {
+    if (!time) return 0;
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+// Somma minuti a una data e ora compatte (AAAAMMGG, HHMMSS) in orario "a muro", senza passare da un fuso orario
+const addWallClockMinutes = (date: string, time: string, minutes: number): { date: string; time: string } => {
+    const shifted = new Date(Date.UTC(
+        Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8)),
+        Number(time.slice(0, 2)), Number(time.slice(2, 4)) + minutes, Number(time.slice(4, 6)),
+    ));
+    const iso = shifted.toISOString();
+    return { date: iso.slice(0, 10).replace(/-/g, ''), time: iso.slice(11, 19).replace(/:/g, '') };
+};
+
+// Sposta un valore di UNTIL, EXDATE o RDATE di `minutes` minuti in orario "a muro": le date di `dayOffset` giorni,
+// gli orari UTC passando dal fuso della serie. Restituisce null per i formati non riconosciuti (es. i periodi di RDATE).
+const shiftRecurrenceValue = (value: string, dayOffset: number, minutes: number, timeZone: string): string | null => {
+    if (/^\d{8}$/.test(value)) {
+        return addDays(`${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`, dayOffset).replace(/-/g, '');
+    }
+    const match = value.match(/^(\d{8})T(\d{6})(Z?)$/i);
+    if (!match) return null;
+    const [, date, time, utc] = match;
+    if (!utc) {
+        const shifted = addWallClockMinutes(date, time, minutes);
+        return `${shifted.date}T${shifted.time}`;
+    }
+    const instant = new Date(`${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}Z`);
+    const wallClock = toZonedDateAndTime(instant, timeZone);
+    const shifted = addWallClockMinutes(wallClock.date.replace(/-/g, ''), `${wallClock.time.replace(':', '')}${time.slice(4, 6)}`, minutes);
+    const shiftedDate = `${shifted.date.slice(0, 4)}-${shifted.date.slice(4, 6)}-${shifted.date.slice(6, 8)}`;
+    const shiftedTime = `${shifted.time.slice(0, 2)}:${shifted.time.slice(2, 4)}`;
+    return formatRRuleUtc(new Date(zonedTimeToDate(shiftedDate, shiftedTime, timeZone).getTime() + Number(shifted.time.slice(4, 6)) * 1000));
+};
+
+// Righe `recurrence` di Google Calendar (RRULE, EXDATE, RDATE) di una serie il cui inizio passa da `from` a `to`,
+// nel fuso orario della serie. Eccezioni e fine della serie si spostano quanto l'inizio, così da restare sulle stesse
+// occorrenze, e i giorni della settimana ruotano come in `shiftRecurrence`. Restituisce null se la ripetizione
+// spostata non produrrebbe le stesse occorrenze spostate, se l'evento passa da un giorno intero a un orario (o
+// viceversa) o se la regola contiene parti che non si sanno spostare.
+export const shiftRecurrenceLines = (lines: string[], from: WallClockStart, to: WallClockStart, timeZone: string): string[] | null => {
+    if (!from.time !== !to.time) return null;
+    const dayOffset = getDaysBetween(from.date, to.date);
+    const minutes = dayOffset * 1440 + getMinutesOfDay(to.time) - getMinutesOfDay(from.time);
+    if (minutes === 0) return lines;
+
+    const shifted: string[] = [];
+    for (const line of lines) {
+        const separator = line.indexOf(':');
+        const name = line.slice(0, separator).split(';')[0].toUpperCase();
+        const value = line.slice(separator + 1);
+        if (name === 'RRULE') {
+            // Nello stesso giorno cambia solo l'orario: i giorni della regola restano validi
+            let byDay: Weekday[] | null = null;
+            if (dayOffset !== 0) {
+                const rule = parseRRule(value);
+                const rotated = rule && !rule.unsupported && shiftRecurrence(rule, dayOffset);
+                if (!rotated) return null;
+                byDay = rotated.byDay;
+            }
+            const parts = value.split(';').map(part => {
+                const [key, partValue] = part.split('=');
+                if (key.toUpperCase() === 'BYDAY' && byDay) return `${key}=${byDay.join(',')}`;
+                if (key.toUpperCase() === 'UNTIL') {
+                    const until = shiftRecurrenceValue(partValue, dayOffset, minutes, timeZone);
+                    return until && `${key}=${until}`;
+                }
+                return part;
+            });
+            if (parts.some(part => part === null)) return null;
+            shifted.push(`${line.slice(0, separator)}:${parts.join(';')}`);
+        } else if (name === 'EXDATE' || name === 'RDATE') {
+            const values = value.split(',').map(date => shiftRecurrenceValue(date, dayOffset, minutes, timeZone));
+            if (values.some(date => date === null)) return null;
+            shifted.push(`${line.slice(0, separator)}:${values.join(',')}`);
+        } else {
+            return null;
+        }
+    }
+    return shifted;
+};
+
+// Applica lo spostamento a un evento dell'anteprima (date GG-MM-AAAA), ripetizione compresa. Restituisce null se
+// l'evento non ha date e orari validi o se lo spostamento non si applica, così da lasciarlo invariato.
+export const shiftEventObject = (event: EventObject, shift: TimeShift, defaultTimeZone: string): EventObject | null => {
+    if (!DATE_PATTERN.test(event.startDate) || !DATE_PATTERN.test(event.endDate)) return null;
+    if (!event.allDay && (!TIME_PATTERN.test(event.startTime) || !TIME_PATTERN.test(event.endTime))) return null;
+    try {
+        const shifted = shiftWallClockRange({
+            allDay: !!event.allDay,
+            startDate: toYYYYMMDD(event.startDate),
+            startTime: event.startTime,
+            endDate: toYYYYMMDD(event.endDate),
+            endTime: event.endTime,
+        }, shift, event.timeZone || defaultTimeZone);
+        if (!shifted) return null;
+        const recurrence = event.recurrence
+            && shiftRecurrence(event.recurrence, getDaysBetween(toYYYYMMDD(event.startDate), shifted.startDate));
+        if (recurrence === null) return null;
+        return {
+            ...event,
+            startDate: toDDMMYYYY(shifted.startDate),
+            startTime: shifted.startTime,
+            endDate: toDDMMYYYY(shifted.endDate),
+            endTime: shifted.endTime,
+            recurrence,
+        };
+    } catch (e) {
+        // Fuso orario non riconosciuto
+        return null;
+    }
+};
@@ -0,0 +1,94 @@
+import { getTimeZoneOffset } from './dateUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Verifica che il nome sia un fuso orario IANA riconosciuto dal browser (es. "Europe/Rome")
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Elenco dei fusi orari proposti nei menu a tendina
+export const getTimeZoneOptions = (): string[] => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  const browserZone = getBrowserTimeZone();
+  return zones.includes(browserZone) ? zones : [browserZone, ...zones];
+};
+
+const offsetMinutes = (timeZone: string, instant: number) => Math.round(getTimeZoneOffset(timeZone, instant) / 60000);
+
+// Formatta un offset in minuti come richiesto da TZOFFSETFROM/TZOFFSETTO (es. +0100, -0430)
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+};
+
+// Orario locale (YYYYMMDDTHHmmss) di un istante, dato l'offset in vigore
+const formatLocal = (instant: number, offset: number): string => {
+  return new Date(instant + offset * 60000).toISOString().replace(/[-:]/g, '').slice(0, 15);
+};
+
+interface Transition {
+  instant: number;
+  from: number;
+  to: number;
+}
+
+// Individua i cambi di offset (ora legale/solare) del fuso orario tra gli istanti indicati, con precisione al minuto
+const findTransitions = (timeZone: string, start: number, end: number): Transition[] => {
+  const transitions: Transition[] = [];
+  let previous = offsetMinutes(timeZone, start);
+  for (let t = start + DAY_MS; t <= end; t += DAY_MS) {
+    const current = offsetMinutes(timeZone, t);
+    if (current === previous) continue;
+    // Ricerca binaria del primo minuto con il nuovo offset
+    let low = t - DAY_MS;
+    let high = t;
+    while (high - low > 60000) {
+      const mid = low + Math.floor((high - low) / 120000) * 60000;
+      if (offsetMinutes(timeZone, mid) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ instant: high, from: previous, to: current });
+    previous = current;
+  }
+  return transitions;
+};
+
+// Genera il blocco VTIMEZONE di un fuso orario per gli anni indicati, elencando esplicitamente ogni cambio di offset.
+// Le regole vengono ricavate dal database dei fusi orari del browser, senza dipendenze esterne.
+export const buildVTimezone = (timeZone: string, fromYear: number, toYear: number): string[] => {
+  const start = Date.UTC(fromYear, 0, 1) - DAY_MS;
+  const end = Date.UTC(toYear + 1, 0, 1);
+  const transitions = findTransitions(timeZone, start, end);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    // Fuso orario senza ora legale: un unico periodo "standard"
+    const offset = formatOffset(offsetMinutes(timeZone, start));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  } else {
+    transitions.forEach(({ instant, from, to }) => {
+      const kind = to > from ? 'DAYLIGHT' : 'STANDARD';
+      lines.push(
+        `BEGIN:${kind}`,
+        // DTSTART è espresso nell'orario locale in vigore prima del cambio
+        `DTSTART:${formatLocal(instant, from)}`,
+        `TZOFFSETFROM:${formatOffset(from)}`,
+        `TZOFFSETTO:${formatOffset(to)}`,
+        `END:${kind}`,
+      );
+    });
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
@@ -0,0 +1,143 @@
+import type { GCalEvent } from '../services/googleCalendarService';
+
+// Cestino locale: prima di ogni eliminazione da "Pulisci Calendario" le risorse complete degli eventi
+// vengono salvate in IndexedDB, così da poterle ripristinare anche dopo aver chiuso la pagina.
+
+// Evento eliminato, con il calendario da cui proviene. Oltre ai campi di GCalEvent
+// conserva tutti quelli restituiti dall'API (ricorrenza, promemoria, colore...).
+export interface TrashedEvent extends GCalEvent {
+    calendarId: string;
+}
+
+// Eventi eliminati con una stessa operazione
+export interface TrashBatch {
+    id: string;
+    // Data e ora dell'eliminazione (ISO 8601)
+    deletedAt: string;
+    // Account Google da cui sono stati eliminati: il ripristino è possibile solo con lo stesso account
+    account: string;
+    events: TrashedEvent[];
+    // Id degli eventi già ripristinati
+    restoredIds: string[];
+}
+
+export const trashRetentionOptions = [
+    { days: 7, label: '7 giorni' },
+    { days: 30, label: '30 giorni' },
+    { days: 90, label: '90 giorni' },
+    { days: 365, label: '1 anno' },
+] as const;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const TRASH_DB_NAME = 'forma-trash';
+const TRASH_DB_VERSION = 1;
+const TRASH_STORE = 'batches';
+
+const openTrashDb = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(TRASH_DB_NAME, TRASH_DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Esegue una richiesta sull'archivio del cestino e ne restituisce il risultato a transazione conclusa
+const runTrashRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openTrashDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(TRASH_STORE, mode);
+            const request = action(transaction.objectStore(TRASH_STORE));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+export const createTrashBatch = (account: string, events: TrashedEvent[]): TrashBatch => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    deletedAt: new Date().toISOString(),
+    account,
+    events,
+    restoredIds: [],
+});
+
+// Dalla più recente alla meno recente
+export const loadTrashBatches = async (): Promise<TrashBatch[]> => {
+    try {
+        const batches = await runTrashRequest('readonly', store => store.getAll() as IDBRequest<TrashBatch[]>);
+        return batches.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    } catch (error) {
+        console.error("Failed to load trash from IndexedDB", error);
+        return [];
+    }
+};
+
+// Salva (o aggiorna) un gruppo di eventi eliminati; restituisce false se il salvataggio non è riuscito
+export const saveTrashBatch = async (batch: TrashBatch): Promise<boolean> => {
+    try {
+        await runTrashRequest('readwrite', store => store.put(batch));
+        return true;
+    } catch (error) {
+        console.error("Failed to save trash batch to IndexedDB", error);
+        return false;
+    }
+};
+
+export const deleteTrashBatch = async (id: string): Promise<void> => {
+    try {
+        await runTrashRequest('readwrite', store => store.delete(id));
+    } catch (error) {
+        console.error("Failed to delete trash batch from IndexedDB", error);
+    }
+};
+
+export const clearTrash = async (): Promise<void> => {
+    try {
+        await runTrashRequest('readwrite', store => store.clear());
+    } catch (error) {
+        console.error("Failed to clear trash in IndexedDB", error);
+    }
+};
+
+// Scarta i gruppi più vecchi del periodo di conservazione e restituisce quelli rimasti
+export const purgeExpiredTrash = async (retentionDays: number): Promise<TrashBatch[]> => {
+    const limit = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const batches = await loadTrashBatches();
+    const expired = batches.filter(batch => new Date(batch.deletedAt).getTime() < limit);
+    for (const batch of expired) {
+        await deleteTrashBatch(batch.id);
+    }
+    return batches.filter(batch => !expired.includes(batch));
+};
+
+// Campi in sola lettura o legati all'evento originale, da non inviare quando l'evento viene ricreato.
+// Senza `recurringEventId` e `originalStartTime` un'occorrenza ricreata diventa un evento singolo.
+const READ_ONLY_FIELDS = [
+    'id', 'etag', 'kind', 'htmlLink', 'iCalUID', 'created', 'updated', 'creator', 'organizer',
+    'sequence', 'status', 'recurringEventId', 'originalStartTime', 'hangoutLink', 'calendarId',
+];
+
+// Risorsa da inviare all'API per ripristinare un evento eliminato
+export const buildRestoreResource = (event: TrashedEvent): Record<string, unknown> => {
+    const resource: Record<string, unknown> = { ...event };
+    READ_ONLY_FIELDS.forEach(field => delete resource[field]);
+    return resource;
+};
+
+// Eventi del gruppo non ancora ripristinati
+export const getPendingEvents = (batch: TrashBatch): TrashedEvent[] => {
+    return batch.events.filter(event => !batch.restoredIds.includes(event.id));
+};
+
+export const markRestored = (batch: TrashBatch, eventIds: string[]): TrashBatch => ({
+    ...batch,
+    restoredIds: Array.from(new Set([...batch.restoredIds, ...eventIds])),
+});
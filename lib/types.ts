@@ -1,3 +1,32 @@
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// Sottoinsieme di una RRULE (RFC 5545) supportato dall'app. Le date sono in formato GG-MM-AAAA, come quelle dell'evento.
+export interface EventRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byDay: Weekday[];
+  count?: number;
+  until?: string;
+  exceptions: string[]; // Date delle occorrenze escluse (EXDATE)
+  // Parti della regola originale che l'app non sa rappresentare (es. "BYDAY=1MO", "BYSETPOS=-1"): finché ci sono,
+  // l'evento non è valido, perché importarlo senza di esse ne cambierebbe le date
+  unsupported?: string[];
+}
+
+export type ReminderMethod = 'popup' | 'email';
+
+export interface EventReminder {
+  method: ReminderMethod;
+  minutes: number; // Anticipo rispetto all'inizio dell'evento
+}
+
+export interface EventPerson {
+  email: string;
+  name?: string;
+}
+
 export interface EventObject {
   id: number;
   subject: string;
@@ -7,14 +36,34 @@ export interface EventObject {
   endTime: string;
   description: string;
   location: string;
+  timeZone?: string; // Fuso orario IANA degli orari (es. "America/New_York"); se assente si usa quello predefinito nelle impostazioni
+  // Evento di un'intera giornata: gli orari sono vuoti e `endDate` è esclusa (giorno successivo all'ultimo), come in iCalendar e Google Calendar
+  allDay?: boolean;
+  // Se assente si usa il promemoria predefinito delle impostazioni; un elenco vuoto indica nessun promemoria
+  reminders?: EventReminder[];
+  attendees?: EventPerson[];
+  organizer?: EventPerson;
+  sourceSheet?: string; // Nome del foglio di calcolo da cui proviene l'evento
+  recurrence?: EventRecurrence;
+  // Colore dell'evento nella tavolozza di Google Calendar ("1"-"11"); se assente si usa il colore del calendario
+  colorId?: string;
 }
 
+// Campi testuali di `EventObject`, modificabili direttamente nella tabella di anteprima
+export type EventTextField = 'subject' | 'startDate' | 'startTime' | 'endDate' | 'endTime' | 'description' | 'location' | 'timeZone';
+
 export interface ValidationErrors {
   subject?: string;
   startDate?: string;
   startTime?: string;
   endDate?: string;
   endTime?: string;
+  timeZone?: string;
+  recurrence?: string;
+  reminders?: string;
+  attendees?: string;
+  organizer?: string;
+  colorId?: string;
 }
 
 export interface ValidatedEvent extends EventObject {
@@ -1,5 +1,10 @@
-import type { EventObject, ValidatedEvent, ValidationErrors } from './types';
+import type { EventObject, EventRecurrence, EventReminder, ValidatedEvent, ValidationErrors } from './types';
+import { recurrenceFrequencies, weekdays, getUnsupportedRRuleParts } from './recurrence';
 import { toYYYYMMDD } from './dateUtils';
+import { isValidTimeZone } from './timezone';
+import { reminderMethods, MAX_REMINDERS, MAX_REMINDER_MINUTES } from './reminders';
+import { isValidEmail } from './attendees';
+import { isValidColorId } from './colors';
 
 function isValidDateString(dateString: string): boolean {
   if (!dateString) return false;
@@ -33,6 +38,58 @@ function isValidTimeString(timeString: string): boolean {
 }
 
 
+// Restituisce il primo problema riscontrato nella ricorrenza, o undefined se è valida
+function validateRecurrence(recurrence: EventRecurrence, startDate: string): string | undefined {
+    if (!recurrenceFrequencies.some(f => f.id === recurrence.frequency)) {
+        return "Frequenza di ripetizione non valida.";
+    }
+    const unsupported = getUnsupportedRRuleParts(recurrence, startDate);
+    if (unsupported.length > 0) {
+        return `La ripetizione originale usa regole non supportate (${unsupported.join('; ')}): importata così cambierebbero le date. Modifica la ripetizione per confermarla.`;
+    }
+    if (!Number.isInteger(recurrence.interval) || recurrence.interval < 1) {
+        return "L'intervallo deve essere un numero intero positivo.";
+    }
+    if (recurrence.byDay.some(day => !weekdays.some(w => w.id === day))) {
+        return "Giorno della settimana non valido.";
+    }
+    if (recurrence.count !== undefined && recurrence.until) {
+        return "Indica un numero di ripetizioni oppure una data di fine, non entrambi.";
+    }
+    if (recurrence.count !== undefined && (!Number.isInteger(recurrence.count) || recurrence.count < 1)) {
+        return "Il numero di ripetizioni deve essere un intero positivo.";
+    }
+    if (recurrence.until) {
+        if (!isValidDateString(recurrence.until)) {
+            return "Data di fine ripetizione non valida. Usa GG-MM-AAAA.";
+        }
+        if (isValidDateString(startDate) && toYYYYMMDD(recurrence.until) < toYYYYMMDD(startDate)) {
+            return "La fine della ripetizione non può precedere la data di inizio.";
+        }
+    }
+    const invalidException = recurrence.exceptions.find(date => !isValidDateString(date));
+    if (invalidException) {
+        return `Data di eccezione non valida: "${invalidException}". Usa GG-MM-AAAA.`;
+    }
+    return undefined;
+}
+
+
+// Restituisce il primo problema riscontrato nei promemoria, o undefined se sono validi
+function validateReminders(reminders: EventReminder[]): string | undefined {
+    if (reminders.length > MAX_REMINDERS) {
+        return `Puoi impostare al massimo ${MAX_REMINDERS} promemoria.`;
+    }
+    if (reminders.some(r => !reminderMethods.some(m => m.id === r.method))) {
+        return "Tipo di promemoria non valido.";
+    }
+    if (reminders.some(r => !Number.isInteger(r.minutes) || r.minutes < 0 || r.minutes > MAX_REMINDER_MINUTES)) {
+        return `L'anticipo dei promemoria deve essere un numero intero di minuti tra 0 e ${MAX_REMINDER_MINUTES}.`;
+    }
+    return undefined;
+}
+
+
 export const validateEvent = (event: EventObject): ValidatedEvent => {
     const errors: ValidationErrors = {};
     if (!event.subject?.trim()) {
@@ -43,7 +100,8 @@ export const validateEvent = (event: EventObject): ValidatedEvent => {
         errors.startDate = "Formato non valido. Usa GG-MM-AAAA.";
     }
 
-    if (!isValidTimeString(event.startTime)) {
+    // Gli eventi di un'intera giornata non hanno orari
+    if (!event.allDay && !isValidTimeString(event.startTime)) {
         errors.startTime = "Formato non valido. Usa HH:mm.";
     }
 
@@ -51,12 +109,17 @@ export const validateEvent = (event: EventObject): ValidatedEvent => {
         errors.endDate = "Formato non valido. Usa GG-MM-AAAA.";
     }
 
-    if (!isValidTimeString(event.endTime)) {
+    if (!event.allDay && !isValidTimeString(event.endTime)) {
         errors.endTime = "Formato non valido. Usa HH:mm.";
     }
 
-    // Controlla se la data/ora di fine è precedente alla data/ora di inizio
-    if (isValidDateString(event.startDate) && isValidTimeString(event.startTime) && isValidDateString(event.endDate) && isValidTimeString(event.endTime)) {
+    if (event.allDay) {
+        // La data di fine è esclusa: un evento di un solo giorno termina il giorno successivo
+        if (isValidDateString(event.startDate) && isValidDateString(event.endDate) && toYYYYMMDD(event.endDate) <= toYYYYMMDD(event.startDate)) {
+            errors.endDate = "Per gli eventi di un'intera giornata la data di fine è esclusa: deve essere successiva alla data di inizio.";
+        }
+    } else if (isValidDateString(event.startDate) && isValidTimeString(event.startTime) && isValidDateString(event.endDate) && isValidTimeString(event.endTime)) {
+        // Controlla se la data/ora di fine è precedente alla data/ora di inizio
         const startDateTime = new Date(`${toYYYYMMDD(event.startDate)}T${event.startTime}`);
         const endDateTime = new Date(`${toYYYYMMDD(event.endDate)}T${event.endTime}`);
         if(endDateTime < startDateTime) {
@@ -65,6 +128,37 @@ export const validateEvent = (event: EventObject): ValidatedEvent => {
         }
     }
 
+    if (event.timeZone && !isValidTimeZone(event.timeZone)) {
+        errors.timeZone = "Fuso orario non riconosciuto. Usa un nome IANA, es. Europe/Rome.";
+    }
+
+    if (event.reminders) {
+        const remindersError = validateReminders(event.reminders);
+        if (remindersError) {
+            errors.reminders = remindersError;
+        }
+    }
+
+    const invalidAttendee = event.attendees?.find(person => !isValidEmail(person.email));
+    if (invalidAttendee) {
+        errors.attendees = `Indirizzo email non valido: "${invalidAttendee.email}".`;
+    }
+
+    if (event.organizer && !isValidEmail(event.organizer.email)) {
+        errors.organizer = `Indirizzo email dell'organizzatore non valido: "${event.organizer.email}".`;
+    }
+
+    if (event.colorId && !isValidColorId(event.colorId)) {
+        errors.colorId = "Colore non valido.";
+    }
+
+    if (event.recurrence) {
+        const recurrenceError = validateRecurrence(event.recurrence, event.startDate);
+        if (recurrenceError) {
+            errors.recurrence = recurrenceError;
+        }
+    }
+
     return {
         ...event,
         errors,
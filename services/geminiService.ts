@@ -1,7 +1,9 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import type { Part, GenerateContentParameters } from "@google/genai";
-import type { EventObject } from "../lib/types";
+import type { EventObject, EventTextField, Weekday } from "../lib/types";
+import { normalizeFilterParams } from "../lib/eventFilters";
+import { toLocalDateAndTime } from "../lib/dateUtils";
 
 export type ApiEventObject = Omit<EventObject, 'id'>;
 
@@ -10,7 +12,28 @@ export interface FilterParams {
     endDate: string;
     startTime: string;
     text: string;
+    // Interpreta `text` come espressione regolare (senza distinzione tra maiuscole e minuscole)
+    textIsRegex: boolean;
+    // Termini separati da virgole: sono esclusi gli eventi che ne contengono almeno uno
+    exclude: string;
     location: string;
+    // Email o nome, anche parziali, di un partecipante e dell'organizzatore
+    attendee: string;
+    organizer: string;
+    // La mia risposta all'invito (vuoto: qualsiasi)
+    responseStatus: '' | 'needsAction' | 'declined' | 'tentative' | 'accepted';
+    recurrence: '' | 'recurring' | 'single';
+    // Durata in minuti (0: nessun limite)
+    minDuration: number;
+    maxDuration: number;
+    // Giorni della settimana in cui inizia l'evento (vuoto: tutti)
+    weekdays: Weekday[];
+    // Intervalli AAAA-MM-GG di creazione e ultima modifica (estremi inclusi, vuoti: nessun limite)
+    createdAfter: string;
+    createdBefore: string;
+    updatedAfter: string;
+    updatedBefore: string;
+    eventType: '' | 'default' | 'outOfOffice' | 'focusTime' | 'workingLocation' | 'birthday' | 'fromGmail';
 }
 
 const getAiClient = () => {
@@ -40,11 +63,47 @@ const eventSchema = {
     properties: {
       subject: { type: Type.STRING, description: 'The title or subject of the event. This is a required field.' },
       startDate: { type: Type.STRING, description: 'The start date of the event. Normalize to YYYY-MM-DD format.' },
-      startTime: { type: Type.STRING, description: 'The start time of the event. Normalize to HH:mm (24-hour) format.' },
-      endDate: { type: Type.STRING, description: 'The end date of the event. Should be the same as startDate if not specified. Normalize to YYYY-MM-DD format.' },
-      endTime: { type: Type.STRING, description: 'The end time of the event. If not specified, assume a 1-hour duration. Normalize to HH:mm (24-hour) format.' },
+      startTime: { type: Type.STRING, description: 'The start time of the event. Normalize to HH:mm (24-hour) format. Empty string for all-day events.' },
+      endDate: { type: Type.STRING, description: 'The end date of the event. Should be the same as startDate if not specified. For all-day events this is EXCLUSIVE: the day after the last day of the event. Normalize to YYYY-MM-DD format.' },
+      endTime: { type: Type.STRING, description: 'The end time of the event. If not specified, assume a 1-hour duration. Normalize to HH:mm (24-hour) format. Empty string for all-day events.' },
+      timeZone: { type: Type.STRING, description: 'IANA time zone of the times (e.g. "America/New_York"), ONLY if the content explicitly states a zone or a city/country whose zone applies to the times (e.g. "10:00 ET", "ora di New York"). Omit otherwise.' },
+      organizer: {
+        type: Type.OBJECT,
+        description: 'The organizer of the event, only if an email address is given. Omit otherwise.',
+        properties: {
+          email: { type: Type.STRING, description: 'Email address of the organizer.' },
+          name: { type: Type.STRING, description: 'Display name of the organizer. Can be an empty string.' },
+        },
+        required: ['email'],
+      },
+      attendees: {
+        type: Type.ARRAY,
+        description: 'Participants of the event for whom an email address is given.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            email: { type: Type.STRING, description: 'Email address of the participant.' },
+            name: { type: Type.STRING, description: 'Display name of the participant. Can be an empty string.' },
+          },
+          required: ['email'],
+        },
+      },
+      allDay: { type: Type.BOOLEAN, description: 'True for events that last whole days without specific times (holidays, exam days, multi-day conferences).' },
       description: { type: Type.STRING, description: 'A brief description of the event. Can be an empty string.' },
       location: { type: Type.STRING, description: 'The location of the event. Can be an empty string.' },
+      recurrence: {
+        type: Type.OBJECT,
+        description: 'Only for events that repeat (e.g. "every Monday", "ogni 2 settimane"). Omit for single events.',
+        properties: {
+          frequency: { type: Type.STRING, enum: ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'], description: 'How often the event repeats.' },
+          interval: { type: Type.INTEGER, description: 'Repeat every N periods. Use 1 unless stated otherwise.' },
+          byDay: { type: Type.ARRAY, items: { type: Type.STRING, enum: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] }, description: 'Weekdays on which the event repeats, for weekly rules.' },
+          count: { type: Type.INTEGER, description: 'Total number of occurrences, if stated. Do not use together with until.' },
+          until: { type: Type.STRING, description: 'Last date of the series, if stated. Normalize to YYYY-MM-DD format.' },
+          exceptions: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Dates on which the event does NOT take place. Normalize to YYYY-MM-DD format.' },
+        },
+        required: ['frequency'],
+      },
     },
     required: ['subject', 'startDate', 'startTime', 'endDate', 'endTime'],
   };
@@ -64,6 +123,10 @@ Segui queste regole con precisione:
 7.  Se non ci sono eventi da estrarre, restituisci un array vuoto: [].
 8.  Considera i nomi dei mesi e dei giorni della settimana in italiano.
 9.  Il contenuto potrebbe provenire da un documento, un foglio di calcolo o un'immagine. Estrai le informazioni in formato tabellare anche se la formattazione originale è imperfetta.
+10. Se un evento occupa giornate intere senza orari (festività, giorni d'esame, convegni di più giorni), imposta allDay a true, lascia vuoti startTime e endTime e indica come endDate il giorno SUCCESSIVO all'ultimo giorno dell'evento (es. un evento del solo 2 giugno ha endDate 3 giugno). Non applicare in questo caso le regole 5 e 6.
+11. Se un evento si ripete (es. "ogni lunedì", "tutti i giorni fino al 30 giugno", "ogni 2 settimane per 10 volte"), NON generare un evento per ogni occorrenza: restituisci un solo evento con la data della prima occorrenza e compila il campo recurrence. Indica in exceptions le date esplicitamente escluse (es. "tranne il 25 aprile").
+12. Riporta gli orari così come sono scritti, senza convertirli. Se il contenuto indica esplicitamente il fuso orario degli orari (es. "10:00 ora di New York", "3pm PST"), compila timeZone con il nome IANA corrispondente (es. America/New_York); altrimenti omettilo.
+13. Se sono indicati partecipanti o organizzatore con il loro indirizzo email, compila attendees e organizer con email e nome. Non inventare indirizzi email: le persone indicate solo per nome vanno lasciate nella descrizione.
 
 Contenuto da analizzare:
 `;
@@ -135,7 +198,7 @@ export async function extractEvents(input: string | File): Promise<ApiEventObjec
     }
 }
 
-export async function suggestCorrection(event: EventObject, field: keyof Omit<EventObject, 'id'>): Promise<string | undefined> {
+export async function suggestCorrection(event: EventObject, field: EventTextField): Promise<string | undefined> {
     const ai = getAiClient();
     const prompt = `Suggerisci un valore corretto per il campo "${field}" dell'evento "${event.subject}". Valore attuale: "${event[String(field) as keyof EventObject]}". Rispondi solo col valore corretto.`;
 
@@ -153,20 +216,38 @@ export async function suggestCorrection(event: EventObject, field: keyof Omit<Ev
 
 export async function parseFilterFromQuery(query: string): Promise<FilterParams> {
     const ai = getAiClient();
-    const currentYear = new Date().getFullYear();
-    const prompt = `Analizza la query: "${query}". Estrai parametri filtro JSON (startDate, endDate, startTime, text, location). Anno corrente: ${currentYear}.`;
+    const today = toLocalDateAndTime(new Date()).date;
+    const prompt = `Analizza la query: "${query}". Estrai i parametri filtro JSON per cercare eventi di calendario da eliminare. Compila solo i parametri espressi dalla query. Data odierna: ${today}.`;
 
     const filterSchema = {
         type: Type.OBJECT,
         properties: {
-            startDate: { type: Type.STRING },
-            endDate: { type: Type.STRING },
-            startTime: { type: Type.STRING },
-            text: { type: Type.STRING },
-            location: { type: Type.STRING },
+            startDate: { type: Type.STRING, description: 'Only events starting on or after this date. YYYY-MM-DD format.' },
+            endDate: { type: Type.STRING, description: 'Only events starting on or before this date. YYYY-MM-DD format.' },
+            startTime: { type: Type.STRING, description: 'Start time of the events, HH:mm (24-hour) format.' },
+            text: { type: Type.STRING, description: 'Words to look for in the title or description.' },
+            textIsRegex: { type: Type.BOOLEAN, description: 'True only if the query explicitly asks for a regular expression or a pattern; text then holds the regular expression.' },
+            exclude: { type: Type.STRING, description: 'Comma-separated terms: events whose title, description or location contain any of them are excluded (e.g. "except the ones with Mario").' },
+            location: { type: Type.STRING, description: 'Location of the events.' },
+            attendee: { type: Type.STRING, description: 'Email address or name of a participant.' },
+            organizer: { type: Type.STRING, description: 'Email address or name of the organizer.' },
+            responseStatus: { type: Type.STRING, enum: ['needsAction', 'declined', 'tentative', 'accepted'], description: 'My response to the invitation (needsAction: not answered yet).' },
+            recurrence: { type: Type.STRING, enum: ['recurring', 'single'], description: 'Whether to find only occurrences of recurring events or only single events.' },
+            minDuration: { type: Type.INTEGER, description: 'Minimum duration in minutes.' },
+            maxDuration: { type: Type.INTEGER, description: 'Maximum duration in minutes.' },
+            weekdays: { type: Type.ARRAY, items: { type: Type.STRING, enum: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] }, description: 'Weekdays on which the events start.' },
+            createdAfter: { type: Type.STRING, description: 'Only events created on or after this date. YYYY-MM-DD format.' },
+            createdBefore: { type: Type.STRING, description: 'Only events created on or before this date. YYYY-MM-DD format.' },
+            updatedAfter: { type: Type.STRING, description: 'Only events last modified on or after this date. YYYY-MM-DD format.' },
+            updatedBefore: { type: Type.STRING, description: 'Only events last modified on or before this date. YYYY-MM-DD format.' },
+            eventType: { type: Type.STRING, enum: ['default', 'outOfOffice', 'focusTime', 'workingLocation', 'birthday', 'fromGmail'], description: 'Type of Google Calendar event (outOfOffice, focusTime, workingLocation, birthday, fromGmail for events created from emails, default for ordinary events).' },
         },
         required: [],
-        propertyOrdering: ['startDate', 'endDate', 'startTime', 'text', 'location']
+        propertyOrdering: [
+            'startDate', 'endDate', 'startTime', 'text', 'textIsRegex', 'exclude', 'location', 'attendee', 'organizer',
+            'responseStatus', 'recurrence', 'minDuration', 'maxDuration', 'weekdays',
+            'createdAfter', 'createdBefore', 'updatedAfter', 'updatedBefore', 'eventType',
+        ]
     };
 
     try {
@@ -181,13 +262,7 @@ export async function parseFilterFromQuery(query: string): Promise<FilterParams>
 
         const jsonStr = response.text?.trim() || '{}';
         const parsedResponse = JSON.parse(jsonStr);
-        return {
-            startDate: parsedResponse.startDate || '',
-            endDate: parsedResponse.endDate || '',
-            startTime: parsedResponse.startTime || '',
-            text: parsedResponse.text || '',
-            location: parsedResponse.location || '',
-        };
+        return normalizeFilterParams(parsedResponse);
     } catch (error: any) {
         throw error;
     }
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { updateOperation } from './googleCalendarService';
+import type { ValidatedEvent } from '../lib/types';
+
+const lesson: ValidatedEvent = {
+    id: 1, subject: 'Matematica', startDate: '07-09-2026', startTime: '08:00', endDate: '07-09-2026', endTime: '09:00',
+    description: '', location: '', timeZone: 'Europe/Rome', errors: {}, isValid: true,
+};
+
+const resourceOf = (...args: Parameters<typeof updateOperation>) => {
+    const operation = updateOperation(...args);
+    return operation.kind === 'patch' ? operation.resource : null;
+};
+
+describe('updateOperation', () => {
+    it('azzera il campo alternativo di inizio e fine quando l\'evento cambia tipo', () => {
+        expect(resourceOf('cal', 'a', lesson)).toMatchObject({
+            start: { dateTime: '2026-09-07T08:00:00', timeZone: 'Europe/Rome', date: null },
+            end: { dateTime: '2026-09-07T09:00:00', timeZone: 'Europe/Rome', date: null },
+        });
+        const allDay = { ...lesson, allDay: true, startTime: '', endTime: '', endDate: '08-09-2026' };
+        expect(resourceOf('cal', 'a', allDay)).toMatchObject({
+            start: { date: '2026-09-07', dateTime: null, timeZone: null },
+            end: { date: '2026-09-08', dateTime: null, timeZone: null },
+        });
+    });
+
+    it('invia i campi svuotati dalla riga e rimuove la ricorrenza', () => {
+        expect(resourceOf('cal', 'a', lesson)).toMatchObject({ location: '', description: '', recurrence: [] });
+    });
+
+    it('non tocca la ricorrenza di una singola occorrenza', () => {
+        expect(resourceOf('cal', 'a_20260907', lesson, {}, true)).not.toHaveProperty('recurrence');
+    });
+});
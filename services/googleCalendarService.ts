@@ -1,5 +1,13 @@
-import type { ValidatedEvent } from "../lib/types";
-import { toYYYYMMDD } from "../lib/dateUtils";
+import type { EventReminder, ValidatedEvent } from "../lib/types";
+import { toYYYYMMDD, zonedTimeToDate } from "../lib/dateUtils";
+import { buildRRule, formatRRuleUtc } from "../lib/recurrence";
+import { resolveReminders } from "../lib/reminders";
+import { buildImportProperties, groupImportBatches, withoutImportProperties, IMPORT_PROPERTY_KEYS } from "../lib/importHistory";
+import type { ImportTag, ImportBatch } from "../lib/importHistory";
+import { buildRestoreResource } from "../lib/trash";
+import type { TrashedEvent } from "../lib/trash";
+import { buildEventPalette, defaultEventColors } from "../lib/colors";
+import type { EventColor } from "../lib/colors";
 
 // --- IMPORTANTE ---
 // Questo Client ID è stato fornito per abilitare l'importazione diretta in Google Calendar.
@@ -27,9 +35,28 @@ export interface GCalEvent {
     summary: string;
     description?: string;
     location?: string;
-    start: { dateTime?: string; date?: string; };
-    end: { dateTime?: string; date?:string; };
-    attendees?: { email: string }[];
+    start: { dateTime?: string; date?: string; timeZone?: string; };
+    end: { dateTime?: string; date?: string; timeZone?: string; };
+    attendees?: { email: string; displayName?: string; responseStatus?: string; organizer?: boolean; self?: boolean }[];
+    organizer?: { email: string; displayName?: string; self?: boolean };
+    // 'transparent' indica un evento che non occupa il tempo (mostrato come "Disponibile")
+    transparency?: 'opaque' | 'transparent';
+    // Presenti sulle singole occorrenze restituite con `singleEvents`: id della serie di appartenenza
+    // e inizio previsto dalla regola di ricorrenza
+    recurringEventId?: string;
+    originalStartTime?: { dateTime?: string; date?: string; timeZone?: string; };
+    // Colore dell'evento ("1"-"11"); se assente si usa quello del calendario
+    colorId?: string;
+    extendedProperties?: { private?: Record<string, string>; shared?: Record<string, string> };
+    // Identificativo iCalendar: uguale per le copie dello stesso evento in calendari diversi (es. un invito)
+    iCalUID?: string;
+    // Date e ore di creazione e di ultima modifica (RFC 3339)
+    created?: string;
+    updated?: string;
+    // Regole RRULE/EXDATE, presenti solo sull'evento principale di una serie
+    recurrence?: string[];
+    // 'default' per gli eventi normali; gli altri tipi sono creati da funzioni specifiche di Google Calendar
+    eventType?: 'default' | 'outOfOffice' | 'focusTime' | 'workingLocation' | 'birthday' | 'fromGmail';
     htmlLink: string;
 }
 
@@ -55,6 +82,135 @@ const waitForGlobal = <T>(name: string, timeout = 5000): Promise<T> => {
     });
 };
 
+// --- Errori e nuovi tentativi ---
+
+// Categorie di errore dell'API: solo 'rateLimit' e 'transient' vengono ritentati automaticamente
+export type GCalErrorKind = 'rateLimit' | 'quota' | 'auth' | 'forbidden' | 'notFound' | 'conflict' | 'invalid' | 'transient' | 'unknown';
+
+// Errore di una richiesta a Google Calendar, classificato per permettere alle viste messaggi mirati
+export class GCalApiError extends Error {
+    kind: GCalErrorKind;
+    // Codice HTTP (0 se la richiesta non ha ricevuto risposta)
+    status: number;
+    // Motivo riportato dall'API (es. 'rateLimitExceeded'), se presente
+    reason?: string;
+
+    constructor(kind: GCalErrorKind, message: string, status: number, reason?: string) {
+        super(message);
+        this.name = 'GCalApiError';
+        this.kind = kind;
+        this.status = status;
+        this.reason = reason;
+    }
+}
+
+export const gcalErrorTitles: Record<GCalErrorKind, string> = {
+    rateLimit: 'Troppe Richieste',
+    quota: 'Quota Esaurita',
+    auth: 'Sessione Scaduta',
+    forbidden: 'Permessi Insufficienti',
+    notFound: 'Elemento Non Trovato',
+    conflict: 'Conflitto di Modifica',
+    invalid: 'Richiesta Non Valida',
+    transient: 'Servizio Non Disponibile',
+    unknown: 'Errore Imprevisto',
+};
+
+const gcalErrorMessages: Partial<Record<GCalErrorKind, string>> = {
+    rateLimit: 'Google Calendar ha ricevuto troppe richieste in poco tempo. Attendi qualche minuto e riprova.',
+    quota: "È stata raggiunta la quota giornaliera dell'API di Google Calendar. Riprova più tardi.",
+    auth: 'La sessione Google è scaduta. Accedi di nuovo per continuare.',
+    forbidden: 'Non hai i permessi per modificare questo calendario o evento.',
+    notFound: "L'evento o il calendario non esiste più: potrebbe essere stato eliminato o spostato.",
+    conflict: "L'evento è stato modificato da qualcun altro nel frattempo, oppure esiste già.",
+    transient: 'Google Calendar non è raggiungibile al momento. Controlla la connessione e riprova tra poco.',
+};
+
+const classifyStatus = (status: number, reason?: string): GCalErrorKind => {
+    if (status === 401) return 'auth';
+    if (status === 429) return 'rateLimit';
+    if (status === 403) {
+        if (reason === 'rateLimitExceeded' || reason === 'userRateLimitExceeded') return 'rateLimit';
+        if (reason === 'quotaExceeded' || reason === 'dailyLimitExceeded' || reason === 'usageLimits') return 'quota';
+        return 'forbidden';
+    }
+    if (status === 404 || status === 410) return 'notFound';
+    if (status === 409 || status === 412) return 'conflict';
+    if (status === 400) return 'invalid';
+    if (status <= 0 || status >= 500) return 'transient';
+    return 'unknown';
+};
+
+// Converte un errore gapi (o l'esito di un'operazione batch, che ha la stessa forma) in un GCalApiError
+export const toGCalApiError = (error: any): GCalApiError => {
+    if (error instanceof GCalApiError) return error;
+    const apiError = error?.result?.error;
+    // Un errore senza risposta dell'API (es. un bug nel codice) non va confuso con un problema di rete
+    if (error?.status === undefined && !apiError) {
+        return new GCalApiError('unknown', error?.message || 'Errore sconosciuto.', 0);
+    }
+    const status = Number(error.status ?? apiError?.code ?? 0);
+    const reason = apiError?.errors?.[0]?.reason;
+    const kind = classifyStatus(status, reason);
+    const message = gcalErrorMessages[kind] || apiError?.message || error.statusText || 'Errore sconosciuto.';
+    return new GCalApiError(kind, message, status, reason);
+};
+
+// Titolo da mostrare per un errore: specifico per gli errori classificati, altrimenti quello indicato
+export const getErrorTitle = (error: unknown, fallback: string): string => {
+    return error instanceof GCalApiError && error.kind !== 'unknown' ? gcalErrorTitles[error.kind] : fallback;
+};
+
+const isRetryable = (kind: GCalErrorKind) => kind === 'rateLimit' || kind === 'transient';
+
+const MAX_RETRIES = 5;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Budget di tentativi condiviso da tutte le richieste: se Google è in difficoltà si smette presto di
+// ritentare invece di moltiplicare il carico. Si ricarica di un tentativo al secondo.
+const RETRY_BUDGET_SIZE = 50;
+const RETRY_BUDGET_REFILL_MS = 1000;
+let retryTokens = RETRY_BUDGET_SIZE;
+let lastRetryRefill = Date.now();
+
+const takeRetryToken = (): boolean => {
+    const refill = Math.floor((Date.now() - lastRetryRefill) / RETRY_BUDGET_REFILL_MS);
+    if (refill > 0) {
+        retryTokens = Math.min(RETRY_BUDGET_SIZE, retryTokens + refill);
+        lastRetryRefill += refill * RETRY_BUDGET_REFILL_MS;
+    }
+    if (retryTokens < 1) return false;
+    retryTokens--;
+    return true;
+};
+
+// Attesa esponenziale con "full jitter"; se Google indica Retry-After si rispetta quello
+const getRetryDelay = (attempt: number, error?: any): number => {
+    const retryAfter = Number(error?.headers?.['retry-after'] ?? error?.headers?.['Retry-After']);
+    if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+    return Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Esegue una richiesta all'API ritentando gli errori temporanei. `request` deve creare ogni volta
+// una nuova richiesta gapi; in caso di fallimento definitivo viene lanciato un GCalApiError.
+const gcalRequest = async <T = any>(context: string, request: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request();
+        } catch (error: any) {
+            const apiError = toGCalApiError(error);
+            if (!isRetryable(apiError.kind) || attempt >= MAX_RETRIES || !takeRetryToken()) {
+                console.error(`Errore API di Google Calendar durante ${context}:`, error);
+                throw apiError;
+            }
+            await sleep(getRetryDelay(attempt, error));
+        }
+    }
+};
+
 // Initialize the GAPI client
 export const initGapiClient = (): Promise<void> => {
     return new Promise((resolve, reject) => {
@@ -76,6 +232,27 @@ export const initGapiClient = (): Promise<void> => {
     });
 };
 
+// Carica lo script di gapi e inizializza il client una sola volta, qualunque sia il numero di chiamate
+let gapiLoading: Promise<void> | null = null;
+export const loadGapiClient = (): Promise<void> => {
+    if (!gapiLoading) {
+        gapiLoading = new Promise<void>((resolve, reject) => {
+            const script = document.createElement('script');
+            script.src = 'https://apis.google.com/js/api.js';
+            script.async = true;
+            script.defer = true;
+            script.onload = () => initGapiClient().then(resolve, reject);
+            script.onerror = () => reject(new Error('Impossibile scaricare la libreria di Google. Controlla la tua connessione.'));
+            document.body.appendChild(script);
+        }).catch(error => {
+            // Un nuovo tentativo deve poter ricaricare lo script
+            gapiLoading = null;
+            throw error;
+        });
+    }
+    return gapiLoading;
+};
+
 // Inizializza il client GIS
 const initGisClient = (callback: (tokenResponse: any) => void): Promise<void> => {
     return new Promise(async (resolve, reject) => {
@@ -113,10 +290,18 @@ export const handleSilentAuth = async (callback: (tokenResponse: any) => void) =
     await handleAuthClick(callback, ''); 
 };
 
+// Revoca il token corrente e lo rimuove dal client gapi
+export const revokeToken = () => {
+    const token = window.gapi?.client?.getToken();
+    if (!token) return;
+    window.google?.accounts?.oauth2?.revoke(token.access_token, () => {});
+    window.gapi.client.setToken(null);
+};
+
 
 // List user's calendars
 export const listCalendars = async () => {
-    const response = await window.gapi.client.calendar.calendarList.list({});
+    const response = await gcalRequest("il recupero dei calendari", () => window.gapi.client.calendar.calendarList.list({}));
     const calendars = response.result.items.sort((a: any, b: any) => {
         if (a.primary) return -1;
         if (b.primary) return 1;
@@ -125,105 +310,413 @@ export const listCalendars = async () => {
     return calendars;
 };
 
+// Tavolozza dei colori degli eventi; in caso di errore si usa quella standard
+export const getEventColors = async (): Promise<EventColor[]> => {
+    try {
+        const response = await gcalRequest("il recupero dei colori", () => window.gapi.client.calendar.colors.get({}));
+        return buildEventPalette(response.result.event);
+    } catch (error) {
+        console.error("Failed to load event colors", error);
+        return defaultEventColors;
+    }
+};
+
 // Get user's profile information
 export const getUserProfile = async () => {
-     return await window.gapi.client.request({
+     return await gcalRequest("il recupero del profilo utente", () => window.gapi.client.request({
         'path': 'https://www.googleapis.com/oauth2/v2/userinfo'
-     });
+     }));
 };
 
 
 // Insert a new event
-export const insertEvent = async (calendarId: string, event: ValidatedEvent, timeZone?: string) => {
-    // Usa il fuso orario passato (es. quello del calendario) o quello del browser
-    const tz = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+// Converte la ricorrenza dell'evento nelle righe RRULE/EXDATE accettate dal campo `recurrence` dell'API
+const buildRecurrenceLines = (event: ValidatedEvent, tz: string): string[] => {
+    if (!event.recurrence) return [];
+    if (event.allDay) {
+        // Per gli eventi di un'intera giornata UNTIL ed EXDATE sono semplici date
+        const lines = [buildRRule(event.recurrence, date => date.replace(/-/g, ''))];
+        if (event.recurrence.exceptions.length > 0) {
+            lines.push(`EXDATE;VALUE=DATE:${event.recurrence.exceptions.map(date => toYYYYMMDD(date).replace(/-/g, '')).join(',')}`);
+        }
+        return lines;
+    }
+    // Secondo RFC 5545, con DTSTART legato a un fuso orario, UNTIL deve essere espresso in UTC
+    const lines = [buildRRule(event.recurrence, date => formatRRuleUtc(zonedTimeToDate(date, '23:59', tz)))];
+    if (event.recurrence.exceptions.length > 0) {
+        const [hours, minutes] = event.startTime.split(':');
+        const dates = event.recurrence.exceptions.map(date => `${toYYYYMMDD(date).replace(/-/g, '')}T${hours}${minutes}00`);
+        lines.push(`EXDATE;TZID=${tz}:${dates.join(',')}`);
+    }
+    return lines;
+};
+
+export type SendUpdates = 'all' | 'externalOnly' | 'none';
+
+export interface InsertEventOptions {
+    // Fuso orario per gli eventi che non ne indicano uno (es. il predefinito delle impostazioni)
+    timeZone?: string;
+    // Promemoria per gli eventi che non ne indicano; se assente vale quello predefinito del calendario
+    defaultReminder?: EventReminder | null;
+    // Se e a chi inviare gli inviti via email ai partecipanti (predefinito: nessuno)
+    sendUpdates?: SendUpdates;
+    // Importazione a cui appartiene l'evento: viene salvata nelle proprietà private dell'evento
+    importTag?: ImportTag;
+}
+
+// Costruisce la risorsa dell'API a partire da un evento validato (usata sia per l'inserimento che per l'aggiornamento)
+const buildEventResource = (event: ValidatedEvent, options: InsertEventOptions) => {
+    // Usa il fuso orario dell'evento, altrimenti quello passato o quello del browser
+    const tz = event.timeZone || options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
 
     // Omettendo l'offset e specificando il timeZone, Google Calendar API 
     // interpreterà l'orario correttamente nel fuso orario specificato,
     // gestendo automaticamente l'ora legale (DST).
+    const recurrence = buildRecurrenceLines(event, tz);
     const eventResource = {
         'summary': event.subject,
         'location': event.location,
         'description': event.description,
-        'start': {
+        // Gli eventi di un'intera giornata usano `date` (con fine esclusa, come `endDate`) al posto di `dateTime`
+        'start': event.allDay ? { 'date': toYYYYMMDD(event.startDate) } : {
             'dateTime': `${toYYYYMMDD(event.startDate)}T${event.startTime}:00`,
             'timeZone': tz
         },
-        'end': {
+        'end': event.allDay ? { 'date': toYYYYMMDD(event.endDate) } : {
             'dateTime': `${toYYYYMMDD(event.endDate)}T${event.endTime}:00`,
             'timeZone': tz
         },
+        ...(recurrence.length > 0 && { 'recurrence': recurrence }),
+        ...(event.colorId && { 'colorId': event.colorId }),
+        // L'organizzatore non è impostabile con events.insert: Google usa il proprietario del calendario
+        ...(event.attendees?.length && {
+            'attendees': event.attendees.map(person => ({ 'email': person.email, ...(person.name && { 'displayName': person.name }) })),
+        }),
+        // Senza promemoria propri né predefiniti si lasciano quelli del calendario di destinazione
+        ...((event.reminders || options.defaultReminder) && {
+            'reminders': {
+                'useDefault': false,
+                'overrides': resolveReminders(event, options.defaultReminder ?? null),
+            },
+        }),
+        ...(options.importTag && {
+            'extendedProperties': { 'private': buildImportProperties(options.importTag, event) },
+        }),
     };
+    return eventResource;
+};
 
-    try {
-        const response = await window.gapi.client.calendar.events.insert({
-            'calendarId': calendarId,
-            'resource': eventResource
-        });
+export const insertEvent = async (calendarId: string, event: ValidatedEvent, options: InsertEventOptions = {}) => {
+    const resource = buildEventResource(event, options);
+    const response = await gcalRequest("l'inserimento dell'evento", () => window.gapi.client.calendar.events.insert({
+        'calendarId': calendarId,
+        'resource': resource,
+        'sendUpdates': options.sendUpdates || 'none',
+    }));
 
-        if (response && response.result) {
-            return response.result;
-        } else {
-            throw new Error('L\'inserimento dell\'evento non è riuscito silenziosamente.');
-        }
-    } catch (error: any) {
-        console.error('Errore API di Google Calendar durante l\'inserimento dell\'evento:', error);
-        const errorMessage = error.result?.error?.message || error.message || 'Errore sconosciuto durante l\'inserimento.';
-        throw new Error(errorMessage);
+    if (response && response.result) {
+        return response.result;
+    } else {
+        throw new GCalApiError('unknown', 'L\'inserimento dell\'evento non è riuscito silenziosamente.', 0);
     }
 };
 
 // Patch an existing event
 export const patchEvent = async (calendarId: string, eventId: string, resource: any) => {
-    try {
-        const response = await window.gapi.client.calendar.events.patch({
-            'calendarId': calendarId,
-            'eventId': eventId,
-            'resource': resource
-        });
-        if (response && response.result) {
-            return response.result;
-        } else {
-            throw new Error('La modifica dell\'evento non è riuscita.');
-        }
-    } catch (error: any) {
-        console.error('Errore API di Google Calendar durante la modifica dell\'evento:', error);
-        const errorMessage = error.result?.error?.message || error.message || 'Errore sconosciuto durante la modifica.';
-        throw new Error(errorMessage);
+    const response = await gcalRequest("la modifica dell'evento", () => window.gapi.client.calendar.events.patch({
+        'calendarId': calendarId,
+        'eventId': eventId,
+        'resource': resource
+    }));
+    if (response && response.result) {
+        return response.result;
+    } else {
+        throw new GCalApiError('unknown', 'La modifica dell\'evento non è riuscita.', 0);
     }
 };
 
+export interface ListEventsOptions {
+    // Chiamata dopo ogni pagina con il numero di eventi caricati finora
+    onProgress?: (loaded: number) => void;
+    // Interrompe il caricamento tra una pagina e l'altra (viene lanciato un errore 'AbortError')
+    signal?: AbortSignal;
+}
+
+// Richiede tutte le pagine di events.list (o events.instances) seguendo `nextPageToken` (al massimo 2500 eventi per pagina)
+const listAllEventPages = async (context: string, params: Record<string, any>, options: ListEventsOptions = {}, method: 'list' | 'instances' = 'list'): Promise<GCalEvent[]> => {
+    const items: GCalEvent[] = [];
+    let pageToken: string | undefined;
+    do {
+        if (options.signal?.aborted) {
+            throw new DOMException('Caricamento degli eventi annullato.', 'AbortError');
+        }
+        const token = pageToken;
+        const response = await gcalRequest(context, () => window.gapi.client.calendar.events[method]({
+            ...params,
+            'maxResults': 2500,
+            ...(token && { 'pageToken': token }),
+        }));
+        items.push(...(response.result.items || []));
+        options.onProgress?.(items.length);
+        pageToken = response.result.nextPageToken;
+    } while (pageToken);
+    return items;
+};
+
 // List events from a calendar within a date range
-export const listEvents = async (calendarId: string, timeMin: string, timeMax: string): Promise<GCalEvent[]> => {
-    try {
-        const response = await window.gapi.client.calendar.events.list({
-            'calendarId': calendarId,
-            'timeMin': timeMin, 
-            'timeMax': timeMax, 
-            'showDeleted': false,
-            'singleEvents': true,
-            'maxResults': 2500, 
-            'orderBy': 'startTime'
-        });
-        return response.result.items;
-    } catch (error: any) {
-        console.error('Errore API di Google Calendar durante il recupero degli eventi:', error);
-        const errorMessage = error.result?.error?.message || error.message || 'Errore sconosciuto durante il recupero.';
-        throw new Error(errorMessage);
+export const listEvents = async (calendarId: string, timeMin: string, timeMax: string, options: ListEventsOptions = {}): Promise<GCalEvent[]> => {
+    return listAllEventPages("il recupero degli eventi", {
+        'calendarId': calendarId,
+        'timeMin': timeMin, 
+        'timeMax': timeMax, 
+        'showDeleted': false,
+        'singleEvents': true,
+        'orderBy': 'startTime'
+    }, options);
+};
+
+// Legge un singolo evento (ad esempio l'evento principale di una serie ricorrente)
+export const getEvent = async (calendarId: string, eventId: string): Promise<GCalEvent> => {
+    const response = await gcalRequest("la lettura dell'evento", () => window.gapi.client.calendar.events.get({
+        'calendarId': calendarId,
+        'eventId': eventId,
+    }));
+    return response.result;
+};
+
+// Numero di occorrenze di una serie, comprese quelle annullate, che iniziano prima di `before` (ISO 8601).
+// Serve a proseguire una serie limitata da COUNT dopo averla divisa.
+export const countInstancesBefore = async (calendarId: string, eventId: string, before: string): Promise<number> => {
+    const instances = await listAllEventPages("il recupero delle occorrenze", {
+        'calendarId': calendarId,
+        'eventId': eventId,
+        'timeMax': before,
+        'showDeleted': true,
+    }, {}, 'instances');
+    return instances.length;
+};
+
+// Elenca gli eventi creati da ForMa in un calendario, eventualmente limitati a un'importazione o a un file di origine.
+// Gli eventi ricorrenti sono restituiti una sola volta (evento principale della serie), senza limiti di date.
+export const listImportedEvents = async (calendarId: string, filter: { batchId?: string; sourceFile?: string } = {}): Promise<GCalEvent[]> => {
+    const properties = [`${IMPORT_PROPERTY_KEYS.marker}=1`];
+    if (filter.batchId) properties.push(`${IMPORT_PROPERTY_KEYS.batchId}=${filter.batchId}`);
+    if (filter.sourceFile) properties.push(`${IMPORT_PROPERTY_KEYS.sourceFile}=${filter.sourceFile}`);
+
+    return listAllEventPages("il recupero degli eventi importati", {
+        'calendarId': calendarId,
+        'privateExtendedProperty': properties,
+        'showDeleted': false,
+        'singleEvents': false,
+    });
+};
+
+// --- Richieste in blocco ---
+// Le operazioni vengono raggruppate in richieste batch multipart (al massimo 50 per richiesta, limite
+// dell'API di Google Calendar): ogni operazione ha comunque un proprio esito, che può essere un errore.
+
+const MAX_BATCH_SIZE = 50;
+
+export type BatchOperation =
+    | { kind: 'insert'; calendarId: string; resource: any; sendUpdates?: SendUpdates }
+    | { kind: 'patch'; calendarId: string; eventId: string; resource: any; sendUpdates?: SendUpdates }
+    | { kind: 'delete'; calendarId: string; eventId: string }
+    // Sposta l'evento (con lo stesso id) nel calendario `destination`
+    | { kind: 'move'; calendarId: string; eventId: string; destination: string; sendUpdates?: SendUpdates };
+
+export interface BatchItemResult {
+    ok: boolean;
+    // Codice HTTP della singola operazione (0 se la richiesta batch non è proprio arrivata a Google)
+    status: number;
+    // Evento restituito dall'API (per insert, patch e move)
+    result?: GCalEvent;
+    error?: string;
+    errorKind?: GCalErrorKind;
+}
+
+export interface BatchOptions {
+    // Chiamata dopo ogni richiesta batch con il numero di operazioni completate
+    onProgress?: (completed: number, total: number) => void;
+}
+
+export const insertOperation = (calendarId: string, event: ValidatedEvent, options: InsertEventOptions = {}): BatchOperation => ({
+    kind: 'insert', calendarId, resource: buildEventResource(event, options), sendUpdates: options.sendUpdates,
+});
+
+// Risorsa per aggiornare un evento esistente con `events.patch`. La patch unisce gli oggetti annidati e ignora i campi
+// assenti: si azzerano quindi il campo alternativo di inizio e fine (`date`/`dateTime`), così che l'evento possa
+// passare da un giorno intero a un orario e viceversa, e la ricorrenza se la riga non ne ha più una (tranne che
+// per una singola occorrenza di una serie, che non ha una ricorrenza propria).
+const buildUpdateResource = (event: ValidatedEvent, options: InsertEventOptions, isOccurrence: boolean) => {
+    const resource = buildEventResource(event, options);
+    const cleared = event.allDay ? { 'dateTime': null, 'timeZone': null } : { 'date': null };
+    return {
+        ...resource,
+        'start': { ...resource.start, ...cleared },
+        'end': { ...resource.end, ...cleared },
+        ...(!isOccurrence && { 'recurrence': resource.recurrence || [] }),
+    };
+};
+
+export const updateOperation = (
+    calendarId: string, eventId: string, event: ValidatedEvent, options: InsertEventOptions = {}, isOccurrence = false,
+): BatchOperation => ({
+    kind: 'patch', calendarId, eventId, resource: buildUpdateResource(event, options, isOccurrence), sendUpdates: options.sendUpdates,
+});
+
+// Crea la richiesta gapi (non ancora eseguita) corrispondente a un'operazione
+const buildBatchRequest = (operation: BatchOperation) => {
+    const events = window.gapi.client.calendar.events;
+    switch (operation.kind) {
+        case 'insert':
+            return events.insert({ 'calendarId': operation.calendarId, 'resource': operation.resource, 'sendUpdates': operation.sendUpdates || 'none' });
+        case 'patch':
+            return events.patch({ 'calendarId': operation.calendarId, 'eventId': operation.eventId, 'resource': operation.resource, 'sendUpdates': operation.sendUpdates || 'none' });
+        case 'delete':
+            return events.delete({ 'calendarId': operation.calendarId, 'eventId': operation.eventId });
+        case 'move':
+            return events.move({ 'calendarId': operation.calendarId, 'eventId': operation.eventId, 'destination': operation.destination, 'sendUpdates': operation.sendUpdates || 'none' });
     }
 };
 
+// Esegue le operazioni in richieste batch e restituisce un esito per ciascuna, nello stesso ordine.
+// Le operazioni fallite per errori temporanei (limiti di frequenza, errori 5xx) vengono ritentate in
+// una nuova richiesta batch; eliminare un evento che non esiste più è considerato un successo.
+export const executeBatch = async (operations: BatchOperation[], options: BatchOptions = {}): Promise<BatchItemResult[]> => {
+    const results: BatchItemResult[] = new Array(operations.length);
+    let completed = 0;
+
+    for (let i = 0; i < operations.length; i += MAX_BATCH_SIZE) {
+        let pending = operations.slice(i, i + MAX_BATCH_SIZE).map((_, index) => i + index);
+
+        for (let attempt = 0; pending.length > 0; attempt++) {
+            const indexes = pending;
+            pending = [];
+            let response: any;
+            try {
+                response = await gcalRequest('la richiesta batch', () => {
+                    const batch = window.gapi.client.newBatch();
+                    indexes.forEach(index => batch.add(buildBatchRequest(operations[index]), { 'id': String(index) }));
+                    return batch;
+                });
+            } catch (error: any) {
+                // La richiesta batch è fallita per intero anche dopo i nuovi tentativi (es. sessione scaduta)
+                const apiError = toGCalApiError(error);
+                indexes.forEach(index => {
+                    results[index] = { ok: false, status: apiError.status, error: apiError.message, errorKind: apiError.kind };
+                });
+                completed += indexes.length;
+                break;
+            }
+
+            const retryable: number[] = [];
+            indexes.forEach(index => {
+                const item = response.result[String(index)];
+                const status = item?.status ?? 0;
+                if (status >= 200 && status < 300) {
+                    results[index] = { ok: true, status, result: item?.result || undefined };
+                    return;
+                }
+                if (operations[index].kind === 'delete' && (status === 404 || status === 410)) {
+                    results[index] = { ok: true, status };
+                    return;
+                }
+                const apiError = toGCalApiError({ status, statusText: item?.statusText, result: item?.result, headers: item?.headers });
+                results[index] = { ok: false, status, error: apiError.message, errorKind: apiError.kind };
+                if (isRetryable(apiError.kind)) retryable.push(index);
+            });
+
+            if (retryable.length > 0 && attempt < MAX_RETRIES && takeRetryToken()) {
+                pending = retryable;
+                await sleep(getRetryDelay(attempt));
+            }
+            completed += indexes.length - pending.length;
+        }
+        options.onProgress?.(completed, operations.length);
+    }
+    return results;
+};
+
+// Spiega perché un insieme di operazioni batch è fallito, usando il motivo più frequente
+export const describeBatchFailures = (failed: BatchItemResult[]): string => {
+    const counts = new Map<string, number>();
+    failed.forEach(item => {
+        if (item.error) counts.set(item.error, (counts.get(item.error) || 0) + 1);
+    });
+    const [mostFrequent] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] || [];
+    return mostFrequent || 'Errore sconosciuto.';
+};
+
+// Ricostruisce le importazioni presenti nei calendari indicati a partire dai tag degli eventi
+export const listImportBatches = async (calendarIds: string[], filter: { sourceFile?: string } = {}): Promise<ImportBatch[]> => {
+    const events = [];
+    for (const calendarId of calendarIds) {
+        const items = await listImportedEvents(calendarId, filter);
+        events.push(...items.map(event => ({ ...event, calendarId })));
+    }
+    return groupImportBatches(events);
+};
+
+// Ripristina eventi eliminati. Prima si riattiva l'evento originale finché Google lo conserva nel proprio cestino:
+// mantiene id, collegamento alla serie ricorrente e partecipanti senza inviare nuovi inviti.
+// Se l'evento non esiste più, se ne crea una copia a partire dalla risorsa salvata.
+export const restoreEvents = async (events: TrashedEvent[], options: BatchOptions = {}): Promise<BatchItemResult[]> => {
+    const results = await executeBatch(events.map(event => ({
+        kind: 'patch',
+        calendarId: event.calendarId,
+        eventId: event.id,
+        resource: { ...buildRestoreResource(event), status: 'confirmed' },
+    })), options);
+
+    const missing = results.map((result, index) => (result.errorKind === 'notFound' ? index : -1)).filter(index => index >= 0);
+    if (missing.length > 0) {
+        const inserted = await executeBatch(missing.map(index => ({
+            kind: 'insert',
+            calendarId: events[index].calendarId,
+            resource: buildRestoreResource(events[index]),
+        })));
+        missing.forEach((index, position) => { results[index] = inserted[position]; });
+    }
+    return results;
+};
+
+// Sposta gli eventi nel calendario di destinazione mantenendone id, partecipanti e cronologia
+export const moveEvents = (events: (GCalEvent & { calendarId: string })[], destination: string, options: BatchOptions = {}): Promise<BatchItemResult[]> => {
+    return executeBatch(events.map(event => ({
+        kind: 'move', calendarId: event.calendarId, eventId: event.id, destination,
+    })), options);
+};
+
+// Copia gli eventi nel calendario di destinazione creando nuovi eventi con gli stessi dati.
+// Le occorrenze di un evento ricorrente diventano eventi singoli; le copie non conservano il tag di importazione.
+export const copyEvents = (events: (GCalEvent & { calendarId: string })[], destination: string, options: BatchOptions = {}): Promise<BatchItemResult[]> => {
+    return executeBatch(events.map(event => {
+        const resource = buildRestoreResource(event);
+        const properties = event.extendedProperties;
+        if (properties) {
+            resource.extendedProperties = { ...properties, private: withoutImportProperties(properties.private) };
+        }
+        return { kind: 'insert', calendarId: destination, resource };
+    }), options);
+};
+
+// Ripristina gli eventi di un backup nel calendario di destinazione. Gli eventi che provengono da quel calendario
+// tornano alla versione salvata (quelli eliminati vengono riattivati o ricreati, come in `restoreEvents`);
+// quelli di altri calendari vengono copiati come nuovi eventi, come in `copyEvents`.
+export const restoreBackupEvents = async (events: TrashedEvent[], destination: string, options: BatchOptions = {}): Promise<BatchItemResult[]> => {
+    const inPlace = events.filter(event => event.calendarId === destination);
+    const copies = events.filter(event => event.calendarId !== destination);
+    const reportFrom = (offset: number) => (completed: number) => options.onProgress?.(offset + completed, events.length);
+
+    const restored = await restoreEvents(inPlace, { onProgress: reportFrom(0) });
+    const copied = await copyEvents(copies, destination, { onProgress: reportFrom(inPlace.length) });
+    return events.map(event => (event.calendarId === destination ? restored.shift()! : copied.shift()!));
+};
+
 // Delete an event
 export const deleteEvent = async (calendarId: string, eventId: string) => {
-    try {
-        const response = await window.gapi.client.calendar.events.delete({
-            'calendarId': calendarId,
-            'eventId': eventId
-        });
-        return response;
-    } catch (error: any) {
-        console.error('Errore API di Google Calendar durante l\'eliminazione dell\'evento:', error);
-        const errorMessage = error.result?.error?.message || error.message || 'Errore sconosciuto durante l\'eliminazione.';
-        throw new Error(errorMessage);
-    }
+    return await gcalRequest("l'eliminazione dell'evento", () => window.gapi.client.calendar.events.delete({
+        'calendarId': calendarId,
+        'eventId': eventId
+    }));
 };
\ No newline at end of file
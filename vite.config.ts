@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'; // Importa il modulo 'path'
@@ -18,4 +19,8 @@ export default defineConfig({
   server: {
     host: true, // Rende il server accessibile sulla rete locale
   },
+  test: {
+    // Fuso orario fisso: molte funzioni convertono tra orari locali e UTC
+    env: { TZ: 'Europe/Rome' },
+  },
 })
\ No newline at end of file